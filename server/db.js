@@ -128,6 +128,7 @@ export const initDatabase = async (maxRetries = 15, retryDelay = 3000) => {
 
           CREATE INDEX IF NOT EXISTS idx_users_username ON users(LOWER(username));
           CREATE INDEX IF NOT EXISTS idx_users_email ON users(email) WHERE email IS NOT NULL;
+          ALTER TABLE users ADD COLUMN IF NOT EXISTS preferences JSONB NOT NULL DEFAULT '{}';
 
           CREATE TABLE IF NOT EXISTS bug_fix_blog (
             id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -150,6 +151,18 @@ export const initDatabase = async (maxRetries = 15, retryDelay = 3000) => {
           CREATE INDEX IF NOT EXISTS idx_labels_user_id ON labels(user_id);
           CREATE INDEX IF NOT EXISTS idx_labels_status ON labels(status);
           CREATE INDEX IF NOT EXISTS idx_labels_created_at ON labels(created_at DESC);
+          ALTER TABLE labels ADD COLUMN IF NOT EXISTS order_id TEXT;
+          ALTER TABLE labels ADD COLUMN IF NOT EXISTS order_item_id TEXT;
+          CREATE INDEX IF NOT EXISTS idx_labels_order_id ON labels(order_id) WHERE order_id IS NOT NULL;
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_labels_order_item
+            ON labels(order_id, order_item_id) WHERE order_id IS NOT NULL;
+          UPDATE labels SET order_item_id = 'legacy:' || id::text
+            WHERE order_id IS NOT NULL AND order_item_id IS NULL;
+          ALTER TABLE labels DROP CONSTRAINT IF EXISTS labels_order_item_required;
+          ALTER TABLE labels ADD CONSTRAINT labels_order_item_required
+            CHECK (order_id IS NULL OR order_item_id IS NOT NULL);
+          CREATE INDEX IF NOT EXISTS idx_labels_return_of
+            ON labels((label_data->>'returnOfLabelId')) WHERE label_data ? 'returnOfLabelId';
 
           CREATE TABLE IF NOT EXISTS account_products (
             id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -162,7 +175,125 @@ export const initDatabase = async (maxRetries = 15, retryDelay = 3000) => {
           );
           CREATE INDEX IF NOT EXISTS idx_account_products_country ON account_products(country);
           CREATE INDEX IF NOT EXISTS idx_account_products_price ON account_products(price_usd);
+
+          CREATE TABLE IF NOT EXISTS wallets (
+            user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+            balance DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (balance >= 0),
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+
+          CREATE TABLE IF NOT EXISTS ledger_entries (
+            id BIGSERIAL PRIMARY KEY,
+            user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            delta DECIMAL(12, 2) NOT NULL,
+            balance_after DECIMAL(12, 2) NOT NULL,
+            reason VARCHAR(50) NOT NULL,
+            meta JSONB NOT NULL DEFAULT '{}',
+            idempotency_key TEXT UNIQUE,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+          CREATE INDEX IF NOT EXISTS idx_ledger_entries_user_id ON ledger_entries(user_id, created_at DESC);
+
+          CREATE TABLE IF NOT EXISTS data_imports (
+            name VARCHAR(100) PRIMARY KEY,
+            details JSONB NOT NULL DEFAULT '{}',
+            imported_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+
+          CREATE TABLE IF NOT EXISTS coinbase_events (
+            event_id TEXT PRIMARY KEY,
+            charge_id TEXT,
+            event_type VARCHAR(50) NOT NULL,
+            outcome VARCHAR(30),
+            received_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+          CREATE INDEX IF NOT EXISTS idx_coinbase_events_charge_id ON coinbase_events(charge_id);
+
+          CREATE TABLE IF NOT EXISTS coinbase_charges (
+            charge_id TEXT PRIMARY KEY,
+            purpose VARCHAR(20) NOT NULL DEFAULT '',
+            user_id TEXT,
+            order_id TEXT,
+            expected_usd DECIMAL(12, 2),
+            paid_usd DECIMAL(12, 2),
+            status VARCHAR(20) NOT NULL DEFAULT 'pending'
+              CHECK (status IN ('pending', 'credited', 'paid', 'skipped', 'mismatched')),
+            detail TEXT,
+            ledger_entry_id BIGINT,
+            last_event_id TEXT,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+          CREATE INDEX IF NOT EXISTS idx_coinbase_charges_status ON coinbase_charges(status);
+
+          CREATE TABLE IF NOT EXISTS carriers (
+            id VARCHAR(50) PRIMARY KEY,
+            name VARCHAR(100) NOT NULL,
+            active BOOLEAN NOT NULL DEFAULT TRUE,
+            sort_order INTEGER NOT NULL DEFAULT 0,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+
+          CREATE TABLE IF NOT EXISTS carrier_services (
+            id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+            carrier_id VARCHAR(50) NOT NULL REFERENCES carriers(id) ON DELETE CASCADE,
+            name VARCHAR(100) NOT NULL,
+            domestic BOOLEAN NOT NULL DEFAULT TRUE,
+            international BOOLEAN NOT NULL DEFAULT FALSE,
+            max_weight_lbs DECIMAL(8, 2),
+            max_length_in DECIMAL(8, 2),
+            dim_divisor INTEGER NOT NULL DEFAULT 139,
+            price_tiers JSONB NOT NULL DEFAULT '[]',
+            active BOOLEAN NOT NULL DEFAULT TRUE,
+            sort_order INTEGER NOT NULL DEFAULT 0,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE (carrier_id, name)
+          );
+
+          ALTER TABLE carrier_services ADD COLUMN IF NOT EXISTS dim_divisor INTEGER NOT NULL DEFAULT 139;
+
+          CREATE TABLE IF NOT EXISTS address_book (
+            id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+            user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            label VARCHAR(100) NOT NULL,
+            name VARCHAR(100) NOT NULL,
+            address1 VARCHAR(200) NOT NULL,
+            city VARCHAR(100) NOT NULL,
+            state VARCHAR(100) NOT NULL DEFAULT '',
+            zip VARCHAR(20) NOT NULL DEFAULT '',
+            country VARCHAR(2) NOT NULL,
+            is_default_sender BOOLEAN NOT NULL DEFAULT FALSE,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+          CREATE INDEX IF NOT EXISTS idx_address_book_user_id ON address_book(user_id);
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_address_book_default_sender
+            ON address_book(user_id) WHERE is_default_sender;
+          ALTER TABLE address_book ADD COLUMN IF NOT EXISTS company VARCHAR(100) NOT NULL DEFAULT '';
+          ALTER TABLE address_book ADD COLUMN IF NOT EXISTS address2 VARCHAR(200) NOT NULL DEFAULT '';
+          ALTER TABLE address_book ADD COLUMN IF NOT EXISTS phone VARCHAR(30) NOT NULL DEFAULT '';
+          ALTER TABLE address_book ADD COLUMN IF NOT EXISTS email VARCHAR(254) NOT NULL DEFAULT '';
+
+          CREATE TABLE IF NOT EXISTS package_presets (
+            id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+            user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            name VARCHAR(100) NOT NULL,
+            units VARCHAR(10) NOT NULL DEFAULT 'imperial',
+            length DECIMAL(8, 2) NOT NULL,
+            width DECIMAL(8, 2) NOT NULL,
+            height DECIMAL(8, 2) NOT NULL,
+            weight DECIMAL(8, 2),
+            contents_description VARCHAR(200) NOT NULL DEFAULT '',
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+            updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+          );
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_package_presets_user_name
+            ON package_presets(user_id, LOWER(name));
         `);
+        await seedCarrierCatalog(client);
         console.log("✅ Database initialized successfully");
         return;
       } finally {
@@ -346,6 +477,38 @@ export const getUserById = async (id) => {
   }
 };
 
+// A user's saved preferences (see GET /api/preferences), or null when the
+// user does not exist.
+export const getUserPreferences = async (userId) => {
+  if (!isUuid(userId)) return null;
+  try {
+    const result = await pool.query(`SELECT preferences FROM users WHERE id = $1`, [userId]);
+    if (result.rows.length === 0) return null;
+    return result.rows[0].preferences || {};
+  } catch (err) {
+    console.error("Error getting user preferences:", err);
+    throw err;
+  }
+};
+
+// Merge `changes` into a user's saved preferences and return them all, or
+// null when the user does not exist.
+export const updateUserPreferences = async (userId, changes) => {
+  if (!isUuid(userId)) return null;
+  try {
+    const result = await pool.query(
+      `UPDATE users SET preferences = preferences || $2::jsonb, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 RETURNING preferences`,
+      [userId, JSON.stringify(changes || {})]
+    );
+    if (result.rows.length === 0) return null;
+    return result.rows[0].preferences || {};
+  } catch (err) {
+    console.error("Error updating user preferences:", err);
+    throw err;
+  }
+};
+
 // Create a new user
 export const createUser = async (userData) => {
   try {
@@ -589,19 +752,27 @@ export const deleteBlogPost = async (id) => {
 };
 
 // --- Labels ---
-export const createLabel = async (data) => {
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Whether `value` has the form of a UUID id. Postgres rejects a query that
+// compares a UUID column with anything else instead of matching nothing.
+export const isUuid = (value) => UUID_PATTERN.test(String(value ?? ""));
+
+// `client` is an open transaction client to write the label in, if any.
+export const createLabel = async (data, client = pool) => {
   try {
-    const { id, userId, labelData } = data;
-    const result = await pool.query(
-      `INSERT INTO labels (id, user_id, status, label_data)
-       VALUES ($1, $2, 'pending', $3::jsonb)
-       RETURNING id, user_id, status, decline_reason, label_data, files, created_at, updated_at`,
-      [id, userId, JSON.stringify(labelData || {})]
+    const { id, userId, labelData, orderId = null, orderItemId = null } = data;
+    const result = await client.query(
+      `INSERT INTO labels (id, user_id, status, label_data, order_id, order_item_id)
+       VALUES ($1, $2, 'pending', $3::jsonb, $4, $5)
+       RETURNING id, user_id, status, decline_reason, label_data, files, order_id, created_at, updated_at`,
+      [id, userId, JSON.stringify(labelData || {}), orderId, orderItemId]
     );
     const row = result.rows[0];
     return {
       id: row.id,
       userId: row.user_id,
+      orderId: row.order_id,
       status: row.status,
       declineReason: row.decline_reason,
       labelData: row.label_data,
@@ -615,11 +786,21 @@ export const createLabel = async (data) => {
   }
 };
 
+// Also returns `returnIds`: the return labels created for this one, oldest
+// first (the `?` condition repeats the predicate of idx_labels_return_of so
+// the lookup can use it). Null when there is no such label, including for ids
+// that are not UUIDs, so single-label routes answer 404 for them.
 export const getLabelById = async (id) => {
+  if (!isUuid(id)) return null;
   try {
     const result = await pool.query(
       `SELECT id, user_id as "userId", status, decline_reason as "declineReason",
-              label_data as "labelData", files, created_at as "createdAt", updated_at as "updatedAt"
+              label_data as "labelData", files, order_id as "orderId",
+              created_at as "createdAt", updated_at as "updatedAt",
+              ARRAY(SELECT r.id::text FROM labels r
+                    WHERE r.label_data ? 'returnOfLabelId'
+                      AND r.label_data->>'returnOfLabelId' = labels.id::text
+                    ORDER BY r.created_at) as "returnIds"
        FROM labels WHERE id = $1`,
       [id]
     );
@@ -628,10 +809,12 @@ export const getLabelById = async (id) => {
     return {
       id: row.id,
       userId: row.userId,
+      orderId: row.orderId,
       status: row.status,
       declineReason: row.declineReason,
       labelData: row.labelData || {},
       files: Array.isArray(row.files) ? row.files : [],
+      returnIds: Array.isArray(row.returnIds) ? row.returnIds : [],
       createdAt: row.createdAt?.toISOString?.(),
       updatedAt: row.updatedAt?.toISOString?.(),
     };
@@ -645,13 +828,15 @@ export const getLabelsByUserId = async (userId) => {
   try {
     const result = await pool.query(
       `SELECT id, user_id as "userId", status, decline_reason as "declineReason",
-              label_data as "labelData", files, created_at as "createdAt", updated_at as "updatedAt"
+              label_data as "labelData", files, order_id as "orderId",
+              created_at as "createdAt", updated_at as "updatedAt"
        FROM labels WHERE user_id = $1 ORDER BY created_at DESC`,
       [userId]
     );
     return result.rows.map((row) => ({
       id: row.id,
       userId: row.userId,
+      orderId: row.orderId,
       status: row.status,
       declineReason: row.declineReason,
       labelData: row.labelData || {},
@@ -665,11 +850,39 @@ export const getLabelsByUserId = async (userId) => {
   }
 };
 
+export const getLabelsByOrderId = async (orderId, client = pool) => {
+  try {
+    const result = await client.query(
+      `SELECT id, user_id as "userId", status, decline_reason as "declineReason",
+              label_data as "labelData", files, order_id as "orderId",
+              order_item_id as "orderItemId",
+              created_at as "createdAt", updated_at as "updatedAt"
+       FROM labels WHERE order_id = $1 ORDER BY created_at ASC`,
+      [orderId]
+    );
+    return result.rows.map((row) => ({
+      id: row.id,
+      userId: row.userId,
+      orderId: row.orderId,
+      orderItemId: row.orderItemId,
+      status: row.status,
+      declineReason: row.declineReason,
+      labelData: row.labelData || {},
+      files: Array.isArray(row.files) ? row.files : [],
+      createdAt: row.createdAt?.toISOString?.(),
+      updatedAt: row.updatedAt?.toISOString?.(),
+    }));
+  } catch (err) {
+    console.error("Error getting labels by order:", err);
+    throw err;
+  }
+};
+
 export const getAllLabels = async () => {
   try {
     const result = await pool.query(
       `SELECT l.id, l.user_id as "userId", l.status, l.decline_reason as "declineReason",
-              l.label_data as "labelData", l.files, l.created_at as "createdAt", l.updated_at as "updatedAt",
+              l.label_data as "labelData", l.files, l.order_id as "orderId", l.created_at as "createdAt", l.updated_at as "updatedAt",
               u.username
        FROM labels l
        LEFT JOIN users u ON u.id = l.user_id
@@ -679,6 +892,7 @@ export const getAllLabels = async () => {
       id: row.id,
       userId: row.userId,
       username: row.username,
+      orderId: row.orderId,
       status: row.status,
       declineReason: row.declineReason,
       labelData: row.labelData || {},
@@ -719,7 +933,8 @@ export const updateLabel = async (id, updates) => {
     const result = await pool.query(
       `UPDATE labels SET ${fields.join(", ")} WHERE id = $${paramCount}
        RETURNING id, user_id as "userId", status, decline_reason as "declineReason",
-                 label_data as "labelData", files, created_at as "createdAt", updated_at as "updatedAt"`,
+                 label_data as "labelData", files, order_id as "orderId",
+                 created_at as "createdAt", updated_at as "updatedAt"`,
       values
     );
     if (result.rows.length === 0) return null;
@@ -727,6 +942,7 @@ export const updateLabel = async (id, updates) => {
     return {
       id: row.id,
       userId: row.userId,
+      orderId: row.orderId,
       status: row.status,
       declineReason: row.declineReason,
       labelData: row.labelData || {},
@@ -740,6 +956,257 @@ export const updateLabel = async (id, updates) => {
   }
 };
 
+// --- Address book ---
+// Saved from/to addresses per user. At most one entry per user is the
+// default sender (enforced by idx_address_book_default_sender), so setting
+// a new one clears the previous flag in the same transaction.
+
+const ADDRESS_COLUMNS = `id, user_id, label, name, company, address1, address2, city, state, zip,
+  country, phone, email, is_default_sender, created_at, updated_at`;
+
+const mapAddressRow = (row) => ({
+  id: row.id,
+  userId: row.user_id,
+  label: row.label,
+  name: row.name,
+  company: row.company,
+  address1: row.address1,
+  address2: row.address2,
+  city: row.city,
+  state: row.state,
+  zip: row.zip,
+  country: row.country,
+  phone: row.phone,
+  email: row.email,
+  isDefaultSender: row.is_default_sender,
+  createdAt: row.created_at?.toISOString?.(),
+  updatedAt: row.updated_at?.toISOString?.(),
+});
+
+// A user's entries, default sender first. `q` matches the label, name,
+// company, street, city or postal code (case-insensitive substring).
+export const getAddressBookEntries = async (userId, { q = "" } = {}) => {
+  try {
+    const search = String(q).trim();
+    const values = [userId];
+    let where = "user_id = $1";
+    if (search) {
+      values.push(`%${search.replace(/[\\%_]/g, "\\$&")}%`);
+      where += ` AND (label ILIKE $2 OR name ILIKE $2 OR company ILIKE $2 OR address1 ILIKE $2 OR city ILIKE $2 OR zip ILIKE $2)`;
+    }
+    const result = await pool.query(
+      `SELECT ${ADDRESS_COLUMNS} FROM address_book
+       WHERE ${where}
+       ORDER BY is_default_sender DESC, LOWER(label), LOWER(name)`,
+      values
+    );
+    return result.rows.map(mapAddressRow);
+  } catch (err) {
+    console.error("Error getting address book:", err);
+    throw err;
+  }
+};
+
+const clearDefaultSender = (client, userId, exceptId = null) =>
+  client.query(
+    `UPDATE address_book SET is_default_sender = FALSE, updated_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND is_default_sender AND id IS DISTINCT FROM $2`,
+    [userId, exceptId]
+  );
+
+export const createAddressBookEntry = async (userId, data) => {
+  try {
+    return await withTransaction(async (client) => {
+      if (data.isDefaultSender) await clearDefaultSender(client, userId);
+      const result = await client.query(
+        `INSERT INTO address_book
+           (user_id, label, name, company, address1, address2, city, state, zip, country,
+            phone, email, is_default_sender)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+         RETURNING ${ADDRESS_COLUMNS}`,
+        [
+          userId,
+          data.label,
+          data.name,
+          data.company,
+          data.address1,
+          data.address2,
+          data.city,
+          data.state,
+          data.zip,
+          data.country,
+          data.phone,
+          data.email,
+          Boolean(data.isDefaultSender),
+        ]
+      );
+      return mapAddressRow(result.rows[0]);
+    });
+  } catch (err) {
+    console.error("Error creating address book entry:", err);
+    throw err;
+  }
+};
+
+// Returns null when the entry does not exist (or the id is not a UUID) or
+// belongs to another user.
+export const updateAddressBookEntry = async (id, userId, data) => {
+  if (!isUuid(id)) return null;
+  try {
+    return await withTransaction(async (client) => {
+      if (data.isDefaultSender) await clearDefaultSender(client, userId, id);
+      const result = await client.query(
+        `UPDATE address_book
+         SET label = $3, name = $4, company = $5, address1 = $6, address2 = $7, city = $8,
+             state = $9, zip = $10, country = $11, phone = $12, email = $13,
+             is_default_sender = $14, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND user_id = $2
+         RETURNING ${ADDRESS_COLUMNS}`,
+        [
+          id,
+          userId,
+          data.label,
+          data.name,
+          data.company,
+          data.address1,
+          data.address2,
+          data.city,
+          data.state,
+          data.zip,
+          data.country,
+          data.phone,
+          data.email,
+          Boolean(data.isDefaultSender),
+        ]
+      );
+      return result.rows.length > 0 ? mapAddressRow(result.rows[0]) : null;
+    });
+  } catch (err) {
+    console.error("Error updating address book entry:", err);
+    throw err;
+  }
+};
+
+export const deleteAddressBookEntry = async (id, userId) => {
+  if (!isUuid(id)) return false;
+  try {
+    const result = await pool.query(
+      `DELETE FROM address_book WHERE id = $1 AND user_id = $2 RETURNING id`,
+      [id, userId]
+    );
+    return result.rows.length > 0;
+  } catch (err) {
+    console.error("Error deleting address book entry:", err);
+    throw err;
+  }
+};
+
+// --- Package presets ---
+// Named box sizes per user. Sizes and the optional default weight are kept
+// in the units they were entered in; names are unique per user, ignoring
+// case (idx_package_presets_user_name), so the CSV import can refer to them.
+
+const PRESET_COLUMNS = `id, user_id, name, units, length, width, height, weight,
+  contents_description, created_at, updated_at`;
+
+const mapPresetRow = (row) => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  units: row.units,
+  length: Number(row.length),
+  width: Number(row.width),
+  height: Number(row.height),
+  weight: row.weight === null ? null : Number(row.weight),
+  contentsDescription: row.contents_description,
+  createdAt: row.created_at?.toISOString?.(),
+  updatedAt: row.updated_at?.toISOString?.(),
+});
+
+export const getPackagePresets = async (userId) => {
+  try {
+    const result = await pool.query(
+      `SELECT ${PRESET_COLUMNS} FROM package_presets
+       WHERE user_id = $1
+       ORDER BY LOWER(name)`,
+      [userId]
+    );
+    return result.rows.map(mapPresetRow);
+  } catch (err) {
+    console.error("Error getting package presets:", err);
+    throw err;
+  }
+};
+
+export const createPackagePreset = async (userId, data) => {
+  try {
+    const result = await pool.query(
+      `INSERT INTO package_presets
+         (user_id, name, units, length, width, height, weight, contents_description)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING ${PRESET_COLUMNS}`,
+      [
+        userId,
+        data.name,
+        data.units,
+        data.length,
+        data.width,
+        data.height,
+        data.weight,
+        data.contentsDescription,
+      ]
+    );
+    return mapPresetRow(result.rows[0]);
+  } catch (err) {
+    console.error("Error creating package preset:", err);
+    throw err;
+  }
+};
+
+// Returns null when the preset does not exist (or the id is not a UUID) or
+// belongs to another user.
+export const updatePackagePreset = async (id, userId, data) => {
+  if (!isUuid(id)) return null;
+  try {
+    const result = await pool.query(
+      `UPDATE package_presets
+       SET name = $3, units = $4, length = $5, width = $6, height = $7, weight = $8,
+           contents_description = $9, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2
+       RETURNING ${PRESET_COLUMNS}`,
+      [
+        id,
+        userId,
+        data.name,
+        data.units,
+        data.length,
+        data.width,
+        data.height,
+        data.weight,
+        data.contentsDescription,
+      ]
+    );
+    return result.rows.length > 0 ? mapPresetRow(result.rows[0]) : null;
+  } catch (err) {
+    console.error("Error updating package preset:", err);
+    throw err;
+  }
+};
+
+export const deletePackagePreset = async (id, userId) => {
+  if (!isUuid(id)) return false;
+  try {
+    const result = await pool.query(
+      `DELETE FROM package_presets WHERE id = $1 AND user_id = $2 RETURNING id`,
+      [id, userId]
+    );
+    return result.rows.length > 0;
+  } catch (err) {
+    console.error("Error deleting package preset:", err);
+    throw err;
+  }
+};
+
 // Account Products functions
 export const getAllAccountProducts = async () => {
   try {
@@ -763,6 +1230,30 @@ export const getAllAccountProducts = async () => {
   }
 };
 
+export const getAccountProductsByIds = async (ids) => {
+  try {
+    if (!Array.isArray(ids) || ids.length === 0) return [];
+    const result = await pool.query(
+      `SELECT id, service, informations, country, price_usd as "priceUsd",
+              created_at as "createdAt", updated_at as "updatedAt"
+       FROM account_products WHERE id::text = ANY($1::text[])`,
+      [ids.map(String)]
+    );
+    return result.rows.map((row) => ({
+      id: row.id,
+      service: row.service,
+      informations: row.informations || "",
+      country: row.country,
+      priceUsd: Number(row.priceUsd || 0),
+      createdAt: row.createdAt?.toISOString(),
+      updatedAt: row.updatedAt?.toISOString(),
+    }));
+  } catch (err) {
+    console.error("Error getting account products by id:", err);
+    throw err;
+  }
+};
+
 export const createAccountProduct = async (data) => {
   try {
     const result = await pool.query(
@@ -807,4 +1298,724 @@ export const deleteAccountProduct = async (id) => {
   }
 };
 
+// --- Carrier / service catalog ---
+// Carriers are keyed by a short slug ("usps") and services by name within a
+// carrier; both strings are what cart label items store in `carrier` and
+// `service`. Each service has optional weight/length limits, the routes it
+// serves, the divisor for dimensional weight (L × W × H / divisor, in inches
+// and lbs), and `price_tiers`: [{ maxWeightLbs, priceUsd }] sorted by weight.
+// Tier prices are the zone 1–2 rate for the billable weight; server/rates.js
+// scales them by zone.
+
+const DEFAULT_CARRIER_CATALOG = [
+  {
+    id: "usps",
+    name: "USPS",
+    dimDivisor: 166,
+    services: [
+      { name: "Ground Advantage", domestic: true, international: false, maxWeightLbs: 70, maxLengthIn: 108,
+        priceTiers: [[1, 4.5], [5, 7.5], [20, 12], [70, 22]] },
+      { name: "Priority Mail", domestic: true, international: false, maxWeightLbs: 70, maxLengthIn: 108,
+        priceTiers: [[1, 7.5], [5, 11], [20, 18], [70, 32]] },
+      { name: "Priority Mail Express", domestic: true, international: false, maxWeightLbs: 70, maxLengthIn: 108,
+        priceTiers: [[1, 24], [5, 32], [20, 48], [70, 80]] },
+      { name: "Priority Mail International", domestic: false, international: true, maxWeightLbs: 70, maxLengthIn: 108,
+        priceTiers: [[1, 32], [5, 45], [20, 75], [70, 140]] },
+      { name: "First-Class Package International", domestic: false, international: true, maxWeightLbs: 4, maxLengthIn: 24,
+        priceTiers: [[1, 14], [4, 28]] },
+    ],
+  },
+  {
+    id: "ups",
+    name: "UPS",
+    services: [
+      { name: "Ground", domestic: true, international: false, maxWeightLbs: 150, maxLengthIn: 108,
+        priceTiers: [[5, 8], [20, 14], [70, 28], [150, 55]] },
+      { name: "3 Day Select", domestic: true, international: false, maxWeightLbs: 150, maxLengthIn: 108,
+        priceTiers: [[5, 14], [20, 24], [70, 45], [150, 90]] },
+      { name: "2nd Day Air", domestic: true, international: false, maxWeightLbs: 150, maxLengthIn: 108,
+        priceTiers: [[5, 18], [20, 32], [70, 60], [150, 120]] },
+      { name: "Next Day Air", domestic: true, international: false, maxWeightLbs: 150, maxLengthIn: 108,
+        priceTiers: [[5, 32], [20, 55], [70, 110], [150, 200]] },
+      { name: "Worldwide Expedited", domestic: false, international: true, maxWeightLbs: 150, maxLengthIn: 108,
+        priceTiers: [[5, 45], [20, 90], [70, 180], [150, 320]] },
+    ],
+  },
+  {
+    id: "fedex",
+    name: "FedEx",
+    services: [
+      { name: "Ground", domestic: true, international: false, maxWeightLbs: 150, maxLengthIn: 108,
+        priceTiers: [[5, 8], [20, 14], [70, 28], [150, 55]] },
+      { name: "Express Saver", domestic: true, international: false, maxWeightLbs: 150, maxLengthIn: 108,
+        priceTiers: [[5, 14], [20, 24], [70, 45], [150, 90]] },
+      { name: "2Day", domestic: true, international: false, maxWeightLbs: 150, maxLengthIn: 108,
+        priceTiers: [[5, 18], [20, 32], [70, 60], [150, 120]] },
+      { name: "Standard Overnight", domestic: true, international: false, maxWeightLbs: 150, maxLengthIn: 108,
+        priceTiers: [[5, 30], [20, 52], [70, 105], [150, 190]] },
+      { name: "International Economy", domestic: false, international: true, maxWeightLbs: 150, maxLengthIn: 108,
+        priceTiers: [[5, 42], [20, 85], [70, 170], [150, 300]] },
+    ],
+  },
+  {
+    id: "dhl",
+    name: "DHL",
+    services: [
+      { name: "Express Worldwide", domestic: false, international: true, maxWeightLbs: 154, maxLengthIn: 47,
+        priceTiers: [[5, 40], [20, 80], [70, 160], [154, 300]] },
+      { name: "Express 12:00", domestic: false, international: true, maxWeightLbs: 154, maxLengthIn: 47,
+        priceTiers: [[5, 55], [20, 100], [70, 190], [154, 350]] },
+    ],
+  },
+];
+
+// Insert the default catalog the first time the tables are created. Runs on
+// the init client; an existing catalog (even an empty-by-choice one with
+// carriers deactivated) is left alone.
+const seedCarrierCatalog = async (client) => {
+  const existing = await client.query(`SELECT 1 FROM carriers LIMIT 1`);
+  if (existing.rows.length > 0) return;
+  for (const [ci, carrier] of DEFAULT_CARRIER_CATALOG.entries()) {
+    await client.query(
+      `INSERT INTO carriers (id, name, sort_order) VALUES ($1, $2, $3)`,
+      [carrier.id, carrier.name, ci]
+    );
+    for (const [si, s] of carrier.services.entries()) {
+      await client.query(
+        `INSERT INTO carrier_services
+           (carrier_id, name, domestic, international, max_weight_lbs, max_length_in, dim_divisor,
+            price_tiers, sort_order)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9)`,
+        [
+          carrier.id,
+          s.name,
+          s.domestic,
+          s.international,
+          s.maxWeightLbs,
+          s.maxLengthIn,
+          carrier.dimDivisor || 139,
+          JSON.stringify(s.priceTiers.map(([maxWeightLbs, priceUsd]) => ({ maxWeightLbs, priceUsd }))),
+          si,
+        ]
+      );
+    }
+  }
+  console.log("Seeded default carrier catalog");
+};
+
+const numberOrNull = (v) => (v === null || v === undefined ? null : Number(v));
+
+const mapServiceRow = (row) => ({
+  id: row.id,
+  carrierId: row.carrier_id,
+  name: row.name,
+  domestic: row.domestic,
+  international: row.international,
+  maxWeightLbs: numberOrNull(row.max_weight_lbs),
+  maxLengthIn: numberOrNull(row.max_length_in),
+  dimDivisor: Number(row.dim_divisor),
+  priceTiers: Array.isArray(row.price_tiers) ? row.price_tiers : [],
+  active: row.active,
+  sortOrder: row.sort_order,
+  createdAt: row.created_at?.toISOString?.(),
+  updatedAt: row.updated_at?.toISOString?.(),
+});
+
+const SERVICE_COLUMNS = `id, carrier_id, name, domestic, international, max_weight_lbs, max_length_in,
+  dim_divisor, price_tiers, active, sort_order, created_at, updated_at`;
+
+// Carriers with their services nested, in display order. Inactive carriers and
+// services are left out unless `includeInactive` is set (admin view).
+export const getCarrierCatalog = async ({ includeInactive = false } = {}) => {
+  try {
+    const carriers = await pool.query(
+      `SELECT id, name, active, sort_order, created_at, updated_at
+       FROM carriers
+       ${includeInactive ? "" : "WHERE active = TRUE"}
+       ORDER BY sort_order, name`
+    );
+    const services = await pool.query(
+      `SELECT ${SERVICE_COLUMNS}
+       FROM carrier_services
+       ${includeInactive ? "" : "WHERE active = TRUE"}
+       ORDER BY sort_order, name`
+    );
+    const byCarrier = new Map();
+    for (const row of services.rows) {
+      const list = byCarrier.get(row.carrier_id) || [];
+      list.push(mapServiceRow(row));
+      byCarrier.set(row.carrier_id, list);
+    }
+    return carriers.rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      active: row.active,
+      sortOrder: row.sort_order,
+      services: byCarrier.get(row.id) || [],
+      createdAt: row.created_at?.toISOString?.(),
+      updatedAt: row.updated_at?.toISOString?.(),
+    }));
+  } catch (err) {
+    console.error("Error getting carrier catalog:", err);
+    throw err;
+  }
+};
+
+export const upsertCarrier = async (data) => {
+  try {
+    const result = await pool.query(
+      `INSERT INTO carriers (id, name, active, sort_order)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (id) DO UPDATE
+         SET name = EXCLUDED.name, active = EXCLUDED.active,
+             sort_order = EXCLUDED.sort_order, updated_at = CURRENT_TIMESTAMP
+       RETURNING id, name, active, sort_order`,
+      [data.id, data.name, data.active !== false, Number(data.sortOrder || 0)]
+    );
+    const row = result.rows[0];
+    return { id: row.id, name: row.name, active: row.active, sortOrder: row.sort_order };
+  } catch (err) {
+    console.error("Error saving carrier:", err);
+    throw err;
+  }
+};
+
+export const deleteCarrier = async (id) => {
+  try {
+    const result = await pool.query(`DELETE FROM carriers WHERE id = $1 RETURNING id`, [id]);
+    return result.rows.length > 0;
+  } catch (err) {
+    console.error("Error deleting carrier:", err);
+    throw err;
+  }
+};
+
+export const createCarrierService = async (carrierId, data) => {
+  try {
+    const result = await pool.query(
+      `INSERT INTO carrier_services
+         (carrier_id, name, domestic, international, max_weight_lbs, max_length_in, dim_divisor,
+          price_tiers, active, sort_order)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9, $10)
+       RETURNING ${SERVICE_COLUMNS}`,
+      [
+        carrierId,
+        data.name,
+        data.domestic,
+        data.international,
+        data.maxWeightLbs,
+        data.maxLengthIn,
+        data.dimDivisor,
+        JSON.stringify(data.priceTiers),
+        data.active !== false,
+        Number(data.sortOrder || 0),
+      ]
+    );
+    return mapServiceRow(result.rows[0]);
+  } catch (err) {
+    console.error("Error creating carrier service:", err);
+    throw err;
+  }
+};
+
+// Returns null when the service does not exist or the id is not a UUID.
+export const updateCarrierService = async (id, data) => {
+  if (!isUuid(id)) return null;
+  try {
+    const result = await pool.query(
+      `UPDATE carrier_services
+       SET name = $2, domestic = $3, international = $4, max_weight_lbs = $5,
+           max_length_in = $6, dim_divisor = $7, price_tiers = $8::jsonb, active = $9, sort_order = $10,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING ${SERVICE_COLUMNS}`,
+      [
+        id,
+        data.name,
+        data.domestic,
+        data.international,
+        data.maxWeightLbs,
+        data.maxLengthIn,
+        data.dimDivisor,
+        JSON.stringify(data.priceTiers),
+        data.active !== false,
+        Number(data.sortOrder || 0),
+      ]
+    );
+    return result.rows.length > 0 ? mapServiceRow(result.rows[0]) : null;
+  } catch (err) {
+    console.error("Error updating carrier service:", err);
+    throw err;
+  }
+};
+
+export const deleteCarrierService = async (id) => {
+  if (!isUuid(id)) return false;
+  try {
+    const result = await pool.query(
+      `DELETE FROM carrier_services WHERE id = $1 RETURNING id`,
+      [id]
+    );
+    return result.rows.length > 0;
+  } catch (err) {
+    console.error("Error deleting carrier service:", err);
+    throw err;
+  }
+};
+
+// --- Wallets / credit ledger ---
+// Every balance change writes a ledger_entries row in the same transaction
+// that updates wallets.balance, so SUM(delta) per user always equals the
+// stored balance. The wallet row is locked (SELECT ... FOR UPDATE) while the
+// new balance is computed, which serialises concurrent spends per user.
+
+// Run `fn(client)` inside BEGIN/COMMIT on a dedicated client, rolling back
+// if it throws.
+export const withTransaction = async (fn) => {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (err) {
+    try {
+      await client.query("ROLLBACK");
+    } catch (rollbackErr) {
+      console.error("Error rolling back transaction:", rollbackErr);
+    }
+    throw err;
+  } finally {
+    client.release();
+  }
+};
+
+const toMoney = (value) => Number(Number(value || 0).toFixed(2));
+
+const mapLedgerRow = (row) => ({
+  id: String(row.id),
+  userId: row.user_id,
+  delta: toMoney(row.delta),
+  balanceAfter: toMoney(row.balance_after),
+  reason: row.reason,
+  meta: row.meta || {},
+  idempotencyKey: row.idempotency_key,
+  createdAt: row.created_at?.toISOString?.(),
+});
+
+// Apply `delta` to a user's wallet on an open transaction client. Returns
+// `{ balance, entry, duplicate }`; when `idempotencyKey` was already used the
+// existing entry is returned and nothing changes.
+const applyWalletDelta = async (client, { userId, delta, reason, meta, idempotencyKey }) => {
+  const amount = toMoney(delta);
+  await client.query(
+    `INSERT INTO wallets (user_id) VALUES ($1) ON CONFLICT (user_id) DO NOTHING`,
+    [userId]
+  );
+  const locked = await client.query(
+    `SELECT balance FROM wallets WHERE user_id = $1 FOR UPDATE`,
+    [userId]
+  );
+  const prev = toMoney(locked.rows[0]?.balance);
+
+  if (idempotencyKey) {
+    const existing = await client.query(
+      `SELECT id, user_id, delta, balance_after, reason, meta, idempotency_key, created_at
+       FROM ledger_entries WHERE idempotency_key = $1`,
+      [idempotencyKey]
+    );
+    if (existing.rows.length > 0) {
+      return { balance: prev, entry: mapLedgerRow(existing.rows[0]), duplicate: true };
+    }
+  }
+
+  const next = toMoney(prev + amount);
+  if (next < 0) {
+    const err = new Error(
+      `Insufficient credits. Balance: $${prev.toFixed(2)}, total: $${Math.abs(amount).toFixed(2)}.`
+    );
+    err.code = "INSUFFICIENT_CREDITS";
+    err.balance = prev;
+    throw err;
+  }
+
+  await client.query(
+    `UPDATE wallets SET balance = $2, updated_at = CURRENT_TIMESTAMP WHERE user_id = $1`,
+    [userId, next]
+  );
+  const inserted = await client.query(
+    `INSERT INTO ledger_entries (user_id, delta, balance_after, reason, meta, idempotency_key)
+     VALUES ($1, $2, $3, $4, $5::jsonb, $6)
+     RETURNING id, user_id, delta, balance_after, reason, meta, idempotency_key, created_at`,
+    [userId, amount, next, String(reason || ""), JSON.stringify(meta || {}), idempotencyKey || null]
+  );
+  return { balance: next, entry: mapLedgerRow(inserted.rows[0]), duplicate: false };
+};
+
+export const getWalletBalance = async (userId) => {
+  try {
+    const result = await pool.query(
+      `SELECT balance FROM wallets WHERE user_id = $1`,
+      [userId]
+    );
+    return toMoney(result.rows[0]?.balance);
+  } catch (err) {
+    console.error("Error getting wallet balance:", err);
+    throw err;
+  }
+};
+
+// Credit (positive `delta`) or debit (negative `delta`) a wallet atomically.
+// Debits that would take the balance below zero throw an error with
+// `code === "INSUFFICIENT_CREDITS"` and leave the wallet untouched.
+export const changeWalletBalance = async (data) => {
+  try {
+    return await withTransaction((client) => applyWalletDelta(client, data));
+  } catch (err) {
+    if (err.code !== "INSUFFICIENT_CREDITS") {
+      console.error("Error changing wallet balance:", err);
+    }
+    throw err;
+  }
+};
+
+// Debit a wallet for an order and call `applyOrder(client)` before COMMIT,
+// so whatever it writes on `client` (the order's labels) lands together with
+// the debit, and a failure there leaves the wallet untouched. Returns the
+// debit's `{ balance, entry, duplicate }` plus `applied`, the result of
+// `applyOrder`. Throws like changeWalletBalance.
+export const spendWalletCredits = async (data, applyOrder) => {
+  try {
+    return await withTransaction(async (client) => {
+      const debit = await applyWalletDelta(client, data);
+      const applied = await applyOrder(client);
+      return { ...debit, applied };
+    });
+  } catch (err) {
+    if (err.code !== "INSUFFICIENT_CREDITS") {
+      console.error("Error spending wallet credits:", err);
+    }
+    throw err;
+  }
+};
+
+export const getLedgerEntriesByUserId = async (userId, limit = 100) => {
+  try {
+    const result = await pool.query(
+      `SELECT id, user_id, delta, balance_after, reason, meta, idempotency_key, created_at
+       FROM ledger_entries WHERE user_id = $1
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    return result.rows.map(mapLedgerRow);
+  } catch (err) {
+    console.error("Error getting ledger entries:", err);
+    throw err;
+  }
+};
+
+// Wallets whose stored balance differs from the sum of their ledger entries.
+// Should always be empty; exposed so admins can check.
+export const findWalletLedgerMismatches = async () => {
+  try {
+    const result = await pool.query(
+      `SELECT w.user_id, w.balance, COALESCE(SUM(l.delta), 0) AS ledger_total
+       FROM wallets w
+       LEFT JOIN ledger_entries l ON l.user_id = w.user_id
+       GROUP BY w.user_id, w.balance
+       HAVING w.balance <> COALESCE(SUM(l.delta), 0)`
+    );
+    return result.rows.map((row) => ({
+      userId: row.user_id,
+      balance: toMoney(row.balance),
+      ledgerTotal: toMoney(row.ledger_total),
+    }));
+  } catch (err) {
+    console.error("Error checking wallet ledger:", err);
+    throw err;
+  }
+};
+
+// One-time import of the legacy data/wallets.json + credit-ledger.txt files.
+// `wallets` is the parsed JSON object ({ [userId]: { balance } }) and
+// `ledgerLines` the parsed JSONL entries. Runs once per database: a row in
+// data_imports marks it done. Ledger lines are copied as-is; if they do not
+// add up to the JSON balance an `import_adjustment` entry makes up the
+// difference, since the JSON file was the source of truth for balances.
+export const importLegacyWallets = async ({ wallets, ledgerLines }) => {
+  try {
+    return await withTransaction(async (client) => {
+      const marker = await client.query(
+        `INSERT INTO data_imports (name) VALUES ('legacy-wallets')
+         ON CONFLICT (name) DO NOTHING RETURNING name`
+      );
+      if (marker.rows.length === 0) return { skipped: true };
+
+      const known = await client.query(`SELECT id::text AS id FROM users`);
+      const userIds = new Set(known.rows.map((r) => r.id));
+      const totals = new Map();
+      let entries = 0;
+      const unknownUsers = new Set();
+
+      for (const line of ledgerLines) {
+        const userId = String(line?.userId ?? "");
+        const delta = toMoney(line?.delta);
+        if (!userIds.has(userId)) {
+          if (userId) unknownUsers.add(userId);
+          continue;
+        }
+        const at = line?.at && !Number.isNaN(Date.parse(line.at)) ? line.at : new Date().toISOString();
+        const total = toMoney((totals.get(userId) || 0) + delta);
+        totals.set(userId, total);
+        await client.query(
+          `INSERT INTO ledger_entries (user_id, delta, balance_after, reason, meta, created_at)
+           VALUES ($1, $2, $3, $4, $5::jsonb, $6)`,
+          [
+            userId,
+            delta,
+            total,
+            String(line?.reason || "legacy"),
+            JSON.stringify({ ...(line?.meta || {}), legacy: true }),
+            at,
+          ]
+        );
+        entries += 1;
+      }
+
+      const balances = new Map(totals);
+      for (const [userId, entry] of Object.entries(wallets || {})) {
+        if (!userIds.has(userId)) {
+          unknownUsers.add(userId);
+          continue;
+        }
+        if (entry && typeof entry.balance === "number") {
+          balances.set(userId, toMoney(entry.balance));
+        }
+      }
+
+      let adjustments = 0;
+      for (const [userId, balance] of balances) {
+        const ledgerTotal = totals.get(userId) || 0;
+        const diff = toMoney(balance - ledgerTotal);
+        if (diff !== 0) {
+          await client.query(
+            `INSERT INTO ledger_entries (user_id, delta, balance_after, reason, meta)
+             VALUES ($1, $2, $3, 'import_adjustment', $4::jsonb)`,
+            [userId, diff, balance, JSON.stringify({ legacy: true, ledgerTotal })]
+          );
+          adjustments += 1;
+        }
+        await client.query(
+          `INSERT INTO wallets (user_id, balance) VALUES ($1, $2)
+           ON CONFLICT (user_id) DO UPDATE
+             SET balance = wallets.balance + EXCLUDED.balance, updated_at = CURRENT_TIMESTAMP`,
+          [userId, balance]
+        );
+      }
+
+      const summary = {
+        wallets: balances.size,
+        entries,
+        adjustments,
+        unknownUsers: unknownUsers.size,
+      };
+      await client.query(
+        `UPDATE data_imports SET details = $1::jsonb WHERE name = 'legacy-wallets'`,
+        [JSON.stringify(summary)]
+      );
+      return { skipped: false, ...summary };
+    });
+  } catch (err) {
+    console.error("Error importing legacy wallets:", err);
+    throw err;
+  }
+};
+
+// --- Coinbase Commerce charges ---
+// coinbase_events remembers every webhook event id so redeliveries are
+// ignored; coinbase_charges holds one row per charge with the outcome of
+// applying it. A charge is credited (top-up) or marked paid (order) at most
+// once, no matter how many confirmed/resolved events arrive for it.
+
+const COINBASE_AMOUNT_TOLERANCE = 0.01;
+
+// Record a Coinbase webhook event and, the first time a charge is seen as
+// paid, apply it. Top-ups are credited through the wallet ledger in the same
+// transaction; orders call `applyOrder(client)` before COMMIT, so what it
+// writes on `client` (the order's labels) commits with the charge, and a
+// failure there rolls the event back and Coinbase's retry is processed again.
+// Returns `{ outcome, detail }` where outcome is one of "duplicate_event",
+// "already_applied", "credited", "paid", "mismatched" or "skipped".
+export const applyCoinbaseChargeEvent = async (event, applyOrder) => {
+  const {
+    eventId,
+    eventType,
+    chargeId,
+    purpose = "",
+    userId = "",
+    orderId = "",
+    expectedUsd = null,
+    paidUsd = null,
+  } = event;
+  try {
+    return await withTransaction(async (client) => {
+      if (eventId) {
+        const inserted = await client.query(
+          `INSERT INTO coinbase_events (event_id, charge_id, event_type)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (event_id) DO NOTHING RETURNING event_id`,
+          [eventId, chargeId || null, eventType]
+        );
+        if (inserted.rows.length === 0) {
+          return { outcome: "duplicate_event", detail: "Event already processed." };
+        }
+      }
+
+      const finish = async (outcome, detail) => {
+        if (eventId) {
+          await client.query(
+            `UPDATE coinbase_events SET outcome = $2 WHERE event_id = $1`,
+            [eventId, outcome]
+          );
+        }
+        return { outcome, detail };
+      };
+
+      if (!chargeId) return finish("skipped", "Event has no charge id.");
+
+      await client.query(
+        `INSERT INTO coinbase_charges (charge_id, purpose, user_id, order_id, expected_usd)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (charge_id) DO NOTHING`,
+        [chargeId, purpose, userId || null, orderId || null, expectedUsd]
+      );
+      const locked = await client.query(
+        `SELECT status FROM coinbase_charges WHERE charge_id = $1 FOR UPDATE`,
+        [chargeId]
+      );
+      const current = locked.rows[0]?.status;
+      if (current === "credited" || current === "paid") {
+        return finish("already_applied", `Charge already ${current}.`);
+      }
+
+      let status;
+      let detail = null;
+      let ledgerEntryId = null;
+      const expected = expectedUsd === null ? null : toMoney(expectedUsd);
+      const paid = paidUsd === null ? null : toMoney(paidUsd);
+      const mismatched =
+        expected !== null &&
+        paid !== null &&
+        Math.abs(paid - expected) >= COINBASE_AMOUNT_TOLERANCE;
+
+      if (purpose === "topup") {
+        if (!userId || expected === null || expected <= 0) {
+          status = "skipped";
+          detail = "Top-up is missing a user or amount.";
+        } else if (mismatched) {
+          status = "mismatched";
+          detail = `Paid $${paid.toFixed(2)}, expected $${expected.toFixed(2)}.`;
+        } else {
+          const applied = await applyWalletDelta(client, {
+            userId,
+            delta: expected,
+            reason: "topup",
+            meta: { chargeId, type: eventType },
+            idempotencyKey: `coinbase:${chargeId}`,
+          });
+          status = "credited";
+          ledgerEntryId = applied.entry.id;
+        }
+      } else if (orderId) {
+        if (mismatched) {
+          status = "mismatched";
+          detail = `Paid $${paid.toFixed(2)}, order total $${expected.toFixed(2)}.`;
+        } else {
+          await applyOrder(client);
+          status = "paid";
+        }
+      } else {
+        status = "skipped";
+        detail = "Charge has no order or top-up metadata.";
+      }
+
+      await client.query(
+        `UPDATE coinbase_charges
+         SET status = $2, detail = $3, paid_usd = $4, ledger_entry_id = $5,
+             last_event_id = $6, updated_at = CURRENT_TIMESTAMP
+         WHERE charge_id = $1`,
+        [chargeId, status, detail, paid, ledgerEntryId, eventId || null]
+      );
+      return finish(status, detail);
+    });
+  } catch (err) {
+    console.error("Error applying Coinbase charge event:", err);
+    throw err;
+  }
+};
+
+// Reconciliation report over all recorded charges. Each row gets a `result`
+// of "credited", "skipped" or "mismatched"; a charge marked credited whose
+// ledger entry is missing or has a different amount counts as mismatched.
+export const getCoinbaseReconciliation = async () => {
+  try {
+    const result = await pool.query(
+      `SELECT c.charge_id, c.purpose, c.user_id, c.order_id, c.expected_usd, c.paid_usd,
+              c.status, c.detail, c.created_at, c.updated_at,
+              l.delta AS ledger_delta,
+              (SELECT COUNT(*) FROM coinbase_events e WHERE e.charge_id = c.charge_id) AS event_count
+       FROM coinbase_charges c
+       LEFT JOIN ledger_entries l ON l.idempotency_key = 'coinbase:' || c.charge_id
+       ORDER BY c.updated_at DESC`
+    );
+    const charges = result.rows.map((row) => {
+      const expectedUsd = row.expected_usd === null ? null : toMoney(row.expected_usd);
+      const ledgerDelta = row.ledger_delta === null ? null : toMoney(row.ledger_delta);
+      let reportResult;
+      let detail = row.detail;
+      if (row.status === "credited") {
+        if (ledgerDelta === null || ledgerDelta !== expectedUsd) {
+          reportResult = "mismatched";
+          detail = ledgerDelta === null
+            ? "Marked credited but no ledger entry exists."
+            : `Ledger credited $${ledgerDelta.toFixed(2)}, expected $${(expectedUsd ?? 0).toFixed(2)}.`;
+        } else {
+          reportResult = "credited";
+        }
+      } else if (row.status === "paid") {
+        reportResult = "credited";
+      } else if (row.status === "mismatched") {
+        reportResult = "mismatched";
+      } else if (ledgerDelta !== null) {
+        reportResult = "mismatched";
+        detail = `Ledger credited $${ledgerDelta.toFixed(2)} but charge is ${row.status}.`;
+      } else {
+        reportResult = "skipped";
+      }
+      return {
+        chargeId: row.charge_id,
+        purpose: row.purpose || "order",
+        userId: row.user_id,
+        orderId: row.order_id,
+        expectedUsd,
+        paidUsd: row.paid_usd === null ? null : toMoney(row.paid_usd),
+        ledgerDelta,
+        status: row.status,
+        result: reportResult,
+        detail,
+        eventCount: Number(row.event_count || 0),
+        createdAt: row.created_at?.toISOString?.(),
+        updatedAt: row.updated_at?.toISOString?.(),
+      };
+    });
+    const summary = { credited: 0, skipped: 0, mismatched: 0 };
+    for (const c of charges) summary[c.result] += 1;
+    return { summary, charges };
+  } catch (err) {
+    console.error("Error building Coinbase reconciliation:", err);
+    throw err;
+  }
+};
+
 export default pool;
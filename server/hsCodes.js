@@ -0,0 +1,97 @@
+import { HS_CHAPTERS, HS_HEADINGS, HS_SUBHEADINGS } from "./hsNomenclature.js";
+
+// HS code lookup and search over the bundled nomenclature. Entries are
+// `{ code, level, description, parent }` where `level` is "chapter",
+// "heading" or "subheading" and `parent` is the description of the level
+// above (null for chapters).
+
+const chapters = new Map(HS_CHAPTERS);
+const headings = new Map(HS_HEADINGS);
+const subheadings = new Map(HS_SUBHEADINGS);
+// Chapters whose headings, and headings whose subheadings, are bundled.
+const chaptersWithHeadings = new Set(HS_HEADINGS.map(([code]) => code.slice(0, 2)));
+const headingsWithSubheadings = new Set(HS_SUBHEADINGS.map(([code]) => code.slice(0, 4)));
+
+const entry = (code) => {
+  if (code.length === 2 && chapters.has(code)) {
+    return { code, level: "chapter", description: chapters.get(code), parent: null };
+  }
+  if (code.length === 4 && headings.has(code)) {
+    return { code, level: "heading", description: headings.get(code), parent: chapters.get(code.slice(0, 2)) ?? null };
+  }
+  if (code.length === 6 && subheadings.has(code)) {
+    return { code, level: "subheading", description: subheadings.get(code), parent: headings.get(code.slice(0, 4)) ?? null };
+  }
+  return null;
+};
+
+const ENTRIES = [...HS_SUBHEADINGS, ...HS_HEADINGS, ...HS_CHAPTERS].map(([code]) => entry(code));
+const LEVEL_RANK = { subheading: 0, heading: 1, chapter: 2 };
+
+export const normalizeHsCode = (value) => String(value ?? "").replace(/[.\s-]/g, "");
+
+// A 6–10 digit code checked as deep as the dataset goes (see
+// server/hsNomenclature.js): `status` is "known" when its 6-digit subheading
+// is bundled, "unverified" when the dataset stops above it (the chapter or
+// heading exists but its subdivisions are not bundled), and "unknown" when
+// the code does not exist. `match` is the deepest bundled entry, or null.
+// Digits after the sixth are national tariff extensions and are not checked.
+const UNKNOWN = { status: "unknown", match: null };
+const lookupHsCode = (value) => {
+  const code = normalizeHsCode(value);
+  if (!/^\d{6,10}$/.test(code)) return UNKNOWN;
+  const chapter = code.slice(0, 2);
+  const heading = code.slice(0, 4);
+  const subheading = code.slice(0, 6);
+  if (!chapters.has(chapter)) return UNKNOWN;
+  if (!chaptersWithHeadings.has(chapter)) return { status: "unverified", match: entry(chapter) };
+  if (!headings.has(heading)) return UNKNOWN;
+  if (!headingsWithSubheadings.has(heading)) return { status: "unverified", match: entry(heading) };
+  const match = entry(subheading);
+  return match ? { status: "known", match } : UNKNOWN;
+};
+
+// The most specific bundled entry for a code, with `verified: false` when
+// the code could only be checked down to that chapter or heading, or null
+// when the code does not exist.
+export const describeHsCode = (value) => {
+  const { status, match } = lookupHsCode(value);
+  return match ? { ...match, verified: status === "known" } : null;
+};
+
+export const hsCodeStatus = (value) => lookupHsCode(value).status;
+
+// Whether the code's subheading is in the dataset.
+export const isKnownHsCode = (value) => hsCodeStatus(value) === "known";
+
+// For validation: false only for codes known not to exist, so codes the
+// dataset cannot check down to the subheading are not rejected.
+export const hsCodeMayExist = (value) => hsCodeStatus(value) !== "unknown";
+
+// Search by code prefix ("6109", "61.09") or by keywords ("cotton t-shirts").
+// Every keyword must appear in the entry or its parent description. Within
+// a match, subheadings come first, then headings, then chapters.
+export const searchHsCodes = (query, { limit = 20 } = {}) => {
+  const q = String(query ?? "").trim().toLowerCase();
+  if (!q) return [];
+  const code = normalizeHsCode(q);
+  if (/^\d+$/.test(code)) {
+    return ENTRIES.filter((e) => e.code.startsWith(code.slice(0, 6)) || code.startsWith(e.code))
+      .sort((a, b) => LEVEL_RANK[a.level] - LEVEL_RANK[b.level] || a.code.localeCompare(b.code))
+      .slice(0, limit);
+  }
+  // Entries matching on their own description rank above those that only
+  // match through their parent.
+  const words = q.split(/[\s,;/]+/).filter(Boolean);
+  const has = (text) => words.every((w) => text.toLowerCase().includes(w));
+  return ENTRIES.map((e) => ({ e, own: has(e.description) }))
+    .filter(({ e, own }) => own || has(`${e.description} ${e.parent ?? ""}`))
+    .sort(
+      (a, b) =>
+        Number(b.own) - Number(a.own) ||
+        LEVEL_RANK[a.e.level] - LEVEL_RANK[b.e.level] ||
+        a.e.code.localeCompare(b.e.code),
+    )
+    .slice(0, limit)
+    .map(({ e }) => e);
+};
@@ -0,0 +1,899 @@
+// Bundled Harmonized System nomenclature (HS 2022), used offline for HS code
+// search and validation. Descriptions are shortened from the WCO texts.
+//
+// Coverage is deliberately partial but always complete per level:
+// - every chapter is listed;
+// - when any heading of a chapter is listed, all of that chapter's headings
+//   are (see HS_HEADINGS);
+// - when any subheading of a heading is listed, all of that heading's 6-digit
+//   subheadings are (see HS_SUBHEADINGS). Headings without subdivisions are
+//   listed as "xxxx00".
+// server/hsCodes.js relies on this to decide how deep a code can be checked.
+// When adding entries, add a whole chapter or heading at a time.
+
+// [chapter, description]
+export const HS_CHAPTERS = [
+  ["01", "Live animals"],
+  ["02", "Meat and edible meat offal"],
+  ["03", "Fish and crustaceans, molluscs and other aquatic invertebrates"],
+  ["04", "Dairy produce; birds' eggs; natural honey; edible products of animal origin n.e.s."],
+  ["05", "Products of animal origin n.e.s."],
+  ["06", "Live trees and other plants; bulbs, roots; cut flowers and ornamental foliage"],
+  ["07", "Edible vegetables and certain roots and tubers"],
+  ["08", "Edible fruit and nuts; peel of citrus fruit or melons"],
+  ["09", "Coffee, tea, maté and spices"],
+  ["10", "Cereals"],
+  ["11", "Products of the milling industry; malt; starches; inulin; wheat gluten"],
+  ["12", "Oil seeds and oleaginous fruits; miscellaneous grains, seeds and fruit; industrial or medicinal plants; straw and fodder"],
+  ["13", "Lac; gums, resins and other vegetable saps and extracts"],
+  ["14", "Vegetable plaiting materials; vegetable products n.e.s."],
+  ["15", "Animal, vegetable or microbial fats and oils; prepared edible fats; waxes"],
+  ["16", "Preparations of meat, fish, crustaceans, molluscs or insects"],
+  ["17", "Sugars and sugar confectionery"],
+  ["18", "Cocoa and cocoa preparations"],
+  ["19", "Preparations of cereals, flour, starch or milk; pastrycooks' products"],
+  ["20", "Preparations of vegetables, fruit, nuts or other parts of plants"],
+  ["21", "Miscellaneous edible preparations"],
+  ["22", "Beverages, spirits and vinegar"],
+  ["23", "Residues and waste from the food industries; prepared animal fodder"],
+  ["24", "Tobacco and manufactured tobacco substitutes; nicotine products"],
+  ["25", "Salt; sulphur; earths and stone; plastering materials, lime and cement"],
+  ["26", "Ores, slag and ash"],
+  ["27", "Mineral fuels, mineral oils and products of their distillation; mineral waxes"],
+  ["28", "Inorganic chemicals; compounds of precious metals, rare-earth metals and radioactive elements"],
+  ["29", "Organic chemicals"],
+  ["30", "Pharmaceutical products"],
+  ["31", "Fertilisers"],
+  ["32", "Tanning or dyeing extracts; dyes, pigments, paints and varnishes; putty; inks"],
+  ["33", "Essential oils and resinoids; perfumery, cosmetic or toilet preparations"],
+  ["34", "Soap, washing and lubricating preparations, waxes, polishes, candles and modelling pastes"],
+  ["35", "Albuminoidal substances; modified starches; glues; enzymes"],
+  ["36", "Explosives; pyrotechnic products; matches; pyrophoric alloys"],
+  ["37", "Photographic or cinematographic goods"],
+  ["38", "Miscellaneous chemical products"],
+  ["39", "Plastics and articles thereof"],
+  ["40", "Rubber and articles thereof"],
+  ["41", "Raw hides and skins (other than furskins) and leather"],
+  ["42", "Articles of leather; saddlery and harness; travel goods, handbags and similar containers"],
+  ["43", "Furskins and artificial fur; manufactures thereof"],
+  ["44", "Wood and articles of wood; wood charcoal"],
+  ["45", "Cork and articles of cork"],
+  ["46", "Manufactures of straw or other plaiting materials; basketware and wickerwork"],
+  ["47", "Pulp of wood or other fibrous cellulosic material; recovered paper or paperboard"],
+  ["48", "Paper and paperboard; articles of paper pulp, paper or paperboard"],
+  ["49", "Printed books, newspapers, pictures and other printed products; manuscripts and plans"],
+  ["50", "Silk"],
+  ["51", "Wool, fine or coarse animal hair; horsehair yarn and woven fabric"],
+  ["52", "Cotton"],
+  ["53", "Other vegetable textile fibres; paper yarn and woven fabrics of paper yarn"],
+  ["54", "Man-made filaments; strip and the like of man-made textile materials"],
+  ["55", "Man-made staple fibres"],
+  ["56", "Wadding, felt and nonwovens; special yarns; twine, cordage, ropes and cables"],
+  ["57", "Carpets and other textile floor coverings"],
+  ["58", "Special woven fabrics; tufted textile fabrics; lace; tapestries; trimmings; embroidery"],
+  ["59", "Impregnated, coated, covered or laminated textile fabrics; technical textile articles"],
+  ["60", "Knitted or crocheted fabrics"],
+  ["61", "Apparel and clothing accessories, knitted or crocheted"],
+  ["62", "Apparel and clothing accessories, not knitted or crocheted"],
+  ["63", "Other made up textile articles; sets; worn clothing and worn textile articles; rags"],
+  ["64", "Footwear, gaiters and the like; parts of such articles"],
+  ["65", "Headgear and parts thereof"],
+  ["66", "Umbrellas, sun umbrellas, walking-sticks, seat-sticks, whips, riding-crops and parts"],
+  ["67", "Prepared feathers and down; artificial flowers; articles of human hair"],
+  ["68", "Articles of stone, plaster, cement, asbestos, mica or similar materials"],
+  ["69", "Ceramic products"],
+  ["70", "Glass and glassware"],
+  ["71", "Pearls, precious or semi-precious stones, precious metals; imitation jewellery; coin"],
+  ["72", "Iron and steel"],
+  ["73", "Articles of iron or steel"],
+  ["74", "Copper and articles thereof"],
+  ["75", "Nickel and articles thereof"],
+  ["76", "Aluminium and articles thereof"],
+  ["78", "Lead and articles thereof"],
+  ["79", "Zinc and articles thereof"],
+  ["80", "Tin and articles thereof"],
+  ["81", "Other base metals; cermets; articles thereof"],
+  ["82", "Tools, implements, cutlery, spoons and forks, of base metal"],
+  ["83", "Miscellaneous articles of base metal"],
+  ["84", "Nuclear reactors, boilers, machinery and mechanical appliances; parts thereof"],
+  ["85", "Electrical machinery and equipment; sound and television recorders and reproducers; parts"],
+  ["86", "Railway or tramway locomotives, rolling stock and parts; track fixtures; traffic signalling equipment"],
+  ["87", "Vehicles other than railway or tramway rolling stock; parts and accessories"],
+  ["88", "Aircraft, spacecraft, and parts thereof"],
+  ["89", "Ships, boats and floating structures"],
+  ["90", "Optical, photographic, measuring, checking, precision, medical or surgical instruments"],
+  ["91", "Clocks and watches and parts thereof"],
+  ["92", "Musical instruments; parts and accessories of such articles"],
+  ["93", "Arms and ammunition; parts and accessories thereof"],
+  ["94", "Furniture; bedding and mattresses; luminaires n.e.s.; prefabricated buildings"],
+  ["95", "Toys, games and sports requisites; parts and accessories thereof"],
+  ["96", "Miscellaneous manufactured articles"],
+  ["97", "Works of art, collectors' pieces and antiques"],
+];
+
+// [heading, description]. Complete for chapters 09, 33, 34, 39, 42, 49,
+// 61–66, 71, 82, 84, 85, 90–92 and 94–97.
+export const HS_HEADINGS = [
+  ["0901", "Coffee; coffee husks and skins; coffee substitutes containing coffee"],
+  ["0902", "Tea"],
+  ["0903", "Maté"],
+  ["0904", "Pepper; dried or crushed capsicum or pimenta fruits"],
+  ["0905", "Vanilla"],
+  ["0906", "Cinnamon and cinnamon-tree flowers"],
+  ["0907", "Cloves"],
+  ["0908", "Nutmeg, mace and cardamoms"],
+  ["0909", "Seeds of anise, badian, fennel, coriander, cumin or caraway; juniper berries"],
+  ["0910", "Ginger, saffron, turmeric, thyme, bay leaves, curry and other spices"],
+
+  ["3301", "Essential oils; resinoids; extracted oleoresins"],
+  ["3302", "Mixtures of odoriferous substances used in industry"],
+  ["3303", "Perfumes and toilet waters"],
+  ["3304", "Beauty, make-up and skin-care preparations; sunscreen; manicure or pedicure preparations"],
+  ["3305", "Preparations for use on the hair"],
+  ["3306", "Preparations for oral or dental hygiene; dental floss"],
+  ["3307", "Shaving preparations, deodorants, bath preparations and other perfumery or toilet preparations"],
+
+  ["3401", "Soap; organic surface-active products for use as soap"],
+  ["3402", "Organic surface-active agents; washing and cleaning preparations"],
+  ["3403", "Lubricating preparations"],
+  ["3404", "Artificial waxes and prepared waxes"],
+  ["3405", "Polishes and creams for footwear, furniture, floors, bodywork, glass or metal"],
+  ["3406", "Candles, tapers and the like"],
+  ["3407", "Modelling pastes; dental wax; plaster-based dental preparations"],
+
+  ["3901", "Polymers of ethylene, in primary forms"],
+  ["3902", "Polymers of propylene or of other olefins, in primary forms"],
+  ["3903", "Polymers of styrene, in primary forms"],
+  ["3904", "Polymers of vinyl chloride or of other halogenated olefins, in primary forms"],
+  ["3905", "Polymers of vinyl acetate or of other vinyl esters, in primary forms"],
+  ["3906", "Acrylic polymers in primary forms"],
+  ["3907", "Polyacetals, other polyethers, epoxide resins, polycarbonates and polyesters, in primary forms"],
+  ["3908", "Polyamides in primary forms"],
+  ["3909", "Amino-resins, phenolic resins and polyurethanes, in primary forms"],
+  ["3910", "Silicones in primary forms"],
+  ["3911", "Petroleum resins, polyterpenes and other polymers n.e.s., in primary forms"],
+  ["3912", "Cellulose and its chemical derivatives n.e.s., in primary forms"],
+  ["3913", "Natural polymers and modified natural polymers n.e.s., in primary forms"],
+  ["3914", "Ion-exchangers based on polymers, in primary forms"],
+  ["3915", "Waste, parings and scrap, of plastics"],
+  ["3916", "Monofilament, rods, sticks and profile shapes, of plastics"],
+  ["3917", "Tubes, pipes and hoses, and fittings therefor, of plastics"],
+  ["3918", "Floor coverings and wall or ceiling coverings of plastics"],
+  ["3919", "Self-adhesive plates, sheets, film, tape and strip, of plastics"],
+  ["3920", "Other plates, sheets, film, foil and strip, of non-cellular plastics"],
+  ["3921", "Other plates, sheets, film, foil and strip, of plastics"],
+  ["3922", "Baths, shower-baths, sinks, wash-basins, lavatory seats and similar sanitary ware, of plastics"],
+  ["3923", "Articles for the conveyance or packing of goods, of plastics; stoppers, lids and caps"],
+  ["3924", "Tableware, kitchenware, other household articles and toilet articles, of plastics"],
+  ["3925", "Builders' ware of plastics n.e.s."],
+  ["3926", "Other articles of plastics"],
+
+  ["4201", "Saddlery and harness for any animal"],
+  ["4202", "Trunks, suitcases, handbags, wallets, cases and similar containers"],
+  ["4203", "Articles of apparel and clothing accessories, of leather"],
+  ["4205", "Other articles of leather or of composition leather"],
+  ["4206", "Articles of gut, goldbeater's skin, bladders or tendons"],
+
+  ["4901", "Printed books, brochures, leaflets and similar printed matter"],
+  ["4902", "Newspapers, journals and periodicals"],
+  ["4903", "Children's picture, drawing or colouring books"],
+  ["4904", "Music, printed or in manuscript"],
+  ["4905", "Maps, hydrographic charts and globes, printed"],
+  ["4906", "Plans and drawings for architectural, engineering or similar purposes, hand-drawn originals"],
+  ["4907", "Unused postage or revenue stamps; stamp-impressed paper; banknotes; cheque forms; stock certificates"],
+  ["4908", "Transfers (decalcomanias)"],
+  ["4909", "Printed or illustrated postcards; printed greeting cards"],
+  ["4910", "Calendars of any kind, printed"],
+  ["4911", "Other printed matter, including printed pictures and photographs"],
+
+  ["6101", "Men's or boys' overcoats, anoraks, windcheaters and similar articles, knitted"],
+  ["6102", "Women's or girls' overcoats, anoraks, windcheaters and similar articles, knitted"],
+  ["6103", "Men's or boys' suits, ensembles, jackets, trousers and shorts, knitted"],
+  ["6104", "Women's or girls' suits, ensembles, jackets, dresses, skirts, trousers and shorts, knitted"],
+  ["6105", "Men's or boys' shirts, knitted"],
+  ["6106", "Women's or girls' blouses and shirts, knitted"],
+  ["6107", "Men's or boys' underpants, nightshirts, pyjamas, bathrobes and dressing gowns, knitted"],
+  ["6108", "Women's or girls' slips, briefs, nightdresses, pyjamas and dressing gowns, knitted"],
+  ["6109", "T-shirts, singlets and other vests, knitted"],
+  ["6110", "Jerseys, pullovers, cardigans, waistcoats and similar articles, knitted"],
+  ["6111", "Babies' garments and clothing accessories, knitted"],
+  ["6112", "Track suits, ski suits and swimwear, knitted"],
+  ["6113", "Garments of knitted fabrics that are coated or laminated"],
+  ["6114", "Other garments, knitted"],
+  ["6115", "Pantyhose, tights, stockings, socks and other hosiery, knitted"],
+  ["6116", "Gloves, mittens and mitts, knitted"],
+  ["6117", "Other made up clothing accessories, knitted; parts of garments"],
+
+  ["6201", "Men's or boys' overcoats, anoraks, windcheaters and similar articles"],
+  ["6202", "Women's or girls' overcoats, anoraks, windcheaters and similar articles"],
+  ["6203", "Men's or boys' suits, ensembles, jackets, trousers and shorts"],
+  ["6204", "Women's or girls' suits, ensembles, jackets, dresses, skirts, trousers and shorts"],
+  ["6205", "Men's or boys' shirts"],
+  ["6206", "Women's or girls' blouses and shirts"],
+  ["6207", "Men's or boys' singlets, underpants, nightshirts, pyjamas and bathrobes"],
+  ["6208", "Women's or girls' singlets, slips, briefs, nightdresses, pyjamas and négligés"],
+  ["6209", "Babies' garments and clothing accessories"],
+  ["6210", "Garments of felt, nonwovens or coated or laminated fabrics"],
+  ["6211", "Track suits, ski suits and swimwear; other garments"],
+  ["6212", "Brassières, girdles, corsets, braces, suspenders and garters"],
+  ["6213", "Handkerchiefs"],
+  ["6214", "Shawls, scarves, mufflers, mantillas and veils"],
+  ["6215", "Ties, bow ties and cravats"],
+  ["6216", "Gloves, mittens and mitts"],
+  ["6217", "Other made up clothing accessories; parts of garments"],
+
+  ["6301", "Blankets and travelling rugs"],
+  ["6302", "Bed linen, table linen, toilet linen and kitchen linen"],
+  ["6303", "Curtains, drapes and interior blinds; curtain or bed valances"],
+  ["6304", "Other furnishing articles (bedspreads, cushion covers and the like)"],
+  ["6305", "Sacks and bags, of a kind used for the packing of goods"],
+  ["6306", "Tarpaulins, awnings and sunblinds; tents and gazebos; sails; camping goods"],
+  ["6307", "Other made up textile articles, including dress patterns and face masks"],
+  ["6308", "Sets of woven fabric and yarn for making rugs, tapestries, tablecloths or serviettes"],
+  ["6309", "Worn clothing and other worn articles"],
+  ["6310", "Used or new rags, scrap twine, cordage, rope and cables"],
+
+  ["6401", "Waterproof footwear with outer soles and uppers of rubber or plastics"],
+  ["6402", "Other footwear with outer soles and uppers of rubber or plastics"],
+  ["6403", "Footwear with uppers of leather"],
+  ["6404", "Footwear with uppers of textile materials"],
+  ["6405", "Other footwear"],
+  ["6406", "Parts of footwear; removable in-soles, heel cushions; gaiters and leggings"],
+
+  ["6501", "Hat-forms, hat bodies and hoods of felt"],
+  ["6502", "Hat-shapes, plaited or made by assembling strips of any material"],
+  ["6504", "Hats and other headgear, plaited or made by assembling strips"],
+  ["6505", "Hats and other headgear, knitted or made up from lace, felt or other textile fabric; hair-nets"],
+  ["6506", "Other headgear, including safety headgear"],
+  ["6507", "Head-bands, linings, covers, hat foundations, peaks and chinstraps, for headgear"],
+
+  ["6601", "Umbrellas and sun umbrellas, including walking-stick umbrellas and garden umbrellas"],
+  ["6602", "Walking-sticks, seat-sticks, whips, riding-crops and the like"],
+  ["6603", "Parts, trimmings and accessories of umbrellas, walking-sticks and the like"],
+
+  ["7101", "Pearls, natural or cultured"],
+  ["7102", "Diamonds, not mounted or set"],
+  ["7103", "Precious stones (other than diamonds) and semi-precious stones, not mounted or set"],
+  ["7104", "Synthetic or reconstructed precious or semi-precious stones"],
+  ["7105", "Dust and powder of natural or synthetic precious or semi-precious stones"],
+  ["7106", "Silver, unwrought or in semi-manufactured forms, or in powder form"],
+  ["7107", "Base metals clad with silver, not further worked than semi-manufactured"],
+  ["7108", "Gold, unwrought or in semi-manufactured forms, or in powder form"],
+  ["7109", "Base metals or silver, clad with gold, not further worked than semi-manufactured"],
+  ["7110", "Platinum, unwrought or in semi-manufactured forms, or in powder form"],
+  ["7111", "Base metals, silver or gold, clad with platinum, not further worked than semi-manufactured"],
+  ["7112", "Waste and scrap of precious metal or of metal clad with precious metal"],
+  ["7113", "Articles of jewellery and parts thereof, of precious metal or of metal clad with precious metal"],
+  ["7114", "Articles of goldsmiths' or silversmiths' wares"],
+  ["7115", "Other articles of precious metal or of metal clad with precious metal"],
+  ["7116", "Articles of natural or cultured pearls, precious or semi-precious stones"],
+  ["7117", "Imitation jewellery"],
+  ["7118", "Coin"],
+
+  ["8201", "Hand tools: spades, shovels, mattocks, picks, hoes, forks, rakes, axes, secateurs and the like"],
+  ["8202", "Hand saws; blades for saws of all kinds"],
+  ["8203", "Files, rasps, pliers, pincers, tweezers, metal cutting shears, pipe-cutters and similar hand tools"],
+  ["8204", "Hand-operated spanners and wrenches; interchangeable spanner sockets"],
+  ["8205", "Hand tools n.e.s.; blow lamps; vices, clamps and the like; anvils; portable forges"],
+  ["8206", "Tools of two or more of headings 8202 to 8205, put up in sets for retail sale"],
+  ["8207", "Interchangeable tools for hand tools or for machine-tools"],
+  ["8208", "Knives and cutting blades, for machines or for mechanical appliances"],
+  ["8209", "Plates, sticks, tips and the like for tools, unmounted, of cermets"],
+  ["8210", "Hand-operated mechanical appliances, weighing 10 kg or less, used in preparing food or drink"],
+  ["8211", "Knives with cutting blades, serrated or not, and blades therefor"],
+  ["8212", "Razors and razor blades"],
+  ["8213", "Scissors, tailors' shears and similar shears, and blades therefor"],
+  ["8214", "Other articles of cutlery; manicure or pedicure sets and instruments"],
+  ["8215", "Spoons, forks, ladles, skimmers, cake-servers, fish-knives, butter-knives, sugar tongs and similar kitchen or tableware"],
+
+  ["8401", "Nuclear reactors; fuel elements, non-irradiated; machinery for isotopic separation"],
+  ["8402", "Steam or other vapour generating boilers; super-heated water boilers"],
+  ["8403", "Central heating boilers"],
+  ["8404", "Auxiliary plant for use with boilers; condensers for steam or other vapour power units"],
+  ["8405", "Producer gas or water gas generators; acetylene gas generators"],
+  ["8406", "Steam turbines and other vapour turbines"],
+  ["8407", "Spark-ignition reciprocating or rotary internal combustion piston engines"],
+  ["8408", "Compression-ignition internal combustion piston engines (diesel or semi-diesel engines)"],
+  ["8409", "Parts for the engines of heading 8407 or 8408"],
+  ["8410", "Hydraulic turbines, water wheels, and regulators therefor"],
+  ["8411", "Turbo-jets, turbo-propellers and other gas turbines"],
+  ["8412", "Other engines and motors"],
+  ["8413", "Pumps for liquids; liquid elevators"],
+  ["8414", "Air or vacuum pumps, air or other gas compressors and fans; ventilating or recycling hoods"],
+  ["8415", "Air conditioning machines"],
+  ["8416", "Furnace burners; mechanical stokers"],
+  ["8417", "Industrial or laboratory furnaces and ovens, non-electric"],
+  ["8418", "Refrigerators, freezers and other refrigerating or freezing equipment; heat pumps"],
+  ["8419", "Machinery for the treatment of materials by a change of temperature; water heaters, non-electric"],
+  ["8420", "Calendering or other rolling machines, other than for metals or glass"],
+  ["8421", "Centrifuges, including centrifugal dryers; filtering or purifying machinery for liquids or gases"],
+  ["8422", "Dish washing machines; machinery for cleaning, filling, closing, labelling or packing containers"],
+  ["8423", "Weighing machinery (excluding balances of a sensitivity of 5 cg or better)"],
+  ["8424", "Appliances for projecting, dispersing or spraying liquids or powders; fire extinguishers"],
+  ["8425", "Pulley tackle and hoists; winches and capstans; jacks"],
+  ["8426", "Ships' derricks; cranes; mobile lifting frames, straddle carriers"],
+  ["8427", "Fork-lift trucks; other works trucks fitted with lifting or handling equipment"],
+  ["8428", "Other lifting, handling, loading or unloading machinery"],
+  ["8429", "Self-propelled bulldozers, graders, scrapers, excavators, shovel loaders and road rollers"],
+  ["8430", "Other moving, grading, levelling, scraping, excavating, tamping or boring machinery"],
+  ["8431", "Parts for the machinery of headings 8425 to 8430"],
+  ["8432", "Agricultural, horticultural or forestry machinery for soil preparation; lawn or sports-ground rollers"],
+  ["8433", "Harvesting or threshing machinery; grass or hay mowers; machines for cleaning or grading produce"],
+  ["8434", "Milking machines and dairy machinery"],
+  ["8435", "Presses, crushers and similar machinery used in the manufacture of wine, cider or fruit juices"],
+  ["8436", "Other agricultural, horticultural, forestry, poultry-keeping or bee-keeping machinery"],
+  ["8437", "Machines for cleaning, sorting or grading seed, grain or dried leguminous vegetables"],
+  ["8438", "Machinery n.e.s. for the industrial preparation or manufacture of food or drink"],
+  ["8439", "Machinery for making pulp of fibrous cellulosic material or for making or finishing paper"],
+  ["8440", "Book-binding machinery, including book-sewing machines"],
+  ["8441", "Other machinery for making up paper pulp, paper or paperboard"],
+  ["8442", "Machinery and equipment for preparing or making plates, cylinders or other printing components"],
+  ["8443", "Printing machinery; other printers, copying machines and facsimile machines; parts"],
+  ["8444", "Machines for extruding, drawing, texturing or cutting man-made textile materials"],
+  ["8445", "Machines for preparing textile fibres; spinning, doubling or twisting machines"],
+  ["8446", "Weaving machines (looms)"],
+  ["8447", "Knitting machines, stitch-bonding machines and machines for making gimped yarn, tulle or lace"],
+  ["8448", "Auxiliary machinery for use with machines of headings 8444 to 8447"],
+  ["8449", "Machinery for the manufacture or finishing of felt or nonwovens; hat-making blocks"],
+  ["8450", "Household or laundry-type washing machines"],
+  ["8451", "Machinery for washing, cleaning, drying, ironing, dyeing or finishing textiles"],
+  ["8452", "Sewing machines; furniture, bases and covers for sewing machines; sewing machine needles"],
+  ["8453", "Machinery for preparing, tanning or working hides, skins or leather, or for making footwear"],
+  ["8454", "Converters, ladles, ingot moulds and casting machines, used in metallurgy or in metal foundries"],
+  ["8455", "Metal-rolling mills and rolls therefor"],
+  ["8456", "Machine-tools working by laser, ultrasonic, electro-discharge or similar processes"],
+  ["8457", "Machining centres, unit construction machines and multi-station transfer machines for metal"],
+  ["8458", "Lathes (including turning centres) for removing metal"],
+  ["8459", "Machine-tools for drilling, boring, milling, threading or tapping metal"],
+  ["8460", "Machine-tools for deburring, sharpening, grinding, honing, lapping or polishing metal"],
+  ["8461", "Machine-tools for planing, shaping, slotting, broaching, gear cutting, sawing or cutting-off metal"],
+  ["8462", "Machine-tools for forging, hammering, die-stamping, bending, folding, punching or shearing metal"],
+  ["8463", "Other machine-tools for working metal or cermets, without removing material"],
+  ["8464", "Machine-tools for working stone, ceramics, concrete, asbestos-cement or glass"],
+  ["8465", "Machine-tools for working wood, cork, bone, hard rubber, hard plastics or similar hard materials"],
+  ["8466", "Parts and accessories for the machines of headings 8456 to 8465; tool holders"],
+  ["8467", "Tools for working in the hand, pneumatic, hydraulic or with self-contained motor"],
+  ["8468", "Machinery and apparatus for soldering, brazing or welding, not electric; gas-operated surface tempering"],
+  ["8469", "Typewriters other than printers of heading 8443; word-processing machines"],
+  ["8470", "Calculating machines and pocket-size data recording, reproducing and displaying machines; cash registers"],
+  ["8471", "Automatic data processing machines and units thereof; magnetic or optical readers"],
+  ["8472", "Other office machines"],
+  ["8473", "Parts and accessories for machines of headings 8470 to 8472"],
+  ["8474", "Machinery for sorting, screening, separating, washing, crushing, grinding or mixing mineral substances"],
+  ["8475", "Machines for assembling lamps, tubes or flash-bulbs in glass envelopes; glass-working machines"],
+  ["8476", "Automatic goods-vending machines; money-changing machines"],
+  ["8477", "Machinery for working rubber or plastics or for making products from these materials"],
+  ["8478", "Machinery for preparing or making up tobacco"],
+  ["8479", "Machines and mechanical appliances having individual functions n.e.s."],
+  ["8480", "Moulding boxes for metal foundry; mould bases; moulding patterns; moulds"],
+  ["8481", "Taps, cocks, valves and similar appliances for pipes, boiler shells, tanks, vats or the like"],
+  ["8482", "Ball or roller bearings"],
+  ["8483", "Transmission shafts and cranks; bearing housings; gears; ball screws; gear boxes; clutches"],
+  ["8484", "Gaskets and similar joints of metal sheeting; mechanical seals"],
+  ["8485", "Machines for additive manufacturing"],
+  ["8486", "Machines and apparatus for the manufacture of semiconductors, integrated circuits or flat panel displays"],
+  ["8487", "Machinery parts, not containing electrical features, n.e.s."],
+
+  ["8501", "Electric motors and generators (excluding generating sets)"],
+  ["8502", "Electric generating sets and rotary converters"],
+  ["8503", "Parts for the machines of heading 8501 or 8502"],
+  ["8504", "Electrical transformers, static converters (for example, rectifiers) and inductors"],
+  ["8505", "Electro-magnets; permanent magnets; electro-magnetic couplings, clutches and brakes"],
+  ["8506", "Primary cells and primary batteries"],
+  ["8507", "Electric accumulators, including separators therefor"],
+  ["8508", "Vacuum cleaners"],
+  ["8509", "Electro-mechanical domestic appliances, with self-contained electric motor"],
+  ["8510", "Shavers, hair clippers and hair-removing appliances, with self-contained electric motor"],
+  ["8511", "Electrical ignition or starting equipment for internal combustion engines"],
+  ["8512", "Electrical lighting or signalling equipment, windscreen wipers and defrosters, for vehicles"],
+  ["8513", "Portable electric lamps designed to function by their own source of energy"],
+  ["8514", "Industrial or laboratory electric furnaces and ovens; induction or dielectric heating equipment"],
+  ["8515", "Electric, laser or other light or photon beam soldering, brazing or welding machines"],
+  ["8516", "Electric water heaters and space heaters; hair dryers; electric irons; microwave ovens; cookers"],
+  ["8517", "Telephone sets, including smartphones; other apparatus for the transmission or reception of voice, images or data"],
+  ["8518", "Microphones; loudspeakers; headphones and earphones; audio-frequency amplifiers"],
+  ["8519", "Sound recording or reproducing apparatus"],
+  ["8521", "Video recording or reproducing apparatus"],
+  ["8522", "Parts and accessories for apparatus of headings 8519 to 8521"],
+  ["8523", "Discs, tapes, solid-state non-volatile storage devices, smart cards and other recording media"],
+  ["8524", "Flat panel display modules, whether or not incorporating touch-sensitive screens"],
+  ["8525", "Transmission apparatus for radio-broadcasting or television; television cameras, digital cameras and video camera recorders"],
+  ["8526", "Radar apparatus, radio navigational aid apparatus and radio remote control apparatus"],
+  ["8527", "Reception apparatus for radio-broadcasting"],
+  ["8528", "Monitors and projectors; reception apparatus for television"],
+  ["8529", "Parts for the apparatus of headings 8524 to 8528"],
+  ["8530", "Electrical signalling, safety or traffic control equipment for railways, roads, waterways, ports or airfields"],
+  ["8531", "Electric sound or visual signalling apparatus (for example, bells, sirens, burglar or fire alarms)"],
+  ["8532", "Electrical capacitors, fixed, variable or adjustable"],
+  ["8533", "Electrical resistors (including rheostats and potentiometers), other than heating resistors"],
+  ["8534", "Printed circuits"],
+  ["8535", "Electrical apparatus for switching or protecting circuits, for a voltage exceeding 1,000 volts"],
+  ["8536", "Electrical apparatus for switching or protecting circuits, for a voltage not exceeding 1,000 volts; connectors"],
+  ["8537", "Boards, panels, consoles, desks and cabinets for electric control or distribution"],
+  ["8538", "Parts for the apparatus of heading 8535, 8536 or 8537"],
+  ["8539", "Electric filament or discharge lamps; arc lamps; light-emitting diode (LED) light sources"],
+  ["8540", "Thermionic, cold cathode or photo-cathode valves and tubes"],
+  ["8541", "Semiconductor devices; light-emitting diodes (LED); mounted piezo-electric crystals"],
+  ["8542", "Electronic integrated circuits"],
+  ["8543", "Electrical machines and apparatus, having individual functions, n.e.s."],
+  ["8544", "Insulated wire, cable and other insulated electric conductors; optical fibre cables"],
+  ["8545", "Carbon electrodes, carbon brushes, lamp carbons, battery carbons"],
+  ["8546", "Electrical insulators of any material"],
+  ["8547", "Insulating fittings for electrical machines, appliances or equipment"],
+  ["8548", "Electrical parts of machinery or apparatus, n.e.s."],
+  ["8549", "Electrical and electronic waste and scrap"],
+
+  ["9001", "Optical fibres and optical fibre bundles; sheets and plates of polarising material; lenses, unmounted"],
+  ["9002", "Lenses, prisms, mirrors and other optical elements, mounted"],
+  ["9003", "Frames and mountings for spectacles, goggles or the like, and parts thereof"],
+  ["9004", "Spectacles, goggles and the like, corrective, protective or other"],
+  ["9005", "Binoculars, monoculars, other optical telescopes, and mountings therefor"],
+  ["9006", "Photographic (other than cinematographic) cameras; photographic flashlight apparatus"],
+  ["9007", "Cinematographic cameras and projectors"],
+  ["9008", "Image projectors, other than cinematographic; photographic enlargers and reducers"],
+  ["9010", "Apparatus and equipment for photographic or cinematographic laboratories; projection screens"],
+  ["9011", "Compound optical microscopes"],
+  ["9012", "Microscopes other than optical microscopes; diffraction apparatus"],
+  ["9013", "Liquid crystal devices n.e.s.; lasers, other than laser diodes; other optical appliances"],
+  ["9014", "Direction finding compasses; other navigational instruments and appliances"],
+  ["9015", "Surveying, hydrographic, oceanographic, meteorological or geophysical instruments"],
+  ["9016", "Balances of a sensitivity of 5 cg or better"],
+  ["9017", "Drawing, marking-out or mathematical calculating instruments; instruments for measuring length, for use in the hand"],
+  ["9018", "Instruments and appliances used in medical, surgical, dental or veterinary sciences"],
+  ["9019", "Mechano-therapy appliances; massage apparatus; therapeutic respiration apparatus"],
+  ["9020", "Other breathing appliances and gas masks"],
+  ["9021", "Orthopaedic appliances; splints; artificial parts of the body; hearing aids"],
+  ["9022", "Apparatus based on the use of X-rays or of alpha, beta, gamma or other ionising radiations"],
+  ["9023", "Instruments, apparatus and models designed for demonstrational purposes"],
+  ["9024", "Machines and appliances for testing the hardness, strength or other mechanical properties of materials"],
+  ["9025", "Hydrometers, thermometers, pyrometers, barometers, hygrometers and psychrometers"],
+  ["9026", "Instruments for measuring or checking the flow, level, pressure or other variables of liquids or gases"],
+  ["9027", "Instruments and apparatus for physical or chemical analysis"],
+  ["9028", "Gas, liquid or electricity supply or production meters"],
+  ["9029", "Revolution counters, production counters, taximeters, odometers; speed indicators; stroboscopes"],
+  ["9030", "Oscilloscopes, spectrum analysers and other instruments for measuring electrical quantities"],
+  ["9031", "Measuring or checking instruments, appliances and machines n.e.s.; profile projectors"],
+  ["9032", "Automatic regulating or controlling instruments and apparatus"],
+  ["9033", "Parts and accessories n.e.s. for machines, appliances, instruments or apparatus of chapter 90"],
+
+  ["9101", "Wrist-watches, pocket-watches and other watches, with case of precious metal"],
+  ["9102", "Wrist-watches, pocket-watches and other watches, other than those of heading 9101"],
+  ["9103", "Clocks with watch movements, excluding clocks of heading 9104"],
+  ["9104", "Instrument panel clocks and clocks of a similar type for vehicles, aircraft, spacecraft or vessels"],
+  ["9105", "Other clocks"],
+  ["9106", "Time of day recording apparatus and apparatus for measuring, recording or indicating intervals of time"],
+  ["9107", "Time switches with clock or watch movement or with synchronous motor"],
+  ["9108", "Watch movements, complete and assembled"],
+  ["9109", "Clock movements, complete and assembled"],
+  ["9110", "Complete watch or clock movements, unassembled or partly assembled; incomplete movements"],
+  ["9111", "Watch cases and parts thereof"],
+  ["9112", "Clock cases and cases of a similar type for other goods of this chapter, and parts thereof"],
+  ["9113", "Watch straps, watch bands and watch bracelets, and parts thereof"],
+  ["9114", "Other clock or watch parts"],
+
+  ["9201", "Pianos, including automatic pianos; harpsichords and other keyboard stringed instruments"],
+  ["9202", "Other string musical instruments (for example, guitars, violins, harps)"],
+  ["9205", "Wind musical instruments (for example, keyboard pipe organs, accordions, clarinets, trumpets)"],
+  ["9206", "Percussion musical instruments (for example, drums, xylophones, cymbals, castanets, maracas)"],
+  ["9207", "Musical instruments whose sound is produced, or must be amplified, electrically"],
+  ["9208", "Musical boxes, fairground organs, mechanical street organs; decoy calls; whistles"],
+  ["9209", "Parts and accessories for musical instruments; metronomes, tuning forks and pitch pipes"],
+
+  ["9401", "Seats (other than those of heading 9402), whether or not convertible into beds, and parts thereof"],
+  ["9402", "Medical, surgical, dental or veterinary furniture; barbers' chairs"],
+  ["9403", "Other furniture and parts thereof"],
+  ["9404", "Mattress supports; articles of bedding and similar furnishing (mattresses, quilts, cushions, pillows)"],
+  ["9405", "Luminaires and lighting fittings n.e.s.; illuminated signs and name-plates"],
+  ["9406", "Prefabricated buildings"],
+
+  ["9503", "Tricycles, scooters, pedal cars and similar wheeled toys; dolls; other toys; puzzles; scale models"],
+  ["9504", "Video game consoles and machines, table or parlour games, playing cards, billiards"],
+  ["9505", "Festive, carnival or other entertainment articles, including conjuring tricks and novelty jokes"],
+  ["9506", "Articles and equipment for general physical exercise, gymnastics, athletics, other sports or outdoor games"],
+  ["9507", "Fishing rods, fish-hooks and other line fishing tackle; fish landing nets; decoy birds"],
+  ["9508", "Amusement park rides and water park amusements; fairground amusements; travelling circuses and theatres"],
+
+  ["9601", "Worked ivory, bone, tortoise-shell, horn, antlers, coral, mother-of-pearl and articles thereof"],
+  ["9602", "Worked vegetable or mineral carving material and articles thereof; moulded or carved articles of wax"],
+  ["9603", "Brooms, brushes, hand-operated mechanical floor sweepers, mops and feather dusters; paint pads and rollers"],
+  ["9604", "Hand sieves and hand riddles"],
+  ["9605", "Travel sets for personal toilet, sewing or shoe or clothes cleaning"],
+  ["9606", "Buttons, press-fasteners, snap-fasteners and press-studs, button moulds and parts"],
+  ["9607", "Slide fasteners and parts thereof"],
+  ["9608", "Ball point pens; felt tipped and other porous-tipped pens and markers; fountain pens; propelling pencils"],
+  ["9609", "Pencils (other than those of heading 9608), crayons, pencil leads, pastels, drawing charcoals, chalks"],
+  ["9610", "Slates and boards, with writing or drawing surfaces, whether or not framed"],
+  ["9611", "Date, sealing or numbering stamps, and the like, designed for operating in the hand"],
+  ["9612", "Typewriter or similar ribbons, inked; ink-pads"],
+  ["9613", "Cigarette lighters and other lighters; parts thereof other than flints and wicks"],
+  ["9614", "Smoking pipes and cigar or cigarette holders, and parts thereof"],
+  ["9615", "Combs, hair-slides and the like; hairpins, curling pins, curling grips, hair-curlers"],
+  ["9616", "Scent sprays and similar toilet sprays; powder-puffs and pads for the application of cosmetics"],
+  ["9617", "Vacuum flasks and other vacuum vessels, complete; parts thereof other than glass inners"],
+  ["9618", "Tailors' dummies and other lay figures; automata and other animated displays"],
+  ["9619", "Sanitary towels (pads) and tampons, napkins (diapers) and similar articles, of any material"],
+  ["9620", "Monopods, bipods, tripods and similar articles"],
+
+  ["9701", "Paintings, drawings and pastels, executed entirely by hand; collages and mosaics"],
+  ["9702", "Original engravings, prints and lithographs"],
+  ["9703", "Original sculptures and statuary, in any material"],
+  ["9704", "Postage or revenue stamps, first-day covers and the like, used, or unused but not current"],
+  ["9705", "Collections and collectors' pieces of archaeological, historical, zoological, numismatic or other interest"],
+  ["9706", "Antiques of an age exceeding 100 years"],
+];
+
+// [subheading, description]
+export const HS_SUBHEADINGS = [
+  ["090111", "Coffee, not roasted, not decaffeinated"],
+  ["090112", "Coffee, not roasted, decaffeinated"],
+  ["090121", "Coffee, roasted, not decaffeinated"],
+  ["090122", "Coffee, roasted, decaffeinated"],
+  ["090190", "Coffee husks and skins; coffee substitutes containing coffee"],
+  ["090210", "Green tea, in immediate packings of 3 kg or less"],
+  ["090220", "Other green tea"],
+  ["090230", "Black tea and partly fermented tea, in immediate packings of 3 kg or less"],
+  ["090240", "Other black tea and partly fermented tea"],
+
+  ["330300", "Perfumes and toilet waters"],
+  ["330410", "Lip make-up preparations"],
+  ["330420", "Eye make-up preparations"],
+  ["330430", "Manicure or pedicure preparations"],
+  ["330491", "Powders, whether or not compressed"],
+  ["330499", "Other beauty, make-up and skin-care preparations"],
+  ["330510", "Shampoos"],
+  ["330520", "Preparations for permanent waving or straightening"],
+  ["330530", "Hair lacquers"],
+  ["330590", "Other hair preparations"],
+  ["330610", "Dentifrices"],
+  ["330620", "Yarn used to clean between the teeth (dental floss)"],
+  ["330690", "Other oral or dental hygiene preparations"],
+  ["330710", "Pre-shave, shaving or after-shave preparations"],
+  ["330720", "Personal deodorants and antiperspirants"],
+  ["330730", "Perfumed bath salts and other bath preparations"],
+  ["330741", "Agarbatti and other odoriferous preparations which operate by burning"],
+  ["330749", "Other preparations for perfuming or deodorizing rooms"],
+  ["330790", "Other perfumery, cosmetic or toilet preparations"],
+
+  ["340111", "Soap for toilet use, in bars, cakes or moulded pieces"],
+  ["340119", "Other soap in bars, cakes or moulded pieces"],
+  ["340120", "Soap in other forms"],
+  ["340130", "Organic surface-active products for washing the skin, liquid or cream"],
+  ["340600", "Candles, tapers and the like"],
+
+  ["420211", "Trunks, suitcases and similar, with outer surface of leather"],
+  ["420212", "Trunks, suitcases and similar, with outer surface of plastics or textile materials"],
+  ["420219", "Other trunks, suitcases and similar"],
+  ["420221", "Handbags with outer surface of leather"],
+  ["420222", "Handbags with outer surface of plastic sheeting or textile materials"],
+  ["420229", "Other handbags"],
+  ["420231", "Wallets and other articles carried in the pocket or handbag, outer surface of leather"],
+  ["420232", "Wallets and other articles carried in the pocket or handbag, outer surface of plastic sheeting or textile"],
+  ["420239", "Other articles carried in the pocket or handbag"],
+  ["420291", "Other cases and containers with outer surface of leather"],
+  ["420292", "Other cases and containers with outer surface of plastic sheeting or textile materials"],
+  ["420299", "Other cases and containers"],
+  ["420310", "Articles of apparel, of leather"],
+  ["420321", "Gloves specially designed for use in sports, of leather"],
+  ["420329", "Other gloves, mittens and mitts, of leather"],
+  ["420330", "Belts and bandoliers, of leather"],
+  ["420340", "Other clothing accessories, of leather"],
+
+  ["490110", "Printed books and similar, in single sheets"],
+  ["490191", "Dictionaries and encyclopaedias, and serial instalments thereof"],
+  ["490199", "Other printed books, brochures and leaflets"],
+  ["490210", "Newspapers and periodicals appearing at least four times a week"],
+  ["490290", "Other newspapers, journals and periodicals"],
+  ["490300", "Children's picture, drawing or colouring books"],
+  ["490900", "Printed or illustrated postcards; printed greeting cards"],
+  ["491000", "Calendars of any kind, printed"],
+  ["491110", "Trade advertising material, commercial catalogues and the like"],
+  ["491191", "Pictures, designs and photographs"],
+  ["491199", "Other printed matter"],
+
+  ["610510", "Men's or boys' shirts, knitted, of cotton"],
+  ["610520", "Men's or boys' shirts, knitted, of man-made fibres"],
+  ["610590", "Men's or boys' shirts, knitted, of other textile materials"],
+  ["610610", "Women's or girls' blouses and shirts, knitted, of cotton"],
+  ["610620", "Women's or girls' blouses and shirts, knitted, of man-made fibres"],
+  ["610690", "Women's or girls' blouses and shirts, knitted, of other textile materials"],
+  ["610910", "T-shirts, singlets and other vests, knitted, of cotton"],
+  ["610990", "T-shirts, singlets and other vests, knitted, of other textile materials"],
+  ["611011", "Jerseys, pullovers and cardigans, knitted, of wool"],
+  ["611012", "Jerseys, pullovers and cardigans, knitted, of Kashmir (cashmere) goats"],
+  ["611019", "Jerseys, pullovers and cardigans, knitted, of other fine animal hair"],
+  ["611020", "Jerseys, pullovers and cardigans, knitted, of cotton"],
+  ["611030", "Jerseys, pullovers and cardigans, knitted, of man-made fibres"],
+  ["611090", "Jerseys, pullovers and cardigans, knitted, of other textile materials"],
+  ["611211", "Track suits, knitted, of cotton"],
+  ["611212", "Track suits, knitted, of synthetic fibres"],
+  ["611219", "Track suits, knitted, of other textile materials"],
+  ["611220", "Ski suits, knitted"],
+  ["611231", "Men's or boys' swimwear, knitted, of synthetic fibres"],
+  ["611239", "Men's or boys' swimwear, knitted, of other textile materials"],
+  ["611241", "Women's or girls' swimwear, knitted, of synthetic fibres"],
+  ["611249", "Women's or girls' swimwear, knitted, of other textile materials"],
+  ["611510", "Graduated compression hosiery"],
+  ["611521", "Other pantyhose and tights, of synthetic fibres, measuring per single yarn less than 67 decitex"],
+  ["611522", "Other pantyhose and tights, of synthetic fibres, measuring per single yarn 67 decitex or more"],
+  ["611529", "Other pantyhose and tights, of other textile materials"],
+  ["611530", "Other women's full-length or knee-length hosiery, measuring per single yarn less than 67 decitex"],
+  ["611594", "Other hosiery and socks, of wool or fine animal hair"],
+  ["611595", "Other hosiery and socks, of cotton"],
+  ["611596", "Other hosiery and socks, of synthetic fibres"],
+  ["611599", "Other hosiery and socks, of other textile materials"],
+  ["611610", "Gloves, knitted, impregnated, coated or covered with plastics or rubber"],
+  ["611691", "Gloves, knitted, of wool or fine animal hair"],
+  ["611692", "Gloves, knitted, of cotton"],
+  ["611693", "Gloves, knitted, of synthetic fibres"],
+  ["611699", "Gloves, knitted, of other textile materials"],
+  ["611710", "Shawls, scarves, mufflers, mantillas, veils and the like, knitted"],
+  ["611780", "Other knitted clothing accessories"],
+  ["611790", "Parts of knitted garments or clothing accessories"],
+
+  ["620311", "Men's or boys' suits, of wool or fine animal hair"],
+  ["620312", "Men's or boys' suits, of synthetic fibres"],
+  ["620319", "Men's or boys' suits, of other textile materials"],
+  ["620322", "Men's or boys' ensembles, of cotton"],
+  ["620323", "Men's or boys' ensembles, of synthetic fibres"],
+  ["620329", "Men's or boys' ensembles, of other textile materials"],
+  ["620331", "Men's or boys' jackets and blazers, of wool or fine animal hair"],
+  ["620332", "Men's or boys' jackets and blazers, of cotton"],
+  ["620333", "Men's or boys' jackets and blazers, of synthetic fibres"],
+  ["620339", "Men's or boys' jackets and blazers, of other textile materials"],
+  ["620341", "Men's or boys' trousers and shorts, of wool or fine animal hair"],
+  ["620342", "Men's or boys' trousers and shorts, of cotton"],
+  ["620343", "Men's or boys' trousers and shorts, of synthetic fibres"],
+  ["620349", "Men's or boys' trousers and shorts, of other textile materials"],
+  ["620411", "Women's or girls' suits, of wool or fine animal hair"],
+  ["620412", "Women's or girls' suits, of cotton"],
+  ["620413", "Women's or girls' suits, of synthetic fibres"],
+  ["620419", "Women's or girls' suits, of other textile materials"],
+  ["620421", "Women's or girls' ensembles, of wool or fine animal hair"],
+  ["620422", "Women's or girls' ensembles, of cotton"],
+  ["620423", "Women's or girls' ensembles, of synthetic fibres"],
+  ["620429", "Women's or girls' ensembles, of other textile materials"],
+  ["620431", "Women's or girls' jackets and blazers, of wool or fine animal hair"],
+  ["620432", "Women's or girls' jackets and blazers, of cotton"],
+  ["620433", "Women's or girls' jackets and blazers, of synthetic fibres"],
+  ["620439", "Women's or girls' jackets and blazers, of other textile materials"],
+  ["620441", "Dresses, of wool or fine animal hair"],
+  ["620442", "Dresses, of cotton"],
+  ["620443", "Dresses, of synthetic fibres"],
+  ["620444", "Dresses, of artificial fibres"],
+  ["620449", "Dresses, of other textile materials"],
+  ["620451", "Skirts and divided skirts, of wool or fine animal hair"],
+  ["620452", "Skirts and divided skirts, of cotton"],
+  ["620453", "Skirts and divided skirts, of synthetic fibres"],
+  ["620459", "Skirts and divided skirts, of other textile materials"],
+  ["620461", "Women's or girls' trousers and shorts, of wool or fine animal hair"],
+  ["620462", "Women's or girls' trousers and shorts, of cotton"],
+  ["620463", "Women's or girls' trousers and shorts, of synthetic fibres"],
+  ["620469", "Women's or girls' trousers and shorts, of other textile materials"],
+  ["620520", "Men's or boys' shirts, of cotton"],
+  ["620530", "Men's or boys' shirts, of man-made fibres"],
+  ["620590", "Men's or boys' shirts, of other textile materials"],
+  ["620610", "Women's or girls' blouses and shirts, of silk or silk waste"],
+  ["620620", "Women's or girls' blouses and shirts, of wool or fine animal hair"],
+  ["620630", "Women's or girls' blouses and shirts, of cotton"],
+  ["620640", "Women's or girls' blouses and shirts, of man-made fibres"],
+  ["620690", "Women's or girls' blouses and shirts, of other textile materials"],
+  ["621111", "Men's or boys' swimwear"],
+  ["621112", "Women's or girls' swimwear"],
+  ["621120", "Ski suits"],
+  ["621132", "Other men's or boys' garments, of cotton"],
+  ["621133", "Other men's or boys' garments, of man-made fibres"],
+  ["621139", "Other men's or boys' garments, of other textile materials"],
+  ["621142", "Other women's or girls' garments, of cotton"],
+  ["621143", "Other women's or girls' garments, of man-made fibres"],
+  ["621149", "Other women's or girls' garments, of other textile materials"],
+  ["621410", "Shawls, scarves and the like, of silk or silk waste"],
+  ["621420", "Shawls, scarves and the like, of wool or fine animal hair"],
+  ["621430", "Shawls, scarves and the like, of synthetic fibres"],
+  ["621440", "Shawls, scarves and the like, of artificial fibres"],
+  ["621490", "Shawls, scarves and the like, of other textile materials"],
+
+  ["630210", "Bed linen, knitted or crocheted"],
+  ["630221", "Other bed linen, printed, of cotton"],
+  ["630222", "Other bed linen, printed, of man-made fibres"],
+  ["630229", "Other bed linen, printed, of other textile materials"],
+  ["630231", "Other bed linen, of cotton"],
+  ["630232", "Other bed linen, of man-made fibres"],
+  ["630239", "Other bed linen, of other textile materials"],
+  ["630240", "Table linen, knitted or crocheted"],
+  ["630251", "Other table linen, of cotton"],
+  ["630253", "Other table linen, of man-made fibres"],
+  ["630259", "Other table linen, of other textile materials"],
+  ["630260", "Toilet linen and kitchen linen, of terry towelling of cotton"],
+  ["630291", "Other toilet and kitchen linen, of cotton"],
+  ["630293", "Other toilet and kitchen linen, of man-made fibres"],
+  ["630299", "Other toilet and kitchen linen, of other textile materials"],
+  ["630710", "Floor-cloths, dish-cloths, dusters and similar cleaning cloths"],
+  ["630720", "Life-jackets and life-belts"],
+  ["630790", "Other made up textile articles (including face masks)"],
+  ["630900", "Worn clothing and other worn articles"],
+
+  ["640212", "Ski-boots, cross-country ski footwear and snowboard boots, rubber or plastics"],
+  ["640219", "Other sports footwear, rubber or plastics"],
+  ["640220", "Footwear with upper straps assembled to the sole by plugs, rubber or plastics"],
+  ["640291", "Other footwear covering the ankle, rubber or plastics"],
+  ["640299", "Other footwear, rubber or plastics"],
+  ["640312", "Ski-boots, cross-country ski footwear and snowboard boots, leather uppers"],
+  ["640319", "Other sports footwear, leather uppers"],
+  ["640320", "Footwear with outer soles of leather, and uppers of straps across the instep and around the big toe"],
+  ["640340", "Other footwear incorporating a protective metal toe-cap, leather uppers"],
+  ["640351", "Other footwear with outer soles of leather, covering the ankle"],
+  ["640359", "Other footwear with outer soles of leather"],
+  ["640391", "Other footwear with leather uppers, covering the ankle"],
+  ["640399", "Other footwear with leather uppers"],
+  ["640411", "Sports footwear; tennis shoes, basketball shoes, gym shoes and the like, textile uppers"],
+  ["640419", "Other footwear with outer soles of rubber or plastics, textile uppers"],
+  ["640420", "Footwear with outer soles of leather or composition leather, textile uppers"],
+  ["650500", "Hats and other headgear, knitted or made up from textile fabric; hair-nets"],
+
+  ["711311", "Jewellery of silver"],
+  ["711319", "Jewellery of other precious metal"],
+  ["711320", "Jewellery of base metal clad with precious metal"],
+  ["711711", "Imitation jewellery of base metal: cuff-links and studs"],
+  ["711719", "Other imitation jewellery of base metal"],
+  ["711790", "Other imitation jewellery"],
+
+  ["821300", "Scissors, tailors' shears and similar shears, and blades therefor"],
+  ["821510", "Sets of spoons, forks and similar, containing at least one article plated with precious metal"],
+  ["821520", "Other sets of assorted spoons, forks and similar"],
+  ["821591", "Spoons, forks and similar, plated with precious metal"],
+  ["821599", "Other spoons, forks and similar"],
+
+  ["847130", "Portable automatic data processing machines, weighing not more than 10 kg (laptops, tablets)"],
+  ["847141", "Other data processing machines with a processing unit and an input and output unit in the same housing"],
+  ["847149", "Other data processing machines, presented in the form of systems"],
+  ["847150", "Processing units other than those of 847141 or 847149"],
+  ["847160", "Input or output units (keyboards, mice, scanners)"],
+  ["847170", "Storage units"],
+  ["847180", "Other units of automatic data processing machines"],
+  ["847190", "Other (magnetic or optical readers, data transcription machines)"],
+
+  ["850610", "Primary cells and batteries, manganese dioxide"],
+  ["850630", "Primary cells and batteries, mercuric oxide"],
+  ["850640", "Primary cells and batteries, silver oxide"],
+  ["850650", "Primary cells and batteries, lithium"],
+  ["850660", "Primary cells and batteries, air-zinc"],
+  ["850680", "Other primary cells and batteries"],
+  ["850690", "Parts of primary cells and batteries"],
+  ["851310", "Portable electric lamps"],
+  ["851390", "Parts of portable electric lamps"],
+  ["851610", "Electric instantaneous or storage water heaters and immersion heaters"],
+  ["851621", "Storage heating radiators"],
+  ["851629", "Other electric space heating apparatus"],
+  ["851631", "Hair dryers"],
+  ["851632", "Other hair-dressing apparatus"],
+  ["851633", "Hand-drying apparatus"],
+  ["851640", "Electric smoothing irons"],
+  ["851650", "Microwave ovens"],
+  ["851660", "Other ovens; cookers, cooking plates, boiling rings, grillers and roasters"],
+  ["851671", "Coffee or tea makers"],
+  ["851672", "Toasters"],
+  ["851679", "Other electro-thermic appliances"],
+  ["851680", "Electric heating resistors"],
+  ["851690", "Parts of electric heaters, dryers, irons and ovens"],
+  ["851711", "Line telephone sets with cordless handsets"],
+  ["851713", "Smartphones"],
+  ["851714", "Other telephones for cellular networks or for other wireless networks"],
+  ["851718", "Other telephone sets"],
+  ["851761", "Base stations"],
+  ["851762", "Machines for the reception, conversion and transmission or regeneration of voice, images or data (routers, modems)"],
+  ["851769", "Other apparatus for the transmission or reception of voice, images or data"],
+  ["851771", "Aerials and aerial reflectors; parts suitable for use therewith"],
+  ["851779", "Other parts of telephone sets and transmission apparatus"],
+  ["851810", "Microphones and stands therefor"],
+  ["851821", "Single loudspeakers, mounted in their enclosures"],
+  ["851822", "Multiple loudspeakers, mounted in the same enclosure"],
+  ["851829", "Other loudspeakers"],
+  ["851830", "Headphones and earphones, whether or not combined with a microphone"],
+  ["851840", "Audio-frequency electric amplifiers"],
+  ["851850", "Electric sound amplifier sets"],
+  ["851890", "Parts of microphones, loudspeakers, headphones and amplifiers"],
+  ["852321", "Cards incorporating a magnetic stripe"],
+  ["852329", "Other magnetic media"],
+  ["852341", "Optical media, unrecorded"],
+  ["852349", "Other optical media"],
+  ["852351", "Solid-state non-volatile storage devices (memory cards, USB flash drives)"],
+  ["852352", "Smart cards"],
+  ["852359", "Other semiconductor media"],
+  ["852380", "Other recording media"],
+  ["852550", "Transmission apparatus"],
+  ["852560", "Transmission apparatus incorporating reception apparatus"],
+  ["852581", "Television cameras, digital cameras and video camera recorders, high-speed"],
+  ["852582", "Television cameras, digital cameras and video camera recorders, radiation-hardened"],
+  ["852583", "Television cameras, digital cameras and video camera recorders, night vision"],
+  ["852589", "Other television cameras, digital cameras and video camera recorders"],
+  ["852842", "Cathode-ray tube monitors capable of directly connecting to a data processing machine"],
+  ["852849", "Other cathode-ray tube monitors"],
+  ["852852", "Other monitors capable of directly connecting to a data processing machine"],
+  ["852859", "Other monitors"],
+  ["852862", "Projectors capable of directly connecting to a data processing machine"],
+  ["852869", "Other projectors"],
+  ["852871", "Television reception apparatus not designed to incorporate a video display or screen"],
+  ["852872", "Other television reception apparatus, colour"],
+  ["852873", "Other television reception apparatus, monochrome"],
+
+  ["900311", "Frames and mountings for spectacles, of plastics"],
+  ["900319", "Frames and mountings for spectacles, of other materials"],
+  ["900390", "Parts of frames and mountings for spectacles"],
+  ["900410", "Sunglasses"],
+  ["900490", "Other spectacles and goggles"],
+
+  ["910211", "Wrist-watches, electrically operated, with mechanical display only"],
+  ["910212", "Wrist-watches, electrically operated, with opto-electronic display only"],
+  ["910219", "Other wrist-watches, electrically operated"],
+  ["910221", "Other wrist-watches, with automatic winding"],
+  ["910229", "Other wrist-watches"],
+  ["910291", "Pocket-watches and other watches, electrically operated"],
+  ["910299", "Other pocket-watches and other watches"],
+
+  ["940310", "Metal furniture of a kind used in offices"],
+  ["940320", "Other metal furniture"],
+  ["940330", "Wooden furniture of a kind used in offices"],
+  ["940340", "Wooden furniture of a kind used in the kitchen"],
+  ["940350", "Wooden furniture of a kind used in the bedroom"],
+  ["940360", "Other wooden furniture"],
+  ["940370", "Furniture of plastics"],
+  ["940382", "Furniture of bamboo"],
+  ["940383", "Furniture of rattan"],
+  ["940389", "Furniture of other materials"],
+  ["940391", "Parts of furniture, of wood"],
+  ["940399", "Parts of furniture, of other materials"],
+
+  ["950300", "Wheeled toys; dolls; other toys; reduced-size models; puzzles of all kinds"],
+  ["950420", "Articles and accessories for billiards of all kinds"],
+  ["950430", "Other games, operated by coins, banknotes, bank cards or tokens"],
+  ["950440", "Playing cards"],
+  ["950450", "Video game consoles and machines"],
+  ["950490", "Other table or parlour games (including board games and chess)"],
+  ["950510", "Articles for Christmas festivities"],
+  ["950590", "Other festive, carnival or entertainment articles"],
+  ["950611", "Skis"],
+  ["950612", "Ski-fastenings (ski-bindings)"],
+  ["950619", "Other snow-ski equipment"],
+  ["950621", "Sailboards"],
+  ["950629", "Water-skis, surf-boards and other water-sport equipment"],
+  ["950631", "Golf clubs, complete"],
+  ["950632", "Golf balls"],
+  ["950639", "Other golf equipment"],
+  ["950640", "Articles and equipment for table-tennis"],
+  ["950651", "Lawn-tennis rackets, whether or not strung"],
+  ["950659", "Badminton or similar rackets, whether or not strung"],
+  ["950661", "Lawn-tennis balls"],
+  ["950662", "Inflatable balls"],
+  ["950669", "Other balls"],
+  ["950670", "Ice skates and roller skates, including skating boots with skates attached"],
+  ["950691", "Articles and equipment for general physical exercise, gymnastics or athletics"],
+  ["950699", "Other sports or outdoor games equipment; swimming pools and paddling pools"],
+
+  ["960810", "Ball point pens"],
+  ["960820", "Felt tipped and other porous-tipped pens and markers"],
+  ["960830", "Fountain pens, stylograph pens and other pens"],
+  ["960840", "Propelling or sliding pencils"],
+  ["960850", "Sets of articles from two or more of the foregoing subheadings"],
+  ["960860", "Refills for ball point pens, comprising the ball point and ink-reservoir"],
+  ["960891", "Pen nibs and nib points"],
+  ["960899", "Other parts of pens and pencils"],
+  ["960910", "Pencils and crayons, with leads encased in a sheath"],
+  ["960920", "Pencil leads, black or coloured"],
+  ["960990", "Other pastels, drawing charcoals, chalks and crayons"],
+  ["961310", "Pocket lighters, gas fuelled, non-refillable"],
+  ["961320", "Pocket lighters, gas fuelled, refillable"],
+  ["961380", "Other lighters"],
+  ["961390", "Parts of lighters"],
+  ["961511", "Combs, hair-slides and the like, of hard rubber or plastics"],
+  ["961519", "Combs, hair-slides and the like, of other materials"],
+  ["961590", "Hairpins, curling pins, curling grips, hair-curlers and the like"],
+  ["961700", "Vacuum flasks and other vacuum vessels"],
+  ["961900", "Sanitary towels (pads) and tampons, napkins (diapers) and similar articles"],
+
+  ["970121", "Paintings, drawings and pastels, of an age exceeding 100 years"],
+  ["970122", "Mosaics, of an age exceeding 100 years"],
+  ["970129", "Collages and similar decorative plaques, of an age exceeding 100 years"],
+  ["970191", "Paintings, drawings and pastels"],
+  ["970192", "Mosaics"],
+  ["970199", "Collages and similar decorative plaques"],
+];
@@ -0,0 +1,141 @@
+// Rebuild server/hsNomenclature.js from a CSV of the complete HS 2022
+// nomenclature, such as harmonized-system.csv from
+// https://github.com/datasets/harmonized-system (UN Comtrade's HS 2022
+// codes and descriptions). Run with `npm run hs:import -- <file.csv>`.
+//
+// The CSV needs a header row with a code column (`hscode`, `code` or `id`)
+// and a description column (`description` or `text`); other columns are
+// ignored. 2-, 4- and 6-digit codes become chapters, headings and
+// subheadings. Descriptions already bundled are kept, since they are
+// shortened by hand; new ones are taken from the CSV with any leading code
+// and dashes removed. Headings without subdivisions get an "xxxx00" entry.
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { HS_CHAPTERS, HS_HEADINGS, HS_SUBHEADINGS } from "./hsNomenclature.js";
+
+const OUTPUT = path.join(path.dirname(fileURLToPath(import.meta.url)), "hsNomenclature.js");
+
+// Rows of a comma-separated file with double-quoted fields.
+const parseCsv = (text) => {
+  const rows = [];
+  let row = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+};
+
+const cleanDescription = (text) =>
+  String(text ?? "")
+    .replace(/^\s*\d+\s*-\s*/, "")
+    .replace(/^[-–\s]+/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const readNomenclature = (text) => {
+  const [header, ...rows] = parseCsv(text.replace(/^﻿/, ""));
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const codeAt = columns.findIndex((c) => ["hscode", "code", "id"].includes(c));
+  const textAt = columns.findIndex((c) => ["description", "text"].includes(c));
+  if (codeAt < 0 || textAt < 0) {
+    throw new Error("The CSV needs a code (hscode, code or id) and a description (description or text) column.");
+  }
+  const levels = { 2: new Map(), 4: new Map(), 6: new Map() };
+  for (const row of rows) {
+    const code = String(row[codeAt] ?? "").replace(/[.\s]/g, "");
+    if (!/^\d+$/.test(code) || !levels[code.length]) continue;
+    levels[code.length].set(code, cleanDescription(row[textAt]));
+  }
+  return levels;
+};
+
+// `entries` sorted by code, with bundled descriptions winning over `fresh`.
+const merge = (bundled, fresh) => {
+  const out = new Map(fresh);
+  for (const [code, description] of bundled) if (out.has(code)) out.set(code, description);
+  return [...out].sort(([a], [b]) => a.localeCompare(b));
+};
+
+const list = (entries) =>
+  entries.map(([code, description]) => `  [${JSON.stringify(code)}, ${JSON.stringify(description)}],`).join("\n");
+
+const main = async () => {
+  const file = process.argv[2];
+  if (!file) throw new Error("Usage: npm run hs:import -- <harmonized-system.csv>");
+  const levels = readNomenclature(await fs.readFile(file, "utf8"));
+
+  // Every heading needs its subheadings listed; one without subdivisions is
+  // its own "xxxx00".
+  for (const [heading, description] of levels[4]) {
+    const divided = [...levels[6].keys()].some((code) => code.startsWith(heading));
+    if (!divided) levels[6].set(`${heading}00`, description);
+  }
+  for (const [code] of [...levels[4], ...levels[6]]) {
+    if (!levels[2].has(code.slice(0, 2))) throw new Error(`${code} has no chapter in the CSV.`);
+  }
+  for (const [code] of levels[6]) {
+    if (!levels[4].has(code.slice(0, 4))) throw new Error(`${code} has no heading in the CSV.`);
+  }
+
+  const chapters = merge(HS_CHAPTERS, levels[2]);
+  const headings = merge(HS_HEADINGS, levels[4]);
+  const subheadings = merge(HS_SUBHEADINGS, levels[6]);
+  await fs.writeFile(
+    OUTPUT,
+    `// Bundled Harmonized System nomenclature (HS 2022), used offline for HS code
+// search and validation. Generated by server/importHsNomenclature.js from the
+// complete nomenclature; descriptions are shortened from the WCO texts where
+// they were edited by hand.
+//
+// Every chapter, heading and 6-digit subheading is listed. Headings without
+// subdivisions are listed as "xxxx00". server/hsCodes.js still treats a
+// chapter or heading without entries below it as unverified.
+
+// [chapter, description]
+export const HS_CHAPTERS = [
+${list(chapters)}
+];
+
+// [heading, description]
+export const HS_HEADINGS = [
+${list(headings)}
+];
+
+// [subheading, description]
+export const HS_SUBHEADINGS = [
+${list(subheadings)}
+];
+`,
+    "utf8",
+  );
+  console.log(
+    `Wrote ${chapters.length} chapters, ${headings.length} headings and ${subheadings.length} subheadings to ${OUTPUT}.`,
+  );
+};
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
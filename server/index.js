@@ -13,21 +13,71 @@ import {
   getUserByHash,
   createUser,
   updateUser,
+  getUserPreferences,
+  updateUserPreferences,
   hasAnyAdmin,
   getAllBlogPosts,
   getBlogPostById,
   createBlogPost,
   updateBlogPost,
   deleteBlogPost,
+  isUuid,
   createLabel,
   getLabelById,
   getLabelsByUserId,
+  getLabelsByOrderId,
   getAllLabels,
   updateLabel,
   getAllAccountProducts,
   createAccountProduct,
   deleteAccountProduct,
+  getWalletBalance,
+  spendWalletCredits,
+  getLedgerEntriesByUserId,
+  findWalletLedgerMismatches,
+  importLegacyWallets,
+  applyCoinbaseChargeEvent,
+  getCoinbaseReconciliation,
+  getCarrierCatalog,
+  upsertCarrier,
+  deleteCarrier,
+  createCarrierService,
+  updateCarrierService,
+  deleteCarrierService,
+  getAddressBookEntries,
+  createAddressBookEntry,
+  updateAddressBookEntry,
+  deleteAddressBookEntry,
+  getPackagePresets,
+  createPackagePreset,
+  updatePackagePreset,
+  deletePackagePreset,
 } from "./db.js";
+import { priceCart, quoteParcel } from "./pricing.js";
+import { formatDimensions, formatWeight, fromLbs, readUnits, weightUnit } from "./units.js";
+import { describeHsCode, hsCodeMayExist, searchHsCodes } from "./hsCodes.js";
+import { LABEL_DOWNLOAD_FORMATS, documentToPng, documentToZpl } from "./labelFormats.js";
+import { labelReference, renderLabelPdf } from "./labelPdf.js";
+import { renderLabelPng } from "./labelPng.js";
+import { renderLabelZpl } from "./labelZpl.js";
+import {
+  hasCustomsLines,
+  renderCommercialInvoice,
+  renderPackingSlip,
+} from "./shipmentPaperwork.js";
+import {
+  LABEL_LIMITS,
+  customsFormType,
+  customsTotals,
+  firstLabelError,
+  isInternationalLabel,
+  migrateLabelData,
+  shipmentWeightLbs,
+  validateAddress,
+  validateLabelData,
+  validatePackagePreset,
+} from "../shared/labelSchema.js";
+import { SHEET_LAYOUTS, layoutLabelSheets, mergePdfs } from "../shared/labelSheets.js";
 
 const PORT = 8080;
 
@@ -46,8 +96,6 @@ const APP_URL = process.env.APP_URL ||
   (RAILWAY_PUBLIC_DOMAIN ? `https://${RAILWAY_PUBLIC_DOMAIN}` : "http://label.land");
 const APP_PRIVATE_URL = RAILWAY_PRIVATE_DOMAIN ? `http://${RAILWAY_PRIVATE_DOMAIN}` : null;
 
-const LABEL_PRICE_USD = Number(process.env.LABEL_PRICE_USD || 1);
-
 // Auth
 const USERS_FILE =
   process.env.USERS_FILE || path.resolve(process.cwd(), "data", "users.json");
@@ -60,6 +108,8 @@ const ADMIN_EMAILS = String(process.env.ADMIN_EMAILS || "")
   .filter(Boolean);
 
 // Wallet / Credits
+// Balances live in Postgres (wallets + ledger_entries). These files are only
+// read once, by the legacy import on startup.
 const WALLETS_FILE =
   process.env.WALLETS_FILE || path.resolve(process.cwd(), "data", "wallets.json");
 const CREDIT_LEDGER_FILE =
@@ -102,9 +152,20 @@ const labelUploadStorage = multer.diskStorage({
 });
 const uploadLabelFiles = multer({
   storage: labelUploadStorage,
-  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB per file
+  limits: { fileSize: 50 * 1024 * 1024, files: 50 }, // 50MB per file
 });
 
+// Field names of the admin "done" upload: `files` for documents covering the
+// whole shipment, `piece-<n>` (1-based) for the label of one package.
+const PIECE_FIELD = /^piece-(\d+)$/;
+
+// Remove files multer already stored for a request that is rejected.
+const discardUploads = async (files) => {
+  for (const f of files || []) {
+    await fs.rm(f.path, { force: true }).catch(() => {});
+  }
+};
+
 // CORS middleware
 app.use((req, res, next) => {
   const origin = req.headers.origin;
@@ -230,18 +291,22 @@ const safeJsonParse = (raw) => {
   }
 };
 
-const calcCartTotalUsd = (items) => {
-  return Number(
-    items
-      .reduce((sum, it) => {
-        if (it && typeof it === "object" && it.kind === "account") {
-          const priceUsd = Number(it.priceUsd);
-          return sum + (Number.isFinite(priceUsd) ? priceUsd : 0);
-        }
-        return sum + LABEL_PRICE_USD;
-      }, 0)
-      .toFixed(2),
-  );
+// Re-price the submitted cart from the database and price table. When any
+// line is stale or tampered with, responds 409 with the per-line diff (the
+// Cart page shows it) and returns null; otherwise returns the priced cart.
+const priceCartOrReject = async (items, res) => {
+  const priced = await priceCart(items);
+  if (priced.diff.length > 0) {
+    res.status(409).json({
+      ok: false,
+      code: "CART_PRICE_MISMATCH",
+      error: "Some prices in your cart have changed. Review them and try again.",
+      diff: priced.diff,
+      totalUsd: priced.totalUsd,
+    });
+    return null;
+  }
+  return priced;
 };
 
 // Database functions replace readUsers/writeUsers
@@ -310,55 +375,38 @@ const requireAdmin = (req, res, next) => {
   return next();
 };
 
-const readWallets = async () => {
+// Copy data/wallets.json and data/credit-ledger.txt into Postgres. The db
+// side records a marker, so after the first successful run this is a no-op.
+const importLegacyWalletFiles = async () => {
+  let wallets = {};
   try {
-    const raw = await fs.readFile(WALLETS_FILE, "utf8");
-    const data = safeJsonParse(raw);
-    return data && typeof data === "object" ? data : {};
+    const data = safeJsonParse(await fs.readFile(WALLETS_FILE, "utf8"));
+    if (data && typeof data === "object") wallets = data;
   } catch {
-    return {};
+    // No legacy wallets file.
   }
-};
-
-const writeWallets = async (wallets) => {
-  await fs.mkdir(path.dirname(WALLETS_FILE), { recursive: true });
-  await fs.writeFile(WALLETS_FILE, JSON.stringify(wallets, null, 2), "utf8");
-};
-
-const getBalance = async (userId) => {
-  const wallets = await readWallets();
-  const entry = wallets[userId];
-  const bal = entry && typeof entry.balance === "number" ? entry.balance : 0;
-  return Number(bal.toFixed(2));
-};
 
-const addCredits = async (userId, delta, reason, meta) => {
-  const wallets = await readWallets();
-  const prev = wallets[userId] && typeof wallets[userId].balance === "number"
-    ? wallets[userId].balance
-    : 0;
-  const nextBal = Number((prev + delta).toFixed(2));
-  wallets[userId] = {
-    balance: nextBal,
-    updatedAt: new Date().toISOString(),
-  };
-  await writeWallets(wallets);
-
-  await fs.mkdir(path.dirname(CREDIT_LEDGER_FILE), { recursive: true });
-  await fs.appendFile(
-    CREDIT_LEDGER_FILE,
-    JSON.stringify({
-      at: new Date().toISOString(),
-      userId,
-      delta,
-      balance: nextBal,
-      reason,
-      meta,
-    }) + "\n",
-    "utf8",
-  );
+  let ledgerLines = [];
+  try {
+    const raw = await fs.readFile(CREDIT_LEDGER_FILE, "utf8");
+    ledgerLines = raw
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => safeJsonParse(line))
+      .filter((entry) => entry && typeof entry === "object");
+  } catch {
+    // No legacy ledger file.
+  }
 
-  return nextBal;
+  const result = await importLegacyWallets({ wallets, ledgerLines });
+  if (!result.skipped) {
+    console.log(
+      `Imported legacy wallets: ${result.wallets} wallets, ${result.entries} ledger entries, ` +
+        `${result.adjustments} adjustments, ${result.unknownUsers} unknown users skipped.`,
+    );
+  }
+  return result;
 };
 
 const readOrders = async () => {
@@ -382,13 +430,388 @@ const upsertOrder = async (order) => {
   if (idx >= 0) orders[idx] = { ...orders[idx], ...order };
   else orders.push(order);
   await writeOrders(orders);
-  return order;
+  return idx >= 0 ? orders[idx] : order;
+};
+
+// The order `orderId` as stored, with `changes` applied, without saving it.
+const orderWithChanges = async (orderId, changes) => {
+  const stored = (await readOrders()).find((o) => String(o.orderId) === String(orderId));
+  return { ...(stored ?? {}), orderId, ...changes };
+};
+
+// Save an order whose payment has already committed. The payment and its
+// labels stand whether or not this works, so a failure is logged rather than
+// reported to the payer.
+const savePaidOrder = async (order) => {
+  try {
+    return await upsertOrder(order);
+  } catch (err) {
+    console.error(`[orders] Order ${order.orderId} is paid but could not be saved:`, err);
+    return order;
+  }
+};
+
+// Why a return label's `returnOfLabelId` cannot be kept, or null. The
+// original must be one of the user's own completed labels.
+const returnOfProblem = async (userId, labelData) => {
+  const id = labelData?.returnOfLabelId;
+  if (id === undefined || id === null) return null;
+  const original = await getLabelById(String(id));
+  if (!original || original.userId !== userId) return "The original label was not found.";
+  if (original.status !== "done") return "Only completed labels can be returned.";
+  return null;
+};
+
+// Turn each `kind: "label"` item of a paid order into a pending labels row
+// linked to the order. Rows are keyed by the item's id, or "#<index>" (its
+// position in the order) for items without one. Items that already have a row
+// (webhook retries) are skipped, so this is safe to call more than once for
+// the same order.
+// `client` is an open transaction client to write the labels in, if any.
+const createLabelsForOrder = async (order, client = undefined) => {
+  if (!order || order.status !== "paid") return [];
+  const userId = order.user && order.user.id ? String(order.user.id) : "";
+  const items = Array.isArray(order.items) ? order.items : [];
+  const labelItems = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item && typeof item === "object" && item.kind === "label");
+  if (labelItems.length === 0) return [];
+  if (!userId) {
+    console.warn(`[orders] Order ${order.orderId} has label items but no user; no labels created.`);
+    return [];
+  }
+
+  const existing = await getLabelsByOrderId(String(order.orderId), client);
+  const seen = new Set(existing.map((l) => String(l.orderItemId ?? "")));
+  const created = [];
+  for (const { item, index } of labelItems) {
+    const orderItemId = String(item.id ?? "") || `#${index}`;
+    if (seen.has(orderItemId)) continue;
+    // The order is already paid, so a return link that does not check out is
+    // dropped rather than failing the label.
+    let labelData = item;
+    const returnProblem = await returnOfProblem(userId, item);
+    if (returnProblem) {
+      console.warn(`[orders] Order ${order.orderId} item ${orderItemId}: ${returnProblem} Return link dropped.`);
+      labelData = { ...item };
+      delete labelData.returnOfLabelId;
+    }
+    const label = await createLabel(
+      {
+        id: crypto.randomUUID(),
+        userId,
+        labelData,
+        orderId: String(order.orderId),
+        orderItemId,
+      },
+      client,
+    );
+    created.push(label);
+  }
+  return created;
+};
+
+app.get("/api/carriers", async (_req, res) => {
+  try {
+    const carriers = await getCarrierCatalog();
+    return res.json({ ok: true, carriers });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+// Live rate quote for a shipment: { pieces: [{ weightLbs, dimensionsIn }],
+// from, to } plus an optional carrier/service. A single parcel may also be
+// sent as top-level `weightLbs`/`dimensionsIn`. Returns one entry per
+// matching active service, priced as the sum of the pieces.
+app.post("/api/rates/quote", express.json(), async (req, res) => {
+  try {
+    const body = req.body ?? {};
+    const raw = Array.isArray(body.pieces) ? body.pieces : [body];
+    if (raw.length === 0 || raw.length > LABEL_LIMITS.maxPieces) {
+      return res.status(400).json({
+        ok: false,
+        error: `Send 1 to ${LABEL_LIMITS.maxPieces} pieces.`,
+      });
+    }
+    const pieces = raw.map((p) => ({
+      weightLbs: Number(p?.weightLbs),
+      dimensionsIn: p?.dimensionsIn ?? {},
+    }));
+    if (pieces.some((p) => !Number.isFinite(p.weightLbs) || p.weightLbs <= 0)) {
+      return res.status(400).json({ ok: false, error: "weightLbs must be a positive number." });
+    }
+    const quotes = await quoteParcel({
+      carrier: body.carrier,
+      service: body.service,
+      pieces,
+      from: body.from ?? {},
+      to: body.to ?? {},
+    });
+    if ((body.carrier || body.service) && quotes.length === 0) {
+      return res.status(404).json({ ok: false, error: "Service is not offered." });
+    }
+    return res.json({ ok: true, quotes });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+// HS code search over the bundled nomenclature (server/hsNomenclature.js), by
+// code prefix or keywords: ?q=cotton%20t-shirts&limit=20.
+app.get("/api/hs-codes", async (req, res) => {
+  try {
+    const q = String(req.query.q ?? "").trim();
+    if (q.length < 2) {
+      return res.status(400).json({ ok: false, error: "q must be at least 2 characters." });
+    }
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 50);
+    return res.json({ ok: true, results: searchHsCodes(q, { limit }) });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+// Look up a 6–10 digit HS code. 404 when it does not exist; `verified` is
+// false when the bundled data only goes down to its chapter or heading.
+app.get("/api/hs-codes/:code", async (req, res) => {
+  try {
+    const match = describeHsCode(req.params.code);
+    if (!match) return res.status(404).json({ ok: false, error: "Not found." });
+    return res.json({ ok: true, match });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+// Price a whole cart the way checkout will, without charging. Same shape as
+// the 409 CART_PRICE_MISMATCH payload so the Cart page can show the diff early.
+app.post("/api/cart/quote", express.json(), async (req, res) => {
+  try {
+    const items = Array.isArray(req.body?.items) ? req.body.items : [];
+    const priced = await priceCart(items);
+    return res.json({ ok: true, ...priced });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+// Validate an admin carrier_services payload. Returns `{ error }` or
+// `{ data }` with limits as numbers (or null) and tiers sorted by weight.
+const readServiceInput = (body) => {
+  const name = String(body.name ?? "").trim();
+  if (!name) return { error: "name required." };
+  const domestic = body.domestic !== false;
+  const international = body.international === true;
+  if (!domestic && !international) {
+    return { error: "Service must be domestic, international or both." };
+  }
+  const limit = (v) => {
+    if (v === null || v === undefined || v === "") return null;
+    const n = Number(v);
+    return Number.isFinite(n) && n > 0 ? n : NaN;
+  };
+  const maxWeightLbs = limit(body.maxWeightLbs);
+  const maxLengthIn = limit(body.maxLengthIn);
+  if (Number.isNaN(maxWeightLbs) || Number.isNaN(maxLengthIn)) {
+    return { error: "Limits must be positive numbers." };
+  }
+  const dimDivisor = body.dimDivisor === undefined || body.dimDivisor === "" ? 139 : Number(body.dimDivisor);
+  if (!Number.isInteger(dimDivisor) || dimDivisor <= 0) {
+    return { error: "dimDivisor must be a positive whole number." };
+  }
+  const tiersRaw = Array.isArray(body.priceTiers) ? body.priceTiers : [];
+  const priceTiers = tiersRaw
+    .map((t) => ({
+      maxWeightLbs: Number(t?.maxWeightLbs),
+      priceUsd: Number(Number(t?.priceUsd).toFixed(2)),
+    }))
+    .sort((a, b) => a.maxWeightLbs - b.maxWeightLbs);
+  if (priceTiers.length === 0) return { error: "At least one price tier required." };
+  for (const t of priceTiers) {
+    if (!Number.isFinite(t.maxWeightLbs) || t.maxWeightLbs <= 0 ||
+        !Number.isFinite(t.priceUsd) || t.priceUsd <= 0) {
+      return { error: "Each price tier needs a positive weight and price." };
+    }
+  }
+  if (new Set(priceTiers.map((t) => t.maxWeightLbs)).size !== priceTiers.length) {
+    return { error: "Price tiers must have different weights." };
+  }
+  return {
+    data: {
+      name,
+      domestic,
+      international,
+      maxWeightLbs,
+      maxLengthIn,
+      dimDivisor,
+      priceTiers,
+      active: body.active !== false,
+      sortOrder: Number(body.sortOrder) || 0,
+    },
+  };
 };
 
+app.get("/api/admin/carriers", requireAuth, requireAdmin, async (_req, res) => {
+  try {
+    const carriers = await getCarrierCatalog({ includeInactive: true });
+    return res.json({ ok: true, carriers });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+app.put(
+  "/api/admin/carriers/:id",
+  requireAuth,
+  requireAdmin,
+  express.json(),
+  async (req, res) => {
+    try {
+      const id = String(req.params.id || "").trim().toLowerCase();
+      const body = req.body ?? {};
+      const name = String(body.name ?? "").trim();
+      if (!/^[a-z0-9-]{2,50}$/.test(id)) {
+        return res.status(400).json({
+          ok: false,
+          error: "Carrier id must be 2-50 lowercase letters, digits or dashes.",
+        });
+      }
+      if (!name) {
+        return res.status(400).json({ ok: false, error: "name required." });
+      }
+      const carrier = await upsertCarrier({
+        id,
+        name,
+        active: body.active !== false,
+        sortOrder: Number(body.sortOrder) || 0,
+      });
+      return res.json({ ok: true, carrier });
+    } catch (err) {
+      return res.status(500).json({
+        ok: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  },
+);
+
+app.delete("/api/admin/carriers/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const ok = await deleteCarrier(String(req.params.id || ""));
+    if (!ok) return res.status(404).json({ ok: false, error: "Not found." });
+    return res.json({ ok: true });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+app.post(
+  "/api/admin/carriers/:id/services",
+  requireAuth,
+  requireAdmin,
+  express.json(),
+  async (req, res) => {
+    try {
+      const input = readServiceInput(req.body ?? {});
+      if (input.error) return res.status(400).json({ ok: false, error: input.error });
+      const service = await createCarrierService(String(req.params.id || ""), input.data);
+      return res.json({ ok: true, service });
+    } catch (err) {
+      if (err && err.code === "23505") {
+        return res.status(400).json({ ok: false, error: "This carrier already has a service with that name." });
+      }
+      if (err && err.code === "23503") {
+        return res.status(404).json({ ok: false, error: "Carrier not found." });
+      }
+      return res.status(500).json({
+        ok: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  },
+);
+
+app.put(
+  "/api/admin/services/:id",
+  requireAuth,
+  requireAdmin,
+  express.json(),
+  async (req, res) => {
+    try {
+      const input = readServiceInput(req.body ?? {});
+      if (input.error) return res.status(400).json({ ok: false, error: input.error });
+      const service = await updateCarrierService(String(req.params.id || ""), input.data);
+      if (!service) return res.status(404).json({ ok: false, error: "Not found." });
+      return res.json({ ok: true, service });
+    } catch (err) {
+      if (err && err.code === "23505") {
+        return res.status(400).json({ ok: false, error: "This carrier already has a service with that name." });
+      }
+      return res.status(500).json({
+        ok: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  },
+);
+
+app.delete("/api/admin/services/:id", requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const ok = await deleteCarrierService(String(req.params.id || ""));
+    if (!ok) return res.status(404).json({ ok: false, error: "Not found." });
+    return res.json({ ok: true });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
 app.get("/api/wallet/balance", requireAuth, async (req, res) => {
-  const userId = req.user.id;
-  const balance = await getBalance(userId);
-  return res.json({ ok: true, balance });
+  try {
+    const balance = await getWalletBalance(req.user.id);
+    return res.json({ ok: true, balance });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+app.get("/api/wallet/ledger", requireAuth, async (req, res) => {
+  try {
+    const entries = await getLedgerEntriesByUserId(req.user.id);
+    return res.json({ ok: true, entries });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
 });
 
 app.post("/api/wallet/pay", requireAuth, express.json(), async (req, res) => {
@@ -413,38 +836,54 @@ app.post("/api/wallet/pay", requireAuth, express.json(), async (req, res) => {
       });
     }
 
-    const total = calcCartTotalUsd(items);
-    const balance = await getBalance(userId);
-    if (balance < total) {
-      return res.status(400).json({
-        ok: false,
-        error: `Insufficient credits. Balance: $${balance.toFixed(
-          2,
-        )}, total: $${total.toFixed(2)}.`,
-      });
-    }
-
+    const priced = await priceCartOrReject(items, res);
+    if (!priced) return;
+    const total = priced.totalUsd;
     const orderId = crypto.randomUUID();
-    const newBal = await addCredits(userId, -total, "purchase", {
-      orderId,
-      total,
-      itemCount: items.length,
-    });
-
-    await upsertOrder({
+    const now = new Date().toISOString();
+    const order = {
       orderId,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+      createdAt: now,
+      updatedAt: now,
       status: "paid",
-      paidAt: new Date().toISOString(),
+      paidAt: now,
       paymentMethod: "credits",
       totalUsd: total,
       currency: "USD",
-      items,
+      items: priced.items,
       user: { id: userId, email: email },
-    });
+    };
+    // The balance check and debit happen under one row lock, so concurrent
+    // payments cannot both spend the same credits. The labels are written in
+    // the same transaction, so a failure there leaves the wallet uncharged;
+    // the order is saved once the payment has committed.
+    let result;
+    try {
+      result = await spendWalletCredits(
+        {
+          userId,
+          delta: -total,
+          reason: "purchase",
+          meta: { orderId, total, itemCount: priced.items.length },
+          idempotencyKey: `purchase:${orderId}`,
+        },
+        (client) => createLabelsForOrder(order, client),
+      );
+    } catch (err) {
+      if (err && err.code === "INSUFFICIENT_CREDITS") {
+        return res.status(400).json({ ok: false, error: err.message });
+      }
+      throw err;
+    }
+    await savePaidOrder(order);
 
-    return res.json({ ok: true, orderId, total, balance: newBal });
+    return res.json({
+      ok: true,
+      orderId,
+      total,
+      balance: result.balance,
+      labelIds: result.applied.map((l) => l.id),
+    });
   } catch (err) {
     return res.status(500).json({
       ok: false,
@@ -749,8 +1188,10 @@ app.post("/api/coinbase/create-charge", express.json(), async (req, res) => {
       });
     }
 
+    const priced = await priceCartOrReject(items, res);
+    if (!priced) return;
     const orderId = crypto.randomUUID();
-    const amount = calcCartTotalUsd(items);
+    const amount = priced.totalUsd;
 
     const chargeRequest = {
       name: "Labelz Cart",
@@ -774,7 +1215,7 @@ app.post("/api/coinbase/create-charge", express.json(), async (req, res) => {
       paymentMethod: "coinbase",
       totalUsd: amount,
       currency: "USD",
-      items,
+      items: priced.items,
       user: who ? { id: who.id, email: email } : email ? { id: null, email: email } : null,
     });
 
@@ -829,6 +1270,25 @@ app.post("/api/coinbase/create-charge", express.json(), async (req, res) => {
   }
 });
 
+// Sum of the confirmed USD payments on a charge, or null when the event does
+// not list any (then the amount cannot be checked).
+const coinbasePaidUsd = (data) => {
+  const payments = data && Array.isArray(data.payments) ? data.payments : [];
+  let total = 0;
+  let counted = 0;
+  for (const p of payments) {
+    const status = String(p?.status ?? "").toUpperCase();
+    const local = p?.value?.local;
+    if (status !== "CONFIRMED" && status !== "RESOLVED") continue;
+    if (String(local?.currency ?? "").toUpperCase() !== "USD") continue;
+    const amount = Number(local?.amount);
+    if (!Number.isFinite(amount)) continue;
+    total += amount;
+    counted += 1;
+  }
+  return counted > 0 ? Number(total.toFixed(2)) : null;
+};
+
 // Coinbase Commerce webhooks should POST here.
 // We verify X-CC-Webhook-Signature using COINBASE_COMMERCE_WEBHOOK_SECRET and append
 // "confirmed" charge events to a local .txt file.
@@ -876,39 +1336,62 @@ app.post(
         });
         await fs.appendFile(ORDERS_FILE, line + "\n", "utf8");
 
-        // If this is a credits top-up, credit the user's wallet.
         const meta = data && typeof data === "object" ? data.metadata : null;
         const purpose =
           meta && typeof meta === "object" ? String(meta.purpose ?? "") : "";
         const userId =
           meta && typeof meta === "object" ? String(meta.userId ?? "") : "";
-        const amountUsdRaw =
-          meta && typeof meta === "object" ? meta.amountUsd : null;
-        const amountUsd = Number(amountUsdRaw);
-
-        if (purpose === "topup" && userId && Number.isFinite(amountUsd)) {
-          await addCredits(userId, Number(amountUsd.toFixed(2)), "topup", {
-            chargeId: data?.id ?? null,
-            type,
-          });
-        }
-
-        // If this is a cart order, mark it as paid.
         const orderId =
           meta && typeof meta === "object" ? String(meta.orderId ?? "") : "";
-        if (orderId && purpose !== "topup") {
-          await upsertOrder({
-            orderId,
-            status: "paid",
-            paidAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-            paymentMethod: "coinbase",
-            coinbase: {
-              chargeId: data?.id ?? null,
-              eventType: type,
-            },
-          });
+        const chargeId = data && data.id ? String(data.id) : "";
+
+        // Top-ups carry their amount in metadata; orders use the stored total.
+        let expectedUsd = null;
+        if (purpose === "topup") {
+          const amountUsd = Number(meta?.amountUsd);
+          expectedUsd = Number.isFinite(amountUsd) ? Number(amountUsd.toFixed(2)) : null;
+        } else if (orderId) {
+          const orders = await readOrders();
+          const existing = orders.find((o) => String(o.orderId) === orderId);
+          const total = Number(existing?.totalUsd);
+          expectedUsd = Number.isFinite(total) ? total : null;
         }
+
+        // Credits, order updates and label creation happen at most once per
+        // charge; repeated or follow-up events only get recorded. An order's
+        // labels are written in the charge's transaction, and the order is
+        // saved as paid once that has committed.
+        let paidOrder = null;
+        const applied = await applyCoinbaseChargeEvent(
+          {
+            eventId: eventObj?.id ? String(eventObj.id) : "",
+            eventType: type,
+            chargeId,
+            purpose,
+            userId,
+            orderId: purpose === "topup" ? "" : orderId,
+            expectedUsd,
+            paidUsd: coinbasePaidUsd(data),
+          },
+          async (client) => {
+            paidOrder = await orderWithChanges(orderId, {
+              status: "paid",
+              paidAt: new Date().toISOString(),
+              updatedAt: new Date().toISOString(),
+              paymentMethod: "coinbase",
+              coinbase: {
+                chargeId: chargeId || null,
+                eventType: type,
+              },
+            });
+            await createLabelsForOrder(paidOrder, client);
+          },
+        );
+        if (paidOrder && applied.outcome === "paid") await savePaidOrder(paidOrder);
+        if (applied.outcome === "mismatched" || applied.outcome === "skipped") {
+          console.warn(`[coinbase] Charge ${chargeId || "?"} ${applied.outcome}: ${applied.detail}`);
+        }
+        return res.status(200).json({ ok: true, outcome: applied.outcome });
       }
 
       return res.status(200).json({ ok: true });
@@ -1038,6 +1521,30 @@ app.get("/api/admin/orders", requireAuth, requireAdmin, async (_req, res) => {
   return res.json({ ok: true, orders });
 });
 
+app.get("/api/admin/wallets/ledger-check", requireAuth, requireAdmin, async (_req, res) => {
+  try {
+    const mismatches = await findWalletLedgerMismatches();
+    return res.json({ ok: true, mismatches });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+app.get("/api/admin/coinbase/reconciliation", requireAuth, requireAdmin, async (_req, res) => {
+  try {
+    const report = await getCoinbaseReconciliation();
+    return res.json({ ok: true, ...report });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
 app.delete("/api/admin/orders/:orderId", requireAuth, requireAdmin, async (req, res) => {
   const orderId = String(req.params.orderId || "");
   const orders = await readOrders();
@@ -1122,7 +1629,23 @@ app.post("/api/labels", requireAuth, express.json(), async (req, res) => {
   try {
     const userId = req.user.id;
     const body = req.body ?? {};
-    const labelData = body.labelData ?? body;
+    const labelData = migrateLabelData(body.labelData ?? body);
+    const fieldErrors = validateLabelData(labelData, {
+      catalog: await getCarrierCatalog(),
+      hsCodeExists: hsCodeMayExist,
+    });
+    if (!fieldErrors.returnOfLabelId) {
+      const returnProblem = await returnOfProblem(userId, labelData);
+      if (returnProblem) fieldErrors.returnOfLabelId = returnProblem;
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      return res.status(400).json({
+        ok: false,
+        code: "INVALID_LABEL_DATA",
+        error: "Label data is invalid.",
+        fieldErrors,
+      });
+    }
     const id = crypto.randomUUID();
     const label = await createLabel({ id, userId, labelData });
     return res.json({ ok: true, label });
@@ -1164,9 +1687,161 @@ app.get("/api/labels/:id", requireAuth, async (req, res) => {
   }
 });
 
+// Display name of a carrier id, as printed on generated documents.
+const carrierNameOf = async (carrierId) => {
+  const catalog = await getCarrierCatalog();
+  return catalog.find((c) => c.id === carrierId)?.name ?? carrierId;
+};
+
+// Commercial invoice and packing slip of a label with customs lines, as
+// `{ name, piece, data }`, dated when the label was completed.
+const labelPaperwork = async (label) => {
+  const d = migrateLabelData(label.labelData || {});
+  if (!hasCustomsLines(d)) return [];
+  const options = {
+    labelId: label.id,
+    labelData: d,
+    carrierName: await carrierNameOf(d.carrier),
+    orderId: label.orderId,
+    date: new Date(label.updatedAt),
+  };
+  const reference = labelReference(label.id);
+  return [
+    {
+      name: `commercial-invoice-${reference}.pdf`,
+      piece: null,
+      data: Buffer.from(await renderCommercialInvoice(options)),
+    },
+    {
+      name: `packing-slip-${reference}.pdf`,
+      piece: null,
+      data: Buffer.from(await renderPackingSlip(options)),
+    },
+  ];
+};
+
+// The label's stored files that are still on disk, as `{ path, name, piece,
+// generatedAt }`.
+const storedLabelFiles = async (label) => {
+  const files = Array.isArray(label.files) ? label.files : [];
+  const dir = path.join(LABELS_UPLOAD_DIR, label.id);
+  const existing = [];
+  for (const f of files) {
+    const stored = (typeof f === "object" && f && f.filename) ? f.filename : (typeof f === "string" ? f : null);
+    if (!stored) continue;
+    const fp = path.join(dir, stored);
+    try {
+      await fs.access(fp);
+      const name = (typeof f === "object" && f && f.originalName) ? f.originalName : stored;
+      const piece = typeof f === "object" && f && Number.isInteger(f.piece) ? f.piece : null;
+      const generatedAt = typeof f === "object" && f && f.generatedAt ? f.generatedAt : null;
+      existing.push({ path: fp, name, piece, generatedAt });
+    } catch {
+      /* skip missing */
+    }
+  }
+  return existing;
+};
+
+const isPdfFile = (f) => path.extname(f.name || f.path).toLowerCase() === ".pdf";
+
+// Add a label's documents to `archive` under `folder`: package labels in one
+// folder per package, shared documents at the top.
+const archiveLabelDocuments = (archive, documents, folder = "") => {
+  for (const f of documents) {
+    const name = f.name || path.basename(f.path);
+    const entry = { name: `${folder}${f.piece ? `package-${f.piece}/` : ""}${name}` };
+    if (f.data) archive.append(f.data, entry);
+    else archive.file(f.path, entry);
+  }
+};
+
+// The label's stored PDFs laid out 2-up on `layout` paper as one PDF,
+// followed by its other files unchanged.
+const sheetLabelDocuments = async (label, existing, layout) => {
+  const pdfs = existing.filter(isPdfFile);
+  if (pdfs.length === 0) return existing;
+  const bytes = await layoutLabelSheets(
+    await Promise.all(pdfs.map((f) => fs.readFile(f.path))),
+    layout,
+  );
+  return [
+    { name: `label-${labelReference(label.id)}-${layout}.pdf`, piece: null, data: Buffer.from(bytes) },
+    ...existing.filter((f) => !pdfs.includes(f)),
+  ];
+};
+
+// The label's stored documents converted to `format` ("zpl" or "png"), as
+// `{ name, piece, data }`. Labels the server generated are drawn as native ZPL
+// or PNG from the label data; stored PDFs and images are rasterized. Other
+// files, and documents that cannot be read, are passed through unchanged.
+const convertLabelDocuments = async (label, existing, format) => {
+  const d = migrateLabelData(label.labelData || {});
+  let carrierName = null;
+  const out = [];
+  for (const f of existing) {
+    const base = path.basename(f.name || path.basename(f.path), path.extname(f.name || f.path));
+    if (f.generatedAt) {
+      carrierName ??= await carrierNameOf(d.carrier);
+      const input = {
+        labelId: label.id,
+        labelData: d,
+        carrierName,
+        pieceIndex: f.piece ? f.piece - 1 : 0,
+        date: new Date(f.generatedAt),
+      };
+      out.push(
+        format === "zpl"
+          ? { name: `${base}.zpl`, piece: f.piece, data: Buffer.from(renderLabelZpl(input)) }
+          : { name: `${base}.png`, piece: f.piece, data: await renderLabelPng(input) },
+      );
+      continue;
+    }
+    const bytes = await fs.readFile(f.path);
+    const name = f.name || path.basename(f.path);
+    if (format === "zpl") {
+      const zpl = await documentToZpl(bytes, name);
+      out.push(zpl ? { name: `${base}.zpl`, piece: f.piece, data: Buffer.from(zpl) } : f);
+    } else {
+      const pngs = await documentToPng(bytes, name);
+      if (!pngs) out.push(f);
+      else {
+        pngs.forEach((data, i) =>
+          out.push({ name: pngs.length > 1 ? `${base}-${i + 1}.png` : `${base}.png`, piece: f.piece, data }),
+        );
+      }
+    }
+  }
+  return out;
+};
+
+// Label documents as stored (`?format=pdf`, the default), or converted to ZPL
+// for thermal printers or PNG, plus the paperwork of international labels.
+// PDFs can also be laid out for office paper (`?layout=letter|a4`). One file
+// is sent as is; several are zipped.
 app.get("/api/labels/:id/download", requireAuth, async (req, res) => {
   try {
     const id = String(req.params.id || "");
+    const format = String(req.query.format ?? "pdf").toLowerCase();
+    if (!LABEL_DOWNLOAD_FORMATS.includes(format)) {
+      return res.status(400).json({
+        ok: false,
+        error: `Unknown format. Use ${LABEL_DOWNLOAD_FORMATS.join(", ")}.`,
+      });
+    }
+    const layout = req.query.layout ? String(req.query.layout).toLowerCase() : null;
+    if (layout && !SHEET_LAYOUTS.includes(layout)) {
+      return res.status(400).json({
+        ok: false,
+        error: `Unknown layout. Use ${SHEET_LAYOUTS.join(", ")}.`,
+      });
+    }
+    if (layout && format !== "pdf") {
+      return res.status(400).json({
+        ok: false,
+        error: "Sheet layouts are only available for PDF downloads.",
+      });
+    }
     const label = await getLabelById(id);
     if (!label) return res.status(404).json({ ok: false, error: "Not found." });
     if (label.userId !== req.user.id) {
@@ -1175,31 +1850,26 @@ app.get("/api/labels/:id/download", requireAuth, async (req, res) => {
     if (label.status !== "done") {
       return res.status(400).json({ ok: false, error: "Label is not ready for download." });
     }
-    const files = Array.isArray(label.files) ? label.files : [];
-    if (files.length === 0) {
+    if (!Array.isArray(label.files) || label.files.length === 0) {
       return res.status(404).json({ ok: false, error: "No documents available." });
     }
-    const dir = path.join(LABELS_UPLOAD_DIR, id);
-    const existing = [];
-    for (const f of files) {
-      const stored = (typeof f === "object" && f && f.filename) ? f.filename : (typeof f === "string" ? f : null);
-      if (!stored) continue;
-      const fp = path.join(dir, stored);
-      try {
-        await fs.access(fp);
-        const name = (typeof f === "object" && f && f.originalName) ? f.originalName : stored;
-        existing.push({ path: fp, name });
-      } catch {
-        /* skip missing */
-      }
-    }
+    const existing = await storedLabelFiles(label);
     if (existing.length === 0) {
       return res.status(404).json({ ok: false, error: "No documents found on disk." });
     }
-    if (existing.length === 1) {
-      const [one] = existing;
+    const stored =
+      format !== "pdf"
+        ? await convertLabelDocuments(label, existing, format)
+        : layout
+          ? await sheetLabelDocuments(label, existing, layout)
+          : existing;
+    const documents = [...stored, ...(await labelPaperwork(label))];
+    if (documents.length === 1) {
+      const [one] = documents;
       const name = one.name || "document";
-      return res.download(one.path, name);
+      if (!one.data) return res.download(one.path, name);
+      res.attachment(name);
+      return res.send(one.data);
     }
     res.setHeader("Content-Type", "application/zip");
     res.setHeader("Content-Disposition", `attachment; filename="label-${id}-documents.zip"`);
@@ -1208,9 +1878,7 @@ app.get("/api/labels/:id/download", requireAuth, async (req, res) => {
       if (!res.headersSent) res.status(500).json({ ok: false, error: err.message });
     });
     archive.pipe(res);
-    for (const f of existing) {
-      archive.file(f.path, { name: f.name || path.basename(f.path) });
-    }
+    archiveLabelDocuments(archive, documents);
     await archive.finalize();
   } catch (err) {
     if (!res.headersSent) {
@@ -1222,6 +1890,461 @@ app.get("/api/labels/:id/download", requireAuth, async (req, res) => {
   }
 });
 
+const BATCH_DOWNLOAD_LIMIT = 100;
+
+// Several of the user's completed labels at once, in the order of `ids`.
+// `as: "pdf"` (the default) merges every label's stored PDFs into one file,
+// optionally laid out with `layout`, followed by the paperwork of
+// international labels; files that are not PDFs are left out. `as: "zip"`
+// puts each label's documents in a folder of its own, numbered in order.
+app.post("/api/labels/download", requireAuth, express.json(), async (req, res) => {
+  try {
+    const body = req.body ?? {};
+    const ids = Array.isArray(body.ids) ? body.ids.map((v) => String(v)) : [];
+    const as = String(body.as ?? "pdf").toLowerCase();
+    const layout = body.layout ? String(body.layout).toLowerCase() : null;
+    if (ids.length === 0) {
+      return res.status(400).json({ ok: false, error: "Select at least one label." });
+    }
+    if (ids.length > BATCH_DOWNLOAD_LIMIT) {
+      return res.status(400).json({
+        ok: false,
+        error: `At most ${BATCH_DOWNLOAD_LIMIT} labels can be downloaded at once.`,
+      });
+    }
+    if (new Set(ids).size !== ids.length) {
+      return res.status(400).json({ ok: false, error: "A label is selected more than once." });
+    }
+    const malformed = ids.find((id) => !isUuid(id));
+    if (malformed !== undefined) {
+      return res.status(400).json({ ok: false, error: `"${malformed}" is not a label id.` });
+    }
+    if (as !== "pdf" && as !== "zip") {
+      return res.status(400).json({ ok: false, error: "Unknown output. Use pdf or zip." });
+    }
+    if (layout && !SHEET_LAYOUTS.includes(layout)) {
+      return res.status(400).json({
+        ok: false,
+        error: `Unknown layout. Use ${SHEET_LAYOUTS.join(", ")}.`,
+      });
+    }
+    if (layout && as !== "pdf") {
+      return res.status(400).json({
+        ok: false,
+        error: "Sheet layouts are only available for PDF downloads.",
+      });
+    }
+    const labels = [];
+    for (const id of ids) {
+      const label = await getLabelById(id);
+      if (!label || label.userId !== req.user.id) {
+        return res.status(404).json({ ok: false, error: `Label ${id} not found.` });
+      }
+      if (label.status !== "done") {
+        return res.status(400).json({
+          ok: false,
+          error: `Label ${id.slice(0, 8)} is not ready for download.`,
+        });
+      }
+      labels.push({ label, files: await storedLabelFiles(label) });
+    }
+
+    if (as === "zip") {
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="labels-${ids.length}.zip"`);
+      const archive = archiver("zip", { zlib: { level: 9 } });
+      archive.on("error", (err) => {
+        if (!res.headersSent) res.status(500).json({ ok: false, error: err.message });
+      });
+      archive.pipe(res);
+      const width = String(labels.length).length;
+      for (const [i, { label, files }] of labels.entries()) {
+        const folder = `${String(i + 1).padStart(width, "0")}-${labelReference(label.id)}/`;
+        archiveLabelDocuments(archive, [...files, ...(await labelPaperwork(label))], folder);
+      }
+      await archive.finalize();
+      return;
+    }
+
+    const labelPdfs = [];
+    const paperwork = [];
+    for (const { label, files } of labels) {
+      for (const f of files.filter(isPdfFile)) labelPdfs.push(await fs.readFile(f.path));
+      for (const p of await labelPaperwork(label)) paperwork.push(p.data);
+    }
+    if (labelPdfs.length === 0) {
+      return res.status(404).json({
+        ok: false,
+        error: "These labels have no PDF documents. Download them as a ZIP instead.",
+      });
+    }
+    const merged = layout
+      ? await layoutLabelSheets(labelPdfs, layout)
+      : await mergePdfs(labelPdfs);
+    const bytes = paperwork.length > 0 ? await mergePdfs([merged, ...paperwork]) : merged;
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="labels-${ids.length}${layout ? `-${layout}` : ""}.pdf"`,
+    );
+    return res.send(Buffer.from(bytes));
+  } catch (err) {
+    if (!res.headersSent) {
+      return res.status(500).json({
+        ok: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }
+});
+
+const addressLines = (a) =>
+  a
+    ? [
+        a.name,
+        a.company,
+        a.address1,
+        a.address2,
+        [[a.city, a.state].filter(Boolean).join(", "), a.zip].filter(Boolean).join(" "),
+        a.country,
+        a.phone ? `Phone: ${a.phone}` : "",
+        a.email ? `Email: ${a.email}` : "",
+      ].filter(Boolean)
+    : ["—"];
+
+// Plain-text summary of a label request, with weight and dimensions in
+// `?units=metric|imperial` (default: the units the label was entered in).
+app.get("/api/labels/:id/details", requireAuth, async (req, res) => {
+  try {
+    const id = String(req.params.id || "");
+    const label = await getLabelById(id);
+    if (!label) return res.status(404).json({ ok: false, error: "Not found." });
+    if (label.userId !== req.user.id && !req.user.isAdmin) {
+      return res.status(403).json({ ok: false, error: "Forbidden." });
+    }
+    const d = migrateLabelData(label.labelData || {});
+    const pieces = Array.isArray(d.pieces) ? d.pieces : [];
+    const units =
+      readUnits(req.query.units) || readUnits(pieces[0]?.entered?.units) || "imperial";
+    const lines = [
+      `Label ${label.id}`,
+      `Status: ${label.status}`,
+      ...(label.orderId ? [`Order: ${label.orderId}`] : []),
+      ...(d.returnOfLabelId ? [`Return of label: ${d.returnOfLabelId}`] : []),
+      ...(label.returnIds.length > 0 ? [`Return labels: ${label.returnIds.join(", ")}`] : []),
+      `Carrier: ${String(d.carrier || "—").toUpperCase()}`,
+      `Service: ${d.service || "—"}`,
+      ...(pieces.length === 1
+        ? [`Weight: ${formatWeight(pieces[0], units)}`, `Dimensions: ${formatDimensions(pieces[0], units)}`]
+        : [
+            `Packages: ${pieces.length} • ${fromLbs(shipmentWeightLbs(d), units)} ${weightUnit(units)} total`,
+            ...pieces.map(
+              (p, i) => `  ${i + 1}. ${formatWeight(p, units)} • ${formatDimensions(p, units)}`,
+            ),
+          ]),
+      "",
+      "From:",
+      ...addressLines(d.from).map((l) => `  ${l}`),
+      "",
+      "To:",
+      ...addressLines(d.to).map((l) => `  ${l}`),
+    ];
+    if (Array.isArray(d.customs?.lines) && d.customs.lines.length > 0) {
+      const totals = customsTotals(d.customs);
+      lines.push(
+        "",
+        `Customs (${customsFormType(d)}, ${String(d.customs.contentsType || "—").replace("_", " ")}):`,
+        ...d.customs.lines.map(
+          (l) =>
+            `  ${l.quantity} × ${l.description} • $${Number(l.unitValueUsd || 0).toFixed(2)} each • ${fromLbs(l.weightLbs, units)} ${weightUnit(units)}${l.hsCode ? ` • HS ${l.hsCode}` : ""} • ${l.originCountry || "—"}`,
+        ),
+        `  Total: ${totals.quantity} item(s) • $${totals.valueUsd.toFixed(2)} • ${fromLbs(totals.weightLbs, units)} ${weightUnit(units)}`,
+      );
+    }
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="label-${id}.txt"`);
+    return res.send(`${lines.join("\n")}\n`);
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+// --- Preferences ---
+// What a user can save with PUT /api/preferences, and the values each takes.
+// The client keeps a copy in localStorage for signed-out use.
+const PREFERENCE_VALUES = {
+  units: ["imperial", "metric"],
+  labelFormat: LABEL_DOWNLOAD_FORMATS,
+  labelLayout: ["none", ...SHEET_LAYOUTS],
+};
+
+// Saved preferences with unknown keys and values left out.
+const knownPreferences = (saved) =>
+  Object.fromEntries(
+    Object.entries(saved || {}).filter(([key, value]) => PREFERENCE_VALUES[key]?.includes(value)),
+  );
+
+app.get("/api/preferences", requireAuth, async (req, res) => {
+  try {
+    const preferences = await getUserPreferences(req.user.id);
+    if (!preferences) return res.status(404).json({ ok: false, error: "Not found." });
+    return res.json({ ok: true, preferences: knownPreferences(preferences) });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+// Save some of the user's preferences; keys not sent keep their value.
+app.put("/api/preferences", requireAuth, express.json(), async (req, res) => {
+  try {
+    const body = req.body && typeof req.body === "object" ? req.body : {};
+    for (const [key, value] of Object.entries(body)) {
+      const allowed = PREFERENCE_VALUES[key];
+      if (!allowed) return res.status(400).json({ ok: false, error: `Unknown preference "${key}".` });
+      if (!allowed.includes(value)) {
+        return res.status(400).json({ ok: false, error: `${key} must be one of ${allowed.join(", ")}.` });
+      }
+    }
+    const preferences = await updateUserPreferences(req.user.id, body);
+    if (!preferences) return res.status(404).json({ ok: false, error: "Not found." });
+    return res.json({ ok: true, preferences: knownPreferences(preferences) });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+// --- Address book ---
+const ADDRESS_FIELDS = [
+  "name",
+  "company",
+  "address1",
+  "address2",
+  "city",
+  "state",
+  "zip",
+  "country",
+  "phone",
+  "email",
+];
+const ADDRESS_LABEL_MAX = 100;
+
+// Validate an address book payload with the label address rules. Returns
+// `{ fieldErrors }` or `{ data }`; the label defaults to the name.
+const readAddressBookInput = (body) => {
+  const address = {};
+  for (const field of ADDRESS_FIELDS) address[field] = String(body[field] ?? "").trim();
+  address.country = address.country.toUpperCase();
+  const fieldErrors = validateAddress(address);
+  const label = String(body.label ?? "").trim() || address.name;
+  if (label.length > ADDRESS_LABEL_MAX) {
+    fieldErrors.label = `Must be at most ${ADDRESS_LABEL_MAX} characters.`;
+  }
+  if (Object.keys(fieldErrors).length > 0) return { fieldErrors };
+  return { data: { ...address, label, isDefaultSender: body.isDefaultSender === true } };
+};
+
+const invalidAddress = (res, fieldErrors) =>
+  res.status(400).json({
+    ok: false,
+    code: "INVALID_ADDRESS",
+    error: "Address is invalid.",
+    fieldErrors,
+  });
+
+const addressKey = (a) =>
+  ["name", "address1", "zip", "country"]
+    .map((field) => String(a?.[field] ?? "").trim().toLowerCase())
+    .join("|");
+
+app.get("/api/addresses", requireAuth, async (req, res) => {
+  try {
+    const addresses = await getAddressBookEntries(req.user.id, { q: String(req.query.q ?? "") });
+    return res.json({ ok: true, addresses });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+// From/to addresses of the user's labels that are not in the address book
+// yet (matched on name, street, postal code and country), newest first.
+app.get("/api/addresses/suggestions", requireAuth, async (req, res) => {
+  try {
+    const [labels, saved] = await Promise.all([
+      getLabelsByUserId(req.user.id),
+      getAddressBookEntries(req.user.id),
+    ]);
+    const seen = new Set(saved.map(addressKey));
+    const suggestions = [];
+    for (const label of labels) {
+      const d = migrateLabelData(label.labelData || {});
+      for (const role of ["to", "from"]) {
+        const a = d[role];
+        if (!a || typeof a !== "object") continue;
+        const key = addressKey(a);
+        if (seen.has(key) || Object.keys(validateAddress(a)).length > 0) continue;
+        seen.add(key);
+        const address = {};
+        for (const field of ADDRESS_FIELDS) address[field] = String(a[field] ?? "");
+        suggestions.push({ ...address, role, labelId: label.id });
+      }
+      if (suggestions.length >= 20) break;
+    }
+    return res.json({ ok: true, suggestions: suggestions.slice(0, 20) });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+app.post("/api/addresses", requireAuth, express.json(), async (req, res) => {
+  try {
+    const { data, fieldErrors } = readAddressBookInput(req.body ?? {});
+    if (fieldErrors) return invalidAddress(res, fieldErrors);
+    const address = await createAddressBookEntry(req.user.id, data);
+    return res.json({ ok: true, address });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+app.put("/api/addresses/:id", requireAuth, express.json(), async (req, res) => {
+  try {
+    const id = String(req.params.id || "");
+    const { data, fieldErrors } = readAddressBookInput(req.body ?? {});
+    if (fieldErrors) return invalidAddress(res, fieldErrors);
+    const address = await updateAddressBookEntry(id, req.user.id, data);
+    if (!address) return res.status(404).json({ ok: false, error: "Not found." });
+    return res.json({ ok: true, address });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+app.delete("/api/addresses/:id", requireAuth, async (req, res) => {
+  try {
+    const id = String(req.params.id || "");
+    const deleted = await deleteAddressBookEntry(id, req.user.id);
+    if (!deleted) return res.status(404).json({ ok: false, error: "Not found." });
+    return res.json({ ok: true });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+// --- Package presets ---
+// Validate a preset payload with the shared rules. Returns `{ fieldErrors }`
+// or `{ data }`; an empty weight is stored as null.
+const readPackagePresetInput = (body) => {
+  const num = (v) => (v === null || v === undefined || v === "" ? null : Number(v));
+  const input = {
+    name: String(body.name ?? "").trim(),
+    units: body.units,
+    length: num(body.length),
+    width: num(body.width),
+    height: num(body.height),
+    weight: num(body.weight),
+    contentsDescription: String(body.contentsDescription ?? "").trim(),
+  };
+  const fieldErrors = validatePackagePreset(input);
+  if (Object.keys(fieldErrors).length > 0) return { fieldErrors };
+  return { data: input };
+};
+
+const invalidPreset = (res, fieldErrors, error = "Package preset is invalid.") =>
+  res.status(400).json({
+    ok: false,
+    code: "INVALID_PACKAGE_PRESET",
+    error,
+    fieldErrors,
+  });
+
+const DUPLICATE_PRESET = "You already have a preset with this name.";
+
+app.get("/api/package-presets", requireAuth, async (req, res) => {
+  try {
+    const presets = await getPackagePresets(req.user.id);
+    return res.json({ ok: true, presets });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+app.post("/api/package-presets", requireAuth, express.json(), async (req, res) => {
+  try {
+    const { data, fieldErrors } = readPackagePresetInput(req.body ?? {});
+    if (fieldErrors) return invalidPreset(res, fieldErrors);
+    const preset = await createPackagePreset(req.user.id, data);
+    return res.json({ ok: true, preset });
+  } catch (err) {
+    if (err && err.code === "23505") {
+      return invalidPreset(res, { name: DUPLICATE_PRESET }, DUPLICATE_PRESET);
+    }
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+app.put("/api/package-presets/:id", requireAuth, express.json(), async (req, res) => {
+  try {
+    const id = String(req.params.id || "");
+    const { data, fieldErrors } = readPackagePresetInput(req.body ?? {});
+    if (fieldErrors) return invalidPreset(res, fieldErrors);
+    const preset = await updatePackagePreset(id, req.user.id, data);
+    if (!preset) return res.status(404).json({ ok: false, error: "Not found." });
+    return res.json({ ok: true, preset });
+  } catch (err) {
+    if (err && err.code === "23505") {
+      return invalidPreset(res, { name: DUPLICATE_PRESET }, DUPLICATE_PRESET);
+    }
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
+app.delete("/api/package-presets/:id", requireAuth, async (req, res) => {
+  try {
+    const id = String(req.params.id || "");
+    const deleted = await deletePackagePreset(id, req.user.id);
+    if (!deleted) return res.status(404).json({ ok: false, error: "Not found." });
+    return res.json({ ok: true });
+  } catch (err) {
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
 // --- Admin: labels ---
 app.get("/api/admin/labels", requireAuth, requireAdmin, async (_req, res) => {
   try {
@@ -1240,30 +2363,54 @@ app.post(
   requireAuth,
   requireAdmin,
   (req, res, next) => {
-    uploadLabelFiles.array("files", 20)(req, res, (err) => {
+    uploadLabelFiles.any()(req, res, (err) => {
       if (err) return res.status(400).json({ ok: false, error: err?.message || "Upload failed." });
       next();
     });
   },
   async (req, res) => {
+    const reject = async (status, error) => {
+      await discardUploads(req.files);
+      return res.status(status).json({ ok: false, error });
+    };
     try {
       const id = String(req.params.id || "");
       const label = await getLabelById(id);
-      if (!label) return res.status(404).json({ ok: false, error: "Not found." });
-      if (label.status !== "pending") {
-        return res.status(400).json({ ok: false, error: "Label is not pending." });
+      if (!label) return reject(404, "Not found.");
+      if (label.status !== "pending") return reject(400, "Label is not pending.");
+      const d = migrateLabelData(label.labelData || {});
+      const pieceCount = Array.isArray(d.pieces) ? d.pieces.length : 1;
+      const uploaded = [];
+      for (const f of req.files || []) {
+        const match = PIECE_FIELD.exec(f.fieldname);
+        const piece = match ? Number(match[1]) : null;
+        if (f.fieldname !== "files" && (piece === null || piece < 1 || piece > pieceCount)) {
+          return reject(400, `Unexpected upload field "${f.fieldname}".`);
+        }
+        uploaded.push({
+          filename: f.filename,
+          originalName: f.originalname || f.filename,
+          ...(piece !== null ? { piece } : {}),
+        });
       }
-      const uploaded = (req.files || []).map((f) => ({
-        filename: f.filename,
-        originalName: f.originalname || f.filename,
-      }));
-      if (uploaded.length === 0) {
-        return res.status(400).json({ ok: false, error: "Upload at least one file." });
+      if (uploaded.length === 0) return reject(400, "Upload at least one file.");
+      // A multi-piece shipment needs a label for every package.
+      if (pieceCount > 1) {
+        const missing = [];
+        for (let n = 1; n <= pieceCount; n++) {
+          if (!uploaded.some((u) => u.piece === n)) missing.push(n);
+        }
+        if (missing.length > 0) {
+          return reject(400, `Upload a label for package ${missing.join(", ")}.`);
+        }
       }
+      // Package labels in package order, shared documents after them.
+      uploaded.sort((a, b) => (a.piece ?? pieceCount + 1) - (b.piece ?? pieceCount + 1));
       await updateLabel(id, { status: "done", files: uploaded });
       const updated = await getLabelById(id);
       return res.json({ ok: true, label: updated });
     } catch (err) {
+      await discardUploads(req.files);
       return res.status(500).json({
         ok: false,
         error: err instanceof Error ? err.message : "Unknown error",
@@ -1272,6 +2419,61 @@ app.post(
   },
 );
 
+// Render the 4x6 label PDF from the label data, store it like an uploaded
+// file and mark the label done. Multi-piece labels get one PDF per package.
+// International labels need customs documents, so they are uploaded instead.
+app.post("/api/admin/labels/:id/generate", requireAuth, requireAdmin, async (req, res) => {
+  const written = [];
+  try {
+    const id = String(req.params.id || "");
+    const label = await getLabelById(id);
+    if (!label) return res.status(404).json({ ok: false, error: "Not found." });
+    if (label.status !== "pending") {
+      return res.status(400).json({ ok: false, error: "Label is not pending." });
+    }
+    const d = migrateLabelData(label.labelData || {});
+    const invalid = firstLabelError(validateLabelData(d));
+    if (invalid) {
+      return res.status(400).json({ ok: false, error: `Cannot generate this label: ${invalid}` });
+    }
+    if (isInternationalLabel(d)) {
+      return res.status(400).json({
+        ok: false,
+        error: "International labels need customs documents. Upload the files instead.",
+      });
+    }
+    const carrierName = await carrierNameOf(d.carrier);
+    const dir = path.join(LABELS_UPLOAD_DIR, id.replace(/[^a-zA-Z0-9-]/g, ""));
+    await fs.mkdir(dir, { recursive: true });
+    const multi = d.pieces.length > 1;
+    const files = [];
+    const date = new Date();
+    for (let i = 0; i < d.pieces.length; i++) {
+      const bytes = await renderLabelPdf({ labelId: id, labelData: d, carrierName, pieceIndex: i, date });
+      const originalName = `label-${labelReference(id, multi ? i + 1 : null)}.pdf`;
+      const filename = `${Date.now()}_${originalName}`;
+      const fp = path.join(dir, filename);
+      await fs.writeFile(fp, bytes);
+      written.push(fp);
+      files.push({
+        filename,
+        originalName,
+        ...(multi ? { piece: i + 1 } : {}),
+        generatedAt: date.toISOString(),
+      });
+    }
+    await updateLabel(id, { status: "done", files });
+    const updated = await getLabelById(id);
+    return res.json({ ok: true, label: updated });
+  } catch (err) {
+    for (const fp of written) await fs.rm(fp, { force: true }).catch(() => {});
+    return res.status(500).json({
+      ok: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+});
+
 app.post(
   "/api/admin/labels/:id/decline",
   requireAuth,
@@ -1664,6 +2866,12 @@ app.get("/api/sms-verification/rentals", requireAuth, async (req, res) => {
 (async () => {
   try {
     await initDatabase();
+    try {
+      await importLegacyWalletFiles();
+    } catch (err) {
+      // Leave the marker unset so the import is retried on the next start.
+      console.error("Legacy wallet import failed:", err);
+    }
     const server = app.listen(PORT, () => {
       console.log(`API listening on port ${PORT}`);
       if (APP_PRIVATE_URL) {
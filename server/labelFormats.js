@@ -0,0 +1,143 @@
+// Label documents in the formats GET /api/labels/:id/download offers. Stored
+// PDFs are rasterized with pdfjs-dist, and images decoded, onto a
+// @napi-rs/canvas canvas: every page becomes a PNG, or a ZPL bitmap scaled to
+// the 4×6 thermal stock. Other files are not converted.
+
+import path from "node:path";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { VerbosityLevel, getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { PNG_DPI, STANDARD_FONT_DIR } from "./labelPng.js";
+import { ZPL_DPI, ZPL_LABEL_DOTS, zplGraphic } from "./labelZpl.js";
+
+// "pdf" is the documents as they were stored.
+export const LABEL_DOWNLOAD_FORMATS = ["pdf", "zpl", "png"];
+
+const IMAGE_EXTENSIONS = [".png", ".jpg", ".jpeg", ".gif", ".webp"];
+
+// A white canvas of at least `width`×`height` pixels.
+const blankCanvas = (width, height) => {
+  const canvas = createCanvas(Math.max(1, Math.ceil(width)), Math.max(1, Math.ceil(height)));
+  const ctx = canvas.getContext("2d");
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Pages of a PDF, or null when pdfjs cannot read it. Sizes are in points.
+const openPdf = async (bytes) => {
+  let doc;
+  try {
+    doc = await getDocument({
+      data: new Uint8Array(bytes),
+      standardFontDataUrl: STANDARD_FONT_DIR,
+      disableFontFace: true,
+      isEvalSupported: false,
+      verbosity: VerbosityLevel.ERRORS,
+    }).promise;
+  } catch {
+    return null;
+  }
+  const pages = [];
+  for (let i = 1; i <= doc.numPages; i++) {
+    const page = await doc.getPage(i);
+    const { width, height } = page.getViewport({ scale: 1 });
+    pages.push({
+      width,
+      height,
+      dpi: 72,
+      // `turn` is a quarter turn clockwise, on top of the page's own rotation.
+      draw: async (scale, turn) => {
+        const viewport = page.getViewport({ scale, rotation: page.rotate + (turn ? 90 : 0) });
+        const canvas = blankCanvas(viewport.width, viewport.height);
+        await page.render({ canvasContext: canvas.getContext("2d"), viewport, canvas }).promise;
+        return canvas;
+      },
+    });
+  }
+  return { pages, close: () => doc.destroy() };
+};
+
+// An image as a single page, or null when it cannot be decoded. Sizes are in
+// pixels; images have no resolution of their own.
+const openImage = async (bytes) => {
+  let image;
+  try {
+    image = await loadImage(bytes);
+  } catch {
+    return null;
+  }
+  const page = {
+    width: image.width,
+    height: image.height,
+    dpi: null,
+    draw: async (scale, turn) => {
+      const [w, h] = [image.width * scale, image.height * scale];
+      const canvas = turn ? blankCanvas(h, w) : blankCanvas(w, h);
+      const ctx = canvas.getContext("2d");
+      if (turn) {
+        ctx.translate(canvas.width, 0);
+        ctx.rotate(Math.PI / 2);
+      }
+      ctx.drawImage(image, 0, 0, w, h);
+      return canvas;
+    },
+  };
+  return { pages: [page], close: () => {} };
+};
+
+// Pages of a stored document, or null unless it is a PDF or an image that
+// can be read. `name` is the file name; its extension picks the type.
+const openPages = async (bytes, name) => {
+  const ext = path.extname(String(name || "")).toLowerCase();
+  let doc = null;
+  if (ext === ".pdf") doc = await openPdf(bytes);
+  else if (IMAGE_EXTENSIONS.includes(ext)) doc = await openImage(bytes);
+  if (doc && doc.pages.length === 0) {
+    await doc.close();
+    return null;
+  }
+  return doc;
+};
+
+// One PNG per page at PNG_DPI (images at their own size), or null.
+export const documentToPng = async (bytes, name) => {
+  const doc = await openPages(bytes, name);
+  if (!doc) return null;
+  try {
+    const out = [];
+    for (const page of doc.pages) {
+      const canvas = await page.draw(page.dpi ? PNG_DPI / page.dpi : 1, false);
+      out.push(await canvas.encode("png"));
+    }
+    return out;
+  } finally {
+    await doc.close();
+  }
+};
+
+// ZPL printing every page as one label, or null. Landscape pages are turned
+// to portrait, and each page is scaled to fit the label, PDFs at no more than
+// the printer's resolution.
+export const documentToZpl = async (bytes, name) => {
+  const doc = await openPages(bytes, name);
+  if (!doc) return null;
+  const [labelWidth, labelHeight] = ZPL_LABEL_DOTS;
+  try {
+    const out = [];
+    for (const page of doc.pages) {
+      const landscape = page.width > page.height;
+      const [w, h] = landscape ? [page.height, page.width] : [page.width, page.height];
+      const scale = Math.min(labelWidth / w, labelHeight / h, page.dpi ? ZPL_DPI / page.dpi : Infinity);
+      const canvas = await page.draw(scale, landscape);
+      const { data, width, height } = canvas.getContext("2d").getImageData(0, 0, canvas.width, canvas.height);
+      const pixels = new Uint8Array(width * height);
+      for (let i = 0; i < pixels.length; i++) {
+        pixels[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+      }
+      out.push(zplGraphic({ pixels, width, height }));
+    }
+    return out.join("");
+  } finally {
+    await doc.close();
+  }
+};
@@ -0,0 +1,186 @@
+// 4×6 in shipping label PDFs rendered from label data (see
+// shared/labelSchema.js), for admins to complete simple labels without
+// producing the files elsewhere. One PDF per package.
+
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import { code128Bars } from "./code128.js";
+import { formatDimensions, formatWeight, readUnits } from "./units.js";
+
+const PT_PER_IN = 72;
+export const LABEL_PAGE_SIZE = [4 * PT_PER_IN, 6 * PT_PER_IN];
+
+const MARGIN = 12;
+const BLACK = rgb(0, 0, 0);
+const WHITE = rgb(1, 1, 1);
+
+// Reference printed and barcoded on the label: "LL" and the first 12 hex
+// digits of the label id, plus "-<n>" for package n of a multi-piece label.
+export const labelReference = (labelId, piece = null) => {
+  const base = `LL${String(labelId).replace(/[^0-9a-f]/gi, "").slice(0, 12).toUpperCase()}`;
+  return piece ? `${base}-${piece}` : base;
+};
+
+// The standard fonts only cover WinAnsi; anything else prints as "?".
+export const printable = (font, text) => {
+  const supported = new Set(font.getCharacterSet());
+  return [...String(text ?? "")]
+    .map((ch) => (supported.has(ch.codePointAt(0)) ? ch : "?"))
+    .join("");
+};
+
+// Largest size up to `size` at which `text` fits in `width`.
+const fittedSize = (font, text, width, size, minSize = 6) => {
+  let s = size;
+  while (s > minSize && font.widthOfTextAtSize(text, s) > width) s -= 0.5;
+  return s;
+};
+
+const addressLines = (a) =>
+  a
+    ? [
+        a.company,
+        a.address1,
+        a.address2,
+        [[a.city, a.state].filter(Boolean).join(", "), a.zip].filter(Boolean).join(" "),
+        a.country,
+      ].filter(Boolean)
+    : [];
+
+// Render the label of package `pieceIndex` (0-based) of `labelData`, which
+// must already be migrated. Returns the PDF bytes.
+export const renderLabelPdf = async ({
+  labelId,
+  labelData,
+  carrierName,
+  pieceIndex = 0,
+  date = new Date(),
+}) => {
+  const d = labelData;
+  const pieces = Array.isArray(d.pieces) ? d.pieces : [];
+  const piece = pieces[pieceIndex] ?? {};
+  const units = readUnits(piece.entered?.units) || "imperial";
+  const reference = labelReference(labelId, pieces.length > 1 ? pieceIndex + 1 : null);
+
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Shipping label ${reference}`);
+  pdf.setCreator("Label Land");
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const page = pdf.addPage(LABEL_PAGE_SIZE);
+  const [width, height] = LABEL_PAGE_SIZE;
+  const inner = width - 2 * MARGIN;
+
+  // Draw `text` at the current line, shrinking it to fit the width, and move
+  // down by its line height.
+  let y = height - MARGIN;
+  const line = (text, { font = regular, size = 9, x = MARGIN, maxWidth = inner } = {}) => {
+    const t = printable(font, text);
+    const s = fittedSize(font, t, maxWidth, size);
+    y -= s * 1.2;
+    page.drawText(t, { x, y, size: s, font, color: BLACK });
+  };
+  const rule = (thickness = 1) => {
+    y -= 6;
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: width - MARGIN, y },
+      thickness,
+      color: BLACK,
+    });
+  };
+
+  // Service banner.
+  const bannerHeight = 40;
+  page.drawRectangle({
+    x: MARGIN,
+    y: height - MARGIN - bannerHeight,
+    width: inner,
+    height: bannerHeight,
+    color: BLACK,
+  });
+  const carrier = printable(bold, String(carrierName || d.carrier || "").toUpperCase());
+  page.drawText(carrier, {
+    x: MARGIN + 8,
+    y: height - MARGIN - 20,
+    size: fittedSize(bold, carrier, inner - 16, 16),
+    font: bold,
+    color: WHITE,
+  });
+  const service = printable(regular, d.service || "");
+  page.drawText(service, {
+    x: MARGIN + 8,
+    y: height - MARGIN - 34,
+    size: fittedSize(regular, service, inner - 16, 9),
+    font: regular,
+    color: WHITE,
+  });
+  y = height - MARGIN - bannerHeight - 4;
+
+  // Sender.
+  line("FROM:", { font: bold, size: 7 });
+  line(d.from?.name || "", { size: 9 });
+  for (const l of addressLines(d.from)) line(l, { size: 8 });
+  if (d.from?.phone) line(d.from.phone, { size: 8 });
+  rule();
+
+  // Recipient.
+  y -= 2;
+  line("SHIP TO:", { font: bold, size: 8 });
+  y -= 2;
+  line(d.to?.name || "", { font: bold, size: 14 });
+  const to = addressLines(d.to);
+  to.forEach((l, i) => {
+    // The city line and country stand out.
+    const emphasis = i >= to.length - 2;
+    line(l, { font: emphasis ? bold : regular, size: emphasis ? 14 : 12 });
+  });
+  if (d.to?.phone) line(d.to.phone, { size: 9 });
+  rule(2);
+
+  // Package.
+  line(
+    `Weight: ${formatWeight(piece, units)}   Dims: ${formatDimensions(piece, units)}`,
+    { size: 9 },
+  );
+  line(
+    [
+      pieces.length > 1 ? `Package ${pieceIndex + 1} of ${pieces.length}` : "",
+      `Ship date: ${date.toISOString().slice(0, 10)}`,
+    ]
+      .filter(Boolean)
+      .join("   "),
+    { size: 9 },
+  );
+  rule(2);
+
+  // Barcode with the reference below it, centred in what is left of the page.
+  const bars = code128Bars(reference);
+  const modules = bars.reduce((sum, w) => sum + w, 0) + 20; // 10-module quiet zones
+  const moduleWidth = Math.min(2, inner / modules);
+  const barcodeWidth = (modules - 20) * moduleWidth;
+  const barHeight = Math.min(80, y - MARGIN - 30);
+  let x = MARGIN + (inner - barcodeWidth) / 2;
+  const barTop = y - 10;
+  bars.forEach((w, i) => {
+    if (i % 2 === 0) {
+      page.drawRectangle({
+        x,
+        y: barTop - barHeight,
+        width: w * moduleWidth,
+        height: barHeight,
+        color: BLACK,
+      });
+    }
+    x += w * moduleWidth;
+  });
+  const refSize = 11;
+  page.drawText(reference, {
+    x: MARGIN + (inner - bold.widthOfTextAtSize(reference, refSize)) / 2,
+    y: barTop - barHeight - 14,
+    size: refSize,
+    font: bold,
+    color: BLACK,
+  });
+
+  return pdf.save();
+};
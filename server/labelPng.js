@@ -0,0 +1,160 @@
+// PNG shipping labels (4×6 in at PNG_DPI) drawn from label data with the same
+// layout as server/labelPdf.js, for labels the server generated. Text is set
+// in Liberation Sans, which pdfjs-dist ships with its standard fonts.
+
+import { createRequire } from "node:module";
+import path from "node:path";
+import { GlobalFonts, createCanvas } from "@napi-rs/canvas";
+import { code128Bars } from "./code128.js";
+import { LABEL_PAGE_SIZE, labelReference } from "./labelPdf.js";
+import { formatDimensions, formatWeight, readUnits } from "./units.js";
+
+export const PNG_DPI = 300;
+
+// Directory of pdfjs-dist's standard fonts, with a trailing slash as pdfjs
+// expects it.
+export const STANDARD_FONT_DIR = path.join(
+  path.dirname(createRequire(import.meta.url).resolve("pdfjs-dist/package.json")),
+  "standard_fonts",
+  path.sep,
+);
+
+const FONT_FAMILY = "Label Sans";
+GlobalFonts.registerFromPath(path.join(STANDARD_FONT_DIR, "LiberationSans-Regular.ttf"), FONT_FAMILY);
+GlobalFonts.registerFromPath(path.join(STANDARD_FONT_DIR, "LiberationSans-Bold.ttf"), FONT_FAMILY);
+
+const MARGIN = 12;
+
+const addressLines = (a) =>
+  a
+    ? [
+        a.company,
+        a.address1,
+        a.address2,
+        [[a.city, a.state].filter(Boolean).join(", "), a.zip].filter(Boolean).join(" "),
+        a.country,
+      ].filter(Boolean)
+    : [];
+
+// Render the label of package `pieceIndex` (0-based) of `labelData`, which
+// must already be migrated. Returns the PNG bytes.
+export const renderLabelPng = async ({
+  labelId,
+  labelData,
+  carrierName,
+  pieceIndex = 0,
+  date = new Date(),
+}) => {
+  const d = labelData;
+  const pieces = Array.isArray(d.pieces) ? d.pieces : [];
+  const piece = pieces[pieceIndex] ?? {};
+  const units = readUnits(piece.entered?.units) || "imperial";
+  const reference = labelReference(labelId, pieces.length > 1 ? pieceIndex + 1 : null);
+
+  // Drawn in points from the top left, like the PDF but with y going down.
+  const [width, height] = LABEL_PAGE_SIZE;
+  const scale = PNG_DPI / 72;
+  const canvas = createCanvas(Math.round(width * scale), Math.round(height * scale));
+  const ctx = canvas.getContext("2d");
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.fillStyle = "#000";
+  ctx.strokeStyle = "#000";
+  const inner = width - 2 * MARGIN;
+
+  const setFont = (bold, size) => {
+    ctx.font = `${bold ? "bold " : ""}${size}px "${FONT_FAMILY}"`;
+  };
+  // Largest size up to `size` at which `text` fits in `maxWidth`; leaves the
+  // font set to it.
+  const fitFont = (text, maxWidth, size, { bold = false, minSize = 6 } = {}) => {
+    let s = size;
+    setFont(bold, s);
+    while (s > minSize && ctx.measureText(text).width > maxWidth) setFont(bold, (s -= 0.5));
+    return s;
+  };
+
+  // Draw `text` at the current line, shrinking it to fit the width, and move
+  // down by its line height.
+  let y = MARGIN;
+  const line = (text, { bold = false, size = 9, x = MARGIN, maxWidth = inner } = {}) => {
+    const t = String(text ?? "");
+    const s = fitFont(t, maxWidth, size, { bold });
+    y += s * 1.2;
+    ctx.fillText(t, x, y);
+  };
+  const rule = (thickness = 1) => {
+    y += 6;
+    ctx.lineWidth = thickness;
+    ctx.beginPath();
+    ctx.moveTo(MARGIN, y);
+    ctx.lineTo(width - MARGIN, y);
+    ctx.stroke();
+  };
+
+  // Service banner.
+  const bannerHeight = 40;
+  ctx.fillRect(MARGIN, MARGIN, inner, bannerHeight);
+  ctx.fillStyle = "#fff";
+  const carrier = String(carrierName || d.carrier || "").toUpperCase();
+  fitFont(carrier, inner - 16, 16, { bold: true });
+  ctx.fillText(carrier, MARGIN + 8, MARGIN + 20);
+  const service = d.service || "";
+  fitFont(service, inner - 16, 9);
+  ctx.fillText(service, MARGIN + 8, MARGIN + 34);
+  ctx.fillStyle = "#000";
+  y = MARGIN + bannerHeight + 4;
+
+  // Sender.
+  line("FROM:", { bold: true, size: 7 });
+  line(d.from?.name || "", { size: 9 });
+  for (const l of addressLines(d.from)) line(l, { size: 8 });
+  if (d.from?.phone) line(d.from.phone, { size: 8 });
+  rule();
+
+  // Recipient.
+  y += 2;
+  line("SHIP TO:", { bold: true, size: 8 });
+  y += 2;
+  line(d.to?.name || "", { bold: true, size: 14 });
+  const to = addressLines(d.to);
+  to.forEach((l, i) => {
+    // The city line and country stand out.
+    const emphasis = i >= to.length - 2;
+    line(l, { bold: emphasis, size: emphasis ? 14 : 12 });
+  });
+  if (d.to?.phone) line(d.to.phone, { size: 9 });
+  rule(2);
+
+  // Package.
+  line(`Weight: ${formatWeight(piece, units)}   Dims: ${formatDimensions(piece, units)}`, { size: 9 });
+  line(
+    [
+      pieces.length > 1 ? `Package ${pieceIndex + 1} of ${pieces.length}` : "",
+      `Ship date: ${date.toISOString().slice(0, 10)}`,
+    ]
+      .filter(Boolean)
+      .join("   "),
+    { size: 9 },
+  );
+  rule(2);
+
+  // Barcode with the reference below it, centred in what is left of the page.
+  const bars = code128Bars(reference);
+  const modules = bars.reduce((sum, w) => sum + w, 0) + 20; // 10-module quiet zones
+  const moduleWidth = Math.min(2, inner / modules);
+  const barcodeWidth = (modules - 20) * moduleWidth;
+  const barHeight = Math.min(80, height - y - MARGIN - 30);
+  let x = MARGIN + (inner - barcodeWidth) / 2;
+  const barTop = y + 10;
+  bars.forEach((w, i) => {
+    if (i % 2 === 0) ctx.fillRect(x, barTop, w * moduleWidth, barHeight);
+    x += w * moduleWidth;
+  });
+  setFont(true, 11);
+  ctx.textAlign = "center";
+  ctx.fillText(reference, MARGIN + inner / 2, barTop + barHeight + 14);
+
+  return canvas.encode("png");
+};
@@ -0,0 +1,180 @@
+// ZPL for Zebra thermal printers (203 dpi, 4×6 in stock). Labels generated
+// from label data are written as native ZPL with the same layout as
+// server/labelPdf.js; other documents are sent as a bitmap (`zplGraphic`).
+
+import { code128Bars } from "./code128.js";
+import { labelReference } from "./labelPdf.js";
+import { formatDimensions, formatWeight, readUnits } from "./units.js";
+
+export const ZPL_DPI = 203;
+export const ZPL_LABEL_DOTS = [4 * ZPL_DPI, 6 * ZPL_DPI];
+
+const MARGIN = 34;
+
+// Field data escaped for ^FH: "_" starts a hex escape, and "^" and "~" would
+// start commands.
+const field = (text) =>
+  `^FH^FD${String(text ?? "").replace(/[_^~]/g, (ch) => `_${ch.charCodeAt(0).toString(16).toUpperCase()}`)}^FS`;
+
+// Font 0 is proportional, about 0.6 of its height wide on average; shrink
+// `text` until it should fit in `width`.
+const fittedHeight = (text, width, height, minHeight = 18) =>
+  Math.max(minHeight, Math.min(height, Math.floor(width / (String(text).length * 0.6 || 1))));
+
+const addressLines = (a) =>
+  a
+    ? [
+        a.company,
+        a.address1,
+        a.address2,
+        [[a.city, a.state].filter(Boolean).join(", "), a.zip].filter(Boolean).join(" "),
+        a.country,
+      ].filter(Boolean)
+    : [];
+
+// ZPL of the label of package `pieceIndex` (0-based) of `labelData`, which
+// must already be migrated. One ^XA…^XZ format.
+export const renderLabelZpl = ({
+  labelId,
+  labelData,
+  carrierName,
+  pieceIndex = 0,
+  date = new Date(),
+}) => {
+  const d = labelData;
+  const pieces = Array.isArray(d.pieces) ? d.pieces : [];
+  const piece = pieces[pieceIndex] ?? {};
+  const units = readUnits(piece.entered?.units) || "imperial";
+  const reference = labelReference(labelId, pieces.length > 1 ? pieceIndex + 1 : null);
+  const [width] = ZPL_LABEL_DOTS;
+  const inner = width - 2 * MARGIN;
+
+  const out = ["^XA", "^CI28", `^PW${ZPL_LABEL_DOTS[0]}`, `^LL${ZPL_LABEL_DOTS[1]}`, "^LH0,0"];
+  let y = MARGIN;
+  const line = (text, height = 25) => {
+    if (!text) return;
+    const h = fittedHeight(text, inner, height);
+    out.push(`^FO${MARGIN},${y}^A0N,${h},${h}${field(text)}`);
+    y += Math.round(h * 1.2);
+  };
+  const rule = (thickness = 3) => {
+    y += 8;
+    out.push(`^FO${MARGIN},${y}^GB${inner},${thickness},${thickness}^FS`);
+    y += thickness + 12;
+  };
+
+  // Service banner, printed white on black.
+  const bannerHeight = 113;
+  out.push(`^FO${MARGIN},${MARGIN}^GB${inner},${bannerHeight},${bannerHeight}^FS`);
+  const carrier = String(carrierName || d.carrier || "").toUpperCase();
+  const carrierHeight = fittedHeight(carrier, inner - 44, 45);
+  out.push(`^FO${MARGIN + 22},${MARGIN + 14}^A0N,${carrierHeight},${carrierHeight}^FR${field(carrier)}`);
+  const service = d.service || "";
+  const serviceHeight = fittedHeight(service, inner - 44, 25);
+  out.push(`^FO${MARGIN + 22},${MARGIN + 72}^A0N,${serviceHeight},${serviceHeight}^FR${field(service)}`);
+  y = MARGIN + bannerHeight + 16;
+
+  // Sender.
+  line("FROM:", 20);
+  line(d.from?.name || "", 25);
+  for (const l of addressLines(d.from)) line(l, 22);
+  if (d.from?.phone) line(d.from.phone, 22);
+  rule();
+
+  // Recipient.
+  line("SHIP TO:", 22);
+  y += 6;
+  line(d.to?.name || "", 40);
+  const to = addressLines(d.to);
+  to.forEach((l, i) => line(l, i >= to.length - 2 ? 40 : 34));
+  if (d.to?.phone) line(d.to.phone, 25);
+  rule(6);
+
+  // Package.
+  line(`Weight: ${formatWeight(piece, units)}   Dims: ${formatDimensions(piece, units)}`, 25);
+  line(
+    [
+      pieces.length > 1 ? `Package ${pieceIndex + 1} of ${pieces.length}` : "",
+      `Ship date: ${date.toISOString().slice(0, 10)}`,
+    ]
+      .filter(Boolean)
+      .join("   "),
+    25,
+  );
+  rule(6);
+
+  // Barcode (code set B, like the PDF) with the reference below it.
+  const modules = code128Bars(reference).reduce((sum, w) => sum + w, 0) + 20;
+  const moduleWidth = Math.max(1, Math.min(4, Math.floor(inner / modules)));
+  const barcodeWidth = (modules - 20) * moduleWidth;
+  const barHeight = 225;
+  y += 20;
+  out.push(
+    `^FO${MARGIN + Math.floor((inner - barcodeWidth) / 2)},${y}^BY${moduleWidth}^BCN,${barHeight},N,N,N,N${field(reference)}`,
+  );
+  y += barHeight + 14;
+  out.push(`^FO${MARGIN},${y}^FB${inner},1,0,C^A0N,32,32${field(reference)}`);
+
+  out.push("^XZ");
+  return `${out.join("\n")}\n`;
+};
+
+// Run-length code of ZPL's ASCII graphic compression: G–Y repeat 1–19 times,
+// g–z repeat 20–400 times.
+const repeatCode = (count) => {
+  let code = "";
+  let n = count;
+  while (n > 400) {
+    code += "z";
+    n -= 400;
+  }
+  if (n >= 20) code += String.fromCharCode(0x66 + Math.floor(n / 20));
+  if (n % 20) code += String.fromCharCode(0x46 + (n % 20));
+  return code;
+};
+
+const compressRow = (hex) => {
+  let row = hex;
+  let tail = "";
+  if (/0+$/.test(row)) {
+    row = row.replace(/0+$/, "");
+    tail = ",";
+  } else if (/F+$/.test(row)) {
+    row = row.replace(/F+$/, "");
+    tail = "!";
+  }
+  let out = "";
+  for (let i = 0; i < row.length; ) {
+    let j = i + 1;
+    while (j < row.length && row[j] === row[i]) j++;
+    out += (j - i > 1 ? repeatCode(j - i) : "") + row[i];
+    i = j;
+  }
+  return out + tail;
+};
+
+// A one-label format printing an 8-bit grayscale bitmap (`stride` bytes per
+// row) at the top left; pixels darker than mid-grey print black.
+export const zplGraphic = ({ pixels, width, height, stride = width }) => {
+  const rowBytes = Math.ceil(width / 8);
+  const rows = [];
+  let previous = null;
+  for (let y = 0; y < height; y++) {
+    const bits = Buffer.alloc(rowBytes);
+    for (let x = 0; x < width; x++) {
+      if (pixels[y * stride + x] < 128) bits[x >> 3] |= 0x80 >> (x & 7);
+    }
+    const hex = bits.toString("hex").toUpperCase();
+    rows.push(hex === previous ? ":" : compressRow(hex));
+    previous = hex;
+  }
+  return [
+    "^XA",
+    `^PW${width}`,
+    `^LL${height}`,
+    "^LH0,0",
+    `^FO0,0^GFA,${rowBytes * height},${rowBytes * height},${rowBytes},${rows.join("")}^FS`,
+    "^XZ",
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,160 @@
+import { getAccountProductsByIds, getCarrierCatalog } from "./db.js";
+import { hsCodeMayExist } from "./hsCodes.js";
+import { quoteService } from "./rates.js";
+import { firstLabelError, migrateLabelData, validateLabelData } from "../shared/labelSchema.js";
+
+const toMoney = (value) => Number(Number(value || 0).toFixed(2));
+
+const findService = (catalog, carrier, service) => {
+  const c = catalog.find((x) => x.id === String(carrier || "").toLowerCase());
+  return c ? c.services.find((s) => s.name === String(service || "")) ?? null : null;
+};
+
+// Quote every piece of a shipment on one service; the price is the sum of the
+// pieces. Returns `{ priceUsd, pieces }` with each piece's breakdown, or
+// `{ reason, detail }` for the first piece the service cannot carry.
+export const quoteShipment = (service, shipment) => {
+  const pieces = Array.isArray(shipment.pieces) ? shipment.pieces : [];
+  if (pieces.length === 0) return { reason: "invalid_item", detail: "No packages." };
+  const quotes = [];
+  for (const [i, piece] of pieces.entries()) {
+    const quote = quoteService(service, { ...piece, from: shipment.from, to: shipment.to });
+    if (quote.priceUsd === undefined) {
+      return pieces.length > 1 ? { ...quote, detail: `Package ${i + 1}: ${quote.detail}` } : quote;
+    }
+    quotes.push(quote);
+  }
+  return {
+    priceUsd: toMoney(quotes.reduce((sum, q) => sum + q.priceUsd, 0)),
+    pieces: quotes,
+  };
+};
+
+// Price one label item against the active carrier catalog with the rate
+// engine (billable weight and zone per piece, see rates.js). Returns
+// `{ priceUsd, pieces }` with the quote breakdowns, or `{ reason, detail }`
+// when the service does not exist or cannot carry one of the pieces (route,
+// weight or size outside its limits).
+export const priceLabelItem = (item, catalog) => {
+  const service = findService(catalog, item.carrier, item.service);
+  if (!service) return { reason: "unknown_service", detail: "Service is not offered." };
+  return quoteShipment(service, item);
+};
+
+// Live quotes for a shipment (`pieces`, `from`, `to`) on every active service,
+// or only the one named by `carrier`/`service` when given. Each entry carries
+// the service keys and either `{ priceUsd, pieces }` or `{ reason, detail }`.
+export const quoteParcel = async (parcel) => {
+  const catalog = await getCarrierCatalog();
+  const carrierId = parcel.carrier ? String(parcel.carrier).toLowerCase() : null;
+  const serviceName = parcel.service ? String(parcel.service) : null;
+  const quotes = [];
+  for (const carrier of catalog) {
+    if (carrierId && carrier.id !== carrierId) continue;
+    for (const service of carrier.services) {
+      if (serviceName && service.name !== serviceName) continue;
+      quotes.push({
+        carrier: carrier.id,
+        carrierName: carrier.name,
+        service: service.name,
+        ...quoteShipment(service, parcel),
+      });
+    }
+  }
+  return quotes;
+};
+
+const describeItem = (it) => {
+  if (it && it.kind === "account") return String(it.productName || "Account");
+  if (it && it.kind === "label") {
+    const label = `${String(it.carrier || "").toUpperCase()} ${String(it.service || "")} label`.trim();
+    const count = Array.isArray(it.pieces) ? it.pieces.length : 1;
+    return count > 1 ? `${label} (${count} packages)` : label;
+  }
+  return "Unknown item";
+};
+
+// Re-price a client-submitted cart from server data. Account items are looked
+// up by `productId`, labels in the carrier catalog by carrier/service.
+// Returns the items with server prices applied (labels also get the rate
+// engine's `quote` breakdown), the server total, and a `diff` with one entry
+// per line whose client price is missing, stale or cannot be priced at all.
+// Callers must refuse payment when `diff` is non-empty.
+export const priceCart = async (items) => {
+  const list = Array.isArray(items) ? items : [];
+  const productIds = list
+    .filter((it) => it && typeof it === "object" && it.kind === "account" && it.productId)
+    .map((it) => String(it.productId));
+  const products = new Map(
+    (await getAccountProductsByIds(productIds)).map((p) => [String(p.id), p]),
+  );
+  const catalog = list.some((it) => it && it.kind === "label")
+    ? await getCarrierCatalog()
+    : [];
+
+  const priced = [];
+  const diff = [];
+  let total = 0;
+
+  for (const it of list) {
+    const clientPrice =
+      it && typeof it.priceUsd === "number" && Number.isFinite(it.priceUsd)
+        ? toMoney(it.priceUsd)
+        : null;
+    const line = {
+      itemId: it && it.id ? String(it.id) : null,
+      kind: it && typeof it.kind === "string" ? it.kind : null,
+      description: describeItem(it),
+      clientPriceUsd: clientPrice,
+      serverPriceUsd: null,
+    };
+
+    if (!it || typeof it !== "object" || (it.kind !== "label" && it.kind !== "account")) {
+      diff.push({ ...line, reason: "invalid_item" });
+      continue;
+    }
+
+    let serverPrice;
+    let next;
+    if (it.kind === "label") {
+      // Shape and HS code checks only; catalog problems get their own
+      // reasons below.
+      const labelData = migrateLabelData(it);
+      const invalid = firstLabelError(validateLabelData(labelData, { hsCodeExists: hsCodeMayExist }));
+      if (invalid) {
+        diff.push({ ...line, reason: "invalid_item", detail: invalid });
+        continue;
+      }
+      const quote = priceLabelItem(labelData, catalog);
+      if (quote.priceUsd === undefined) {
+        diff.push({ ...line, reason: quote.reason, detail: quote.detail });
+        continue;
+      }
+      const { priceUsd, ...breakdown } = quote;
+      serverPrice = priceUsd;
+      next = { ...labelData, priceUsd: serverPrice, quote: breakdown };
+    } else {
+      const product = it.productId ? products.get(String(it.productId)) : null;
+      if (!product) {
+        diff.push({ ...line, reason: "product_unavailable" });
+        continue;
+      }
+      serverPrice = toMoney(product.priceUsd);
+      next = {
+        ...it,
+        productId: String(product.id),
+        productName: product.service,
+        country: product.country,
+        priceUsd: serverPrice,
+      };
+    }
+
+    if (clientPrice === null || Math.abs(clientPrice - serverPrice) >= 0.005) {
+      diff.push({ ...line, serverPriceUsd: serverPrice, reason: "price_changed" });
+    }
+    priced.push(next);
+    total += serverPrice;
+  }
+
+  return { items: priced, totalUsd: toMoney(total), diff };
+};
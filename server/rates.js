@@ -0,0 +1,106 @@
+import { ZIP3_AREAS, ZONE_DISTANCE_BANDS, ZONE_MULTIPLIERS } from "./zoneChart.js";
+
+// Rate engine: billable weight and zone for a parcel, and the resulting
+// price for a catalog service.
+
+export const DEFAULT_DIM_DIVISOR = 139;
+
+const round2 = (n) => Number(Number(n || 0).toFixed(2));
+
+// Dimensional weight in lbs: L × W × H (in) / divisor.
+export const dimensionalWeightLbs = (dimensionsIn, divisor = DEFAULT_DIM_DIVISOR) => {
+  const d = dimensionsIn || {};
+  const volume = (Number(d.length) || 0) * (Number(d.width) || 0) * (Number(d.height) || 0);
+  return round2(volume / (Number(divisor) || DEFAULT_DIM_DIVISOR));
+};
+
+// Greater of actual and dimensional weight, rounded up to the next whole lb
+// the way carriers bill it.
+export const billableWeightLbs = (weightLbs, dimensionsIn, divisor) =>
+  Math.max(1, Math.ceil(Math.max(Number(weightLbs) || 0, dimensionalWeightLbs(dimensionsIn, divisor))));
+
+const zip3Area = (zip) => {
+  const digits = String(zip || "").replace(/\D/g, "");
+  if (digits.length < 5) return null;
+  const prefix = Number(digits.slice(0, 3));
+  return ZIP3_AREAS.find(([first, last]) => prefix >= first && prefix <= last) ?? null;
+};
+
+const distanceMiles = ([lat1, lon1], [lat2, lon2]) => {
+  const rad = (deg) => (deg * Math.PI) / 180;
+  const dLat = rad(lat2 - lat1);
+  const dLon = rad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 3958.8 * 2 * Math.asin(Math.sqrt(a));
+};
+
+// Zone between two addresses. Returns `{ zone, source }`:
+// - "chart": both are US ZIPs found in the zone chart (zone 1–8)
+// - "international": different countries (zone is null; priced without a
+//   zone multiplier since international services carry their own tiers)
+// - "default": same non-US country or an unknown ZIP, zone 5 as a middle rate
+export const zoneFor = (from, to) => {
+  const fromCountry = String(from?.country || "US");
+  const toCountry = String(to?.country || "US");
+  if (fromCountry !== toCountry) return { zone: null, source: "international" };
+  if (fromCountry === "US") {
+    const a = zip3Area(from?.zip);
+    const b = zip3Area(to?.zip);
+    if (a && b) {
+      if (a === b) return { zone: 1, source: "chart" };
+      const miles = distanceMiles([a[2], a[3]], [b[2], b[3]]);
+      const band = ZONE_DISTANCE_BANDS.findIndex((max) => miles <= max);
+      return { zone: band < 0 ? 8 : band + 1, source: "chart" };
+    }
+  }
+  return { zone: 5, source: "default" };
+};
+
+// Quote a parcel on one catalog service. Returns `{ priceUsd, ...breakdown }`
+// or `{ reason, detail }` when the parcel cannot go by this service.
+export const quoteService = (service, parcel) => {
+  const international =
+    String(parcel.from?.country || "US") !== String(parcel.to?.country || "US");
+  if (international && !service.international) {
+    return { reason: "service_unavailable", detail: "Service does not ship internationally." };
+  }
+  if (!international && !service.domestic) {
+    return { reason: "service_unavailable", detail: "Service is international only." };
+  }
+
+  const weight = Number(parcel.weightLbs);
+  if (!Number.isFinite(weight) || weight <= 0) {
+    return { reason: "invalid_item", detail: "Weight is missing." };
+  }
+  if (service.maxWeightLbs !== null && weight > service.maxWeightLbs) {
+    return { reason: "service_unavailable", detail: `Over the ${service.maxWeightLbs} lbs limit.` };
+  }
+  const dims = parcel.dimensionsIn || {};
+  const longest = Math.max(Number(dims.length) || 0, Number(dims.width) || 0, Number(dims.height) || 0);
+  if (service.maxLengthIn !== null && longest > service.maxLengthIn) {
+    return { reason: "service_unavailable", detail: `Longer than ${service.maxLengthIn} in.` };
+  }
+
+  const dimWeight = dimensionalWeightLbs(dims, service.dimDivisor);
+  const billable = billableWeightLbs(weight, dims, service.dimDivisor);
+  const tier = [...service.priceTiers]
+    .sort((a, b) => a.maxWeightLbs - b.maxWeightLbs)
+    .find((t) => billable <= Number(t.maxWeightLbs));
+  if (!tier) {
+    return { reason: "service_unavailable", detail: `No price for ${billable} lbs billable weight.` };
+  }
+
+  const { zone, source } = zoneFor(parcel.from, parcel.to);
+  const multiplier = zone === null ? 1 : ZONE_MULTIPLIERS[zone] ?? 1;
+  return {
+    priceUsd: round2(Number(tier.priceUsd) * multiplier),
+    actualWeightLbs: round2(weight),
+    dimWeightLbs: dimWeight,
+    billableWeightLbs: billable,
+    zone,
+    zoneSource: source,
+    tierMaxWeightLbs: Number(tier.maxWeightLbs),
+  };
+};
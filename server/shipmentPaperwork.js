@@ -0,0 +1,348 @@
+// Commercial invoice and packing slip PDFs (US Letter) for labels that carry
+// customs lines, built from the lines, both addresses and the order the label
+// came from. They are rendered when the label is downloaded, not stored.
+
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import { COUNTRY_OPTIONS } from "../shared/countries.js";
+import { customsFormType, customsTotals, shipmentWeightLbs } from "../shared/labelSchema.js";
+import { labelReference, printable } from "./labelPdf.js";
+import { formatDimensions, formatWeight, fromLbs, readUnits, weightUnit } from "./units.js";
+
+const PAGE_SIZE = [612, 792];
+const MARGIN = 48;
+const LINE = 12;
+const BLACK = rgb(0, 0, 0);
+const GREY = rgb(0.4, 0.4, 0.4);
+
+const CONTENTS_TYPE_LABELS = {
+  merchandise: "Merchandise",
+  gift: "Gift",
+  documents: "Documents",
+  returned_goods: "Returned goods",
+};
+
+export const hasCustomsLines = (labelData) =>
+  Array.isArray(labelData?.customs?.lines) && labelData.customs.lines.length > 0;
+
+const countryName = (code) => COUNTRY_OPTIONS.find((c) => c.value === code)?.label ?? code ?? "";
+
+const addressBlock = (a) =>
+  a
+    ? [
+        a.name,
+        a.company,
+        a.address1,
+        a.address2,
+        [[a.city, a.state].filter(Boolean).join(", "), a.zip].filter(Boolean).join(" "),
+        countryName(a.country),
+        a.phone ? `Phone: ${a.phone}` : "",
+        a.email ? `Email: ${a.email}` : "",
+      ].filter(Boolean)
+    : [];
+
+// `text` broken at spaces into lines no wider than `width`; words that do not
+// fit on a line of their own are cut.
+const wrap = (font, text, size, width) => {
+  const fits = (t) => font.widthOfTextAtSize(t, size) <= width;
+  const lines = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = current ? `${current} ${word}` : word;
+    if (fits(next)) {
+      current = next;
+      continue;
+    }
+    if (current) lines.push(current);
+    let rest = word;
+    while (!fits(rest)) {
+      let n = rest.length - 1;
+      while (n > 1 && !fits(rest.slice(0, n))) n--;
+      lines.push(rest.slice(0, n));
+      rest = rest.slice(n);
+    }
+    current = rest;
+  }
+  if (current) lines.push(current);
+  return lines.length > 0 ? lines : [""];
+};
+
+// A document being written top to bottom, adding pages as it fills up.
+const createSheet = async (title, reference) => {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${title} ${reference}`);
+  pdf.setCreator("Label Land");
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const [width, height] = PAGE_SIZE;
+  const sheet = { pdf, regular, bold, width: width - 2 * MARGIN, page: null, y: 0 };
+
+  sheet.newPage = () => {
+    sheet.page = pdf.addPage(PAGE_SIZE);
+    sheet.y = height - MARGIN;
+    sheet.page.drawText(printable(regular, `${title} ${reference}`), {
+      x: MARGIN,
+      y: MARGIN / 2,
+      size: 7,
+      font: regular,
+      color: GREY,
+    });
+  };
+  // Start a new page unless `space` points are left.
+  sheet.ensure = (space) => {
+    if (sheet.y - space < MARGIN) sheet.newPage();
+  };
+  sheet.text = (t, x, y, { font = regular, size = 9, color = BLACK, align = "left", width: w = 0 } = {}) => {
+    const s = printable(font, t);
+    const dx = align === "right" ? w - font.widthOfTextAtSize(s, size) : 0;
+    sheet.page.drawText(s, { x: x + dx, y, size, font, color });
+  };
+  sheet.rule = (thickness = 0.75) => {
+    sheet.page.drawLine({
+      start: { x: MARGIN, y: sheet.y },
+      end: { x: MARGIN + sheet.width, y: sheet.y },
+      thickness,
+      color: BLACK,
+    });
+  };
+  // A paragraph across the page.
+  sheet.paragraph = (t, { font = regular, size = 9 } = {}) => {
+    for (const l of wrap(font, t, size, sheet.width)) {
+      sheet.ensure(LINE);
+      sheet.y -= LINE;
+      sheet.text(l, MARGIN, sheet.y, { font, size });
+    }
+  };
+  // "Key: value" pairs, one per line.
+  sheet.fields = (pairs) => {
+    for (const [key, value] of pairs) {
+      sheet.ensure(LINE);
+      sheet.y -= LINE;
+      sheet.text(`${key}:`, MARGIN, sheet.y, { font: bold });
+      sheet.text(String(value), MARGIN + 110, sheet.y);
+    }
+  };
+  // Blocks of lines side by side, each under a small heading.
+  sheet.columns = (blocks) => {
+    const colWidth = sheet.width / blocks.length;
+    const rows = Math.max(...blocks.map((b) => b.lines.length)) + 1;
+    sheet.ensure(rows * LINE + 4);
+    blocks.forEach((b, i) => {
+      const x = MARGIN + i * colWidth;
+      let y = sheet.y - LINE;
+      sheet.text(b.title.toUpperCase(), x, y, { font: bold, size: 8, color: GREY });
+      for (const l of b.lines) {
+        y -= LINE;
+        sheet.text(l, x, y, { size: 10 });
+      }
+    });
+    sheet.y -= rows * LINE + 4;
+  };
+  // A table; `columns` are `{ title, width, align }` with widths summing to
+  // the page width, `rows` arrays of cell text. Rows flagged `total: true`
+  // print in bold. The header repeats on every page.
+  sheet.table = (columns, rows) => {
+    const header = () => {
+      sheet.ensure(LINE + 6);
+      sheet.y -= LINE;
+      let x = MARGIN;
+      for (const c of columns) {
+        sheet.text(c.title, x + 3, sheet.y, { font: bold, size: 8, align: c.align, width: c.width - 6 });
+        x += c.width;
+      }
+      sheet.y -= 4;
+      sheet.rule();
+    };
+    header();
+    for (const row of rows) {
+      const font = row.total ? bold : regular;
+      const cells = row.cells.map((t, i) => wrap(font, String(t ?? ""), 9, columns[i].width - 6));
+      const height = Math.max(...cells.map((c) => c.length)) * 11 + 4;
+      if (sheet.y - height < MARGIN) {
+        sheet.newPage();
+        header();
+      }
+      if (row.total) sheet.rule();
+      let x = MARGIN;
+      cells.forEach((lines, i) => {
+        lines.forEach((l, j) => {
+          sheet.text(l, x + 3, sheet.y - 11 * (j + 1), {
+            font,
+            align: columns[i].align,
+            width: columns[i].width - 6,
+          });
+        });
+        x += columns[i].width;
+      });
+      sheet.y -= height;
+    }
+  };
+  sheet.gap = (points = LINE) => {
+    sheet.y -= points;
+  };
+
+  sheet.newPage();
+  sheet.page.drawText(title.toUpperCase(), {
+    x: MARGIN,
+    y: sheet.y - 18,
+    size: 18,
+    font: bold,
+    color: BLACK,
+  });
+  sheet.y -= 26;
+  return sheet;
+};
+
+const money = (n) => (Number(n) || 0).toFixed(2);
+
+// What both documents need: the reference, units and shipment summary of a
+// migrated label.
+const shipmentFacts = ({ labelId, labelData, carrierName }) => {
+  const d = labelData;
+  const pieces = Array.isArray(d.pieces) ? d.pieces : [];
+  const units = readUnits(pieces[0]?.entered?.units) || "imperial";
+  return {
+    d,
+    pieces,
+    units,
+    reference: labelReference(labelId),
+    weight: (lbs) => `${fromLbs(lbs, units)} ${weightUnit(units)}`,
+    service: [carrierName || String(d.carrier || "").toUpperCase(), d.service].filter(Boolean).join(" "),
+  };
+};
+
+// Commercial invoice of a migrated label with customs lines. `orderId` is
+// the order the label was bought in, if any; `date` the invoice date.
+export const renderCommercialInvoice = async ({
+  labelId,
+  labelData,
+  carrierName,
+  orderId = null,
+  date = new Date(),
+}) => {
+  const { d, pieces, reference, weight, service } = shipmentFacts({ labelId, labelData, carrierName });
+  const lines = d.customs?.lines ?? [];
+  const totals = customsTotals(d.customs);
+  const sheet = await createSheet("Commercial invoice", reference);
+
+  sheet.fields([
+    ["Invoice number", reference],
+    ["Date", date.toISOString().slice(0, 10)],
+    ["Order reference", orderId || "—"],
+  ]);
+  sheet.gap();
+  sheet.columns([
+    { title: "Shipper / exporter", lines: addressBlock(d.from) },
+    { title: "Consignee", lines: addressBlock(d.to) },
+  ]);
+  sheet.gap();
+  sheet.fields([
+    ["Carrier", service || "—"],
+    ["Packages", `${pieces.length} (gross weight ${weight(shipmentWeightLbs(d))})`],
+    ["Reason for export", CONTENTS_TYPE_LABELS[d.customs?.contentsType] ?? "—"],
+    ["Customs declaration", customsFormType(d)],
+    ["Currency", "USD"],
+  ]);
+  sheet.gap();
+  sheet.table(
+    [
+      { title: "#", width: 18 },
+      { title: "Description", width: 170 },
+      { title: "HS code", width: 60 },
+      { title: "Origin", width: 44 },
+      { title: "Qty", width: 34, align: "right" },
+      { title: "Unit value", width: 60, align: "right" },
+      { title: "Total value", width: 64, align: "right" },
+      { title: "Net weight", width: 66, align: "right" },
+    ],
+    [
+      ...lines.map((l, i) => ({
+        cells: [
+          i + 1,
+          l.description,
+          l.hsCode || "—",
+          l.originCountry || "—",
+          l.quantity,
+          money(l.unitValueUsd),
+          money((Number(l.quantity) || 0) * (Number(l.unitValueUsd) || 0)),
+          weight(l.weightLbs),
+        ],
+      })),
+      {
+        total: true,
+        cells: ["", "Total", "", "", totals.quantity, "", money(totals.valueUsd), weight(totals.weightLbs)],
+      },
+    ],
+  );
+  sheet.gap(24);
+  sheet.paragraph(
+    "I declare that the information on this invoice is true and correct, and that the contents of this shipment are as stated above.",
+  );
+  sheet.gap(36);
+  sheet.ensure(LINE * 2);
+  sheet.rule();
+  sheet.gap(LINE);
+  sheet.text(`Signature of ${d.from?.name || "shipper"}`, MARGIN, sheet.y, { size: 8, color: GREY });
+  sheet.text("Date", MARGIN + 360, sheet.y, { size: 8, color: GREY });
+
+  return sheet.pdf.save();
+};
+
+// Packing slip of a migrated label with customs lines: what is in the
+// shipment and how it is packed, without values.
+export const renderPackingSlip = async ({
+  labelId,
+  labelData,
+  carrierName,
+  orderId = null,
+  date = new Date(),
+}) => {
+  const { d, pieces, units, reference, weight, service } = shipmentFacts({
+    labelId,
+    labelData,
+    carrierName,
+  });
+  const lines = d.customs?.lines ?? [];
+  const totals = customsTotals(d.customs);
+  const sheet = await createSheet("Packing slip", reference);
+
+  sheet.fields([
+    ["Shipment reference", reference],
+    ["Date", date.toISOString().slice(0, 10)],
+    ["Order reference", orderId || "—"],
+    ["Carrier", service || "—"],
+  ]);
+  sheet.gap();
+  sheet.columns([
+    { title: "Ship from", lines: addressBlock(d.from) },
+    { title: "Ship to", lines: addressBlock(d.to) },
+  ]);
+  sheet.gap();
+  sheet.table(
+    [
+      { title: "Package", width: 60 },
+      { title: "Weight", width: 120, align: "right" },
+      { title: "Dimensions", width: 336, align: "right" },
+    ],
+    [
+      ...pieces.map((p, i) => ({
+        cells: [`${i + 1} of ${pieces.length}`, formatWeight(p, units), formatDimensions(p, units)],
+      })),
+      { total: true, cells: ["Total", weight(shipmentWeightLbs(d)), ""] },
+    ],
+  );
+  sheet.gap(24);
+  sheet.table(
+    [
+      { title: "#", width: 18 },
+      { title: "Contents", width: 378 },
+      { title: "Qty", width: 50, align: "right" },
+      { title: "Net weight", width: 70, align: "right" },
+    ],
+    [
+      ...lines.map((l, i) => ({ cells: [i + 1, l.description, l.quantity, weight(l.weightLbs)] })),
+      { total: true, cells: ["", "Total", totals.quantity, weight(totals.weightLbs)] },
+    ],
+  );
+
+  return sheet.pdf.save();
+};
@@ -0,0 +1,38 @@
+// Weight/length conversion for label data. Each piece of a label item
+// carries canonical `weightLbs`/`dimensionsIn` plus `entered` ({ units,
+// weight, dimensions }) with what the user typed. Mirrors
+// src/components/labels/units.ts.
+
+export const LBS_PER_KG = 2.20462;
+export const IN_PER_CM = 1 / 2.54;
+
+const round2 = (n) => Number(Number(n || 0).toFixed(2));
+
+export const readUnits = (value) => (value === "metric" ? "metric" : value === "imperial" ? "imperial" : null);
+
+export const weightUnit = (units) => (units === "metric" ? "kg" : "lbs");
+const lengthUnit = (units) => (units === "metric" ? "cm" : "in");
+
+export const fromLbs = (lbs, units) => round2(units === "metric" ? lbs / LBS_PER_KG : lbs);
+export const fromIn = (inches, units) => round2(units === "metric" ? inches / IN_PER_CM : inches);
+
+// "2.5 kg" for one piece in `units`, preferring the entered value when it was typed in the
+// same system.
+export const formatWeight = (d, units) => {
+  if (d?.entered && d.entered.units === units) return `${d.entered.weight} ${weightUnit(units)}`;
+  return typeof d?.weightLbs === "number" ? `${fromLbs(d.weightLbs, units)} ${weightUnit(units)}` : "—";
+};
+
+export const formatDimensions = (d, units) => {
+  const dims =
+    d?.entered && d.entered.units === units
+      ? d.entered.dimensions
+      : d?.dimensionsIn
+        ? {
+            length: fromIn(d.dimensionsIn.length, units),
+            width: fromIn(d.dimensionsIn.width, units),
+            height: fromIn(d.dimensionsIn.height, units),
+          }
+        : null;
+  return dims ? `${dims.length}×${dims.width}×${dims.height} ${lengthUnit(units)}` : "—";
+};
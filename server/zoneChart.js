@@ -0,0 +1,84 @@
+// Bundled domestic zone chart. US ZIP codes are grouped by their 3-digit
+// prefix into areas with an approximate centre point; the zone between two
+// ZIPs comes from the distance between their areas, using the usual 1–8
+// carrier distance bands. Coarse, but stable and good enough for quoting.
+
+// [first prefix, last prefix, latitude, longitude]
+export const ZIP3_AREAS = [
+  [5, 5, 40.8, -73.0], // NY (Holtsville)
+  [6, 9, 18.2, -66.5], // PR / VI
+  [10, 27, 42.3, -71.8], // MA
+  [28, 29, 41.7, -71.5], // RI
+  [30, 38, 43.7, -71.6], // NH
+  [39, 49, 45.0, -69.2], // ME
+  [50, 59, 44.0, -72.7], // VT
+  [60, 69, 41.6, -72.7], // CT
+  [70, 89, 40.2, -74.6], // NJ
+  [100, 119, 40.7, -73.9], // NY (NYC, Long Island)
+  [120, 149, 42.9, -75.5], // NY (upstate)
+  [150, 168, 40.7, -79.6], // PA (west)
+  [169, 196, 40.4, -76.6], // PA (east)
+  [197, 199, 39.0, -75.5], // DE
+  [200, 205, 38.9, -77.0], // DC
+  [206, 219, 39.0, -76.8], // MD
+  [220, 246, 37.5, -78.8], // VA
+  [247, 268, 38.6, -80.6], // WV
+  [270, 289, 35.5, -79.4], // NC
+  [290, 299, 33.9, -80.9], // SC
+  [300, 319, 32.7, -83.4], // GA
+  [320, 349, 28.6, -82.4], // FL
+  [350, 369, 32.8, -86.8], // AL
+  [370, 385, 35.9, -86.4], // TN
+  [386, 397, 32.7, -89.7], // MS
+  [398, 399, 31.6, -84.2], // GA (south)
+  [400, 427, 37.5, -85.3], // KY
+  [430, 458, 40.3, -82.8], // OH
+  [460, 479, 39.9, -86.3], // IN
+  [480, 499, 43.7, -84.6], // MI
+  [500, 528, 42.0, -93.5], // IA
+  [530, 549, 44.6, -89.9], // WI
+  [550, 567, 46.3, -94.3], // MN
+  [570, 577, 44.4, -100.2], // SD
+  [580, 588, 47.5, -100.5], // ND
+  [590, 599, 47.0, -109.6], // MT
+  [600, 629, 40.0, -89.2], // IL
+  [630, 658, 38.4, -92.5], // MO
+  [660, 679, 38.5, -98.4], // KS
+  [680, 693, 41.5, -99.8], // NE
+  [700, 714, 31.1, -92.0], // LA
+  [716, 729, 34.9, -92.4], // AR
+  [730, 749, 35.6, -97.5], // OK
+  [750, 799, 31.5, -98.5], // TX
+  [800, 816, 39.0, -105.5], // CO
+  [820, 831, 43.0, -107.5], // WY
+  [832, 838, 44.4, -114.6], // ID
+  [840, 847, 39.3, -111.7], // UT
+  [850, 865, 34.2, -111.7], // AZ
+  [870, 884, 34.4, -106.1], // NM
+  [885, 885, 31.8, -106.4], // TX (El Paso)
+  [889, 891, 36.2, -115.1], // NV (Las Vegas)
+  [893, 898, 39.5, -119.8], // NV (Reno)
+  [900, 935, 34.0, -118.0], // CA (south)
+  [936, 961, 37.8, -121.5], // CA (north)
+  [967, 968, 21.3, -157.8], // HI
+  [969, 969, 13.4, 144.8], // GU / MP
+  [970, 979, 44.0, -120.5], // OR
+  [980, 994, 47.4, -120.5], // WA
+  [995, 999, 61.2, -149.9], // AK
+];
+
+// Upper distance bound in miles for zones 1–7; anything further is zone 8.
+export const ZONE_DISTANCE_BANDS = [50, 150, 300, 600, 1000, 1400, 1800];
+
+// Price multiplier applied to a service's tier price for each zone. Tier
+// prices in the catalog are the zone 1–2 (local) rates.
+export const ZONE_MULTIPLIERS = {
+  1: 1,
+  2: 1,
+  3: 1.08,
+  4: 1.16,
+  5: 1.28,
+  6: 1.4,
+  7: 1.52,
+  8: 1.65,
+};
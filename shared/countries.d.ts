@@ -0,0 +1,35 @@
+// Types for countries.js.
+
+export type CountryOption = { value: string; label: string };
+
+export type AddressRules = {
+  postalCode: {
+    label: string;
+    required: boolean;
+    // False for countries without postal codes.
+    used: boolean;
+    example: string | null;
+  };
+  state: {
+    label: string;
+    required: boolean;
+    options: CountryOption[] | null;
+  };
+};
+
+export declare const COUNTRY_OPTIONS: CountryOption[];
+export declare const US_STATES: CountryOption[];
+export declare const CA_PROVINCES: CountryOption[];
+export declare const AU_STATES: CountryOption[];
+
+export declare const addressRulesFor: (country: string) => AddressRules;
+
+export declare const resolveState: (country: string, value: string) => string | null;
+
+export declare const checkCountryAddress: (a: {
+  country?: string;
+  state?: string;
+  zip?: string;
+}) => Partial<Record<"zip" | "state", string>>;
+
+export declare const dialCodeFor: (country: string) => string;
@@ -0,0 +1,536 @@
+// Countries and their address rules, shared by the server (label schema) and
+// the browser (address forms). Plain ESM so both can import it; types are in
+// countries.d.ts. src/constants/countries.ts re-exports it for the UI.
+
+import { statesForUsZip } from "./usZipPrefixes.js";
+
+// ISO 3166-1 alpha-2 country codes (common English names).
+// Source: ISO 3166-1 list (kept static to avoid runtime network dependency).
+export const COUNTRY_OPTIONS = [
+  { value: "AF", label: "Afghanistan" },
+  { value: "AX", label: "Åland Islands" },
+  { value: "AL", label: "Albania" },
+  { value: "DZ", label: "Algeria" },
+  { value: "AS", label: "American Samoa" },
+  { value: "AD", label: "Andorra" },
+  { value: "AO", label: "Angola" },
+  { value: "AI", label: "Anguilla" },
+  { value: "AQ", label: "Antarctica" },
+  { value: "AG", label: "Antigua and Barbuda" },
+  { value: "AR", label: "Argentina" },
+  { value: "AM", label: "Armenia" },
+  { value: "AW", label: "Aruba" },
+  { value: "AU", label: "Australia" },
+  { value: "AT", label: "Austria" },
+  { value: "AZ", label: "Azerbaijan" },
+  { value: "BS", label: "Bahamas" },
+  { value: "BH", label: "Bahrain" },
+  { value: "BD", label: "Bangladesh" },
+  { value: "BB", label: "Barbados" },
+  { value: "BY", label: "Belarus" },
+  { value: "BE", label: "Belgium" },
+  { value: "BZ", label: "Belize" },
+  { value: "BJ", label: "Benin" },
+  { value: "BM", label: "Bermuda" },
+  { value: "BT", label: "Bhutan" },
+  { value: "BO", label: "Bolivia" },
+  { value: "BQ", label: "Bonaire, Sint Eustatius and Saba" },
+  { value: "BA", label: "Bosnia and Herzegovina" },
+  { value: "BW", label: "Botswana" },
+  { value: "BV", label: "Bouvet Island" },
+  { value: "BR", label: "Brazil" },
+  { value: "IO", label: "British Indian Ocean Territory" },
+  { value: "BN", label: "Brunei Darussalam" },
+  { value: "BG", label: "Bulgaria" },
+  { value: "BF", label: "Burkina Faso" },
+  { value: "BI", label: "Burundi" },
+  { value: "KH", label: "Cambodia" },
+  { value: "CM", label: "Cameroon" },
+  { value: "CA", label: "Canada" },
+  { value: "CV", label: "Cape Verde" },
+  { value: "KY", label: "Cayman Islands" },
+  { value: "CF", label: "Central African Republic" },
+  { value: "TD", label: "Chad" },
+  { value: "CL", label: "Chile" },
+  { value: "CN", label: "China" },
+  { value: "CX", label: "Christmas Island" },
+  { value: "CC", label: "Cocos (Keeling) Islands" },
+  { value: "CO", label: "Colombia" },
+  { value: "KM", label: "Comoros" },
+  { value: "CG", label: "Congo" },
+  { value: "CD", label: "Congo (Democratic Republic of the)" },
+  { value: "CK", label: "Cook Islands" },
+  { value: "CR", label: "Costa Rica" },
+  { value: "CI", label: "Côte d’Ivoire" },
+  { value: "HR", label: "Croatia" },
+  { value: "CU", label: "Cuba" },
+  { value: "CW", label: "Curaçao" },
+  { value: "CY", label: "Cyprus" },
+  { value: "CZ", label: "Czechia" },
+  { value: "DK", label: "Denmark" },
+  { value: "DJ", label: "Djibouti" },
+  { value: "DM", label: "Dominica" },
+  { value: "DO", label: "Dominican Republic" },
+  { value: "EC", label: "Ecuador" },
+  { value: "EG", label: "Egypt" },
+  { value: "SV", label: "El Salvador" },
+  { value: "GQ", label: "Equatorial Guinea" },
+  { value: "ER", label: "Eritrea" },
+  { value: "EE", label: "Estonia" },
+  { value: "SZ", label: "Eswatini" },
+  { value: "ET", label: "Ethiopia" },
+  { value: "FK", label: "Falkland Islands (Malvinas)" },
+  { value: "FO", label: "Faroe Islands" },
+  { value: "FJ", label: "Fiji" },
+  { value: "FI", label: "Finland" },
+  { value: "FR", label: "France" },
+  { value: "GF", label: "French Guiana" },
+  { value: "PF", label: "French Polynesia" },
+  { value: "TF", label: "French Southern Territories" },
+  { value: "GA", label: "Gabon" },
+  { value: "GM", label: "Gambia" },
+  { value: "GE", label: "Georgia" },
+  { value: "DE", label: "Germany" },
+  { value: "GH", label: "Ghana" },
+  { value: "GI", label: "Gibraltar" },
+  { value: "GR", label: "Greece" },
+  { value: "GL", label: "Greenland" },
+  { value: "GD", label: "Grenada" },
+  { value: "GP", label: "Guadeloupe" },
+  { value: "GU", label: "Guam" },
+  { value: "GT", label: "Guatemala" },
+  { value: "GG", label: "Guernsey" },
+  { value: "GN", label: "Guinea" },
+  { value: "GW", label: "Guinea-Bissau" },
+  { value: "GY", label: "Guyana" },
+  { value: "HT", label: "Haiti" },
+  { value: "HM", label: "Heard Island and McDonald Islands" },
+  { value: "VA", label: "Holy See" },
+  { value: "HN", label: "Honduras" },
+  { value: "HK", label: "Hong Kong" },
+  { value: "HU", label: "Hungary" },
+  { value: "IS", label: "Iceland" },
+  { value: "IN", label: "India" },
+  { value: "ID", label: "Indonesia" },
+  { value: "IR", label: "Iran" },
+  { value: "IQ", label: "Iraq" },
+  { value: "IE", label: "Ireland" },
+  { value: "IM", label: "Isle of Man" },
+  { value: "IL", label: "Israel" },
+  { value: "IT", label: "Italy" },
+  { value: "JM", label: "Jamaica" },
+  { value: "JP", label: "Japan" },
+  { value: "JE", label: "Jersey" },
+  { value: "JO", label: "Jordan" },
+  { value: "KZ", label: "Kazakhstan" },
+  { value: "KE", label: "Kenya" },
+  { value: "KI", label: "Kiribati" },
+  { value: "KP", label: "Korea (Democratic People's Republic of)" },
+  { value: "KR", label: "Korea (Republic of)" },
+  { value: "KW", label: "Kuwait" },
+  { value: "KG", label: "Kyrgyzstan" },
+  { value: "LA", label: "Lao People's Democratic Republic" },
+  { value: "LV", label: "Latvia" },
+  { value: "LB", label: "Lebanon" },
+  { value: "LS", label: "Lesotho" },
+  { value: "LR", label: "Liberia" },
+  { value: "LY", label: "Libya" },
+  { value: "LI", label: "Liechtenstein" },
+  { value: "LT", label: "Lithuania" },
+  { value: "LU", label: "Luxembourg" },
+  { value: "MO", label: "Macao" },
+  { value: "MG", label: "Madagascar" },
+  { value: "MW", label: "Malawi" },
+  { value: "MY", label: "Malaysia" },
+  { value: "MV", label: "Maldives" },
+  { value: "ML", label: "Mali" },
+  { value: "MT", label: "Malta" },
+  { value: "MH", label: "Marshall Islands" },
+  { value: "MQ", label: "Martinique" },
+  { value: "MR", label: "Mauritania" },
+  { value: "MU", label: "Mauritius" },
+  { value: "YT", label: "Mayotte" },
+  { value: "MX", label: "Mexico" },
+  { value: "FM", label: "Micronesia (Federated States of)" },
+  { value: "MD", label: "Moldova (Republic of)" },
+  { value: "MC", label: "Monaco" },
+  { value: "MN", label: "Mongolia" },
+  { value: "ME", label: "Montenegro" },
+  { value: "MS", label: "Montserrat" },
+  { value: "MA", label: "Morocco" },
+  { value: "MZ", label: "Mozambique" },
+  { value: "MM", label: "Myanmar" },
+  { value: "NA", label: "Namibia" },
+  { value: "NR", label: "Nauru" },
+  { value: "NP", label: "Nepal" },
+  { value: "NL", label: "Netherlands" },
+  { value: "NC", label: "New Caledonia" },
+  { value: "NZ", label: "New Zealand" },
+  { value: "NI", label: "Nicaragua" },
+  { value: "NE", label: "Niger" },
+  { value: "NG", label: "Nigeria" },
+  { value: "NU", label: "Niue" },
+  { value: "NF", label: "Norfolk Island" },
+  { value: "MK", label: "North Macedonia" },
+  { value: "MP", label: "Northern Mariana Islands" },
+  { value: "NO", label: "Norway" },
+  { value: "OM", label: "Oman" },
+  { value: "PK", label: "Pakistan" },
+  { value: "PW", label: "Palau" },
+  { value: "PS", label: "Palestine, State of" },
+  { value: "PA", label: "Panama" },
+  { value: "PG", label: "Papua New Guinea" },
+  { value: "PY", label: "Paraguay" },
+  { value: "PE", label: "Peru" },
+  { value: "PH", label: "Philippines" },
+  { value: "PN", label: "Pitcairn" },
+  { value: "PL", label: "Poland" },
+  { value: "PT", label: "Portugal" },
+  { value: "PR", label: "Puerto Rico" },
+  { value: "QA", label: "Qatar" },
+  { value: "RE", label: "Réunion" },
+  { value: "RO", label: "Romania" },
+  { value: "RU", label: "Russian Federation" },
+  { value: "RW", label: "Rwanda" },
+  { value: "BL", label: "Saint Barthélemy" },
+  { value: "SH", label: "Saint Helena, Ascension and Tristan da Cunha" },
+  { value: "KN", label: "Saint Kitts and Nevis" },
+  { value: "LC", label: "Saint Lucia" },
+  { value: "MF", label: "Saint Martin (French part)" },
+  { value: "PM", label: "Saint Pierre and Miquelon" },
+  { value: "VC", label: "Saint Vincent and the Grenadines" },
+  { value: "WS", label: "Samoa" },
+  { value: "SM", label: "San Marino" },
+  { value: "ST", label: "Sao Tome and Principe" },
+  { value: "SA", label: "Saudi Arabia" },
+  { value: "SN", label: "Senegal" },
+  { value: "RS", label: "Serbia" },
+  { value: "SC", label: "Seychelles" },
+  { value: "SL", label: "Sierra Leone" },
+  { value: "SG", label: "Singapore" },
+  { value: "SX", label: "Sint Maarten (Dutch part)" },
+  { value: "SK", label: "Slovakia" },
+  { value: "SI", label: "Slovenia" },
+  { value: "SB", label: "Solomon Islands" },
+  { value: "SO", label: "Somalia" },
+  { value: "ZA", label: "South Africa" },
+  { value: "GS", label: "South Georgia and the South Sandwich Islands" },
+  { value: "SS", label: "South Sudan" },
+  { value: "ES", label: "Spain" },
+  { value: "LK", label: "Sri Lanka" },
+  { value: "SD", label: "Sudan" },
+  { value: "SR", label: "Suriname" },
+  { value: "SJ", label: "Svalbard and Jan Mayen" },
+  { value: "SE", label: "Sweden" },
+  { value: "CH", label: "Switzerland" },
+  { value: "SY", label: "Syrian Arab Republic" },
+  { value: "TW", label: "Taiwan" },
+  { value: "TJ", label: "Tajikistan" },
+  { value: "TZ", label: "Tanzania, United Republic of" },
+  { value: "TH", label: "Thailand" },
+  { value: "TL", label: "Timor-Leste" },
+  { value: "TG", label: "Togo" },
+  { value: "TK", label: "Tokelau" },
+  { value: "TO", label: "Tonga" },
+  { value: "TT", label: "Trinidad and Tobago" },
+  { value: "TN", label: "Tunisia" },
+  { value: "TR", label: "Turkey" },
+  { value: "TM", label: "Turkmenistan" },
+  { value: "TC", label: "Turks and Caicos Islands" },
+  { value: "TV", label: "Tuvalu" },
+  { value: "UG", label: "Uganda" },
+  { value: "UA", label: "Ukraine" },
+  { value: "AE", label: "United Arab Emirates" },
+  { value: "GB", label: "United Kingdom" },
+  { value: "US", label: "United States" },
+  { value: "UM", label: "United States Minor Outlying Islands" },
+  { value: "UY", label: "Uruguay" },
+  { value: "UZ", label: "Uzbekistan" },
+  { value: "VU", label: "Vanuatu" },
+  { value: "VE", label: "Venezuela" },
+  { value: "VN", label: "Viet Nam" },
+  { value: "VG", label: "Virgin Islands (British)" },
+  { value: "VI", label: "Virgin Islands (U.S.)" },
+  { value: "WF", label: "Wallis and Futuna" },
+  { value: "EH", label: "Western Sahara" },
+  { value: "YE", label: "Yemen" },
+  { value: "ZM", label: "Zambia" },
+  { value: "ZW", label: "Zimbabwe" },
+];
+
+
+export const US_STATES = [
+  { value: "AL", label: "Alabama" },
+  { value: "AK", label: "Alaska" },
+  { value: "AZ", label: "Arizona" },
+  { value: "AR", label: "Arkansas" },
+  { value: "CA", label: "California" },
+  { value: "CO", label: "Colorado" },
+  { value: "CT", label: "Connecticut" },
+  { value: "DE", label: "Delaware" },
+  { value: "DC", label: "District of Columbia" },
+  { value: "FL", label: "Florida" },
+  { value: "GA", label: "Georgia" },
+  { value: "HI", label: "Hawaii" },
+  { value: "ID", label: "Idaho" },
+  { value: "IL", label: "Illinois" },
+  { value: "IN", label: "Indiana" },
+  { value: "IA", label: "Iowa" },
+  { value: "KS", label: "Kansas" },
+  { value: "KY", label: "Kentucky" },
+  { value: "LA", label: "Louisiana" },
+  { value: "ME", label: "Maine" },
+  { value: "MD", label: "Maryland" },
+  { value: "MA", label: "Massachusetts" },
+  { value: "MI", label: "Michigan" },
+  { value: "MN", label: "Minnesota" },
+  { value: "MS", label: "Mississippi" },
+  { value: "MO", label: "Missouri" },
+  { value: "MT", label: "Montana" },
+  { value: "NE", label: "Nebraska" },
+  { value: "NV", label: "Nevada" },
+  { value: "NH", label: "New Hampshire" },
+  { value: "NJ", label: "New Jersey" },
+  { value: "NM", label: "New Mexico" },
+  { value: "NY", label: "New York" },
+  { value: "NC", label: "North Carolina" },
+  { value: "ND", label: "North Dakota" },
+  { value: "OH", label: "Ohio" },
+  { value: "OK", label: "Oklahoma" },
+  { value: "OR", label: "Oregon" },
+  { value: "PA", label: "Pennsylvania" },
+  { value: "RI", label: "Rhode Island" },
+  { value: "SC", label: "South Carolina" },
+  { value: "SD", label: "South Dakota" },
+  { value: "TN", label: "Tennessee" },
+  { value: "TX", label: "Texas" },
+  { value: "UT", label: "Utah" },
+  { value: "VT", label: "Vermont" },
+  { value: "VA", label: "Virginia" },
+  { value: "WA", label: "Washington" },
+  { value: "WV", label: "West Virginia" },
+  { value: "WI", label: "Wisconsin" },
+  { value: "WY", label: "Wyoming" },
+  { value: "AS", label: "American Samoa" },
+  { value: "GU", label: "Guam" },
+  { value: "MP", label: "Northern Mariana Islands" },
+  { value: "PR", label: "Puerto Rico" },
+  { value: "VI", label: "U.S. Virgin Islands" },
+  { value: "FM", label: "Micronesia" },
+  { value: "MH", label: "Marshall Islands" },
+  { value: "PW", label: "Palau" },
+  { value: "AA", label: "Armed Forces Americas" },
+  { value: "AE", label: "Armed Forces Europe" },
+  { value: "AP", label: "Armed Forces Pacific" },
+];
+
+export const CA_PROVINCES = [
+  { value: "AB", label: "Alberta" },
+  { value: "BC", label: "British Columbia" },
+  { value: "MB", label: "Manitoba" },
+  { value: "NB", label: "New Brunswick" },
+  { value: "NL", label: "Newfoundland and Labrador" },
+  { value: "NS", label: "Nova Scotia" },
+  { value: "NT", label: "Northwest Territories" },
+  { value: "NU", label: "Nunavut" },
+  { value: "ON", label: "Ontario" },
+  { value: "PE", label: "Prince Edward Island" },
+  { value: "QC", label: "Quebec" },
+  { value: "SK", label: "Saskatchewan" },
+  { value: "YT", label: "Yukon" },
+];
+
+export const AU_STATES = [
+  { value: "ACT", label: "Australian Capital Territory" },
+  { value: "NSW", label: "New South Wales" },
+  { value: "NT", label: "Northern Territory" },
+  { value: "QLD", label: "Queensland" },
+  { value: "SA", label: "South Australia" },
+  { value: "TAS", label: "Tasmania" },
+  { value: "VIC", label: "Victoria" },
+  { value: "WA", label: "Western Australia" },
+];
+
+// Postal code formats, checked against the trimmed, upper-cased value.
+// [pattern, example]
+const POSTAL_CODE_FORMATS = {
+  AR: [/^([A-Z]\d{4}[A-Z]{3}|\d{4})$/, "C1425"],
+  AT: [/^\d{4}$/, "1010"],
+  AU: [/^\d{4}$/, "2000"],
+  BE: [/^\d{4}$/, "1000"],
+  BG: [/^\d{4}$/, "1000"],
+  BR: [/^\d{5}-?\d{3}$/, "01310-100"],
+  CA: [/^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/, "M5V 2T6"],
+  CH: [/^\d{4}$/, "8001"],
+  CL: [/^\d{7}$/, "8320000"],
+  CN: [/^\d{6}$/, "100000"],
+  CO: [/^\d{6}$/, "110111"],
+  CZ: [/^\d{3} ?\d{2}$/, "110 00"],
+  DE: [/^\d{5}$/, "10115"],
+  DK: [/^\d{4}$/, "1050"],
+  EE: [/^\d{5}$/, "10111"],
+  EG: [/^\d{5}$/, "11511"],
+  ES: [/^\d{5}$/, "28001"],
+  FI: [/^\d{5}$/, "00100"],
+  FR: [/^\d{5}$/, "75001"],
+  GB: [/^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/, "SW1A 1AA"],
+  GR: [/^\d{3} ?\d{2}$/, "105 57"],
+  HR: [/^\d{5}$/, "10000"],
+  HU: [/^\d{4}$/, "1011"],
+  ID: [/^\d{5}$/, "10110"],
+  IE: [/^[A-Z]\d[\dW] ?[A-Z\d]{4}$/, "D02 X285"],
+  IL: [/^\d{7}$/, "6100000"],
+  IN: [/^[1-9]\d{5}$/, "110001"],
+  IS: [/^\d{3}$/, "101"],
+  IT: [/^\d{5}$/, "00118"],
+  JP: [/^\d{3}-?\d{4}$/, "100-0001"],
+  KR: [/^\d{5}$/, "03187"],
+  LT: [/^(LT-)?\d{5}$/, "LT-01100"],
+  LU: [/^(L-)?\d{4}$/, "1009"],
+  LV: [/^(LV-)?\d{4}$/, "LV-1050"],
+  MT: [/^[A-Z]{3} ?\d{4}$/, "VLT 1117"],
+  MX: [/^\d{5}$/, "06000"],
+  MY: [/^\d{5}$/, "50000"],
+  NL: [/^\d{4} ?[A-Z]{2}$/, "1012 JS"],
+  NO: [/^\d{4}$/, "0150"],
+  NZ: [/^\d{4}$/, "6011"],
+  PE: [/^\d{5}$/, "15001"],
+  PH: [/^\d{4}$/, "1000"],
+  PL: [/^\d{2}-\d{3}$/, "00-001"],
+  PR: [/^00[679]\d{2}(-\d{4})?$/, "00901"],
+  PT: [/^\d{4}-\d{3}$/, "1000-001"],
+  RO: [/^\d{6}$/, "010011"],
+  RU: [/^\d{6}$/, "101000"],
+  SA: [/^\d{5}(-\d{4})?$/, "11564"],
+  SE: [/^\d{3} ?\d{2}$/, "111 22"],
+  SG: [/^\d{6}$/, "018956"],
+  SI: [/^\d{4}$/, "1000"],
+  SK: [/^\d{3} ?\d{2}$/, "811 01"],
+  TH: [/^\d{5}$/, "10200"],
+  TR: [/^\d{5}$/, "34000"],
+  TW: [/^\d{3}(\d{2,3})?$/, "100"],
+  UA: [/^\d{5}$/, "01001"],
+  US: [/^\d{5}(-\d{4})?$/, "62701"],
+  VN: [/^\d{6}$/, "100000"],
+  ZA: [/^\d{4}$/, "0001"],
+};
+
+// Countries without a postal code system.
+const NO_POSTAL_CODE = new Set([
+  "AE", "AG", "AO", "AW", "BF", "BI", "BJ", "BO", "BS", "BW", "BZ", "CD", "CF",
+  "CG", "CI", "CK", "CM", "DJ", "DM", "ER", "FJ", "GA", "GD", "GH", "GM", "GQ",
+  "GY", "HK", "KI", "KM", "KN", "KP", "LC", "ML", "MO", "MR", "MW", "NR", "NU",
+  "QA", "RW", "SB", "SC", "SL", "SR", "ST", "SY", "TD", "TF", "TG", "TK", "TL",
+  "TO", "TV", "UG", "VU", "YE", "ZW",
+]);
+
+// Postal codes exist but are rarely used on mail, so they are optional.
+const OPTIONAL_POSTAL_CODE = new Set(["IE"]);
+
+const STATE_RULES = {
+  US: { label: "State", options: US_STATES },
+  CA: { label: "Province", options: CA_PROVINCES },
+  AU: { label: "State / territory", options: AU_STATES },
+};
+
+const POSTAL_CODE_LABELS = { US: "ZIP code", GB: "Postcode", AU: "Postcode", IE: "Eircode" };
+
+// How addresses in `country` are filled in: the postal code (label, whether
+// it is required, and an example when the format is known) and the state
+// (required, with a fixed list of options, for US/CA/AU).
+export const addressRulesFor = (country) => {
+  const code = String(country || "");
+  const format = POSTAL_CODE_FORMATS[code];
+  const state = STATE_RULES[code];
+  return {
+    postalCode: {
+      label: POSTAL_CODE_LABELS[code] ?? "Postal code",
+      required: !NO_POSTAL_CODE.has(code) && !OPTIONAL_POSTAL_CODE.has(code),
+      used: !NO_POSTAL_CODE.has(code),
+      example: format ? format[1] : null,
+    },
+    state: state
+      ? { label: state.label, required: true, options: state.options }
+      : { label: "State / province", required: false, options: null },
+  };
+};
+
+// The state code for a value that is either a code or a name from the
+// country's list ("il", "Illinois" -> "IL"), or null when it matches neither.
+export const resolveState = (country, value) => {
+  const options = STATE_RULES[String(country || "")]?.options;
+  const v = String(value ?? "").trim().toLowerCase();
+  if (!options || !v) return null;
+  const match = options.find((o) => o.value.toLowerCase() === v || o.label.toLowerCase() === v);
+  return match ? match.value : null;
+};
+
+// Country-specific checks for an address ({ country, state, zip }): required
+// state and postal code, postal code format, and for the US that the ZIP
+// belongs to the state. Returns errors keyed by field ("zip", "state").
+export const checkCountryAddress = (a) => {
+  const errors = {};
+  const country = String(a?.country || "");
+  const rules = addressRulesFor(country);
+  const zip = String(a?.zip ?? "").trim().toUpperCase();
+  const stateText = String(a?.state ?? "").trim();
+
+  const format = POSTAL_CODE_FORMATS[country];
+  if (!zip) {
+    if (rules.postalCode.required) errors.zip = `${rules.postalCode.label} is required.`;
+  } else if (format && !format[0].test(zip)) {
+    errors.zip = `${rules.postalCode.label} must look like ${format[1]}.`;
+  }
+
+  let state = null;
+  if (rules.state.options) {
+    state = resolveState(country, stateText);
+    if (!stateText) errors.state = `${rules.state.label} is required.`;
+    else if (!state) errors.state = `Select a valid ${rules.state.label.toLowerCase()}.`;
+  }
+
+  if (country === "US" && state && zip && !errors.zip) {
+    const states = statesForUsZip(zip);
+    if (!states) errors.zip = `No US ZIP codes start with ${zip.slice(0, 3)}.`;
+    else if (!states.includes(state)) {
+      errors.zip = `ZIP code ${zip} is in ${states.join("/")}, not ${state}.`;
+    }
+  }
+  return errors;
+};
+
+// International dialling codes (without "+") for COUNTRY_OPTIONS. Countries
+// in the North American Numbering Plan share "1".
+const DIAL_CODES = {
+  AF: "93", AX: "358", AL: "355", DZ: "213", AS: "1", AD: "376", AO: "244", AI: "1", AQ: "672", AG: "1",
+  AR: "54", AM: "374", AW: "297", AU: "61", AT: "43", AZ: "994", BS: "1", BH: "973", BD: "880", BB: "1",
+  BY: "375", BE: "32", BZ: "501", BJ: "229", BM: "1", BT: "975", BO: "591", BQ: "599", BA: "387", BW: "267",
+  BV: "47", BR: "55", IO: "246", BN: "673", BG: "359", BF: "226", BI: "257", KH: "855", CM: "237", CA: "1",
+  CV: "238", KY: "1", CF: "236", TD: "235", CL: "56", CN: "86", CX: "61", CC: "61", CO: "57", KM: "269",
+  CG: "242", CD: "243", CK: "682", CR: "506", CI: "225", HR: "385", CU: "53", CW: "599", CY: "357", CZ: "420",
+  DK: "45", DJ: "253", DM: "1", DO: "1", EC: "593", EG: "20", SV: "503", GQ: "240", ER: "291", EE: "372",
+  SZ: "268", ET: "251", FK: "500", FO: "298", FJ: "679", FI: "358", FR: "33", GF: "594", PF: "689", TF: "262",
+  GA: "241", GM: "220", GE: "995", DE: "49", GH: "233", GI: "350", GR: "30", GL: "299", GD: "1", GP: "590",
+  GU: "1", GT: "502", GG: "44", GN: "224", GW: "245", GY: "592", HT: "509", HM: "672", VA: "39", HN: "504",
+  HK: "852", HU: "36", IS: "354", IN: "91", ID: "62", IR: "98", IQ: "964", IE: "353", IM: "44", IL: "972",
+  IT: "39", JM: "1", JP: "81", JE: "44", JO: "962", KZ: "7", KE: "254", KI: "686", KP: "850", KR: "82",
+  KW: "965", KG: "996", LA: "856", LV: "371", LB: "961", LS: "266", LR: "231", LY: "218", LI: "423", LT: "370",
+  LU: "352", MO: "853", MG: "261", MW: "265", MY: "60", MV: "960", ML: "223", MT: "356", MH: "692", MQ: "596",
+  MR: "222", MU: "230", YT: "262", MX: "52", FM: "691", MD: "373", MC: "377", MN: "976", ME: "382", MS: "1",
+  MA: "212", MZ: "258", MM: "95", NA: "264", NR: "674", NP: "977", NL: "31", NC: "687", NZ: "64", NI: "505",
+  NE: "227", NG: "234", NU: "683", NF: "672", MK: "389", MP: "1", NO: "47", OM: "968", PK: "92", PW: "680",
+  PS: "970", PA: "507", PG: "675", PY: "595", PE: "51", PH: "63", PN: "64", PL: "48", PT: "351", PR: "1",
+  QA: "974", RE: "262", RO: "40", RU: "7", RW: "250", BL: "590", SH: "290", KN: "1", LC: "1", MF: "590",
+  PM: "508", VC: "1", WS: "685", SM: "378", ST: "239", SA: "966", SN: "221", RS: "381", SC: "248", SL: "232",
+  SG: "65", SX: "1", SK: "421", SI: "386", SB: "677", SO: "252", ZA: "27", GS: "500", SS: "211", ES: "34",
+  LK: "94", SD: "249", SR: "597", SJ: "47", SE: "46", CH: "41", SY: "963", TW: "886", TJ: "992", TZ: "255",
+  TH: "66", TL: "670", TG: "228", TK: "690", TO: "676", TT: "1", TN: "216", TR: "90", TM: "993", TC: "1",
+  TV: "688", UG: "256", UA: "380", AE: "971", GB: "44", US: "1", UM: "1", UY: "598", UZ: "998", VU: "678",
+  VE: "58", VN: "84", VG: "1", VI: "1", WF: "681", EH: "212", YE: "967", ZM: "260", ZW: "263",
+};
+
+// "+44" for "GB"; "" for an unknown country.
+export const dialCodeFor = (country) => {
+  const code = DIAL_CODES[String(country || "")];
+  return code ? `+${code}` : "";
+};
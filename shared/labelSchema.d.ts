@@ -0,0 +1,137 @@
+// Types for labelSchema.js.
+
+export type LabelFieldErrors = Record<string, string>;
+
+export type LabelSection = "service" | "addresses" | "parcel" | "customs";
+
+export type ContentsType = "merchandise" | "gift" | "documents" | "returned_goods";
+
+export type CustomsLine = {
+  description: string;
+  quantity: number;
+  unitValueUsd: number;
+  weightLbs: number; // net weight of the whole line
+  hsCode: string;
+  originCountry: string;
+};
+
+export type LabelCustoms = {
+  contentsType: ContentsType;
+  lines: CustomsLine[];
+};
+
+export type CustomsTotals = { quantity: number; valueUsd: number; weightLbs: number };
+
+// The parts of the carrier catalog the schema checks against.
+export type LabelSchemaCatalog = {
+  id: string;
+  services: {
+    name: string;
+    domestic: boolean;
+    international: boolean;
+    maxWeightLbs: number | null;
+    maxLengthIn: number | null;
+  }[];
+}[];
+
+type AddressInput = {
+  name?: string;
+  company?: string;
+  address1?: string;
+  address2?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  country?: string;
+  phone?: string;
+  email?: string;
+};
+
+// One package of a shipment.
+export type LabelPieceInput = {
+  weightLbs?: number;
+  dimensionsIn?: { length?: number; width?: number; height?: number };
+  entered?: { units?: string; weight?: number };
+};
+
+export type LabelDataInput = {
+  schemaVersion?: number;
+  carrier?: string;
+  service?: string;
+  from?: AddressInput;
+  to?: AddressInput;
+  pieces?: LabelPieceInput[];
+  customs?: LabelCustoms | null;
+  returnOfLabelId?: string | null;
+};
+
+export declare const LABEL_SCHEMA_VERSION: number;
+
+export declare const LABEL_LIMITS: {
+  maxWeightLbs: number;
+  maxDimensionIn: number;
+  maxQuantity: number;
+  maxDeclaredValueUsd: number;
+  maxCustomsLines: number;
+  maxPieces: number;
+  textLength: {
+    name: number;
+    company: number;
+    address1: number;
+    address2: number;
+    city: number;
+    state: number;
+    zip: number;
+    phone: number;
+    email: number;
+    declarationItem: number;
+    presetName: number;
+  };
+};
+
+export declare const LABEL_SECTIONS: LabelSection[];
+
+export declare const CONTENTS_TYPES: ContentsType[];
+
+export declare const customsTotals: (customs: LabelCustoms | null | undefined) => CustomsTotals;
+
+export declare const shipmentWeightLbs: (d: LabelDataInput) => number;
+
+export declare const customsFormType: (d: LabelDataInput) => "CN22" | "CN23";
+
+export declare const isInternationalLabel: (d: LabelDataInput) => boolean;
+
+export type LabelValidationOptions = {
+  catalog?: LabelSchemaCatalog;
+  // Whether a format-valid HS code exists (server/hsCodes.js on the server).
+  hsCodeExists?: (code: string) => boolean;
+};
+
+export declare const validateAddress: (a: unknown) => LabelFieldErrors;
+
+export type PackagePresetInput = {
+  name: string;
+  units: "imperial" | "metric";
+  length: number;
+  width: number;
+  height: number;
+  weight: number | null;
+  contentsDescription: string;
+};
+
+export declare const validatePackagePreset: (p: unknown) => LabelFieldErrors;
+
+export declare const validateLabelSection: (
+  section: LabelSection,
+  d: LabelDataInput,
+  options?: LabelValidationOptions,
+) => LabelFieldErrors;
+
+export declare const validateLabelData: (
+  d: unknown,
+  options?: LabelValidationOptions,
+) => LabelFieldErrors;
+
+export declare const firstLabelError: (errors: LabelFieldErrors) => string | null;
+
+export declare const migrateLabelData: <T>(raw: T) => T & { schemaVersion: number };
@@ -0,0 +1,435 @@
+// Label request schema, shared by the server (POST /api/labels, cart pricing)
+// and the browser (Create Label wizard, cart). Plain ESM so both can import
+// it; types are in labelSchema.d.ts.
+//
+// Label data is a CartLabelItem: carrier/service, `from`/`to` addresses
+// (name, company, address1/address2, city, state, zip, country, phone, email),
+// `pieces` with one entry per package going to the same recipient, each with
+// canonical `weightLbs`/`dimensionsIn` (plus `entered` with what the user
+// typed, see src/components/labels/units.ts), and for international shipments
+// `customs`: { contentsType, lines: [{ description, quantity, unitValueUsd,
+// weightLbs, hsCode, originCountry }] }, where a line's `weightLbs` is the net
+// weight of all its units. A return label also has `returnOfLabelId`, the id
+// of the label it sends back. Validators return field-level errors keyed by path
+// ("from.zip", "customs.lines.0.hsCode"); an empty object means valid.
+
+import { COUNTRY_OPTIONS, checkCountryAddress } from "./countries.js";
+
+// Bump when the shape changes and add a step to migrateLabelData.
+export const LABEL_SCHEMA_VERSION = 4;
+
+export const CONTENTS_TYPES = ["merchandise", "gift", "documents", "returned_goods"];
+
+export const LABEL_LIMITS = {
+  maxWeightLbs: 150,
+  maxDimensionIn: 108,
+  maxQuantity: 10000,
+  maxDeclaredValueUsd: 100000,
+  maxCustomsLines: 20,
+  maxPieces: 20,
+  textLength: {
+    name: 100,
+    company: 100,
+    address1: 200,
+    address2: 200,
+    city: 100,
+    state: 100,
+    zip: 20,
+    phone: 30,
+    email: 254,
+    declarationItem: 200,
+    presetName: 100,
+  },
+};
+
+const LBS_PER_KG = 2.20462;
+const CM_PER_IN = 2.54;
+
+const text = (v) => (typeof v === "string" ? v.trim() : "");
+const ADDRESS_TEXT_FIELDS = ["name", "company", "address1", "address2", "city", "state", "zip", "phone", "email"];
+// Digits and the usual separators, with an optional leading "+"; the digit
+// count (7–15, as in E.164) is checked separately.
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const round2 = (n) => Number(Number(n || 0).toFixed(2));
+const isObject = (v) => Boolean(v) && typeof v === "object" && !Array.isArray(v);
+
+export const isInternationalLabel = (d) =>
+  String(d?.from?.country || "US") !== String(d?.to?.country || "US");
+
+const findCatalogService = (catalog, carrierId, serviceName) => {
+  const carrier = (catalog || []).find((c) => c.id === carrierId);
+  return carrier ? carrier.services.find((s) => s.name === serviceName) ?? null : null;
+};
+
+// Weights and lengths are checked in lbs/in but reported in the units the
+// user typed (a piece's, or the first piece's for the whole shipment).
+const inEnteredUnits = (d, max, kind) => {
+  const entered = d?.entered ?? (Array.isArray(d?.pieces) ? d.pieces[0]?.entered : undefined);
+  const metric = entered?.units === "metric";
+  if (kind === "weight") {
+    return metric ? `${Number((max / LBS_PER_KG).toFixed(2))} kg` : `${max} lbs`;
+  }
+  return metric ? `${Number((max * CM_PER_IN).toFixed(2))} cm` : `${max} in`;
+};
+
+const checkAddress = (prefix, a, errors) => {
+  const key = (field) => (prefix ? `${prefix}.${field}` : field);
+  if (!isObject(a)) {
+    errors[key("name")] = "Address is missing.";
+    return;
+  }
+  const required = {
+    name: "Name is required.",
+    address1: "Address is required.",
+    city: "City is required.",
+  };
+  for (const [field, message] of Object.entries(required)) {
+    if (!text(a[field])) errors[key(field)] = message;
+  }
+  for (const field of ADDRESS_TEXT_FIELDS) {
+    const max = LABEL_LIMITS.textLength[field];
+    if (a[field] !== undefined && typeof a[field] !== "string") {
+      errors[key(field)] = "Must be text.";
+    } else if (text(a[field]).length > max) {
+      errors[key(field)] = `Must be at most ${max} characters.`;
+    }
+  }
+  const phone = text(a.phone);
+  const digits = phone.replace(/\D/g, "").length;
+  if (phone && !errors[key("phone")] && (!PHONE_PATTERN.test(phone) || digits < 7 || digits > 15)) {
+    errors[key("phone")] = "Enter a phone number with its country code, e.g. +1 555 010 0000.";
+  }
+  const email = text(a.email);
+  if (email && !errors[key("email")] && !EMAIL_PATTERN.test(email)) {
+    errors[key("email")] = "Enter a valid email address.";
+  }
+  if (!COUNTRY_OPTIONS.some((c) => c.value === a.country)) {
+    errors[key("country")] = "Select a country.";
+    return;
+  }
+  // Postal code and state rules for the country (shared/countries.js).
+  for (const [field, message] of Object.entries(checkCountryAddress(a))) {
+    if (!errors[key(field)]) errors[key(field)] = message;
+  }
+};
+
+// Validate a single address outside a label (e.g. an address book entry).
+// Errors are keyed by field name ("zip", "state", ...).
+export const validateAddress = (a) => {
+  const errors = {};
+  checkAddress("", a, errors);
+  return errors;
+};
+
+const validatePositive = (d, field, value, max, kind, errors) => {
+  const n = typeof value === "number" ? value : NaN;
+  if (!Number.isFinite(n) || n <= 0) {
+    errors[field] = "Enter a number greater than 0.";
+  } else if (n > max) {
+    errors[field] = `Must be at most ${inEnteredUnits(d, max, kind)}.`;
+  }
+};
+
+// Validate a saved package preset: `{ name, units, length, width, height,
+// weight, contentsDescription }` with sizes in `units`. The weight may be
+// null. Errors are keyed by field name.
+export const validatePackagePreset = (p) => {
+  const errors = {};
+  if (!isObject(p)) return { name: "Preset is missing." };
+  const name = text(p.name);
+  if (!name) errors.name = "Name is required.";
+  else if (name.length > LABEL_LIMITS.textLength.presetName) {
+    errors.name = `Must be at most ${LABEL_LIMITS.textLength.presetName} characters.`;
+  }
+  if (p.units !== "imperial" && p.units !== "metric") {
+    errors.units = "Units must be imperial or metric.";
+    return errors;
+  }
+  const metric = p.units === "metric";
+  const d = { entered: { units: p.units } };
+  const toIn = (n) => (typeof n === "number" && metric ? n / CM_PER_IN : n);
+  for (const side of ["length", "width", "height"]) {
+    validatePositive(d, side, toIn(p[side]), LABEL_LIMITS.maxDimensionIn, "length", errors);
+  }
+  if (p.weight !== null && p.weight !== undefined) {
+    const lbs = typeof p.weight === "number" && metric ? p.weight * LBS_PER_KG : p.weight;
+    validatePositive(d, "weight", lbs, LABEL_LIMITS.maxWeightLbs, "weight", errors);
+  }
+  const description = p.contentsDescription ?? "";
+  if (typeof description !== "string") errors.contentsDescription = "Must be text.";
+  else if (description.trim().length > LABEL_LIMITS.textLength.declarationItem) {
+    errors.contentsDescription = `Must be at most ${LABEL_LIMITS.textLength.declarationItem} characters.`;
+  }
+  return errors;
+};
+
+// Quantity, value and net weight summed over the customs lines.
+export const customsTotals = (customs) => {
+  const lines = Array.isArray(customs?.lines) ? customs.lines : [];
+  let quantity = 0;
+  let valueUsd = 0;
+  let weightLbs = 0;
+  for (const line of lines) {
+    const qty = Number(line?.quantity) || 0;
+    quantity += qty;
+    valueUsd += qty * (Number(line?.unitValueUsd) || 0);
+    weightLbs += Number(line?.weightLbs) || 0;
+  }
+  return { quantity, valueUsd: round2(valueUsd), weightLbs: round2(weightLbs) };
+};
+
+// Gross weight of the shipment: all pieces together.
+export const shipmentWeightLbs = (d) =>
+  round2(
+    (Array.isArray(d?.pieces) ? d.pieces : []).reduce(
+      (sum, p) => sum + (Number(p?.weightLbs) || 0),
+      0,
+    ),
+  );
+
+// CN22 covers small, low-value items (up to about $400 and 2 kg); anything
+// else needs a CN23.
+export const customsFormType = (d) =>
+  customsTotals(d?.customs).valueUsd <= 400 && shipmentWeightLbs(d) <= 2 * LBS_PER_KG
+    ? "CN22"
+    : "CN23";
+
+const validateCustoms = (d, errors, hsCodeExists) => {
+  const customs = d?.customs;
+  if (!isObject(customs)) {
+    errors["customs.lines"] = "Add at least one customs line.";
+    return;
+  }
+  if (!CONTENTS_TYPES.includes(customs.contentsType)) {
+    errors["customs.contentsType"] = "Select the type of contents.";
+  }
+  const documents = customs.contentsType === "documents";
+  const lines = Array.isArray(customs.lines) ? customs.lines : [];
+  if (lines.length === 0) {
+    errors["customs.lines"] = "Add at least one customs line.";
+    return;
+  }
+  if (lines.length > LABEL_LIMITS.maxCustomsLines) {
+    errors["customs.lines"] = `At most ${LABEL_LIMITS.maxCustomsLines} customs lines.`;
+    return;
+  }
+  lines.forEach((line, i) => {
+    const key = (field) => `customs.lines.${i}.${field}`;
+    const description = text(line?.description);
+    if (!description) errors[key("description")] = "Describe the item.";
+    else if (description.length > LABEL_LIMITS.textLength.declarationItem) {
+      errors[key("description")] = `Must be at most ${LABEL_LIMITS.textLength.declarationItem} characters.`;
+    }
+    const qty = line?.quantity;
+    if (!Number.isInteger(qty) || qty < 1 || qty > LABEL_LIMITS.maxQuantity) {
+      errors[key("quantity")] = "Enter a whole quantity of at least 1.";
+    }
+    // Documents may be declared without commercial value.
+    const value = line?.unitValueUsd;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || (value === 0 && !documents)) {
+      errors[key("unitValueUsd")] = "Enter the value of one unit in USD.";
+    }
+    const weight = line?.weightLbs;
+    if (typeof weight !== "number" || !Number.isFinite(weight) || weight <= 0) {
+      errors[key("weightLbs")] = "Enter the net weight.";
+    }
+    const hs = text(line?.hsCode);
+    if (hs && !/^\d{6,10}$/.test(hs)) {
+      errors[key("hsCode")] = "HS code must be 6 to 10 digits.";
+    } else if (hs && hsCodeExists && !hsCodeExists(hs)) {
+      errors[key("hsCode")] = "Unknown HS code. Search by description to find the right one.";
+    }
+    if (!COUNTRY_OPTIONS.some((c) => c.value === line?.originCountry)) {
+      errors[key("originCountry")] = "Select the country of origin.";
+    }
+  });
+
+  const totals = customsTotals(customs);
+  const grossLbs = shipmentWeightLbs(d);
+  if (totals.valueUsd > LABEL_LIMITS.maxDeclaredValueUsd) {
+    errors["customs.lines"] = `Total value must be at most $${LABEL_LIMITS.maxDeclaredValueUsd}.`;
+  } else if (grossLbs > 0 && totals.weightLbs > grossLbs + 0.005) {
+    errors["customs.lines"] =
+      `Customs lines weigh ${inEnteredUnits(d, totals.weightLbs, "weight")}, more than the packages (${inEnteredUnits(d, grossLbs, "weight")}).`;
+  }
+};
+
+// Validate one part of the label. `catalog` (carriers with services, as from
+// GET /api/carriers) is optional; without it the carrier/service are only
+// checked for presence and the default size limits apply. `hsCodeExists(code)`
+// is optional too; without it HS codes are only checked for format.
+export const validateLabelSection = (section, d, { catalog, hsCodeExists } = {}) => {
+  const errors = {};
+  const service = catalog ? findCatalogService(catalog, d?.carrier, d?.service) : null;
+
+  if (section === "service") {
+    if (!text(d?.carrier)) errors.carrier = "Select a carrier.";
+    else if (catalog && !catalog.some((c) => c.id === d.carrier)) {
+      errors.carrier = "Carrier is not offered.";
+    } else if (!text(d?.service)) errors.service = "Select a service.";
+    else if (catalog && !service) errors.service = "Service is not offered.";
+  }
+
+  if (section === "addresses") {
+    checkAddress("from", d?.from, errors);
+    checkAddress("to", d?.to, errors);
+    if (service && !errors["to.country"]) {
+      const international = isInternationalLabel(d);
+      if (international && !service.international) {
+        errors["to.country"] = `${service.name} does not ship internationally. Pick another service.`;
+      } else if (!international && !service.domestic) {
+        errors["to.country"] = `${service.name} is for international shipments only. Pick another service.`;
+      }
+    }
+  }
+
+  if (section === "parcel") {
+    // Service limits apply to each piece on its own.
+    const maxWeight = service?.maxWeightLbs ?? LABEL_LIMITS.maxWeightLbs;
+    const maxSide = service?.maxLengthIn ?? LABEL_LIMITS.maxDimensionIn;
+    const pieces = Array.isArray(d?.pieces) ? d.pieces : [];
+    if (pieces.length === 0) errors.pieces = "Add at least one package.";
+    else if (pieces.length > LABEL_LIMITS.maxPieces) {
+      errors.pieces = `At most ${LABEL_LIMITS.maxPieces} packages per shipment.`;
+    }
+    pieces.slice(0, LABEL_LIMITS.maxPieces).forEach((piece, i) => {
+      const key = (field) => `pieces.${i}.${field}`;
+      const p = isObject(piece) ? piece : {};
+      validatePositive(p, key("weightLbs"), p.weightLbs, maxWeight, "weight", errors);
+      const dims = isObject(p.dimensionsIn) ? p.dimensionsIn : {};
+      for (const side of ["length", "width", "height"]) {
+        validatePositive(p, key(`dimensionsIn.${side}`), dims[side], maxSide, "length", errors);
+      }
+      if (p.entered !== undefined) {
+        const e = p.entered;
+        if (!isObject(e) || (e.units !== "imperial" && e.units !== "metric")) {
+          errors[key("entered.units")] = "Units must be imperial or metric.";
+        }
+      }
+    });
+  }
+
+  if (section === "customs" && isInternationalLabel(d)) {
+    validateCustoms(d, errors, hsCodeExists);
+  }
+
+  return errors;
+};
+
+export const LABEL_SECTIONS = ["service", "addresses", "parcel", "customs"];
+
+const LABEL_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Validate a whole label. Expects migrated data (see migrateLabelData).
+export const validateLabelData = (d, options = {}) => {
+  if (!isObject(d)) return { labelData: "Label data must be an object." };
+  const errors = {};
+  if (d.schemaVersion !== LABEL_SCHEMA_VERSION) {
+    errors.schemaVersion = `Unsupported schema version (expected ${LABEL_SCHEMA_VERSION}).`;
+  }
+  for (const section of LABEL_SECTIONS) {
+    Object.assign(errors, validateLabelSection(section, d, options));
+  }
+  // Whether the original exists and belongs to the user is up to the server.
+  if (
+    d.returnOfLabelId !== undefined &&
+    d.returnOfLabelId !== null &&
+    !LABEL_ID_PATTERN.test(String(d.returnOfLabelId))
+  ) {
+    errors.returnOfLabelId = "The original label id is invalid.";
+  }
+  return errors;
+};
+
+// "from.zip: ZIP code is required." for the first error, or null.
+export const firstLabelError = (errors) => {
+  const [entry] = Object.entries(errors || {});
+  return entry ? `${entry[0]}: ${entry[1]}` : null;
+};
+
+// Bring label data saved by an older client up to LABEL_SCHEMA_VERSION.
+// Unknown fields are kept; anything that cannot be repaired is left for
+// validateLabelData to report.
+export const migrateLabelData = (raw) => {
+  if (!isObject(raw)) return raw;
+  let d = { ...raw };
+  const version = Number.isInteger(d.schemaVersion) ? d.schemaVersion : 0;
+  if (version > LABEL_SCHEMA_VERSION) return d;
+
+  if (version < 1) {
+    // v0: no version, optional customs fields, no `entered`; countries
+    // defaulted to US before the wizard asked for them.
+    const dimensionsIn = isObject(d.dimensionsIn)
+      ? d.dimensionsIn
+      : { length: 0, width: 0, height: 0 };
+    d = {
+      ...d,
+      declarationItem: typeof d.declarationItem === "string" ? d.declarationItem : "",
+      declarationQuantity: Number.isFinite(d.declarationQuantity) ? d.declarationQuantity : 0,
+      declaredValueUsd: Number.isFinite(d.declaredValueUsd) ? d.declaredValueUsd : 0,
+      hsCode: typeof d.hsCode === "string" ? d.hsCode : "",
+      dimensionsIn,
+      entered: isObject(d.entered)
+        ? d.entered
+        : {
+            units: "imperial",
+            weight: typeof d.weightLbs === "number" ? d.weightLbs : 0,
+            dimensions: dimensionsIn,
+          },
+      from: isObject(d.from) ? { ...d.from, country: d.from.country ?? "US" } : d.from,
+      to: isObject(d.to) ? { ...d.to, country: d.to.country ?? "US" } : d.to,
+    };
+  }
+
+  if (version < 2) {
+    // v1: a single declarationItem/declarationQuantity/declaredValueUsd/hsCode
+    // becomes one customs line weighing the whole parcel.
+    const { declarationItem, declarationQuantity, declaredValueUsd, hsCode, ...rest } = d;
+    const quantity = Number.isInteger(declarationQuantity) && declarationQuantity > 0 ? declarationQuantity : 1;
+    d = {
+      ...rest,
+      customs: isInternationalLabel(d)
+        ? {
+            contentsType: "merchandise",
+            lines: text(declarationItem)
+              ? [
+                  {
+                    description: text(declarationItem),
+                    quantity,
+                    unitValueUsd: round2((Number(declaredValueUsd) || 0) / quantity),
+                    weightLbs: typeof d.weightLbs === "number" ? d.weightLbs : 0,
+                    hsCode: text(hsCode),
+                    originCountry: String(d.from?.country || "US"),
+                  },
+                ]
+              : [],
+          }
+        : null,
+    };
+  }
+
+  if (version < 3) {
+    // v2: addresses had no company, second line, phone or email.
+    const withContact = (a) =>
+      isObject(a) ? { company: "", address2: "", phone: "", email: "", ...a } : a;
+    d = { ...d, from: withContact(d.from), to: withContact(d.to) };
+  }
+
+  if (version < 4) {
+    // v3: one parcel per label; it becomes the only piece.
+    const { weightLbs, dimensionsIn, entered, ...rest } = d;
+    d = {
+      ...rest,
+      pieces: [
+        {
+          weightLbs,
+          dimensionsIn,
+          ...(entered !== undefined ? { entered } : {}),
+        },
+      ],
+    };
+  }
+
+  return { ...d, schemaVersion: LABEL_SCHEMA_VERSION };
+};
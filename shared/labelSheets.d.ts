@@ -0,0 +1,12 @@
+// Types for labelSheets.js.
+
+export type SheetLayout = "letter" | "a4";
+
+export declare const SHEET_LAYOUTS: SheetLayout[];
+
+export declare const mergePdfs: (documents: (Uint8Array | ArrayBuffer)[]) => Promise<Uint8Array>;
+
+export declare const layoutLabelSheets: (
+  documents: (Uint8Array | ArrayBuffer)[],
+  layout: SheetLayout,
+) => Promise<Uint8Array>;
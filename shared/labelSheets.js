@@ -0,0 +1,103 @@
+// Printable PDFs of label documents: several PDFs merged into one, and
+// sheets of 4×6 labels for users without a label printer, where label pages
+// are placed 2-up on landscape Letter or A4 paper with crop marks at the
+// corners of each label. Used by the label downloads (server) and the admin
+// PDF tool (browser); types are in labelSheets.d.ts.
+
+import { PDFDocument, degrees, rgb } from "pdf-lib";
+
+export const SHEET_LAYOUTS = ["letter", "a4"];
+
+// Landscape, in points: two portrait labels side by side leave room for the
+// printer's margins on both sizes (A4 is too narrow in portrait).
+const PAPER_SIZES = {
+  letter: [792, 612],
+  a4: [841.89, 595.28],
+};
+
+const SLOT = [288, 432]; // 4×6 in
+const GAP = 36; // between the two labels
+const MARK_OFFSET = 6;
+const MARK_LENGTH = 10;
+
+// Crop marks outside the corners of the box at (x, y) sized w×h.
+const drawCropMarks = (page, x, y, w, h) => {
+  const line = (x1, y1, x2, y2) =>
+    page.drawLine({
+      start: { x: x1, y: y1 },
+      end: { x: x2, y: y2 },
+      thickness: 0.5,
+      color: rgb(0, 0, 0),
+    });
+  for (const cx of [x, x + w]) {
+    for (const cy of [y, y + h]) {
+      const dx = cx === x ? -1 : 1;
+      const dy = cy === y ? -1 : 1;
+      line(cx + dx * MARK_OFFSET, cy, cx + dx * (MARK_OFFSET + MARK_LENGTH), cy);
+      line(cx, cy + dy * MARK_OFFSET, cx, cy + dy * (MARK_OFFSET + MARK_LENGTH));
+    }
+  }
+};
+
+// Draw `embedded` scaled to fit the slot at (x, y), centred, turning
+// landscape pages a quarter turn clockwise so they read top to bottom.
+const drawInSlot = (page, embedded, x, y) => {
+  const [slotWidth, slotHeight] = SLOT;
+  const landscape = embedded.width > embedded.height;
+  const [w, h] = landscape
+    ? [embedded.height, embedded.width]
+    : [embedded.width, embedded.height];
+  const scale = Math.min(slotWidth / w, slotHeight / h);
+  const left = x + (slotWidth - w * scale) / 2;
+  const bottom = y + (slotHeight - h * scale) / 2;
+  page.drawPage(embedded, {
+    // Rotation is about the drawing origin, so a clockwise turn starts from
+    // the top left corner of the drawn area.
+    x: left,
+    y: landscape ? bottom + h * scale : bottom,
+    xScale: scale,
+    yScale: scale,
+    rotate: degrees(landscape ? -90 : 0),
+  });
+};
+
+// One PDF with every page of `documents` (PDF bytes), in order.
+export const mergePdfs = async (documents) => {
+  const merged = await PDFDocument.create();
+  for (const bytes of documents) {
+    const src = await PDFDocument.load(bytes);
+    const pages = await merged.copyPages(src, src.getPageIndices());
+    for (const page of pages) merged.addPage(page);
+  }
+  return merged.save();
+};
+
+// A PDF with every page of `documents` (PDF bytes, in order) laid out 2-up on
+// `layout` paper. Returns the PDF bytes.
+export const layoutLabelSheets = async (documents, layout) => {
+  const paper = PAPER_SIZES[layout];
+  if (!paper) throw new Error(`Unknown sheet layout "${layout}".`);
+  const sheet = await PDFDocument.create();
+  sheet.setTitle("Shipping labels");
+  sheet.setCreator("Label Land");
+
+  const embedded = [];
+  for (const bytes of documents) {
+    const src = await PDFDocument.load(bytes);
+    embedded.push(...(await sheet.embedPages(src.getPages())));
+  }
+
+  const [paperWidth, paperHeight] = paper;
+  const [slotWidth, slotHeight] = SLOT;
+  const left = (paperWidth - (2 * slotWidth + GAP)) / 2;
+  const bottom = (paperHeight - slotHeight) / 2;
+  for (let i = 0; i < embedded.length; i += 2) {
+    const page = sheet.addPage(paper);
+    embedded.slice(i, i + 2).forEach((e, j) => {
+      const x = left + j * (slotWidth + GAP);
+      drawInSlot(page, e, x, bottom);
+      drawCropMarks(page, x, bottom, slotWidth, slotHeight);
+    });
+  }
+  return sheet.save();
+};
@@ -0,0 +1,5 @@
+// Types for usZipPrefixes.js.
+
+export declare const US_ZIP3_STATES: [number, number, string[]][];
+
+export declare const statesForUsZip: (zip: string) => string[] | null;
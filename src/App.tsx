@@ -7,6 +7,11 @@ import { ScrollToTop } from "./components/common/ScrollToTop";
 import Home from "./pages/Dashboard/Home";
 import AdminDashboard from "./pages/Admin/AdminDashboard";
 import CreateLabel from "./pages/Forms/CreateLabel";
+import MyLabels from "./pages/Labels/MyLabels";
+import LabelDetail from "./pages/Labels/LabelDetail";
+import AddressBook from "./pages/Labels/AddressBook";
+import ImportLabels from "./pages/Labels/ImportLabels";
+import PackagePresets from "./pages/Labels/PackagePresets";
 import AccountsStore from "./pages/Marketplace/AccountsStore";
 import TemporaryNumber from "./pages/SMSVerification/TemporaryNumber";
 import NumberRental from "./pages/SMSVerification/NumberRental";
@@ -28,6 +33,11 @@ export default function App() {
           >
             <Route index path="/" element={<Home />} />
             <Route path="/create-label" element={<CreateLabel />} />
+            <Route path="/import-labels" element={<ImportLabels />} />
+            <Route path="/labels" element={<MyLabels />} />
+            <Route path="/labels/:id" element={<LabelDetail />} />
+            <Route path="/address-book" element={<AddressBook />} />
+            <Route path="/package-presets" element={<PackagePresets />} />
             <Route path="/store" element={<AccountsStore />} />
             <Route path="/cart" element={<Cart />} />
             <Route
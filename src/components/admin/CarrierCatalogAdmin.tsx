@@ -0,0 +1,546 @@
+import { useCallback, useEffect, useState } from "react";
+import ComponentCard from "../common/ComponentCard";
+import Label from "../form/Label";
+import Input from "../form/input/InputField";
+import Button from "../ui/button/Button";
+import Badge from "../ui/badge/Badge";
+import { Modal } from "../ui/modal";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { authedFetch } from "../labels/api";
+import type { Carrier, CarrierService } from "../labels/catalog";
+
+type TierDraft = { maxWeightLbs: string; priceUsd: string };
+
+type ServiceDraft = {
+  id: string | null; // null when adding
+  carrierId: string;
+  name: string;
+  domestic: boolean;
+  international: boolean;
+  maxWeightLbs: string;
+  maxLengthIn: string;
+  dimDivisor: string;
+  active: boolean;
+  sortOrder: string;
+  tiers: TierDraft[];
+};
+
+const emptyServiceDraft = (carrierId: string): ServiceDraft => ({
+  id: null,
+  carrierId,
+  name: "",
+  domestic: true,
+  international: false,
+  maxWeightLbs: "",
+  maxLengthIn: "",
+  dimDivisor: "139",
+  active: true,
+  sortOrder: "0",
+  tiers: [{ maxWeightLbs: "", priceUsd: "" }],
+});
+
+const draftFromService = (s: CarrierService): ServiceDraft => ({
+  id: s.id,
+  carrierId: s.carrierId,
+  name: s.name,
+  domestic: s.domestic,
+  international: s.international,
+  maxWeightLbs: s.maxWeightLbs === null ? "" : String(s.maxWeightLbs),
+  maxLengthIn: s.maxLengthIn === null ? "" : String(s.maxLengthIn),
+  dimDivisor: String(s.dimDivisor),
+  active: s.active,
+  sortOrder: String(s.sortOrder),
+  tiers: s.priceTiers.map((t) => ({
+    maxWeightLbs: String(t.maxWeightLbs),
+    priceUsd: String(t.priceUsd),
+  })),
+});
+
+const tierSummary = (s: CarrierService) =>
+  s.priceTiers
+    .map((t) => `≤${t.maxWeightLbs} lbs $${t.priceUsd.toFixed(2)}`)
+    .join(", ");
+
+const headerCell =
+  "px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400";
+
+// Admin section for the carrier/service catalog that the label wizard and
+// checkout pricing both read from.
+export default function CarrierCatalogAdmin() {
+  const [carriers, setCarriers] = useState<Carrier[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [newCarrierId, setNewCarrierId] = useState("");
+  const [newCarrierName, setNewCarrierName] = useState("");
+  const [serviceDraft, setServiceDraft] = useState<ServiceDraft | null>(null);
+  const [serviceError, setServiceError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setError(null);
+    try {
+      const resp = (await authedFetch("/api/admin/carriers")) as {
+        carriers?: Carrier[];
+      };
+      setCarriers(Array.isArray(resp?.carriers) ? resp.carriers : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load carriers.");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const saveCarrier = async (c: {
+    id: string;
+    name: string;
+    active: boolean;
+    sortOrder: number;
+  }) => {
+    setError(null);
+    setSaving(true);
+    try {
+      await authedFetch(`/api/admin/carriers/${encodeURIComponent(c.id)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(c),
+      });
+      await refresh();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save carrier.");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddCarrier = async () => {
+    const id = newCarrierId.trim().toLowerCase();
+    const name = newCarrierName.trim();
+    if (!id || !name) {
+      setError("Carrier id and name are required.");
+      return;
+    }
+    if (carriers.some((c) => c.id === id)) {
+      setError(`Carrier "${id}" already exists.`);
+      return;
+    }
+    const ok = await saveCarrier({
+      id,
+      name,
+      active: true,
+      sortOrder: carriers.length,
+    });
+    if (ok) {
+      setNewCarrierId("");
+      setNewCarrierName("");
+    }
+  };
+
+  const handleDeleteCarrier = async (c: Carrier) => {
+    if (!confirm(`Delete ${c.name} and all of its services?`)) return;
+    setError(null);
+    try {
+      await authedFetch(`/api/admin/carriers/${encodeURIComponent(c.id)}`, {
+        method: "DELETE",
+      });
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to delete carrier.");
+    }
+  };
+
+  const handleDeleteService = async (s: CarrierService) => {
+    if (!confirm(`Delete service "${s.name}"?`)) return;
+    setError(null);
+    try {
+      await authedFetch(`/api/admin/services/${encodeURIComponent(s.id)}`, {
+        method: "DELETE",
+      });
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to delete service.");
+    }
+  };
+
+  const updateDraft = (patch: Partial<ServiceDraft>) =>
+    setServiceDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+
+  const updateTier = (index: number, patch: Partial<TierDraft>) =>
+    setServiceDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            tiers: prev.tiers.map((t, i) => (i === index ? { ...t, ...patch } : t)),
+          }
+        : prev,
+    );
+
+  const handleSaveService = async () => {
+    if (!serviceDraft) return;
+    setServiceError(null);
+    setSaving(true);
+    try {
+      const body = {
+        name: serviceDraft.name.trim(),
+        domestic: serviceDraft.domestic,
+        international: serviceDraft.international,
+        maxWeightLbs: serviceDraft.maxWeightLbs.trim() || null,
+        maxLengthIn: serviceDraft.maxLengthIn.trim() || null,
+        dimDivisor: Number(serviceDraft.dimDivisor) || undefined,
+        active: serviceDraft.active,
+        sortOrder: Number(serviceDraft.sortOrder) || 0,
+        priceTiers: serviceDraft.tiers
+          .filter((t) => t.maxWeightLbs.trim() || t.priceUsd.trim())
+          .map((t) => ({
+            maxWeightLbs: Number(t.maxWeightLbs),
+            priceUsd: Number(t.priceUsd),
+          })),
+      };
+      const url = serviceDraft.id
+        ? `/api/admin/services/${encodeURIComponent(serviceDraft.id)}`
+        : `/api/admin/carriers/${encodeURIComponent(serviceDraft.carrierId)}/services`;
+      await authedFetch(url, {
+        method: serviceDraft.id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      setServiceDraft(null);
+      await refresh();
+    } catch (e) {
+      setServiceError(e instanceof Error ? e.message : "Failed to save service.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ComponentCard
+      id="carriers"
+      title="Carriers & services"
+      desc="Carriers and services offered in the label wizard, with their limits and weight-tiered prices. Checkout prices labels from the same table by billable weight and zone."
+    >
+      {error ? (
+        <div className="rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3 md:items-end">
+        <div>
+          <Label htmlFor="carrier-id">Carrier id *</Label>
+          <Input
+            id="carrier-id"
+            placeholder="e.g. usps"
+            value={newCarrierId}
+            onChange={(e) => setNewCarrierId(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="carrier-name">Display name *</Label>
+          <Input
+            id="carrier-name"
+            placeholder="e.g. USPS"
+            value={newCarrierName}
+            onChange={(e) => setNewCarrierName(e.target.value)}
+          />
+        </div>
+        <div>
+          <Button variant="primary" onClick={() => void handleAddCarrier()} disabled={saving}>
+            Add carrier
+          </Button>
+        </div>
+      </div>
+
+      {carriers.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No carriers yet.</p>
+      ) : null}
+
+      {carriers.map((c) => (
+        <div
+          key={c.id}
+          className="rounded-xl border border-gray-200 bg-white dark:border-white/[0.05] dark:bg-white/[0.03]"
+        >
+          <div className="flex flex-wrap items-center justify-between gap-3 px-5 py-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-800 dark:text-white/90">
+                {c.name}
+              </span>
+              <span className="font-mono text-xs text-gray-500 dark:text-gray-400">
+                {c.id}
+              </span>
+              {!c.active ? (
+                <Badge size="sm" color="light">
+                  inactive
+                </Badge>
+              ) : null}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setServiceDraft(emptyServiceDraft(c.id))}
+              >
+                Add service
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={saving}
+                onClick={() =>
+                  void saveCarrier({
+                    id: c.id,
+                    name: c.name,
+                    active: !c.active,
+                    sortOrder: c.sortOrder,
+                  })
+                }
+              >
+                {c.active ? "Deactivate" : "Activate"}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => void handleDeleteCarrier(c)}>
+                Delete
+              </Button>
+            </div>
+          </div>
+          <div className="max-w-full overflow-x-auto border-t border-gray-100 dark:border-white/[0.05]">
+            <Table>
+              <TableHeader className="border-b border-gray-100 dark:border-white/[0.05]">
+                <TableRow>
+                  <TableCell isHeader className={headerCell}>
+                    Service
+                  </TableCell>
+                  <TableCell isHeader className={headerCell}>
+                    Routes
+                  </TableCell>
+                  <TableCell isHeader className={headerCell}>
+                    Limits
+                  </TableCell>
+                  <TableCell isHeader className={headerCell}>
+                    Price tiers
+                  </TableCell>
+                  <TableCell isHeader className={`${headerCell} text-end`}>
+                    Actions
+                  </TableCell>
+                </TableRow>
+              </TableHeader>
+              <TableBody className="divide-y divide-gray-100 dark:divide-white/[0.05]">
+                {c.services.length === 0 ? (
+                  <TableRow>
+                    <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400" colSpan={5}>
+                      No services.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  c.services.map((s) => (
+                    <TableRow key={s.id}>
+                      <TableCell className="px-5 py-4 text-sm text-gray-800 dark:text-white/90">
+                        {s.name}
+                        {!s.active ? (
+                          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                            (inactive)
+                          </span>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
+                        {[s.domestic ? "Domestic" : null, s.international ? "International" : null]
+                          .filter(Boolean)
+                          .join(", ")}
+                      </TableCell>
+                      <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
+                        {s.maxWeightLbs !== null ? `${s.maxWeightLbs} lbs` : "—"} /{" "}
+                        {s.maxLengthIn !== null ? `${s.maxLengthIn} in` : "—"}
+                      </TableCell>
+                      <TableCell className="px-5 py-4 text-xs text-gray-600 dark:text-gray-400">
+                        {tierSummary(s)}
+                      </TableCell>
+                      <TableCell className="px-5 py-4 text-end">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setServiceDraft(draftFromService(s))}
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => void handleDeleteService(s)}
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      ))}
+
+      <Modal
+        isOpen={serviceDraft !== null}
+        onClose={() => {
+          setServiceDraft(null);
+          setServiceError(null);
+        }}
+        className="max-w-[600px] m-4 p-6"
+      >
+        {serviceDraft ? (
+          <>
+            <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90">
+              {serviceDraft.id ? "Edit service" : "Add service"} ({serviceDraft.carrierId})
+            </h3>
+            {serviceError ? (
+              <div className="mt-3 rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
+                {serviceError}
+              </div>
+            ) : null}
+            <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div className="md:col-span-2">
+                <Label htmlFor="service-name">Name *</Label>
+                <Input
+                  id="service-name"
+                  value={serviceDraft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="service-max-weight">Max weight (lbs)</Label>
+                <Input
+                  id="service-max-weight"
+                  type="number"
+                  min="0"
+                  step={0.1}
+                  value={serviceDraft.maxWeightLbs}
+                  onChange={(e) => updateDraft({ maxWeightLbs: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="service-max-length">Max longest side (in)</Label>
+                <Input
+                  id="service-max-length"
+                  type="number"
+                  min="0"
+                  step={0.1}
+                  value={serviceDraft.maxLengthIn}
+                  onChange={(e) => updateDraft({ maxLengthIn: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="service-dim-divisor">Dimensional weight divisor</Label>
+                <Input
+                  id="service-dim-divisor"
+                  type="number"
+                  min="1"
+                  step={1}
+                  value={serviceDraft.dimDivisor}
+                  onChange={(e) => updateDraft({ dimDivisor: e.target.value })}
+                  hint="Billable weight is the greater of actual and L × W × H / divisor."
+                />
+              </div>
+              <div className="flex flex-wrap gap-4 text-sm text-gray-700 dark:text-gray-300 md:col-span-2">
+                <label className="inline-flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={serviceDraft.domestic}
+                    onChange={(e) => updateDraft({ domestic: e.target.checked })}
+                  />
+                  Domestic
+                </label>
+                <label className="inline-flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={serviceDraft.international}
+                    onChange={(e) => updateDraft({ international: e.target.checked })}
+                  />
+                  International
+                </label>
+                <label className="inline-flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={serviceDraft.active}
+                    onChange={(e) => updateDraft({ active: e.target.checked })}
+                  />
+                  Active
+                </label>
+              </div>
+              <div className="md:col-span-2">
+                <Label>
+                  Price tiers (zone 1–2 price up to and including the billable weight; farther
+                  zones are scaled up)
+                </Label>
+                <div className="space-y-2">
+                  {serviceDraft.tiers.map((t, i) => (
+                    <div key={i} className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        step={0.1}
+                        placeholder="Up to lbs"
+                        value={t.maxWeightLbs}
+                        onChange={(e) => updateTier(i, { maxWeightLbs: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        step={0.01}
+                        placeholder="Price USD"
+                        value={t.priceUsd}
+                        onChange={(e) => updateTier(i, { priceUsd: e.target.value })}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          updateDraft({
+                            tiers: serviceDraft.tiers.filter((_, j) => j !== i),
+                          })
+                        }
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      updateDraft({
+                        tiers: [...serviceDraft.tiers, { maxWeightLbs: "", priceUsd: "" }],
+                      })
+                    }
+                  >
+                    Add tier
+                  </Button>
+                </div>
+              </div>
+            </div>
+            <div className="mt-6 flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setServiceDraft(null)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={() => void handleSaveService()}
+                disabled={saving}
+              >
+                {saving ? "Saving…" : "Save service"}
+              </Button>
+            </div>
+          </>
+        ) : null}
+      </Modal>
+    </ComponentCard>
+  );
+}
@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import ComponentCard from "../common/ComponentCard";
+import Button from "../ui/button/Button";
+import Badge from "../ui/badge/Badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { authedFetch } from "../labels/api";
+
+type ReconciliationResult = "credited" | "skipped" | "mismatched";
+
+type ReconciledCharge = {
+  chargeId: string;
+  purpose: string;
+  userId: string | null;
+  orderId: string | null;
+  expectedUsd: number | null;
+  paidUsd: number | null;
+  ledgerDelta: number | null;
+  status: string;
+  result: ReconciliationResult;
+  detail: string | null;
+  eventCount: number;
+  updatedAt: string;
+};
+
+type Report = {
+  summary: Record<ReconciliationResult, number>;
+  charges: ReconciledCharge[];
+};
+
+const resultColor = (r: ReconciliationResult): "success" | "warning" | "error" =>
+  r === "credited" ? "success" : r === "skipped" ? "warning" : "error";
+
+const money = (v: number | null) => (v === null ? "—" : `$${v.toFixed(2)}`);
+
+// Admin card listing every Coinbase charge the webhook has seen and whether
+// it was credited once, skipped, or needs a look (amount or ledger mismatch).
+export default function CoinbaseReconciliation() {
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [onlyProblems, setOnlyProblems] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const resp = (await authedFetch("/api/admin/coinbase/reconciliation")) as Report;
+      setReport({
+        summary: resp?.summary ?? { credited: 0, skipped: 0, mismatched: 0 },
+        charges: Array.isArray(resp?.charges) ? resp.charges : [],
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load reconciliation.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const visible = useMemo(() => {
+    const charges = report?.charges ?? [];
+    return onlyProblems ? charges.filter((c) => c.result !== "credited") : charges;
+  }, [report, onlyProblems]);
+
+  return (
+    <ComponentCard
+      title="Coinbase reconciliation"
+      desc="Charges received from Coinbase webhooks. Each charge is credited at most once; skipped and mismatched charges need manual review."
+    >
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <Badge color="success">Credited {report?.summary.credited ?? 0}</Badge>
+          <Badge color="warning">Skipped {report?.summary.skipped ?? 0}</Badge>
+          <Badge color="error">Mismatched {report?.summary.mismatched ?? 0}</Badge>
+          <label className="ml-2 inline-flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={onlyProblems}
+              onChange={(e) => setOnlyProblems(e.target.checked)}
+            />
+            Only skipped / mismatched
+          </label>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => void refresh()} disabled={loading}>
+          {loading ? "Loading…" : "Refresh"}
+        </Button>
+      </div>
+
+      {error ? (
+        <div className="rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-white/[0.05] dark:bg-white/[0.03]">
+        <div className="max-w-full overflow-x-auto">
+          <Table>
+            <TableHeader className="border-b border-gray-100 dark:border-white/[0.05]">
+              <TableRow>
+                <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
+                  Charge
+                </TableCell>
+                <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
+                  For
+                </TableCell>
+                <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
+                  Expected / paid / credited
+                </TableCell>
+                <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
+                  Events
+                </TableCell>
+                <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
+                  Result
+                </TableCell>
+              </TableRow>
+            </TableHeader>
+            <TableBody className="divide-y divide-gray-100 dark:divide-white/[0.05]">
+              {visible.length === 0 ? (
+                <TableRow>
+                  <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400" colSpan={5}>
+                    {loading ? "Loading…" : "No charges."}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visible.map((c) => (
+                  <TableRow key={c.chargeId}>
+                    <TableCell className="px-5 py-4 text-sm text-gray-800 dark:text-white/90">
+                      <div className="font-mono text-xs">{c.chargeId}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {new Date(c.updatedAt).toLocaleString()}
+                      </div>
+                    </TableCell>
+                    <TableCell className="px-5 py-4 text-sm text-gray-700 dark:text-gray-300">
+                      {c.purpose === "topup"
+                        ? `Top-up • user ${c.userId ?? "—"}`
+                        : `Order ${c.orderId ?? "—"}`}
+                    </TableCell>
+                    <TableCell className="px-5 py-4 text-sm text-gray-700 dark:text-gray-300">
+                      {money(c.expectedUsd)} / {money(c.paidUsd)} /{" "}
+                      {c.purpose === "topup" ? money(c.ledgerDelta) : "—"}
+                    </TableCell>
+                    <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
+                      {c.eventCount}
+                    </TableCell>
+                    <TableCell className="px-5 py-4 text-sm">
+                      <Badge size="sm" color={resultColor(c.result)}>
+                        {c.result}
+                      </Badge>
+                      {c.detail ? (
+                        <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          {c.detail}
+                        </div>
+                      ) : null}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </ComponentCard>
+  );
+}
@@ -5,9 +5,11 @@ import Label from "../form/Label";
 import Input from "../form/input/InputField";
 import Checkbox from "../form/input/Checkbox";
 import Button from "../ui/button/Button";
+import { usePreferences } from "../../hooks/usePreferences";
 
 export default function SignInForm() {
   const navigate = useNavigate();
+  const { syncPreferences } = usePreferences();
   const [isChecked, setIsChecked] = useState(false);
   const [hash, setHash] = useState("");
   const [error, setError] = useState<string | null>(null);
@@ -72,6 +74,7 @@ export default function SignInForm() {
       localStorage.setItem("auth.token", token);
       if (user) localStorage.setItem("auth.user", JSON.stringify(user));
       localStorage.setItem("auth.keep", isChecked ? "1" : "0");
+      void syncPreferences();
 
       navigate("/");
     } catch (err) {
@@ -4,6 +4,7 @@ import { ChevronLeftIcon } from "../../icons";
 import Label from "../form/Label";
 import Input from "../form/input/InputField";
 import Button from "../ui/button/Button";
+import { usePreferences } from "../../hooks/usePreferences";
 
 // Generate a random hash (64 characters)
 function generateRandomHash(): string {
@@ -27,6 +28,7 @@ function generateRandomName(): string {
 
 export default function SignUpForm() {
   const navigate = useNavigate();
+  const { syncPreferences } = usePreferences();
   const [hash, setHash] = useState<string>("");
   const [telegramUsername, setTelegramUsername] = useState("");
   const [error, setError] = useState<string | null>(null);
@@ -124,6 +126,7 @@ export default function SignUpForm() {
       localStorage.setItem("auth.token", token);
       if (user) localStorage.setItem("auth.user", JSON.stringify(user));
       localStorage.setItem("auth.keep", "1");
+      void syncPreferences();
       
       // Store the hash in localStorage so user can access it later
       localStorage.setItem("auth.generatedHash", hash);
@@ -0,0 +1,43 @@
+import Button from "../ui/button/Button";
+import type { PriceMismatch, PriceDiffReason } from "./pricing";
+
+const REASON_TEXT: Record<PriceDiffReason, string> = {
+  price_changed: "Price changed",
+  product_unavailable: "No longer available",
+  unknown_service: "Service not offered",
+  service_unavailable: "Service cannot ship this parcel",
+  invalid_item: "Invalid item",
+};
+
+const money = (v: number | null) => (v === null ? "—" : `$${v.toFixed(2)}`);
+
+// Shown on the Cart page when checkout is refused because the server priced
+// the cart differently. Accepting updates changed lines and removes the rest.
+const PriceDiffNotice: React.FC<{
+  mismatch: PriceMismatch;
+  onAccept: () => void;
+  disabled?: boolean;
+}> = ({ mismatch, onAccept, disabled }) => (
+  <div className="rounded-lg border border-warning-500/30 bg-warning-500/10 px-4 py-3 text-sm text-warning-700 dark:text-warning-400">
+    <div className="font-medium">{mismatch.message}</div>
+    <ul className="mt-2 space-y-1">
+      {mismatch.diff.map((line, i) => (
+        <li key={line.itemId ?? i}>
+          {line.description}: {REASON_TEXT[line.reason] ?? line.reason}
+          {line.detail ? ` (${line.detail})` : ""}
+          {line.reason === "price_changed"
+            ? ` (${money(line.clientPriceUsd)} → ${money(line.serverPriceUsd)})`
+            : " — will be removed"}
+        </li>
+      ))}
+    </ul>
+    <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+      <span>New total: ${mismatch.totalUsd.toFixed(2)}</span>
+      <Button size="sm" variant="primary" onClick={onAccept} disabled={disabled}>
+        Update cart
+      </Button>
+    </div>
+  </div>
+);
+
+export default PriceDiffNotice;
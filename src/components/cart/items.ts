@@ -0,0 +1,34 @@
+import type { CartAddress, CartLabelItem } from "../../context/CartContext";
+import { migrateLabelData } from "../../../shared/labelSchema.js";
+
+// What a label is, without the cart-only fields.
+export type CartLabelFields = Omit<CartLabelItem, "id" | "createdAt" | "kind" | "priceUsd">;
+
+export const newCartItemId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `id_${Date.now()}_${Math.random().toString(16).slice(2)}`;
+
+// The label fields of saved label data (a past label's `labelData` or a cart
+// item), migrated to the current schema. Prices, quotes and the return link
+// are left behind: a copy is a new shipment.
+export const labelFieldsOf = (data: Record<string, unknown>): CartLabelFields => {
+  const d = migrateLabelData(data) as Partial<CartLabelItem>;
+  return {
+    schemaVersion: d.schemaVersion,
+    carrier: d.carrier ?? "",
+    service: d.service ?? "",
+    customs: d.customs ?? null,
+    pieces: d.pieces ?? [],
+    from: d.from as CartAddress,
+    to: d.to as CartAddress,
+  };
+};
+
+// A new, unpriced cart item shipping the same as `data`.
+export const copyLabelItem = (data: Record<string, unknown>): CartLabelItem => ({
+  id: newCartItemId(),
+  createdAt: new Date().toISOString(),
+  kind: "label",
+  ...labelFieldsOf(data),
+});
@@ -0,0 +1,133 @@
+import type { CartItem, CartLabelItem } from "../../context/CartContext";
+import type { RateBreakdown, ShipmentQuote } from "../labels/quote";
+
+export type PriceDiffReason =
+  | "price_changed"
+  | "product_unavailable"
+  | "unknown_service"
+  | "service_unavailable"
+  | "invalid_item";
+
+// One cart line the server refused to charge as submitted (see
+// priceCart in server/pricing.js).
+export type PriceDiffLine = {
+  itemId: string | null;
+  kind: string | null;
+  description: string;
+  clientPriceUsd: number | null;
+  serverPriceUsd: number | null;
+  reason: PriceDiffReason;
+  detail?: string;
+};
+
+export type PriceMismatch = {
+  message: string;
+  diff: PriceDiffLine[];
+  totalUsd: number;
+};
+
+// Extract the 409 CART_PRICE_MISMATCH payload from a checkout response body.
+export const readPriceMismatch = (data: unknown): PriceMismatch | null => {
+  if (!data || typeof data !== "object") return null;
+  const d = data as {
+    code?: unknown;
+    error?: unknown;
+    diff?: unknown;
+    totalUsd?: unknown;
+  };
+  if (d.code !== "CART_PRICE_MISMATCH" || !Array.isArray(d.diff)) return null;
+  return {
+    message: typeof d.error === "string" ? d.error : "Cart prices have changed.",
+    diff: d.diff as PriceDiffLine[],
+    totalUsd: typeof d.totalUsd === "number" ? d.totalUsd : 0,
+  };
+};
+
+// Apply a server diff to the cart: take the new price for changed lines and
+// drop lines the server cannot sell any more.
+export const applyPriceDiff = (items: CartItem[], diff: PriceDiffLine[]) => {
+  const byId = new Map(
+    diff.filter((d) => d.itemId).map((d) => [d.itemId as string, d]),
+  );
+  const next: CartItem[] = [];
+  for (const item of items) {
+    const line = byId.get(item.id);
+    if (!line) {
+      next.push(item);
+    } else if (line.reason === "price_changed" && line.serverPriceUsd !== null) {
+      next.push({ ...item, priceUsd: line.serverPriceUsd });
+    }
+  }
+  return next;
+};
+
+// Sum of the known line prices, or null while any line is still unpriced.
+export const cartTotalUsd = (items: CartItem[]) => {
+  let total = 0;
+  for (const item of items) {
+    if (typeof item.priceUsd !== "number") return null;
+    total += item.priceUsd;
+  }
+  return Number(total.toFixed(2));
+};
+
+export type CartQuote = {
+  totalUsd: number;
+  diff: PriceDiffLine[];
+  // Price and per-piece rate breakdown per label item id.
+  labelQuotes: Record<string, ShipmentQuote>;
+};
+
+// Price the cart on the server without paying (POST /api/cart/quote).
+export const fetchCartQuote = async (
+  items: CartItem[],
+  signal?: AbortSignal,
+): Promise<CartQuote> => {
+  const r = await fetch("/api/cart/quote", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ items }),
+    signal,
+  });
+  const data = (await r.json().catch(() => null)) as {
+    items?: {
+      id?: string;
+      kind?: string;
+      priceUsd?: number;
+      quote?: { pieces?: RateBreakdown[] };
+    }[];
+    totalUsd?: number;
+    diff?: PriceDiffLine[];
+    error?: string;
+  } | null;
+  if (!r.ok || !data || !Array.isArray(data.diff)) {
+    throw new Error(data?.error || `Failed to price the cart (HTTP ${r.status}).`);
+  }
+  const labelQuotes: Record<string, ShipmentQuote> = {};
+  for (const it of data.items ?? []) {
+    if (it.kind === "label" && it.id && typeof it.priceUsd === "number" && it.quote?.pieces) {
+      labelQuotes[it.id] = { priceUsd: it.priceUsd, pieces: it.quote.pieces };
+    }
+  }
+  return { totalUsd: data.totalUsd ?? 0, diff: data.diff, labelQuotes };
+};
+
+// Price label items on the server before they go in the cart. Items it
+// refuses come back in `refused` with the reason, keyed by item id.
+export const priceNewLabels = async (items: CartLabelItem[]) => {
+  const quote = await fetchCartQuote(items);
+  const accepted: CartLabelItem[] = [];
+  const refused: Record<string, string> = {};
+  for (const item of items) {
+    const line = quote.diff.find((d) => d.itemId === item.id);
+    const priceUsd = quote.labelQuotes[item.id]?.priceUsd ?? line?.serverPriceUsd;
+    if (line && line.reason !== "price_changed") {
+      refused[item.id] = line.detail || line.description;
+    } else if (typeof priceUsd === "number") {
+      accepted.push({ ...item, priceUsd });
+    } else {
+      refused[item.id] = "Could not be priced.";
+    }
+  }
+  return { accepted, refused };
+};
@@ -10,128 +10,206 @@ interface PhoneInputProps {
   placeholder?: string;
   onChange?: (phoneNumber: string) => void;
   selectPosition?: "start" | "end"; // New prop for dropdown position
+  id?: string;
+  value?: string; // Controlled number; the component keeps its own otherwise.
+  defaultCountry?: string;
+  error?: boolean;
+  hint?: string;
+  disabled?: boolean;
 }
 
+const dialDigits = (text: string) => text.replace(/[^\d+]/g, "");
+
+// The country whose dial code `phoneNumber` starts with, or null. The longest
+// code wins; among countries sharing it (US and CA share +1) the first of
+// `preferred` that has it, else the first in the list.
+const countryForNumber = (
+  countries: CountryCode[],
+  phoneNumber: string,
+  preferred: (string | null)[]
+): string | null => {
+  const number = dialDigits(phoneNumber);
+  const rank = (c: CountryCode) => {
+    const i = preferred.indexOf(c.code);
+    return i < 0 ? preferred.length : i;
+  };
+  let best: CountryCode | null = null;
+  for (const c of countries) {
+    const code = dialDigits(c.label);
+    if (!code || !number.startsWith(code)) continue;
+    const bestCode = best ? dialDigits(best.label) : "";
+    if (
+      !best ||
+      code.length > bestCode.length ||
+      (code.length === bestCode.length && rank(c) < rank(best))
+    ) {
+      best = c;
+    }
+  }
+  return best?.code ?? null;
+};
+
 const PhoneInput: React.FC<PhoneInputProps> = ({
   countries,
   placeholder = "+1 (555) 000-0000",
   onChange,
   selectPosition = "start", // Default position is 'start'
+  id,
+  value,
+  defaultCountry = "US",
+  error = false,
+  hint,
+  disabled = false,
 }) => {
-  const [selectedCountry, setSelectedCountry] = useState<string>("US");
-  const [phoneNumber, setPhoneNumber] = useState<string>("+1");
-
   const countryCodes: Record<string, string> = countries.reduce(
     (acc, { code, label }) => ({ ...acc, [code]: label }),
     {}
   );
 
+  // The country picked in the dropdown, if any. What the dropdown shows
+  // follows the number's dial code, so it stays right when `value` or
+  // `defaultCountry` change from outside; without a dial code it falls back
+  // to the picked country, then `defaultCountry`.
+  const [pickedCountry, setPickedCountry] = useState<string | null>(null);
+  const [ownPhoneNumber, setOwnPhoneNumber] = useState<string>(
+    countryCodes[defaultCountry] ?? "+1"
+  );
+  const phoneNumber = value ?? ownPhoneNumber;
+  const selectedCountry =
+    countryForNumber(countries, phoneNumber, [pickedCountry, defaultCountry]) ??
+    pickedCountry ??
+    defaultCountry;
+
+  // Swap the dial code in front of what has been typed so far.
   const handleCountryChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const newCountry = e.target.value;
-    setSelectedCountry(newCountry);
-    setPhoneNumber(countryCodes[newCountry]);
+    const oldCode = countryCodes[selectedCountry] ?? "";
+    const rest =
+      oldCode && phoneNumber.startsWith(oldCode)
+        ? phoneNumber.slice(oldCode.length)
+        : "";
+    const newPhoneNumber = `${countryCodes[newCountry]}${rest}`;
+    setPickedCountry(newCountry);
+    setOwnPhoneNumber(newPhoneNumber);
     if (onChange) {
-      onChange(countryCodes[newCountry]);
+      onChange(newPhoneNumber);
     }
   };
 
   const handlePhoneNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newPhoneNumber = e.target.value;
-    setPhoneNumber(newPhoneNumber);
+    setOwnPhoneNumber(newPhoneNumber);
     if (onChange) {
       onChange(newPhoneNumber);
     }
   };
 
   return (
-    <div className="relative flex">
-      {/* Dropdown position: Start */}
-      {selectPosition === "start" && (
-        <div className="absolute">
-          <select
-            value={selectedCountry}
-            onChange={handleCountryChange}
-            className="appearance-none bg-none rounded-l-lg border-0 border-r border-gray-200 bg-transparent py-3 pl-3.5 pr-8 leading-tight text-gray-700 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-800 dark:text-gray-400"
-          >
-            {countries.map((country) => (
-              <option
-                key={country.code}
-                value={country.code}
-                className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-              >
-                {country.code}
-              </option>
-            ))}
-          </select>
-          <div className="absolute inset-y-0 flex items-center text-gray-700 pointer-events-none bg-none right-3 dark:text-gray-400">
-            <svg
-              className="stroke-current"
-              width="20"
-              height="20"
-              viewBox="0 0 20 20"
-              fill="none"
-              xmlns="http://www.w3.org/2000/svg"
+    <div>
+      <div className="relative flex">
+        {/* Dropdown position: Start */}
+        {selectPosition === "start" && (
+          <div className="absolute">
+            <select
+              value={selectedCountry}
+              onChange={handleCountryChange}
+              disabled={disabled}
+              className="appearance-none bg-none rounded-l-lg border-0 border-r border-gray-200 bg-transparent py-3 pl-3.5 pr-8 leading-tight text-gray-700 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-800 dark:text-gray-400"
             >
-              <path
-                d="M4.79175 7.396L10.0001 12.6043L15.2084 7.396"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            </svg>
+              {countries.map((country) => (
+                <option
+                  key={country.code}
+                  value={country.code}
+                  className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
+                >
+                  {country.code}
+                </option>
+              ))}
+            </select>
+            <div className="absolute inset-y-0 flex items-center text-gray-700 pointer-events-none bg-none right-3 dark:text-gray-400">
+              <svg
+                className="stroke-current"
+                width="20"
+                height="20"
+                viewBox="0 0 20 20"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M4.79175 7.396L10.0001 12.6043L15.2084 7.396"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </div>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Input field */}
-      <input
-        type="tel"
-        value={phoneNumber}
-        onChange={handlePhoneNumberChange}
-        placeholder={placeholder}
-        className={`dark:bg-dark-900 h-11 w-full ${
-          selectPosition === "start" ? "pl-[84px]" : "pr-[84px]"
-        } rounded-lg border border-gray-300 bg-transparent py-3 px-4 text-sm text-gray-800 shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800`}
-      />
+        {/* Input field */}
+        <input
+          type="tel"
+          id={id}
+          value={phoneNumber}
+          onChange={handlePhoneNumberChange}
+          placeholder={placeholder}
+          disabled={disabled}
+          className={`dark:bg-dark-900 h-11 w-full ${
+            selectPosition === "start" ? "pl-[84px]" : "pr-[84px]"
+          } rounded-lg border ${
+            error ? "border-error-500" : "border-gray-300"
+          } bg-transparent py-3 px-4 text-sm text-gray-800 shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800`}
+        />
 
-      {/* Dropdown position: End */}
-      {selectPosition === "end" && (
-        <div className="absolute right-0">
-          <select
-            value={selectedCountry}
-            onChange={handleCountryChange}
-            className="appearance-none bg-none rounded-r-lg border-0 border-l border-gray-200 bg-transparent py-3 pl-3.5 pr-8 leading-tight text-gray-700 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-800 dark:text-gray-400"
-          >
-            {countries.map((country) => (
-              <option
-                key={country.code}
-                value={country.code}
-                className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
-              >
-                {country.code}
-              </option>
-            ))}
-          </select>
-          <div className="absolute inset-y-0 flex items-center text-gray-700 pointer-events-none right-3 dark:text-gray-400">
-            <svg
-              className="stroke-current"
-              width="20"
-              height="20"
-              viewBox="0 0 20 20"
-              fill="none"
-              xmlns="http://www.w3.org/2000/svg"
+        {/* Dropdown position: End */}
+        {selectPosition === "end" && (
+          <div className="absolute right-0">
+            <select
+              value={selectedCountry}
+              onChange={handleCountryChange}
+              disabled={disabled}
+              className="appearance-none bg-none rounded-r-lg border-0 border-l border-gray-200 bg-transparent py-3 pl-3.5 pr-8 leading-tight text-gray-700 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-800 dark:text-gray-400"
             >
-              <path
-                d="M4.79175 7.396L10.0001 12.6043L15.2084 7.396"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            </svg>
+              {countries.map((country) => (
+                <option
+                  key={country.code}
+                  value={country.code}
+                  className="text-gray-700 dark:bg-gray-900 dark:text-gray-400"
+                >
+                  {country.code}
+                </option>
+              ))}
+            </select>
+            <div className="absolute inset-y-0 flex items-center text-gray-700 pointer-events-none right-3 dark:text-gray-400">
+              <svg
+                className="stroke-current"
+                width="20"
+                height="20"
+                viewBox="0 0 20 20"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M4.79175 7.396L10.0001 12.6043L15.2084 7.396"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </div>
           </div>
-        </div>
+        )}
+      </div>
+      {hint && (
+        <p
+          className={`mt-1.5 text-xs ${
+            error ? "text-error-500" : "text-gray-500"
+          }`}
+        >
+          {hint}
+        </p>
       )}
     </div>
   );
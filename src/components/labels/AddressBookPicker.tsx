@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Link } from "react-router";
+import Input from "../form/input/InputField";
+import { Dropdown } from "../ui/dropdown/Dropdown";
+import { toCartAddress, type SavedAddress } from "./addressBook";
+import type { CartAddress } from "../../context/CartContext";
+
+const matches = (a: SavedAddress, q: string) =>
+  [a.label, a.name, a.company, a.address1, a.city, a.zip].some((v) =>
+    v.toLowerCase().includes(q),
+  );
+
+// Search field over the saved addresses; picking one fills the address
+// fields it sits above.
+const AddressBookPicker: React.FC<{
+  id: string;
+  addresses: SavedAddress[];
+  onPick: (address: CartAddress) => void;
+}> = ({ id, addresses, onPick }) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const q = query.trim().toLowerCase();
+  const results = (q ? addresses.filter((a) => matches(a, q)) : addresses).slice(0, 20);
+
+  if (addresses.length === 0) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Save addresses in your{" "}
+        <Link to="/address-book" className="text-brand-500 hover:text-brand-600">
+          address book
+        </Link>{" "}
+        to fill them in here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="relative" onFocus={() => setOpen(true)}>
+      <Input
+        id={id}
+        className="dropdown-toggle"
+        placeholder="Search your address book"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+      />
+      <Dropdown
+        isOpen={open}
+        onClose={() => setOpen(false)}
+        className="left-0 mt-1 max-h-72 w-full overflow-y-auto py-1"
+      >
+        {results.length === 0 ? (
+          <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+            No saved address matches.
+          </p>
+        ) : (
+          results.map((a) => (
+            <button
+              key={a.id}
+              type="button"
+              onClick={() => {
+                onPick(toCartAddress(a));
+                setQuery("");
+                setOpen(false);
+              }}
+              className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-white/5"
+            >
+              <span className="font-medium">{a.label}</span>
+              {a.isDefaultSender ? " (default sender)" : ""}
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                {[a.name, a.company, a.address1, a.city, a.zip, a.country]
+                  .filter(Boolean)
+                  .join(", ")}
+              </span>
+            </button>
+          ))
+        )}
+      </Dropdown>
+    </div>
+  );
+};
+
+export default AddressBookPicker;
@@ -0,0 +1,209 @@
+import Label from "../form/Label";
+import Input from "../form/input/InputField";
+import PhoneInput from "../form/group-input/PhoneInput";
+import {
+  COUNTRY_OPTIONS,
+  addressRulesFor,
+  dialCodeFor,
+  resolveState,
+} from "../../constants/countries";
+import type { CartAddress } from "../../context/CartContext";
+
+const DIAL_CODE_OPTIONS = COUNTRY_OPTIONS.map((c) => ({
+  code: c.value,
+  label: dialCodeFor(c.value),
+}));
+
+interface AddressFieldsProps {
+  idPrefix: string;
+  value: CartAddress;
+  onChange: (next: CartAddress) => void;
+  errors?: Partial<Record<keyof CartAddress, string>>;
+  disabled?: boolean;
+}
+
+const AddressFields: React.FC<AddressFieldsProps> = ({
+  idPrefix,
+  value,
+  onChange,
+  errors = {},
+  disabled = false,
+}) => {
+  const set = (field: keyof CartAddress, v: string) =>
+    onChange({ ...value, [field]: v });
+  const rules = addressRulesFor(value.country);
+
+  // Keep the state when it is still valid in the new country.
+  const setCountry = (country: string) => {
+    const next = addressRulesFor(country);
+    const state = next.state.options
+      ? resolveState(country, value.state) ?? ""
+      : value.state;
+    onChange({ ...value, country, state });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-name`}>Full name *</Label>
+        <Input
+          id={`${idPrefix}-name`}
+          placeholder="Jane Doe"
+          value={value.name}
+          onChange={(e) => set("name", e.target.value)}
+          error={Boolean(errors.name)}
+          hint={errors.name}
+          disabled={disabled}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-company`}>Company</Label>
+        <Input
+          id={`${idPrefix}-company`}
+          value={value.company}
+          onChange={(e) => set("company", e.target.value)}
+          error={Boolean(errors.company)}
+          hint={errors.company}
+          disabled={disabled}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-address1`}>Address *</Label>
+        <Input
+          id={`${idPrefix}-address1`}
+          placeholder="123 Main St"
+          value={value.address1}
+          onChange={(e) => set("address1", e.target.value)}
+          error={Boolean(errors.address1)}
+          hint={errors.address1}
+          disabled={disabled}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-address2`}>Address line 2</Label>
+        <Input
+          id={`${idPrefix}-address2`}
+          placeholder="Apartment, suite, unit, floor"
+          value={value.address2}
+          onChange={(e) => set("address2", e.target.value)}
+          error={Boolean(errors.address2)}
+          hint={errors.address2}
+          disabled={disabled}
+        />
+      </div>
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor={`${idPrefix}-city`}>City *</Label>
+          <Input
+            id={`${idPrefix}-city`}
+            placeholder="Springfield"
+            value={value.city}
+            onChange={(e) => set("city", e.target.value)}
+            error={Boolean(errors.city)}
+            hint={errors.city}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-state`}>
+            {rules.state.label}
+            {rules.state.required ? " *" : ""}
+          </Label>
+          {rules.state.options ? (
+            <>
+              <select
+                id={`${idPrefix}-state`}
+                value={resolveState(value.country, value.state) ?? ""}
+                onChange={(e) => set("state", e.target.value)}
+                disabled={disabled}
+                className="h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 pr-11 text-sm shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800"
+              >
+                <option value="">Select</option>
+                {rules.state.options.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              {errors.state ? (
+                <p className="mt-1.5 text-xs text-error-500">{errors.state}</p>
+              ) : null}
+            </>
+          ) : (
+            <Input
+              id={`${idPrefix}-state`}
+              value={value.state}
+              onChange={(e) => set("state", e.target.value)}
+              error={Boolean(errors.state)}
+              hint={errors.state}
+              disabled={disabled}
+            />
+          )}
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-zip`}>
+            {rules.postalCode.label}
+            {rules.postalCode.required ? " *" : ""}
+          </Label>
+          <Input
+            id={`${idPrefix}-zip`}
+            placeholder={rules.postalCode.example ?? ""}
+            value={value.zip}
+            onChange={(e) => set("zip", e.target.value)}
+            error={Boolean(errors.zip)}
+            hint={errors.zip}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-country`}>Country *</Label>
+          <select
+            id={`${idPrefix}-country`}
+            value={value.country}
+            onChange={(e) => setCountry(e.target.value)}
+            disabled={disabled}
+            className="h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 pr-11 text-sm shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800"
+          >
+            {COUNTRY_OPTIONS.map((c) => (
+              <option key={c.value} value={c.value}>
+                {c.label}
+              </option>
+            ))}
+          </select>
+          {errors.country ? (
+            <p className="mt-1.5 text-xs text-error-500">{errors.country}</p>
+          ) : null}
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-phone`}>Phone</Label>
+          <PhoneInput
+            id={`${idPrefix}-phone`}
+            countries={DIAL_CODE_OPTIONS}
+            defaultCountry={value.country}
+            placeholder={`${dialCodeFor(value.country) || "+1"} 555 010 0000`}
+            value={value.phone}
+            onChange={(v) => set("phone", v)}
+            error={Boolean(errors.phone)}
+            hint={errors.phone ?? "Carriers may call about delivery or customs."}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-email`}>Email</Label>
+          <Input
+            id={`${idPrefix}-email`}
+            type="email"
+            placeholder="jane@example.com"
+            value={value.email}
+            onChange={(e) => set("email", e.target.value)}
+            error={Boolean(errors.email)}
+            hint={errors.email}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AddressFields;
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import Input from "../form/input/InputField";
+import { Dropdown } from "../ui/dropdown/Dropdown";
+import { searchHsCodes, type HsCodeEntry, type HsCodeMatch } from "./hsCodes";
+
+// HS code field with autocomplete: typing a code prefix or a description
+// (e.g. "cotton t-shirts") lists matching entries from the bundled
+// nomenclature, and picking one fills in its code. A code the bundled data
+// cannot check down to its subheading is accepted, with a note saying so.
+const HsCodeInput: React.FC<{
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  // The entry for the current code, when it has been looked up.
+  match?: HsCodeMatch | null;
+  error?: string;
+}> = ({ id, value, onChange, match, error }) => {
+  const [open, setOpen] = useState(false);
+  const [results, setResults] = useState<HsCodeEntry[]>([]);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const query = value.trim();
+
+  useEffect(() => {
+    setResults([]);
+    setSearchError(null);
+    if (!open || query.length < 2) return;
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      searchHsCodes(query, controller.signal)
+        .then(setResults)
+        .catch((e) => {
+          if (controller.signal.aborted) return;
+          setSearchError(e instanceof Error ? e.message : "Search failed.");
+        });
+    }, 250);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [open, query]);
+
+  // Picking a chapter or heading drills down: the list then shows the
+  // entries under it, since a customs line needs at least six digits.
+  const pick = (entry: HsCodeEntry) => {
+    onChange(entry.code);
+    setOpen(entry.level !== "subheading");
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        className="dropdown-toggle"
+        placeholder="610910 or cotton t-shirts"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        error={Boolean(error)}
+        hint={
+          error ??
+          (match
+            ? match.verified
+              ? match.description
+              : `${match.description}. Only the ${match.level} could be checked.`
+            : undefined)
+        }
+      />
+      <Dropdown
+        isOpen={open && (results.length > 0 || Boolean(searchError))}
+        onClose={() => setOpen(false)}
+        className="left-0 mt-1 max-h-72 w-full overflow-y-auto py-1"
+      >
+        {searchError ? (
+          <p className="px-4 py-2 text-xs text-error-500">{searchError}</p>
+        ) : (
+          results.map((entry) => (
+            <button
+              key={entry.code}
+              type="button"
+              onClick={() => pick(entry)}
+              className="block w-full px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-white/5"
+            >
+              <span className="font-medium">{entry.code}</span> {entry.description}
+              {entry.parent ? (
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  {entry.parent}
+                </span>
+              ) : null}
+            </button>
+          ))
+        )}
+      </Dropdown>
+    </div>
+  );
+};
+
+export default HsCodeInput;
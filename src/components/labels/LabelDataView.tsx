@@ -0,0 +1,140 @@
+import { COUNTRY_OPTIONS } from "../../constants/countries";
+import { usePreferences } from "../../hooks/usePreferences";
+import {
+  customsFormType,
+  customsTotals,
+  migrateLabelData,
+  type LabelCustoms,
+} from "../../../shared/labelSchema.js";
+import { contactLine } from "./contact";
+import { CONTENTS_TYPE_LABELS, describeCustomsLine } from "./customs";
+import {
+  formatDimensions,
+  formatWeight,
+  fromLbs,
+  weightUnit,
+  type ParcelLike,
+} from "./units";
+
+type AddressLike = {
+  name?: string;
+  company?: string;
+  address1?: string;
+  address2?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  country?: string;
+  phone?: string;
+  email?: string;
+};
+
+type LabelDataLike = {
+  carrier?: string;
+  service?: string;
+  from?: AddressLike;
+  to?: AddressLike;
+  customs?: LabelCustoms | null;
+  pieces?: ParcelLike[];
+};
+
+const countryLabel = (code?: string) =>
+  code ? COUNTRY_OPTIONS.find((c) => c.value === code)?.label ?? code : "—";
+
+const AddressBlock: React.FC<{ title: string; address?: AddressLike }> = ({
+  title,
+  address,
+}) => (
+  <div>
+    <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+      {title}
+    </div>
+    {address ? (
+      <>
+        <div>{address.name || "—"}</div>
+        {address.company ? <div>{address.company}</div> : null}
+        <div>{address.address1 || "—"}</div>
+        {address.address2 ? <div>{address.address2}</div> : null}
+        <div>
+          {[address.city, address.state].filter(Boolean).join(", ")}{" "}
+          {address.zip ?? ""}
+        </div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {countryLabel(address.country)}
+        </div>
+        {contactLine(address) ? (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {contactLine(address)}
+          </div>
+        ) : null}
+      </>
+    ) : (
+      <div>—</div>
+    )}
+  </div>
+);
+
+// Read-only rendering of a label's `labelData` (the CartLabelItem that was
+// submitted). Fields are optional because older rows were stored unchecked;
+// rows from older schema versions are migrated before rendering.
+const LabelDataView: React.FC<{ labelData: Record<string, unknown> }> = ({
+  labelData,
+}) => {
+  const d = migrateLabelData(labelData) as LabelDataLike;
+  const { units } = usePreferences().preferences;
+  const customs = d.customs && Array.isArray(d.customs.lines) ? d.customs : null;
+  const pieces = Array.isArray(d.pieces) ? d.pieces : [];
+  const totals = customs ? customsTotals(customs) : null;
+
+  return (
+    <div className="grid grid-cols-1 gap-4 text-sm text-gray-700 dark:text-gray-300 md:grid-cols-2">
+      <div>
+        <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+          Carrier
+        </div>
+        <div>{d.carrier ? String(d.carrier).toUpperCase() : "—"}</div>
+      </div>
+      <div>
+        <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+          Service
+        </div>
+        <div>{d.service || "—"}</div>
+      </div>
+      <AddressBlock title="From" address={d.from} />
+      <AddressBlock title="To" address={d.to} />
+      <div className="md:col-span-2">
+        <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+          {pieces.length > 1 ? `Packages (${pieces.length})` : "Parcel"}
+        </div>
+        {pieces.length === 0 ? <div>—</div> : null}
+        {pieces.map((p, i) => (
+          <div key={i}>
+            {pieces.length > 1 ? `${i + 1}. ` : ""}
+            {formatWeight(p, units)}
+            {p.dimensionsIn ? ` • ${formatDimensions(p, units)}` : ""}
+          </div>
+        ))}
+      </div>
+      {customs && totals && customs.lines.length > 0 ? (
+        <div className="md:col-span-2">
+          <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+            Customs
+          </div>
+          <div>
+            {customsFormType(d)} •{" "}
+            {CONTENTS_TYPE_LABELS[customs.contentsType] ?? customs.contentsType} •{" "}
+            {totals.quantity} item(s) • ${totals.valueUsd.toFixed(2)} •{" "}
+            {fromLbs(totals.weightLbs, units)} {weightUnit(units)}
+          </div>
+          {customs.lines.map((line, i) => (
+            <div key={i} className="text-xs text-gray-500 dark:text-gray-400">
+              {describeCustomsLine(line)}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default LabelDataView;
@@ -0,0 +1,52 @@
+import { usePreferences } from "../../hooks/usePreferences";
+import {
+  LABEL_FORMAT_OPTIONS,
+  LABEL_LAYOUT_OPTIONS,
+  type LabelFormat,
+  type LabelLayout,
+} from "./api";
+
+const selectClass =
+  "h-11 appearance-none rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 pr-11 text-sm shadow-theme-xs focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:focus:border-brand-800";
+
+// Picks the format label documents download in and, for PDFs, the paper. The
+// choice is saved as the user's preference, so every download button follows
+// it.
+const LabelFormatSelect: React.FC<{ id?: string }> = ({ id = "label-format" }) => {
+  const { preferences, setPreference } = usePreferences();
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label htmlFor={id} className="text-sm text-gray-500 dark:text-gray-400">
+        Format
+      </label>
+      <select
+        id={id}
+        value={preferences.labelFormat}
+        onChange={(e) => setPreference("labelFormat", e.target.value as LabelFormat)}
+        className={selectClass}
+      >
+        {LABEL_FORMAT_OPTIONS.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+      {preferences.labelFormat === "pdf" ? (
+        <select
+          aria-label="Paper"
+          value={preferences.labelLayout}
+          onChange={(e) => setPreference("labelLayout", e.target.value as LabelLayout)}
+          className={selectClass}
+        >
+          {LABEL_LAYOUT_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+      ) : null}
+    </div>
+  );
+};
+
+export default LabelFormatSelect;
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import Button from "../ui/button/Button";
+import { saveAddress, sameAddress, toCartAddress, useAddressBook } from "./addressBook";
+import type { CartAddress } from "../../context/CartContext";
+import { migrateLabelData, validateAddress } from "../../../shared/labelSchema.js";
+
+const ROLES = [
+  { key: "from", title: "sender" },
+  { key: "to", title: "recipient" },
+] as const;
+
+// Offers to save a label's from/to addresses that are not in the address
+// book yet. Renders nothing once both are saved.
+const SaveLabelAddresses: React.FC<{ labelData: Record<string, unknown> }> = ({
+  labelData,
+}) => {
+  const { addresses, loading, reload } = useAddressBook();
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const d = migrateLabelData(labelData);
+  const unsaved = ROLES.flatMap(({ key, title }) => {
+    const raw = d[key];
+    if (!raw || typeof raw !== "object") return [];
+    const address = toCartAddress(raw as CartAddress);
+    if (Object.keys(validateAddress(address)).length > 0) return [];
+    if (addresses.some((a) => sameAddress(a, address))) return [];
+    return [{ key, title, address }];
+  });
+
+  if (loading || unsaved.length === 0) return null;
+
+  const handleSave = async (key: string, address: CartAddress) => {
+    setError(null);
+    setSaving(key);
+    try {
+      await saveAddress({ ...address, label: address.name, isDefaultSender: false });
+      await reload();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save the address.");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 px-4 py-3 text-sm text-gray-700 dark:border-gray-800 dark:text-gray-300">
+      <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+        Address book
+      </div>
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        {unsaved.map(({ key, title, address }) => (
+          <Button
+            key={key}
+            variant="outline"
+            size="sm"
+            onClick={() => void handleSave(key, address)}
+            disabled={saving !== null}
+          >
+            {saving === key ? "Saving…" : `Save ${title} (${address.name})`}
+          </Button>
+        ))}
+      </div>
+      {error ? <p className="mt-2 text-xs text-error-500">{error}</p> : null}
+    </div>
+  );
+};
+
+export default SaveLabelAddresses;
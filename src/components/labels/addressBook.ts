@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useState } from "react";
+import { authedFetch } from "./api";
+import type { CartAddress } from "../../context/CartContext";
+
+// An entry of the user's address book (server/db.js `address_book`).
+export type SavedAddress = CartAddress & {
+  id: string;
+  label: string;
+  isDefaultSender: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AddressBookInput = CartAddress & {
+  label: string;
+  isDefaultSender: boolean;
+};
+
+// A from/to address of one of the user's labels that is not saved yet.
+export type AddressSuggestion = CartAddress & {
+  role: "from" | "to";
+  labelId: string;
+};
+
+export const toCartAddress = (a: CartAddress): CartAddress => ({
+  name: a.name,
+  company: a.company ?? "",
+  address1: a.address1,
+  address2: a.address2 ?? "",
+  city: a.city,
+  state: a.state,
+  zip: a.zip,
+  country: a.country,
+  phone: a.phone ?? "",
+  email: a.email ?? "",
+});
+
+// Same matching as the server's suggestions: name, street, postal code and
+// country, ignoring case and surrounding spaces.
+export const sameAddress = (a: CartAddress, b: CartAddress) =>
+  (["name", "address1", "zip", "country"] as const).every(
+    (field) =>
+      String(a[field] ?? "").trim().toLowerCase() ===
+      String(b[field] ?? "").trim().toLowerCase(),
+  );
+
+export const fetchAddressBook = async (q = "", signal?: AbortSignal) => {
+  const resp = (await authedFetch(
+    `/api/addresses${q.trim() ? `?q=${encodeURIComponent(q.trim())}` : ""}`,
+    { signal },
+  )) as { addresses?: SavedAddress[] };
+  return Array.isArray(resp?.addresses) ? resp.addresses : [];
+};
+
+export const fetchAddressSuggestions = async () => {
+  const resp = (await authedFetch("/api/addresses/suggestions")) as {
+    suggestions?: AddressSuggestion[];
+  };
+  return Array.isArray(resp?.suggestions) ? resp.suggestions : [];
+};
+
+// POST /api/addresses, or PUT /api/addresses/:id when `id` is given.
+export const saveAddress = async (input: AddressBookInput, id?: string) => {
+  const resp = (await authedFetch(
+    id ? `/api/addresses/${encodeURIComponent(id)}` : "/api/addresses",
+    {
+      method: id ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    },
+  )) as { address: SavedAddress };
+  return resp.address;
+};
+
+export const deleteAddress = async (id: string) => {
+  await authedFetch(`/api/addresses/${encodeURIComponent(id)}`, { method: "DELETE" });
+};
+
+// The whole address book, loaded once on mount.
+export const useAddressBook = () => {
+  const [addresses, setAddresses] = useState<SavedAddress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setError(null);
+    try {
+      setAddresses(await fetchAddressBook());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load the address book.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  return { addresses, loading, error, reload };
+};
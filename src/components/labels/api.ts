@@ -0,0 +1,220 @@
+import type { UnitSystem } from "./units";
+import type { SheetLayout } from "../../../shared/labelSheets.js";
+import { migrateLabelData } from "../../../shared/labelSchema.js";
+
+export type LabelStatus = "pending" | "done" | "cancelled";
+
+// `piece` is the 1-based package a file is the label of; shared documents
+// have none. `generatedAt` is set on labels the server rendered itself.
+export type LabelFile = {
+  filename: string;
+  originalName?: string;
+  piece?: number;
+  generatedAt?: string;
+};
+
+// Download formats of GET /api/labels/:id/download: the documents as stored,
+// or converted for thermal printers (ZPL) or as images.
+export type LabelFormat = "pdf" | "zpl" | "png";
+
+export const LABEL_FORMAT_OPTIONS: { value: LabelFormat; label: string }[] = [
+  { value: "pdf", label: "PDF (as issued)" },
+  { value: "zpl", label: "ZPL (Zebra printers)" },
+  { value: "png", label: "PNG image" },
+];
+
+// Paper for PDF downloads: 4×6 pages as issued, or 2-up sheets.
+export type LabelLayout = "none" | SheetLayout;
+
+export const LABEL_LAYOUT_OPTIONS: { value: LabelLayout; label: string }[] = [
+  { value: "none", label: "4×6 pages" },
+  { value: "letter", label: "2 per Letter sheet" },
+  { value: "a4", label: "2 per A4 sheet" },
+];
+
+export type UserLabel = {
+  id: string;
+  userId: string;
+  status: LabelStatus;
+  declineReason?: string | null;
+  orderId?: string | null;
+  labelData: Record<string, unknown>;
+  files: LabelFile[];
+  returnIds?: string[]; // GET /api/labels/:id only: its return labels
+  createdAt: string;
+  updatedAt: string;
+};
+
+type LabelLike = { id: string; labelData: Record<string, unknown> };
+
+// The id of the label a return label sends back, or null for other labels.
+export const returnOfLabelId = (l: Pick<LabelLike, "labelData">) =>
+  typeof l.labelData?.returnOfLabelId === "string" ? l.labelData.returnOfLabelId : null;
+
+// Whether the download of a completed label includes a commercial invoice
+// and packing slip, which the server renders for labels with customs lines.
+export const hasPaperwork = (l: Pick<LabelLike, "labelData">) => {
+  const customs = migrateLabelData(l.labelData).customs as { lines?: unknown[] } | null | undefined;
+  return Array.isArray(customs?.lines) && customs.lines.length > 0;
+};
+
+// How many files downloading a completed label gives (several come zipped).
+// Sheet layouts put all its PDFs on one; PNGs of multi-page documents are not
+// counted separately.
+export const downloadFileCount = (
+  l: Pick<UserLabel, "files" | "labelData">,
+  format: LabelFormat,
+  layout: LabelLayout,
+) => {
+  const pdfs = l.files.filter((f) => /\.pdf$/i.test(f.originalName || f.filename)).length;
+  const stored =
+    format === "pdf" && layout !== "none" && pdfs > 0 ? l.files.length - pdfs + 1 : l.files.length;
+  return stored + (hasPaperwork(l) ? 2 : 0);
+};
+
+// Ids of the labels in `labels` that are returns of label `id`.
+export const returnLabelIds = (labels: LabelLike[], id: string) =>
+  labels.filter((l) => returnOfLabelId(l) === id).map((l) => l.id);
+
+export const statusColor = (
+  status: LabelStatus,
+): "success" | "error" | "warning" =>
+  status === "done" ? "success" : status === "cancelled" ? "error" : "warning";
+
+export const labelSummary = (l: Pick<UserLabel, "labelData">) => {
+  const d = migrateLabelData(l.labelData) as {
+    carrier?: string;
+    service?: string;
+    to?: { name?: string; company?: string; country?: string };
+    pieces?: unknown[];
+  };
+  const carrier = d?.carrier ? String(d.carrier).toUpperCase() : "—";
+  const service = d?.service ?? "—";
+  const to = d?.to?.name
+    ? `${d.to.name}${d.to.company ? ` (${d.to.company})` : ""}`
+    : "—";
+  const pieces = Array.isArray(d?.pieces) && d.pieces.length > 1 ? ` • ${d.pieces.length} packages` : "";
+  return `${carrier} • ${service} • to ${to}${pieces}`;
+};
+
+export const getToken = () => localStorage.getItem("auth.token") || "";
+
+// Fetch JSON from the API with the stored bearer token. Throws the server's
+// `error` message (or a generic one) on non-2xx responses.
+export const authedFetch = async (url: string, init?: RequestInit) => {
+  const r = await fetch(url, {
+    ...init,
+    headers: {
+      ...(init?.headers || {}),
+      Authorization: `Bearer ${getToken()}`,
+    },
+  });
+  const raw = await r.text();
+  let data: unknown = null;
+  try {
+    data = raw ? JSON.parse(raw) : null;
+  } catch {
+    data = null;
+  }
+  if (!r.ok) {
+    const msg =
+      data && typeof data === "object" && "error" in data
+        ? String((data as { error?: unknown }).error)
+        : raw || `Request failed (HTTP ${r.status}).`;
+    throw new Error(msg);
+  }
+  return data;
+};
+
+const filenameFromDisposition = (header: string | null) => {
+  if (!header) return null;
+  const star = header.match(/filename\*=UTF-8''([^;]+)/i);
+  if (star) {
+    try {
+      return decodeURIComponent(star[1]);
+    } catch {
+      /* fall through */
+    }
+  }
+  const plain = header.match(/filename="?([^";]+)"?/i);
+  return plain ? plain[1] : null;
+};
+
+// Download a file from an authenticated endpoint and save it through a
+// temporary object URL, using the server's Content-Disposition filename.
+export const downloadAuthed = async (
+  url: string,
+  fallbackName: string,
+  init?: RequestInit,
+) => {
+  const r = await fetch(url, {
+    ...init,
+    headers: { ...init?.headers, Authorization: `Bearer ${getToken()}` },
+  });
+  if (!r.ok) {
+    const raw = await r.text();
+    let msg = `Download failed (HTTP ${r.status}).`;
+    try {
+      const data = raw ? JSON.parse(raw) : null;
+      if (data && typeof data === "object" && "error" in data) {
+        msg = String((data as { error?: unknown }).error);
+      }
+    } catch {
+      /* keep generic message */
+    }
+    throw new Error(msg);
+  }
+  const blob = await r.blob();
+  const name =
+    filenameFromDisposition(r.headers.get("Content-Disposition")) || fallbackName;
+  const objectUrl = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = objectUrl;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(objectUrl);
+};
+
+export const fetchLabel = async (id: string) => {
+  const resp = (await authedFetch(`/api/labels/${encodeURIComponent(id)}`)) as {
+    label?: UserLabel;
+  };
+  return resp?.label ?? null;
+};
+
+// The layout only applies to PDFs.
+export const downloadLabelDocuments = (
+  id: string,
+  format: LabelFormat = "pdf",
+  layout: LabelLayout = "none",
+) =>
+  downloadAuthed(
+    `/api/labels/${encodeURIComponent(id)}/download?format=${format}${
+      format === "pdf" && layout !== "none" ? `&layout=${layout}` : ""
+    }`,
+    `label-${id}`,
+  );
+
+// Several completed labels in the order of `ids`: one merged PDF (laid out
+// on `layout` paper) or a ZIP with a folder per label.
+export const downloadLabelBatch = (
+  ids: string[],
+  as: "pdf" | "zip",
+  layout: LabelLayout = "none",
+) =>
+  downloadAuthed("/api/labels/download", `labels-${ids.length}.${as}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      ids,
+      as,
+      ...(as === "pdf" && layout !== "none" ? { layout } : {}),
+    }),
+  });
+
+// Plain-text summary of the label with weights in `units`.
+export const downloadLabelDetails = (id: string, units: UnitSystem) =>
+  downloadAuthed(
+    `/api/labels/${encodeURIComponent(id)}/details?units=${units}`,
+    `label-${id}.txt`,
+  );
@@ -0,0 +1,51 @@
+export type PriceTier = { maxWeightLbs: number; priceUsd: number };
+
+export type CarrierService = {
+  id: string;
+  carrierId: string;
+  name: string;
+  domestic: boolean;
+  international: boolean;
+  maxWeightLbs: number | null;
+  maxLengthIn: number | null;
+  dimDivisor: number;
+  priceTiers: PriceTier[];
+  active: boolean;
+  sortOrder: number;
+};
+
+export type Carrier = {
+  id: string;
+  name: string;
+  active: boolean;
+  sortOrder: number;
+  services: CarrierService[];
+};
+
+// Active carriers and services from the server catalog (GET /api/carriers).
+export const fetchCarrierCatalog = async (): Promise<Carrier[]> => {
+  const r = await fetch("/api/carriers");
+  const data = (await r.json().catch(() => null)) as {
+    carriers?: Carrier[];
+    error?: string;
+  } | null;
+  if (!r.ok || !data || !Array.isArray(data.carriers)) {
+    throw new Error(data?.error || `Failed to load carriers (HTTP ${r.status}).`);
+  }
+  return data.carriers;
+};
+
+export const findService = (
+  catalog: Carrier[],
+  carrierId: string,
+  serviceName: string,
+) =>
+  catalog
+    .find((c) => c.id === carrierId)
+    ?.services.find((s) => s.name === serviceName) ?? null;
+
+// Lowest price the service charges, for "from $x" hints before the weight is known.
+export const startingPriceUsd = (service: CarrierService) =>
+  service.priceTiers.length > 0
+    ? Math.min(...service.priceTiers.map((t) => t.priceUsd))
+    : null;
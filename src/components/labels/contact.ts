@@ -0,0 +1,10 @@
+type ContactLike = { phone?: string; email?: string };
+
+// "+1 555 010 0000 • jane@example.com", or "" when neither is set.
+export const contactLine = (a: ContactLike | undefined) =>
+  [a?.phone, a?.email].filter(Boolean).join(" • ");
+
+// A phone field holding only the dial code picked in PhoneInput ("+44")
+// counts as empty.
+export const cleanPhone = (phone: string) =>
+  /^\+?\d{0,4}$/.test(phone.trim()) ? "" : phone.trim();
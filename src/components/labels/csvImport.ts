@@ -0,0 +1,465 @@
+import type { CartAddress } from "../../context/CartContext";
+import { COUNTRY_OPTIONS, resolveState } from "../../constants/countries";
+import {
+  LABEL_SCHEMA_VERSION,
+  isInternationalLabel,
+  validateLabelData,
+  type ContentsType,
+} from "../../../shared/labelSchema.js";
+import type { CartLabelFields } from "../cart/items";
+import type { Carrier } from "./catalog";
+import { cleanPhone } from "./contact";
+import { findPreset, presetInUnits, type PackagePresetInput } from "./packagePresets";
+import { toIn, toLbs, type UnitSystem } from "./units";
+
+// Bulk label import from CSV (or tab-separated rows pasted from a
+// spreadsheet). Each row is one parcel; rows that share a `reference` are one
+// parcel with several customs lines, the first row holding the parcel.
+
+type CsvColumn = {
+  key: string;
+  help: string;
+  required?: boolean;
+};
+
+const ADDRESS_COLUMNS = (side: "from" | "to", who: string): CsvColumn[] => [
+  { key: `${side}_name`, help: `${who} name`, required: true },
+  { key: `${side}_company`, help: "Optional" },
+  { key: `${side}_address1`, help: "Street address", required: true },
+  { key: `${side}_address2`, help: "Optional" },
+  { key: `${side}_city`, help: "City", required: true },
+  { key: `${side}_state`, help: "State code or name (required for US, CA, AU)" },
+  { key: `${side}_zip`, help: "Postal code" },
+  { key: `${side}_country`, help: "2-letter code or country name", required: true },
+  { key: `${side}_phone`, help: "Optional, with country code" },
+  { key: `${side}_email`, help: "Optional" },
+];
+
+export const CSV_COLUMNS: CsvColumn[] = [
+  { key: "reference", help: "Optional; repeat it on extra rows to add customs lines" },
+  { key: "carrier", help: "Carrier id or name, e.g. usps", required: true },
+  { key: "service", help: "Service name as listed in Create Label", required: true },
+  { key: "preset", help: "Optional package preset name; fills the size, weight and contents left empty" },
+  {
+    key: "units",
+    help: "imperial (lbs/in) or metric (kg/cm); defaults to the preset's, then your preference",
+  },
+  { key: "weight", help: "Parcel weight", required: true },
+  { key: "length", help: "Parcel length", required: true },
+  { key: "width", help: "Parcel width", required: true },
+  { key: "height", help: "Parcel height", required: true },
+  ...ADDRESS_COLUMNS("from", "Sender"),
+  ...ADDRESS_COLUMNS("to", "Recipient"),
+  { key: "contents_type", help: "International: merchandise, gift, documents or returned_goods" },
+  { key: "item_description", help: "International: what is inside" },
+  { key: "item_quantity", help: "International: number of units (default 1)" },
+  { key: "item_unit_value_usd", help: "International: value of one unit in USD" },
+  { key: "item_weight", help: "International: net weight of all units of the line" },
+  { key: "item_hs_code", help: "International: optional HS code" },
+  { key: "item_origin_country", help: "International: defaults to the sender country" },
+];
+
+const COLUMN_KEYS = new Set(CSV_COLUMNS.map((c) => c.key));
+
+// Required columns a `preset` column can stand in for.
+const PRESET_COLUMNS = new Set(["weight", "length", "width", "height"]);
+
+// Other spellings accepted in the header row.
+const HEADER_ALIASES: Record<string, string> = {
+  ref: "reference",
+  from_address: "from_address1",
+  to_address: "to_address1",
+  from_postal_code: "from_zip",
+  to_postal_code: "to_zip",
+  from_postcode: "from_zip",
+  to_postcode: "to_zip",
+  from_province: "from_state",
+  to_province: "to_state",
+};
+
+const normalizeHeader = (h: string) => {
+  const key = h.trim().toLowerCase().replace(/[\s.\-/]+/g, "_");
+  return HEADER_ALIASES[key] ?? key;
+};
+
+const TEMPLATE_ROWS: Record<string, string>[] = [
+  {
+    carrier: "usps",
+    service: "Priority Mail",
+    units: "imperial",
+    weight: "2.5",
+    length: "12",
+    width: "9",
+    height: "4",
+    from_name: "Jane Doe",
+    from_company: "Acme Inc.",
+    from_address1: "123 Main St",
+    from_city: "Chicago",
+    from_state: "IL",
+    from_zip: "60601",
+    from_country: "US",
+    from_phone: "+1 312 555 0100",
+    to_name: "John Smith",
+    to_address1: "500 Market St",
+    to_address2: "Suite 200",
+    to_city: "San Francisco",
+    to_state: "CA",
+    to_zip: "94105",
+    to_country: "US",
+  },
+  {
+    reference: "INT-1",
+    carrier: "usps",
+    service: "Priority Mail International",
+    units: "metric",
+    weight: "1.2",
+    length: "30",
+    width: "20",
+    height: "10",
+    from_name: "Jane Doe",
+    from_address1: "123 Main St",
+    from_city: "Chicago",
+    from_state: "IL",
+    from_zip: "60601",
+    from_country: "US",
+    from_phone: "+1 312 555 0100",
+    to_name: "Erika Mustermann",
+    to_address1: "Hauptstraße 1",
+    to_city: "Berlin",
+    to_zip: "10115",
+    to_country: "DE",
+    to_phone: "+49 30 1234567",
+    to_email: "erika@example.com",
+    contents_type: "merchandise",
+    item_description: "Cotton T-shirts",
+    item_quantity: "3",
+    item_unit_value_usd: "12.00",
+    item_weight: "0.6",
+    item_hs_code: "610910",
+    item_origin_country: "US",
+  },
+  {
+    reference: "INT-1",
+    item_description: "Coffee mug",
+    item_quantity: "1",
+    item_unit_value_usd: "8.50",
+    item_weight: "0.4",
+    item_origin_country: "CN",
+  },
+];
+
+const csvCell = (v: string) => (/[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+
+// The template: every column, a domestic example and a two-line
+// international example.
+export const csvTemplate = () =>
+  [
+    CSV_COLUMNS.map((c) => c.key),
+    ...TEMPLATE_ROWS.map((row) => CSV_COLUMNS.map((c) => row[c.key] ?? "")),
+  ]
+    .map((cells) => cells.map(csvCell).join(","))
+    .join("\r\n") + "\r\n";
+
+// The delimiter used in the header line: tab (pasted from a spreadsheet),
+// semicolon (some locales) or comma.
+const detectDelimiter = (headerLine: string) => {
+  const counts = ["\t", ";", ","].map((d) => [d, headerLine.split(d).length - 1] as const);
+  const [best] = counts.sort((a, b) => b[1] - a[1]);
+  return best[1] > 0 ? best[0] : ",";
+};
+
+// RFC 4180 parsing: quoted fields may hold delimiters, doubled quotes and
+// line breaks. Blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const src = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(src.split(/\r?\n/, 1)[0] ?? "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+};
+
+// One data row: its row number in the spreadsheet (the header is row 1) and
+// its cells by column.
+export type ImportRow = { line: number; cells: Record<string, string> };
+
+export type ImportSheet = {
+  rows: ImportRow[];
+  unknownColumns: string[];
+  missingColumns: string[];
+};
+
+export const readSheet = (text: string): ImportSheet => {
+  const [header = [], ...data] = parseCsv(text);
+  const keys = header.map(normalizeHeader);
+  const rows = data.map((cells, i) => ({
+    line: i + 2,
+    cells: Object.fromEntries(
+      keys.flatMap((k, j) => (COLUMN_KEYS.has(k) ? [[k, (cells[j] ?? "").trim()]] : [])),
+    ),
+  }));
+  return {
+    rows,
+    unknownColumns: header.filter((_, j) => !COLUMN_KEYS.has(keys[j]) && header[j].trim()),
+    missingColumns: CSV_COLUMNS.filter(
+      (c) =>
+        c.required &&
+        !keys.includes(c.key) &&
+        !(PRESET_COLUMNS.has(c.key) && keys.includes("preset")),
+    ).map((c) => c.key),
+  };
+};
+
+export type ImportIssue = { row: number; column: string | null; message: string };
+export type ImportFix = { row: number; column: string; from: string; to: string };
+
+// One parcel built from one or more rows (indexes into ImportSheet.rows).
+export type ImportedLabel = {
+  key: string;
+  rows: number[];
+  fields: CartLabelFields;
+  errors: ImportIssue[];
+  fixes: ImportFix[];
+};
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: "US",
+  "united states of america": "US",
+  uk: "GB",
+  "great britain": "GB",
+  england: "GB",
+};
+
+const LINE_COLUMNS: Record<string, string> = {
+  description: "item_description",
+  quantity: "item_quantity",
+  unitValueUsd: "item_unit_value_usd",
+  weightLbs: "item_weight",
+  hsCode: "item_hs_code",
+  originCountry: "item_origin_country",
+};
+
+// A CSV row group is always a single package.
+const PARCEL_COLUMNS: Record<string, string> = {
+  pieces: "weight",
+  "pieces.0.weightLbs": "weight",
+  "pieces.0.entered.units": "units",
+  "pieces.0.dimensionsIn.length": "length",
+  "pieces.0.dimensionsIn.width": "width",
+  "pieces.0.dimensionsIn.height": "height",
+  "customs.contentsType": "contents_type",
+  "customs.lines": "item_description",
+};
+
+// Builds the parcels in `sheet`, correcting what can be corrected safely
+// (country and state names, US ZIPs that lost a leading zero, decimal commas,
+// carrier and service capitalisation) and validating the result with the
+// shared label schema. HS codes are only checked by the server. A `preset`
+// names one of `presets`, which fills the parcel cells left empty.
+export const buildImport = (
+  sheet: ImportSheet,
+  {
+    catalog,
+    defaultUnits,
+    presets = [],
+  }: { catalog: Carrier[]; defaultUnits: UnitSystem; presets?: PackagePresetInput[] },
+): ImportedLabel[] => {
+  const groups = new Map<string, number[]>();
+  sheet.rows.forEach((row, i) => {
+    const ref = row.cells.reference ?? "";
+    const key = ref ? `ref:${ref}` : `line:${row.line}`;
+    groups.set(key, [...(groups.get(key) ?? []), i]);
+  });
+
+  return [...groups.entries()].map(([key, rowIndexes]) => {
+    const fixes: ImportFix[] = [];
+    const errors: ImportIssue[] = [];
+    const [first] = rowIndexes;
+    const cell = (row: number, column: string) => sheet.rows[row].cells[column] ?? "";
+    const fix = (row: number, column: string, from: string, to: string) => {
+      if (from !== to) fixes.push({ row, column, from, to });
+      return to;
+    };
+
+    const number = (row: number, column: string, fallback = "") => {
+      const raw = cell(row, column) || fallback;
+      const decimal = /^\d+,\d+$/.test(raw) ? fix(row, column, raw, raw.replace(",", ".")) : raw;
+      return raw ? Number(decimal) : 0;
+    };
+
+    const country = (row: number, column: string, fallback = "") => {
+      const raw = cell(row, column) || fallback;
+      const lower = raw.toLowerCase();
+      const code =
+        COUNTRY_OPTIONS.find((c) => c.value.toLowerCase() === lower)?.value ??
+        COUNTRY_OPTIONS.find((c) => c.label.toLowerCase() === lower)?.value ??
+        COUNTRY_ALIASES[lower] ??
+        raw;
+      return fix(row, column, raw, code);
+    };
+
+    const address = (side: "from" | "to"): CartAddress => {
+      const c = (field: string) => cell(first, `${side}_${field}`);
+      const countryCode = country(first, `${side}_country`);
+      const stateRaw = c("state");
+      const state = fix(
+        first,
+        `${side}_state`,
+        stateRaw,
+        resolveState(countryCode, stateRaw) ?? stateRaw,
+      );
+      const zipRaw = c("zip");
+      const zip =
+        countryCode === "US" && /^\d{4}(-\d{4})?$/.test(zipRaw)
+          ? fix(first, `${side}_zip`, zipRaw, `0${zipRaw}`)
+          : zipRaw;
+      return {
+        name: c("name"),
+        company: c("company"),
+        address1: c("address1"),
+        address2: c("address2"),
+        city: c("city"),
+        state,
+        zip,
+        country: countryCode,
+        phone: cleanPhone(c("phone")),
+        email: c("email"),
+      };
+    };
+
+    const carrierRaw = cell(first, "carrier");
+    const carrier =
+      catalog.find(
+        (c) =>
+          c.id.toLowerCase() === carrierRaw.toLowerCase() ||
+          c.name.toLowerCase() === carrierRaw.toLowerCase(),
+      ) ?? null;
+    const serviceRaw = cell(first, "service");
+    const service =
+      carrier?.services.find((s) => s.name.toLowerCase() === serviceRaw.toLowerCase()) ?? null;
+
+    const presetName = cell(first, "preset");
+    const preset = presetName ? findPreset(presets, presetName) : null;
+    if (presetName && !preset) {
+      errors.push({
+        row: first,
+        column: "preset",
+        message: `You have no package preset named "${presetName}".`,
+      });
+    }
+
+    const unitsRaw = cell(first, "units").toLowerCase();
+    const units: UnitSystem = ["metric", "kg", "cm"].includes(unitsRaw)
+      ? "metric"
+      : ["imperial", "lb", "lbs", "in"].includes(unitsRaw)
+        ? "imperial"
+        : (preset?.units ?? defaultUnits);
+    const fromPreset = preset ? presetInUnits(preset, units) : null;
+    if (unitsRaw && !["metric", "kg", "cm", "imperial", "lb", "lbs", "in"].includes(unitsRaw)) {
+      errors.push({ row: first, column: "units", message: "Use imperial or metric." });
+    }
+
+    const dims = {
+      length: number(first, "length", fromPreset?.length),
+      width: number(first, "width", fromPreset?.width),
+      height: number(first, "height", fromPreset?.height),
+    };
+    const weight = number(first, "weight", fromPreset?.weight);
+    const from = address("from");
+    const to = address("to");
+
+    const contentsRaw = cell(first, "contents_type");
+    const contentsType = fix(
+      first,
+      "contents_type",
+      contentsRaw,
+      contentsRaw.toLowerCase().replace(/[\s-]+/g, "_"),
+    );
+    const description = (r: number) =>
+      cell(r, "item_description") || (r === first ? (preset?.contentsDescription ?? "") : "");
+    const lineRows = rowIndexes.filter((r) => description(r));
+
+    const fields: CartLabelFields = {
+      schemaVersion: LABEL_SCHEMA_VERSION,
+      carrier: carrier ? fix(first, "carrier", carrierRaw, carrier.id) : carrierRaw,
+      service: service ? fix(first, "service", serviceRaw, service.name) : serviceRaw,
+      customs: null,
+      pieces: [
+        {
+          weightLbs: toLbs(weight, units),
+          dimensionsIn: {
+            length: toIn(dims.length, units),
+            width: toIn(dims.width, units),
+            height: toIn(dims.height, units),
+          },
+          entered: { units, weight, dimensions: dims },
+        },
+      ],
+      from,
+      to,
+    };
+    if (isInternationalLabel(fields)) {
+      fields.customs = {
+        contentsType: (contentsType || "merchandise") as ContentsType,
+        lines: lineRows.map((r) => ({
+          description: description(r),
+          quantity: number(r, "item_quantity", "1"),
+          unitValueUsd: Number(number(r, "item_unit_value_usd").toFixed(2)),
+          weightLbs: toLbs(number(r, "item_weight"), units),
+          hsCode: cell(r, "item_hs_code").replace(/[.\s-]/g, ""),
+          originCountry: country(r, "item_origin_country", from.country),
+        })),
+      };
+    }
+
+    for (const [path, message] of Object.entries(validateLabelData(fields, { catalog }))) {
+      const line = /^customs\.lines\.(\d+)\.(\w+)$/.exec(path);
+      if (line) {
+        errors.push({
+          row: lineRows[Number(line[1])] ?? first,
+          column: LINE_COLUMNS[line[2]] ?? null,
+          message,
+        });
+        continue;
+      }
+      const column =
+        PARCEL_COLUMNS[path] ??
+        (/^(from|to)\.\w+$/.test(path) ? path.replace(".", "_") : null) ??
+        (COLUMN_KEYS.has(path) ? path : null);
+      errors.push({ row: first, column, message });
+    }
+
+    return { key, rows: rowIndexes, fields, errors, fixes };
+  });
+};
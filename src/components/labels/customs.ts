@@ -0,0 +1,19 @@
+import type { ContentsType, CustomsLine } from "../../../shared/labelSchema.js";
+
+export const CONTENTS_TYPE_LABELS: Record<ContentsType, string> = {
+  merchandise: "Merchandise",
+  gift: "Gift",
+  documents: "Documents",
+  returned_goods: "Returned goods",
+};
+
+// "3 × Cotton T-shirts • $12.00 each • HS 610910 • US"
+export const describeCustomsLine = (line: CustomsLine) =>
+  [
+    `${line.quantity} × ${line.description}`,
+    `$${line.unitValueUsd.toFixed(2)} each`,
+    line.hsCode ? `HS ${line.hsCode}` : null,
+    line.originCountry,
+  ]
+    .filter(Boolean)
+    .join(" • ");
@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+
+// An entry of the bundled HS nomenclature (server/hsCodes.js).
+export type HsCodeEntry = {
+  code: string;
+  level: "chapter" | "heading" | "subheading";
+  description: string;
+  parent: string | null;
+};
+
+// GET /api/hs-codes/:code's match: `verified` is false when the bundled data
+// only goes down to the code's chapter or heading.
+export type HsCodeMatch = HsCodeEntry & { verified: boolean };
+
+export const normalizeHsCode = (value: string) => value.replace(/[.\s-]/g, "");
+
+const isCompleteHsCode = (code: string) => /^\d{6,10}$/.test(code);
+
+// GET /api/hs-codes: search by code prefix or keywords.
+export const searchHsCodes = async (
+  q: string,
+  signal?: AbortSignal,
+): Promise<HsCodeEntry[]> => {
+  const r = await fetch(`/api/hs-codes?q=${encodeURIComponent(q)}`, { signal });
+  const data = (await r.json().catch(() => null)) as {
+    results?: HsCodeEntry[];
+    error?: string;
+  } | null;
+  if (!r.ok || !data || !Array.isArray(data.results)) {
+    throw new Error(data?.error || `Failed to search HS codes (HTTP ${r.status}).`);
+  }
+  return data.results;
+};
+
+// GET /api/hs-codes/:code: the matching entry, or null when the code does
+// not exist.
+export const lookupHsCode = async (code: string): Promise<HsCodeMatch | null> => {
+  const r = await fetch(`/api/hs-codes/${encodeURIComponent(code)}`);
+  if (r.status === 404) return null;
+  const data = (await r.json().catch(() => null)) as {
+    match?: HsCodeMatch;
+    error?: string;
+  } | null;
+  if (!r.ok || !data?.match) {
+    throw new Error(data?.error || `Failed to look up HS code (HTTP ${r.status}).`);
+  }
+  return data.match;
+};
+
+// Looks up every complete code in `codes` (once each). The result maps a
+// normalized code to its entry, or null when it does not exist; codes still
+// loading, or whose lookup failed, are absent.
+export const useHsCodeLookups = (codes: string[]) => {
+  const [lookups, setLookups] = useState<Record<string, HsCodeMatch | null>>({});
+  const key = [...new Set(codes.map(normalizeHsCode).filter(isCompleteHsCode))]
+    .sort()
+    .join(",");
+
+  useEffect(() => {
+    const pending = key ? key.split(",").filter((c) => !(c in lookups)) : [];
+    if (pending.length === 0) return;
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      for (const code of pending) {
+        lookupHsCode(code)
+          .then((match) => {
+            if (!cancelled) setLookups((prev) => ({ ...prev, [code]: match }));
+          })
+          .catch(() => {
+            // Left unchecked; the server validates again on submit.
+          });
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+    // `lookups` is only read to skip codes already resolved.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  return lookups;
+};
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from "react";
+import { authedFetch } from "./api";
+import { fromIn, fromLbs, toIn, toLbs, type UnitSystem } from "./units";
+import type { PackagePresetInput } from "../../../shared/labelSchema.js";
+
+export type { PackagePresetInput };
+
+// A saved box size (server/db.js `package_presets`), in the units it was
+// entered in.
+export type PackagePreset = PackagePresetInput & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// The preset's sizes and weight converted to `units`, as form strings. The
+// weight is "" when the preset has none.
+export const presetInUnits = (p: PackagePresetInput, units: UnitSystem) => {
+  const length = (n: number) => String(units === p.units ? n : fromIn(toIn(n, p.units), units));
+  return {
+    length: length(p.length),
+    width: length(p.width),
+    height: length(p.height),
+    weight:
+      p.weight === null
+        ? ""
+        : String(units === p.units ? p.weight : fromLbs(toLbs(p.weight, p.units), units)),
+  };
+};
+
+export const findPreset = <T extends PackagePresetInput>(presets: T[], name: string) => {
+  const q = name.trim().toLowerCase();
+  return presets.find((p) => p.name.toLowerCase() === q) ?? null;
+};
+
+export const describePreset = (p: PackagePresetInput) => {
+  const unit = p.units === "metric" ? "cm" : "in";
+  const size = `${p.length}×${p.width}×${p.height} ${unit}`;
+  const weight = p.weight === null ? "" : `, ${p.weight} ${p.units === "metric" ? "kg" : "lbs"}`;
+  return `${size}${weight}`;
+};
+
+export const fetchPackagePresets = async () => {
+  const resp = (await authedFetch("/api/package-presets")) as { presets?: PackagePreset[] };
+  return Array.isArray(resp?.presets) ? resp.presets : [];
+};
+
+// POST /api/package-presets, or PUT /api/package-presets/:id when `id` is given.
+export const savePackagePreset = async (input: PackagePresetInput, id?: string) => {
+  const resp = (await authedFetch(
+    id ? `/api/package-presets/${encodeURIComponent(id)}` : "/api/package-presets",
+    {
+      method: id ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    },
+  )) as { preset: PackagePreset };
+  return resp.preset;
+};
+
+export const deletePackagePreset = async (id: string) => {
+  await authedFetch(`/api/package-presets/${encodeURIComponent(id)}`, { method: "DELETE" });
+};
+
+// All of the user's presets, loaded once on mount.
+export const usePackagePresets = () => {
+  const [presets, setPresets] = useState<PackagePreset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setError(null);
+    try {
+      setPresets(await fetchPackagePresets());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load package presets.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  return { presets, loading, error, reload };
+};
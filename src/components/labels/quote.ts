@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import type { CartAddress } from "../../context/CartContext";
+import type { PriceDiffReason } from "../cart/pricing";
+import { fromLbs, weightUnit, type UnitSystem } from "./units";
+
+// How the rate engine priced one piece (quoteService in server/rates.js).
+export type RateBreakdown = {
+  priceUsd: number;
+  actualWeightLbs: number;
+  dimWeightLbs: number;
+  billableWeightLbs: number;
+  zone: number | null;
+  zoneSource: "chart" | "international" | "default";
+  tierMaxWeightLbs: number;
+};
+
+// A shipment's price: the sum of its pieces (quoteShipment in
+// server/pricing.js).
+export type ShipmentQuote = {
+  priceUsd: number;
+  pieces: RateBreakdown[];
+};
+
+export type RateQuote = {
+  carrier: string;
+  carrierName: string;
+  service: string;
+} & (ShipmentQuote | { priceUsd?: undefined; reason: PriceDiffReason; detail?: string });
+
+export type QuoteShipment = {
+  carrier?: string;
+  service?: string;
+  pieces: {
+    weightLbs: number;
+    dimensionsIn: { length: number; width: number; height: number };
+  }[];
+  from: Pick<CartAddress, "zip" | "country">;
+  to: Pick<CartAddress, "zip" | "country">;
+};
+
+// POST /api/rates/quote: one entry per matching active service.
+export const fetchRateQuotes = async (
+  shipment: QuoteShipment,
+  signal?: AbortSignal,
+): Promise<RateQuote[]> => {
+  const r = await fetch("/api/rates/quote", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(shipment),
+    signal,
+  });
+  const data = (await r.json().catch(() => null)) as {
+    quotes?: RateQuote[];
+    error?: string;
+  } | null;
+  if (!r.ok || !data || !Array.isArray(data.quotes)) {
+    throw new Error(data?.error || `Failed to get a quote (HTTP ${r.status}).`);
+  }
+  return data.quotes;
+};
+
+// "18 lbs billable (dimensional 17.27 lbs) • zone 5", weights in `units`.
+export const describeQuote = (q: RateBreakdown, units: UnitSystem = "imperial") => {
+  const w = (lbs: number) => `${fromLbs(lbs, units)} ${weightUnit(units)}`;
+  const weight =
+    q.dimWeightLbs > q.actualWeightLbs
+      ? `${w(q.billableWeightLbs)} billable (dimensional ${w(q.dimWeightLbs)})`
+      : `${w(q.billableWeightLbs)} billable`;
+  const zone =
+    q.zoneSource === "international"
+      ? "international"
+      : q.zoneSource === "default"
+        ? `zone ${q.zone} (default)`
+        : `zone ${q.zone}`;
+  return `${weight} • ${zone}`;
+};
+
+// describeQuote for a single piece; with several, one "Package 2: $12.40, …"
+// entry per piece.
+export const describeShipmentQuote = (q: ShipmentQuote, units: UnitSystem = "imperial") =>
+  q.pieces.length === 1
+    ? describeQuote(q.pieces[0], units)
+    : q.pieces
+        .map((p, i) => `Package ${i + 1}: $${p.priceUsd.toFixed(2)}, ${describeQuote(p, units)}`)
+        .join("; ");
+
+// Live quote for one service, refetched (debounced) whenever the shipment
+// changes. Pass null while the shipment is incomplete.
+export const useRateQuote = (shipment: QuoteShipment | null) => {
+  const key = shipment ? JSON.stringify(shipment) : "";
+  const [quote, setQuote] = useState<RateQuote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setQuote(null);
+    setError(null);
+    if (!key) {
+      setLoading(false);
+      return;
+    }
+    const controller = new AbortController();
+    setLoading(true);
+    const timer = window.setTimeout(() => {
+      fetchRateQuotes(JSON.parse(key) as QuoteShipment, controller.signal)
+        .then((quotes) => {
+          setQuote(quotes[0] ?? null);
+          setLoading(false);
+        })
+        .catch((e) => {
+          if (controller.signal.aborted) return;
+          setError(e instanceof Error ? e.message : "Failed to get a quote.");
+          setLoading(false);
+        });
+    }, 400);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [key]);
+
+  return { quote, error, loading };
+};
@@ -0,0 +1,81 @@
+export type UnitSystem = "imperial" | "metric";
+
+export type Dimensions = { length: number; width: number; height: number };
+
+// What the user typed, in their unit system (kg/cm or lbs/in). Label items
+// always also carry canonical `weightLbs` and `dimensionsIn`, which pricing
+// and the server use.
+export type EnteredParcel = {
+  units: UnitSystem;
+  weight: number;
+  dimensions: Dimensions;
+};
+
+export type ParcelLike = {
+  weightLbs?: number;
+  dimensionsIn?: Partial<Dimensions>;
+  entered?: EnteredParcel;
+};
+
+export const UNIT_OPTIONS: { value: UnitSystem; label: string }[] = [
+  { value: "imperial", label: "Imperial (lbs, in)" },
+  { value: "metric", label: "Metric (kg, cm)" },
+];
+
+export const LBS_PER_KG = 2.20462;
+export const IN_PER_CM = 1 / 2.54;
+
+const round2 = (n: number) => Number(n.toFixed(2));
+
+export const weightUnit = (units: UnitSystem) => (units === "metric" ? "kg" : "lbs");
+export const lengthUnit = (units: UnitSystem) => (units === "metric" ? "cm" : "in");
+
+export const toLbs = (weight: number, units: UnitSystem) =>
+  round2(units === "metric" ? weight * LBS_PER_KG : weight);
+export const toIn = (length: number, units: UnitSystem) =>
+  round2(units === "metric" ? length * IN_PER_CM : length);
+export const fromLbs = (lbs: number, units: UnitSystem) =>
+  round2(units === "metric" ? lbs / LBS_PER_KG : lbs);
+export const fromIn = (inches: number, units: UnitSystem) =>
+  round2(units === "metric" ? inches / IN_PER_CM : inches);
+
+// Weight to show in `units`: the entered value when it was typed in the same
+// system (no round-trip drift), otherwise converted from canonical lbs.
+export const displayWeight = (d: ParcelLike, units: UnitSystem) => {
+  if (d.entered && d.entered.units === units) return d.entered.weight;
+  return typeof d.weightLbs === "number" ? fromLbs(d.weightLbs, units) : null;
+};
+
+export const displayDimensions = (d: ParcelLike, units: UnitSystem) => {
+  if (d.entered && d.entered.units === units) return d.entered.dimensions;
+  if (!d.dimensionsIn) return null;
+  return {
+    length: fromIn(d.dimensionsIn.length ?? 0, units),
+    width: fromIn(d.dimensionsIn.width ?? 0, units),
+    height: fromIn(d.dimensionsIn.height ?? 0, units),
+  };
+};
+
+export const formatWeight = (d: ParcelLike, units: UnitSystem) => {
+  const w = displayWeight(d, units);
+  return w === null ? "—" : `${w} ${weightUnit(units)}`;
+};
+
+export const formatDimensions = (d: ParcelLike, units: UnitSystem) => {
+  const dims = displayDimensions(d, units);
+  return dims
+    ? `${dims.length}×${dims.width}×${dims.height} ${lengthUnit(units)}`
+    : "—";
+};
+
+// "2.5 lbs • 12×9×4 in" for a single package, "3 packages • 7.5 lbs" for
+// several.
+export const formatPieces = (pieces: ParcelLike[] | undefined, units: UnitSystem) => {
+  const list = pieces ?? [];
+  if (list.length === 0) return "—";
+  if (list.length === 1) {
+    return `${formatWeight(list[0], units)} • ${formatDimensions(list[0], units)}`;
+  }
+  const lbs = list.reduce((sum, p) => sum + (p.weightLbs ?? 0), 0);
+  return `${list.length} packages • ${fromLbs(lbs, units)} ${weightUnit(units)}`;
+};
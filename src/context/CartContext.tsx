@@ -1,38 +1,51 @@
 import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import type { EnteredParcel } from "../components/labels/units";
+import { migrateLabelData, type LabelCustoms } from "../../shared/labelSchema.js";
 
 export type CartAddress = {
   name: string;
+  company: string;
   address1: string;
+  address2: string;
   city: string;
   state: string;
   zip: string;
   country: string;
+  phone: string;
+  email: string;
+};
+
+// One package of a label; all pieces go to the same recipient.
+export type CartPiece = {
+  weightLbs: number; // canonical, whatever units were entered
+  dimensionsIn: {
+    length: number;
+    width: number;
+    height: number;
+  };
+  entered?: EnteredParcel; // as typed; filled in by migrateLabelData for older items
 };
 
 export type CartLabelItem = {
   id: string;
   createdAt: string; // ISO
   kind: "label";
+  schemaVersion?: number; // LABEL_SCHEMA_VERSION in shared/labelSchema.js
   carrier: string;
   service: string;
-  declarationItem?: string;
-  declarationQuantity?: number;
-  declaredValueUsd?: number;
-  hsCode?: string;
-  weightLbs: number;
-  dimensionsIn: {
-    length: number;
-    width: number;
-    height: number;
-  };
+  customs?: LabelCustoms | null; // international shipments only
+  pieces: CartPiece[];
   from: CartAddress;
   to: CartAddress;
+  returnOfLabelId?: string; // set on return labels: the label being sent back
+  priceUsd?: number; // Quoted when added; the server re-prices at checkout.
 };
 
 export type CartAccountItem = {
   id: string;
   createdAt: string; // ISO
   kind: "account";
+  productId?: string; // account_products.id; older cart items lack it.
   productName: string;
   priceUsd: number;
   country: string;
@@ -44,7 +57,9 @@ export type CartItem = CartLabelItem | CartAccountItem;
 type CartContextType = {
   items: CartItem[];
   addItem: (item: CartItem) => void;
+  addItems: (items: CartItem[]) => void;
   removeItem: (id: string) => void;
+  replaceItems: (items: CartItem[]) => void;
   clear: () => void;
   count: number;
 };
@@ -53,73 +68,22 @@ const STORAGE_KEY = "labelz.cart.v1";
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+// Label items are migrated to the current label schema version (which, for
+// example, turns a single parcel into `pieces`); see
+// migrateLabelData in shared/labelSchema.js.
 const normalizeItem = (x: unknown): CartItem | null => {
   if (!x || typeof x !== "object") return null;
   const anyX = x as Record<string, unknown>;
 
   // New format: explicit kind.
   if (anyX.kind === "label") {
-    const base = anyX as unknown as Partial<CartLabelItem>;
-    return {
-      ...(base as CartLabelItem),
-      kind: "label",
-      declarationItem:
-        typeof base.declarationItem === "string" ? base.declarationItem : "",
-      declarationQuantity:
-        typeof base.declarationQuantity === "number" &&
-        Number.isFinite(base.declarationQuantity)
-          ? base.declarationQuantity
-          : 0,
-      declaredValueUsd:
-        typeof base.declaredValueUsd === "number" &&
-        Number.isFinite(base.declaredValueUsd)
-          ? base.declaredValueUsd
-          : 0,
-      hsCode: typeof base.hsCode === "string" ? base.hsCode : "",
-      dimensionsIn:
-        base.dimensionsIn ?? ({ length: 0, width: 0, height: 0 } as CartLabelItem["dimensionsIn"]),
-      from: {
-        ...(base.from as CartAddress),
-        country: (base.from as CartAddress | undefined)?.country ?? "US",
-      },
-      to: {
-        ...(base.to as CartAddress),
-        country: (base.to as CartAddress | undefined)?.country ?? "US",
-      },
-    } as CartLabelItem;
+    return migrateLabelData(anyX) as unknown as CartLabelItem;
   }
   if (anyX.kind === "account") return anyX as unknown as CartAccountItem;
 
   // Backward-compat: older label items (no kind).
   if (anyX.from && anyX.to) {
-    const base = anyX as unknown as Partial<CartLabelItem>;
-    return {
-      ...(base as CartLabelItem),
-      kind: "label",
-      declarationItem:
-        typeof base.declarationItem === "string" ? base.declarationItem : "",
-      declarationQuantity:
-        typeof base.declarationQuantity === "number" &&
-        Number.isFinite(base.declarationQuantity)
-          ? base.declarationQuantity
-          : 0,
-      declaredValueUsd:
-        typeof base.declaredValueUsd === "number" &&
-        Number.isFinite(base.declaredValueUsd)
-          ? base.declaredValueUsd
-          : 0,
-      hsCode: typeof base.hsCode === "string" ? base.hsCode : "",
-      dimensionsIn:
-        base.dimensionsIn ?? ({ length: 0, width: 0, height: 0 } as CartLabelItem["dimensionsIn"]),
-      from: {
-        ...(base.from as CartAddress),
-        country: (base.from as CartAddress | undefined)?.country ?? "US",
-      },
-      to: {
-        ...(base.to as CartAddress),
-        country: (base.to as CartAddress | undefined)?.country ?? "US",
-      },
-    } as CartLabelItem;
+    return migrateLabelData({ ...anyX, kind: "label" }) as unknown as CartLabelItem;
   }
 
   return null;
@@ -151,7 +115,9 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({
     return {
       items,
       addItem: (item) => setItems((prev) => [item, ...prev]),
+      addItems: (added) => setItems((prev) => [...added, ...prev]),
       removeItem: (id) => setItems((prev) => prev.filter((x) => x.id !== id)),
+      replaceItems: (next) => setItems(next),
       clear: () => setItems([]),
       count: items.length,
     };
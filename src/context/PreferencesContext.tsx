@@ -0,0 +1,103 @@
+import type React from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  LABEL_FORMAT_OPTIONS,
+  LABEL_LAYOUT_OPTIONS,
+  authedFetch,
+  getToken,
+} from "../components/labels/api";
+import {
+  DEFAULT_PREFERENCES,
+  PreferencesContext,
+  type Preferences,
+  type PreferencesContextType,
+} from "../hooks/usePreferences";
+
+const STORAGE_KEY = "labelz.preferences.v1";
+
+// `saved` with anything that is not a valid preference left out.
+const readPreferences = (saved: Partial<Record<keyof Preferences, unknown>>) => {
+  const out: Partial<Preferences> = {};
+  if (saved.units === "metric" || saved.units === "imperial") out.units = saved.units;
+  const format = LABEL_FORMAT_OPTIONS.find((o) => o.value === saved.labelFormat);
+  if (format) out.labelFormat = format.value;
+  const layout = LABEL_LAYOUT_OPTIONS.find((o) => o.value === saved.labelLayout);
+  if (layout) out.labelLayout = layout.value;
+  return out;
+};
+
+const loadPreferences = (): Preferences => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return { ...DEFAULT_PREFERENCES, ...readPreferences(raw ? JSON.parse(raw) : {}) };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+// Preferences live in localStorage, and for signed-in users also on their
+// account (GET/PUT /api/preferences), which wins when both are set. Changes
+// are saved to both.
+export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [preferences, setPreferences] = useState<Preferences>(loadPreferences);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  }, [preferences]);
+
+  const syncPreferences = useCallback(async () => {
+    if (!getToken()) return;
+    try {
+      const data = (await authedFetch("/api/preferences")) as {
+        preferences?: Partial<Record<keyof Preferences, unknown>>;
+      } | null;
+      const saved = readPreferences(data?.preferences ?? {});
+      setPreferences((prev) => ({ ...prev, ...saved }));
+      // An account without saved preferences takes this browser's.
+      const local = loadPreferences();
+      const missing = (Object.keys(local) as (keyof Preferences)[]).filter((k) => !(k in saved));
+      if (missing.length > 0) {
+        await authedFetch("/api/preferences", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(Object.fromEntries(missing.map((k) => [k, local[k]]))),
+        });
+      }
+    } catch {
+      // Keep this browser's preferences until the account can be reached.
+    }
+  }, []);
+
+  useEffect(() => {
+    void syncPreferences();
+  }, [syncPreferences]);
+
+  const value = useMemo<PreferencesContextType>(
+    () => ({
+      preferences,
+      setPreference: (key, v) => {
+        setPreferences((prev) => ({ ...prev, [key]: v }));
+        if (getToken()) {
+          authedFetch("/api/preferences", {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ [key]: v }),
+          }).catch(() => {
+            // Still saved in this browser; the account copy is updated on the
+            // next change.
+          });
+        }
+      },
+      syncPreferences,
+    }),
+    [preferences, syncPreferences],
+  );
+
+  return (
+    <PreferencesContext.Provider value={value}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
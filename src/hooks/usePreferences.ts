@@ -0,0 +1,36 @@
+import { createContext, useContext } from "react";
+import type { LabelFormat, LabelLayout } from "../components/labels/api";
+import type { UnitSystem } from "../components/labels/units";
+
+// Display and download preferences, saved in localStorage and, for signed-in
+// users, on their account by PreferencesProvider.
+export type Preferences = {
+  units: UnitSystem;
+  labelFormat: LabelFormat; // default download format of label documents
+  labelLayout: LabelLayout; // paper of PDF downloads
+};
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  units: "imperial",
+  labelFormat: "pdf",
+  labelLayout: "none",
+};
+
+export type PreferencesContextType = {
+  preferences: Preferences;
+  setPreference: <K extends keyof Preferences>(key: K, value: Preferences[K]) => void;
+  // Load the signed-in user's saved preferences (after signing in).
+  syncPreferences: () => Promise<void>;
+};
+
+export const PreferencesContext = createContext<PreferencesContextType | undefined>(
+  undefined,
+);
+
+export const usePreferences = () => {
+  const context = useContext(PreferencesContext);
+  if (context === undefined) {
+    throw new Error("usePreferences must be used within a PreferencesProvider");
+  }
+  return context;
+};
@@ -10,6 +10,10 @@ import {
   PageIcon,
   ChatIcon,
   BoxIcon,
+  ListIcon,
+  UserCircleIcon,
+  FolderIcon,
+  BoxIconLine,
 } from "../icons";
 import { useSidebar } from "../context/SidebarContext";
 
@@ -31,6 +35,26 @@ const allNavItems: NavItem[] = [
     icon: <PageIcon />,
     path: "/create-label",
   },
+  {
+    name: "Import Labels",
+    icon: <FolderIcon />,
+    path: "/import-labels",
+  },
+  {
+    name: "My Labels",
+    icon: <ListIcon />,
+    path: "/labels",
+  },
+  {
+    name: "Address Book",
+    icon: <UserCircleIcon />,
+    path: "/address-book",
+  },
+  {
+    name: "Package Presets",
+    icon: <BoxIconLine />,
+    path: "/package-presets",
+  },
   {
     name: "Account Store",
     icon: <BoxIcon />,
@@ -7,15 +7,18 @@ import App from "./App.tsx";
 import { AppWrapper } from "./components/common/PageMeta.tsx";
 import { ThemeProvider } from "./context/ThemeContext.tsx";
 import { CartProvider } from "./context/CartContext.tsx";
+import { PreferencesProvider } from "./context/PreferencesContext.tsx";
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <ThemeProvider>
-      <CartProvider>
-        <AppWrapper>
-          <App />
-        </AppWrapper>
-      </CartProvider>
+      <PreferencesProvider>
+        <CartProvider>
+          <AppWrapper>
+            <App />
+          </AppWrapper>
+        </CartProvider>
+      </PreferencesProvider>
     </ThemeProvider>
   </StrictMode>,
 );
@@ -15,7 +15,22 @@ import {
   TableRow,
 } from "../../components/ui/table";
 import { Modal } from "../../components/ui/modal";
-import { PDFDocument } from "pdf-lib";
+import CarrierCatalogAdmin from "../../components/admin/CarrierCatalogAdmin";
+import CoinbaseReconciliation from "../../components/admin/CoinbaseReconciliation";
+import { contactLine } from "../../components/labels/contact";
+import {
+  LABEL_LAYOUT_OPTIONS,
+  returnLabelIds,
+  returnOfLabelId,
+  type LabelLayout,
+} from "../../components/labels/api";
+import { formatPieces, type ParcelLike } from "../../components/labels/units";
+import { usePreferences } from "../../hooks/usePreferences";
+import { layoutLabelSheets, mergePdfs } from "../../../shared/labelSheets.js";
+import { migrateLabelData } from "../../../shared/labelSchema.js";
+
+const pdfMergeFileName = (count: number, layout: LabelLayout) =>
+  `label-land-docs-${count}${layout === "none" ? "" : `-${layout}`}.pdf`;
 
 type BlogPost = {
   id: string;
@@ -31,8 +46,9 @@ type AdminLabel = {
   username?: string;
   status: "pending" | "done" | "cancelled";
   declineReason?: string | null;
+  orderId?: string | null;
   labelData: Record<string, unknown>;
-  files: { filename: string; originalName?: string }[];
+  files: { filename: string; originalName?: string; piece?: number }[];
   createdAt: string;
   updatedAt: string;
 };
@@ -64,6 +80,7 @@ export default function AdminDashboard() {
   const isAuthed = Boolean(token);
   const isAdmin = Boolean(user?.isAdmin);
   const location = useLocation();
+  const { units } = usePreferences().preferences;
 
   const [error, setError] = useState<string | null>(null);
   const [info, setInfo] = useState<string | null>(null);
@@ -90,11 +107,15 @@ export default function AdminDashboard() {
     reason: string;
   }>({ open: false, labelId: null, reason: "" });
   const [uploading, setUploading] = useState(false);
+  const [generatingId, setGeneratingId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [doneModalFiles, setDoneModalFiles] = useState<File[]>([]);
+  // Multi-piece labels: the label file of each package, by 1-based number.
+  const [donePieceFiles, setDonePieceFiles] = useState<Record<number, File>>({});
 
   const [pdfMergeFiles, setPdfMergeFiles] = useState<File[]>([]);
   const [pdfMergeMerging, setPdfMergeMerging] = useState(false);
+  const [pdfMergeLayout, setPdfMergeLayout] = useState<LabelLayout>("none");
   const pdfMergeInputRef = useRef<HTMLInputElement | null>(null);
 
   const authedFetch = async (url: string, init?: RequestInit) => {
@@ -344,6 +365,7 @@ export default function AdminDashboard() {
     setError(null);
     setInfo(null);
     setDoneModalFiles([]);
+    setDonePieceFiles({});
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
   const closeDoneModal = () => setDoneModal({ open: false, labelId: null });
@@ -360,11 +382,25 @@ export default function AdminDashboard() {
     setDoneModalFiles(files ? Array.from(files) : []);
   };
 
+  const pieceCount = (l?: AdminLabel) => {
+    const pieces = l ? migrateLabelData(l.labelData).pieces : undefined;
+    return Array.isArray(pieces) ? pieces.length : 1;
+  };
+  const doneLabel = labels.find((l) => l.id === doneModal.labelId);
+  const donePieceCount = pieceCount(doneLabel);
+  const donePiecesMissing = Array.from({ length: donePieceCount }, (_, i) => i + 1).filter(
+    (n) => !donePieceFiles[n],
+  );
+
   const handleDoneSubmit = async () => {
     const labelId = doneModal.labelId;
     if (!labelId || !token) return;
     const files = doneModalFiles.length > 0 ? doneModalFiles : (fileInputRef.current?.files ? Array.from(fileInputRef.current.files) : []);
-    if (files.length === 0) {
+    if (donePieceCount > 1 && donePiecesMissing.length > 0) {
+      setError(`Select a label for package ${donePiecesMissing.join(", ")}.`);
+      return;
+    }
+    if (donePieceCount === 1 && files.length === 0) {
       setError("Select at least one file to upload.");
       return;
     }
@@ -373,6 +409,11 @@ export default function AdminDashboard() {
     setUploading(true);
     try {
       const form = new FormData();
+      if (donePieceCount > 1) {
+        for (const [n, file] of Object.entries(donePieceFiles)) {
+          form.append(`piece-${n}`, file);
+        }
+      }
       for (let i = 0; i < files.length; i++) {
         form.append("files", files[i]);
       }
@@ -397,6 +438,7 @@ export default function AdminDashboard() {
       }
       setInfo("Label marked as done. Files uploaded.");
       setDoneModalFiles([]);
+      setDonePieceFiles({});
       closeDoneModal();
       await refreshLabels();
     } catch (e) {
@@ -406,6 +448,32 @@ export default function AdminDashboard() {
     }
   };
 
+  // Render the 4x6 label PDF on the server and mark the label done.
+  const handleGenerate = async (labelId: string) => {
+    setError(null);
+    setInfo(null);
+    setGeneratingId(labelId);
+    try {
+      await authedFetch(`/api/admin/labels/${encodeURIComponent(labelId)}/generate`, {
+        method: "POST",
+      });
+      setInfo("Label PDF generated. Label marked as done.");
+      await refreshLabels();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to generate the label.");
+    } finally {
+      setGeneratingId(null);
+    }
+  };
+
+  const isDomestic = (l: AdminLabel) => {
+    const d = migrateLabelData(l.labelData) as {
+      from?: { country?: string };
+      to?: { country?: string };
+    };
+    return Boolean(d?.from?.country) && d?.from?.country === d?.to?.country;
+  };
+
   const handleDeclineSubmit = async () => {
     const labelId = declineModal.labelId;
     const reason = declineModal.reason.trim();
@@ -448,21 +516,17 @@ export default function AdminDashboard() {
     setInfo(null);
     setPdfMergeMerging(true);
     try {
-      const mergedPdf = await PDFDocument.create();
-      for (const file of pdfMergeFiles) {
-        const bytes = await file.arrayBuffer();
-        const src = await PDFDocument.load(bytes);
-        const pageCount = src.getPageCount();
-        const pageIndices = Array.from({ length: pageCount }, (_, i) => i);
-        const copiedPages = await mergedPdf.copyPages(src, pageIndices);
-        for (const page of copiedPages) mergedPdf.addPage(page);
-      }
-      const mergedBytes = await mergedPdf.save();
+      const documents = await Promise.all(pdfMergeFiles.map((file) => file.arrayBuffer()));
+      // With a layout, label pages go 2-up on office paper, with crop marks.
+      const mergedBytes =
+        pdfMergeLayout === "none"
+          ? await mergePdfs(documents)
+          : await layoutLabelSheets(documents, pdfMergeLayout);
       const blob = new Blob([new Uint8Array(mergedBytes)], { type: "application/pdf" });
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `label-land-docs-${pdfMergeFiles.length}.pdf`;
+      a.download = pdfMergeFileName(pdfMergeFiles.length, pdfMergeLayout);
       a.click();
       URL.revokeObjectURL(url);
       setInfo(`Merged ${pdfMergeFiles.length} PDF(s) and downloaded.`);
@@ -476,11 +540,24 @@ export default function AdminDashboard() {
   };
 
   const labelSummary = (l: AdminLabel) => {
-    const d = l.labelData as { carrier?: string; service?: string; from?: { name?: string } };
+    type Party = { name?: string; company?: string; phone?: string; email?: string };
+    const d = migrateLabelData(l.labelData) as {
+      carrier?: string;
+      service?: string;
+      from?: Party;
+      to?: Party;
+      pieces?: ParcelLike[];
+    };
     const carrier = d?.carrier ?? "—";
     const service = d?.service ?? "—";
-    const from = d?.from?.name ?? "—";
-    return `${String(carrier).toUpperCase()} • ${service} • ${from}`;
+    // "Jane Doe (Acme), +1 555 010 0000"
+    const party = (p?: Party) =>
+      p?.name
+        ? [`${p.name}${p.company ? ` (${p.company})` : ""}`, contactLine(p)]
+            .filter(Boolean)
+            .join(", ")
+        : "—";
+    return `${String(carrier).toUpperCase()} • ${service} • ${party(d?.from)} → ${party(d?.to)} • ${formatPieces(d?.pieces, units)}`;
   };
 
   return (
@@ -627,7 +704,7 @@ export default function AdminDashboard() {
 
           <ComponentCard
             title="Merge PDFs"
-            desc="Upload multiple PDFs to merge into one file. Downloaded as label-land-docs-{number}.pdf."
+            desc="Upload multiple PDFs to merge into one file, optionally with the label pages 2-up on Letter or A4 sheets. Downloaded as label-land-docs-{number}.pdf."
           >
             <div className="space-y-4">
               <div>
@@ -646,10 +723,25 @@ export default function AdminDashboard() {
                 <p className="text-sm text-gray-600 dark:text-gray-400">
                   {pdfMergeFiles.length} PDF(s) selected. Merged file will be named{" "}
                   <span className="font-medium text-gray-800 dark:text-white/90">
-                    label-land-docs-{pdfMergeFiles.length}.pdf
+                    {pdfMergeFileName(pdfMergeFiles.length, pdfMergeLayout)}
                   </span>
                 </p>
               )}
+              <div className="md:w-64">
+                <Label htmlFor="pdf-merge-layout">Layout</Label>
+                <select
+                  id="pdf-merge-layout"
+                  value={pdfMergeLayout}
+                  onChange={(e) => setPdfMergeLayout(e.target.value as LabelLayout)}
+                  className="h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 pr-11 text-sm shadow-theme-xs focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:focus:border-brand-800"
+                >
+                  {LABEL_LAYOUT_OPTIONS.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.value === "none" ? "Pages as they are" : o.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <div className="flex flex-wrap gap-2">
                 <Button
                   variant="primary"
@@ -713,6 +805,24 @@ export default function AdminDashboard() {
                           </TableCell>
                           <TableCell className="px-5 py-4 text-sm text-gray-700 dark:text-gray-300">
                             {labelSummary(l)}
+                            {l.orderId ? (
+                              <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                Order {l.orderId.slice(0, 8)}
+                              </div>
+                            ) : null}
+                            {returnOfLabelId(l) ? (
+                              <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                Return of label {returnOfLabelId(l)?.slice(0, 8)}
+                              </div>
+                            ) : null}
+                            {returnLabelIds(labels, l.id).length > 0 ? (
+                              <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                Return labels:{" "}
+                                {returnLabelIds(labels, l.id)
+                                  .map((r) => r.slice(0, 8))
+                                  .join(", ")}
+                              </div>
+                            ) : null}
                           </TableCell>
                           <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
                             {new Date(l.createdAt).toLocaleString()}
@@ -723,6 +833,16 @@ export default function AdminDashboard() {
                           <TableCell className="px-5 py-4 text-end">
                             {l.status === "pending" ? (
                               <div className="flex justify-end gap-2">
+                                {isDomestic(l) ? (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => void handleGenerate(l.id)}
+                                    disabled={generatingId !== null}
+                                  >
+                                    {generatingId === l.id ? "Generating…" : "Generate PDF"}
+                                  </Button>
+                                ) : null}
                                 <Button
                                   variant="primary"
                                   size="sm"
@@ -751,6 +871,10 @@ export default function AdminDashboard() {
             </div>
           </ComponentCard>
 
+          <CarrierCatalogAdmin />
+
+          <CoinbaseReconciliation />
+
           <ComponentCard
             id="account-products"
             title="Account market"
@@ -885,10 +1009,36 @@ export default function AdminDashboard() {
           Upload documents (Done)
         </h3>
         <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
-          Upload all files the user will download for this label.
+          {donePieceCount > 1
+            ? `This shipment has ${donePieceCount} packages: upload the label of each, plus any shared documents.`
+            : "Upload all files the user will download for this label."}
         </p>
+        {donePieceCount > 1
+          ? Array.from({ length: donePieceCount }, (_, i) => i + 1).map((n) => (
+              <div key={n} className="mt-4">
+                <Label htmlFor={`done-upload-piece-${n}`}>Package {n} label *</Label>
+                <input
+                  id={`done-upload-piece-${n}`}
+                  type="file"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    setDonePieceFiles((prev) => {
+                      const next = { ...prev };
+                      if (file) next[n] = file;
+                      else delete next[n];
+                      return next;
+                    });
+                  }}
+                  className="mt-2 block w-full cursor-pointer text-sm text-gray-600 dark:text-gray-400 file:mr-4 file:cursor-pointer file:rounded-lg file:border-0 file:bg-brand-500 file:px-4 file:py-2 file:text-sm file:font-medium file:text-white file:hover:bg-brand-600"
+                  accept="*/*"
+                />
+              </div>
+            ))
+          : null}
         <div className="mt-4">
-          <Label htmlFor="done-upload-files">Files</Label>
+          <Label htmlFor="done-upload-files">
+            {donePieceCount > 1 ? "Shared documents (optional)" : "Files"}
+          </Label>
           <input
             id="done-upload-files"
             ref={fileInputRef}
@@ -912,7 +1062,10 @@ export default function AdminDashboard() {
           <Button
             variant="primary"
             onClick={() => void handleDoneSubmit()}
-            disabled={uploading || doneModalFiles.length === 0}
+            disabled={
+              uploading ||
+              (donePieceCount > 1 ? donePiecesMissing.length > 0 : doneModalFiles.length === 0)
+            }
           >
             {uploading ? "Uploading…" : "Upload & mark done"}
           </Button>
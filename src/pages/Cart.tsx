@@ -3,13 +3,82 @@ import PageMeta from "../components/common/PageMeta";
 import PageBreadcrumb from "../components/common/PageBreadCrumb";
 import ComponentCard from "../components/common/ComponentCard";
 import Button from "../components/ui/button/Button";
+import PriceDiffNotice from "../components/cart/PriceDiffNotice";
+import {
+  applyPriceDiff,
+  cartTotalUsd,
+  fetchCartQuote,
+  readPriceMismatch,
+  type CartQuote,
+  type PriceMismatch,
+} from "../components/cart/pricing";
+import { contactLine } from "../components/labels/contact";
+import { describeShipmentQuote } from "../components/labels/quote";
+import { formatDimensions, formatPieces, formatWeight } from "../components/labels/units";
+import { usePreferences } from "../hooks/usePreferences";
+import {
+  customsFormType,
+  customsTotals,
+  firstLabelError,
+  validateLabelData,
+} from "../../shared/labelSchema.js";
+import {
+  CONTENTS_TYPE_LABELS,
+  describeCustomsLine,
+} from "../components/labels/customs";
 import { useCart } from "../context/CartContext";
 import { Link } from "react-router";
 
 export default function Cart() {
-  const { items, removeItem, clear, count } = useCart();
+  const { items, removeItem, replaceItems, clear, count } = useCart();
+  const { units } = usePreferences().preferences;
   const [isCheckingOut, setIsCheckingOut] = useState(false);
   const [checkoutError, setCheckoutError] = useState<string | null>(null);
+  const [priceMismatch, setPriceMismatch] = useState<PriceMismatch | null>(null);
+  const [liveQuote, setLiveQuote] = useState<CartQuote | null>(null);
+  const total = useMemo(() => cartTotalUsd(items), [items]);
+  // Label lines that fail the shared label schema (e.g. saved by an older
+  // version); checkout would refuse them.
+  const labelErrors = useMemo(() => {
+    const out: Record<string, string> = {};
+    for (const item of items) {
+      if (item.kind !== "label") continue;
+      const error = firstLabelError(validateLabelData(item));
+      if (error) out[item.id] = error;
+    }
+    return out;
+  }, [items]);
+  const hasLabelErrors = Object.keys(labelErrors).length > 0;
+
+  // Re-quote the cart on the server whenever it changes so stale or
+  // unshippable lines show up before checkout rather than as a 409.
+  useEffect(() => {
+    setLiveQuote(null);
+    if (items.length === 0) return;
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      fetchCartQuote(items, controller.signal)
+        .then((quote) => {
+          setLiveQuote(quote);
+          setPriceMismatch(
+            quote.diff.length > 0
+              ? {
+                  message: "Some prices have changed since these items were added.",
+                  diff: quote.diff,
+                  totalUsd: quote.totalUsd,
+                }
+              : null,
+          );
+        })
+        .catch(() => {
+          // Only a preview; checkout re-prices and reports any problem.
+        });
+    }, 400);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [items]);
 
   const token = useMemo(() => localStorage.getItem("auth.token") || "", []);
   const isAuthed = Boolean(token);
@@ -121,12 +190,17 @@ export default function Cart() {
     setCreditMessage(null);
     setCreditError(null);
     setEmailError(null);
+    setPriceMismatch(null);
     
     if (!isAuthed) {
       setCreditError("Please sign in to pay with credits.");
       return;
     }
     if (items.length === 0) return;
+    if (hasLabelErrors) {
+      setCheckoutError("Remove or recreate the labels marked invalid before paying.");
+      return;
+    }
 
     // Check if there are account items that require email
     const hasAccountItems = items.some((item) => item.kind === "account");
@@ -167,6 +241,12 @@ export default function Cart() {
       }
 
       if (!r.ok) {
+        const mismatch = readPriceMismatch(data);
+        if (mismatch) {
+          setPriceMismatch(mismatch);
+          setIsCheckingOut(false);
+          return;
+        }
         const msg =
           data && typeof data === "object" && "error" in data
             ? String((data as { error?: unknown }).error)
@@ -192,11 +272,21 @@ export default function Cart() {
   const handleCheckout = async () => {
     if (items.length === 0) return;
     setCheckoutError(null);
+    setPriceMismatch(null);
+    if (hasLabelErrors) {
+      setCheckoutError("Remove or recreate the labels marked invalid before paying.");
+      return;
+    }
     setIsCheckingOut(true);
     try {
+      // Send the token when signed in so the paid order is linked to the
+      // account and its labels show up under My Labels.
       const r = await fetch("/api/coinbase/create-charge", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
         body: JSON.stringify({ items }),
       });
 
@@ -210,6 +300,12 @@ export default function Cart() {
       }
 
       if (!r.ok) {
+        const mismatch = readPriceMismatch(data);
+        if (mismatch) {
+          setPriceMismatch(mismatch);
+          setIsCheckingOut(false);
+          return;
+        }
         const message =
           data && typeof data === "object" && "error" in data
             ? String((data as { error?: unknown }).error)
@@ -232,6 +328,12 @@ export default function Cart() {
     }
   };
 
+  const handleAcceptPrices = () => {
+    if (!priceMismatch) return;
+    replaceItems(applyPriceDiff(items, priceMismatch.diff));
+    setPriceMismatch(null);
+  };
+
   return (
     <div>
       <PageMeta title="Cart | Label Land" description="Your purchased labels cart." />
@@ -327,6 +429,13 @@ export default function Cart() {
                 {checkoutError}
               </div>
             ) : null}
+            {priceMismatch ? (
+              <PriceDiffNotice
+                mismatch={priceMismatch}
+                onAccept={handleAcceptPrices}
+                disabled={isCheckingOut}
+              />
+            ) : null}
 
             {/* Email input for account purchases */}
             {items.some((item) => item.kind === "account") && (
@@ -360,7 +469,12 @@ export default function Cart() {
               </div>
             )}
 
-            <div className="flex flex-col gap-3 sm:flex-row sm:justify-end">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-end">
+              {total !== null ? (
+                <div className="text-sm font-medium text-gray-800 dark:text-white/90 sm:mr-auto">
+                  Total: ${total.toFixed(2)}
+                </div>
+              ) : null}
               <Button
                 variant="outline"
                 onClick={handlePayWithCredits}
@@ -395,13 +509,38 @@ export default function Cart() {
                       {item.kind === "label" ? (
                         <div className="text-sm font-medium text-gray-800 dark:text-white/90">
                           {item.carrier.toUpperCase()} • {item.service} •{" "}
-                          {item.weightLbs} lbs
+                          {formatPieces(item.pieces, units)}
+                          {typeof item.priceUsd === "number"
+                            ? ` • $${item.priceUsd.toFixed(2)}`
+                            : ""}
                         </div>
                       ) : (
                         <div className="text-sm font-medium text-gray-800 dark:text-white/90">
                           {item.productName} • ${item.priceUsd.toFixed(2)}
                         </div>
                       )}
+                      {item.kind === "label" && item.returnOfLabelId ? (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          Return of label{" "}
+                          <Link
+                            to={`/labels/${encodeURIComponent(item.returnOfLabelId)}`}
+                            className="text-brand-500 hover:text-brand-600"
+                          >
+                            {item.returnOfLabelId.slice(0, 8)}
+                          </Link>
+                        </div>
+                      ) : null}
+                      {labelErrors[item.id] ? (
+                        <div className="text-xs text-error-700 dark:text-error-400">
+                          Invalid label: {labelErrors[item.id]}
+                        </div>
+                      ) : null}
+                      {item.kind === "label" && liveQuote?.labelQuotes[item.id] ? (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          Live quote: ${liveQuote.labelQuotes[item.id].priceUsd.toFixed(2)} •{" "}
+                          {describeShipmentQuote(liveQuote.labelQuotes[item.id], units)}
+                        </div>
+                      ) : null}
                       <div className="text-xs text-gray-500 dark:text-gray-400">
                         Added: {new Date(item.createdAt).toLocaleString()}
                       </div>
@@ -412,37 +551,40 @@ export default function Cart() {
                               From
                             </div>
                             <div>{item.from.name}</div>
+                            {item.from.company ? <div>{item.from.company}</div> : null}
                             <div>{item.from.address1}</div>
+                            {item.from.address2 ? <div>{item.from.address2}</div> : null}
                              <div>
                                 {item.from.city}, {item.from.state} {item.from.zip}
                               </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400">
                                 {item.from.country}
                               </div>
-                              <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-                                Dims: {item.dimensionsIn.length}×{item.dimensionsIn.width}×
-                                {item.dimensionsIn.height} in
-                              </div>
-                              {item.declarationItem ? (
-                                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                                  Item: {item.declarationItem}
-                                </div>
-                              ) : null}
-                              {typeof item.declarationQuantity === "number" &&
-                              item.declarationQuantity > 0 ? (
-                                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                                  Qty: {item.declarationQuantity}
+                              {contactLine(item.from) ? (
+                                <div className="text-xs text-gray-500 dark:text-gray-400">
+                                  {contactLine(item.from)}
                                 </div>
                               ) : null}
-                              {typeof item.declaredValueUsd === "number" &&
-                              item.declaredValueUsd > 0 ? (
-                                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                                  Value: ${item.declaredValueUsd.toFixed(2)}
-                                </div>
-                              ) : null}
-                              {item.hsCode ? (
+                              <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                                {item.pieces.length === 1
+                                  ? `Dims: ${formatDimensions(item.pieces[0], units)}`
+                                  : item.pieces.map((p, i) => (
+                                      <div key={i}>
+                                        Package {i + 1}: {formatWeight(p, units)} •{" "}
+                                        {formatDimensions(p, units)}
+                                      </div>
+                                    ))}
+                              </div>
+                              {item.customs && item.customs.lines.length > 0 ? (
                                 <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                                  HS: {item.hsCode}
+                                  <div>
+                                    Customs ({customsFormType(item)},{" "}
+                                    {CONTENTS_TYPE_LABELS[item.customs.contentsType]}): $
+                                    {customsTotals(item.customs).valueUsd.toFixed(2)}
+                                  </div>
+                                  {item.customs.lines.map((line, i) => (
+                                    <div key={i}>{describeCustomsLine(line)}</div>
+                                  ))}
                                 </div>
                               ) : null}
                             </div>
@@ -451,13 +593,20 @@ export default function Cart() {
                                 To
                               </div>
                               <div>{item.to.name}</div>
+                              {item.to.company ? <div>{item.to.company}</div> : null}
                               <div>{item.to.address1}</div>
+                              {item.to.address2 ? <div>{item.to.address2}</div> : null}
                               <div>
                                 {item.to.city}, {item.to.state} {item.to.zip}
                               </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400">
                                 {item.to.country}
                               </div>
+                              {contactLine(item.to) ? (
+                                <div className="text-xs text-gray-500 dark:text-gray-400">
+                                  {contactLine(item.to)}
+                                </div>
+                              ) : null}
                             </div>
                         </div>
                       ) : (
@@ -474,7 +623,15 @@ export default function Cart() {
                       )}
                     </div>
 
-                    <div className="flex shrink-0 justify-end">
+                    <div className="flex shrink-0 justify-end gap-2">
+                      {item.kind === "label" ? (
+                        <Link
+                          to={`/create-label?copyItem=${encodeURIComponent(item.id)}`}
+                          className="inline-flex items-center justify-center rounded-lg bg-white px-5 py-3.5 text-sm text-gray-700 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.03] dark:hover:text-gray-300"
+                        >
+                          Duplicate
+                        </Link>
+                      ) : null}
                       <Button
                         variant="outline"
                         onClick={() => removeItem(item.id)}
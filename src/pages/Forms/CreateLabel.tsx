@@ -1,839 +1,1292 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { useLocation } from "react-router";
+import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router";
 import PageMeta from "../../components/common/PageMeta";
 import PageBreadcrumb from "../../components/common/PageBreadCrumb";
 import ComponentCard from "../../components/common/ComponentCard";
 import Label from "../../components/form/Label";
 import Input from "../../components/form/input/InputField";
-import TextArea from "../../components/form/input/TextArea";
 import Button from "../../components/ui/button/Button";
+import AddressFields from "../../components/labels/AddressFields";
+import AddressBookPicker from "../../components/labels/AddressBookPicker";
+import { toCartAddress, useAddressBook } from "../../components/labels/addressBook";
+import HsCodeInput from "../../components/labels/HsCodeInput";
 import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHeader,
-  TableRow,
-} from "../../components/ui/table";
-import { Modal } from "../../components/ui/modal";
-
-type BlogPost = {
-  id: string;
-  title: string;
-  content: string;
-  createdAt: string;
-  updatedAt: string;
+  describePreset,
+  presetInUnits,
+  usePackagePresets,
+  type PackagePreset,
+} from "../../components/labels/packagePresets";
+import { cleanPhone, contactLine } from "../../components/labels/contact";
+import { fetchLabel, labelSummary } from "../../components/labels/api";
+import { labelFieldsOf, newCartItemId, type CartLabelFields } from "../../components/cart/items";
+import {
+  fetchCarrierCatalog,
+  findService,
+  startingPriceUsd,
+  type Carrier,
+} from "../../components/labels/catalog";
+import {
+  CONTENTS_TYPE_LABELS,
+  describeCustomsLine,
+} from "../../components/labels/customs";
+import { normalizeHsCode, useHsCodeLookups } from "../../components/labels/hsCodes";
+import {
+  describeShipmentQuote,
+  useRateQuote,
+  type ShipmentQuote,
+} from "../../components/labels/quote";
+import {
+  UNIT_OPTIONS,
+  displayDimensions,
+  displayWeight,
+  fromIn,
+  fromLbs,
+  lengthUnit,
+  toIn,
+  toLbs,
+  weightUnit,
+  type UnitSystem,
+} from "../../components/labels/units";
+import { usePreferences } from "../../hooks/usePreferences";
+import {
+  CONTENTS_TYPES,
+  LABEL_LIMITS,
+  LABEL_SCHEMA_VERSION,
+  customsFormType,
+  customsTotals,
+  shipmentWeightLbs,
+  validateLabelSection,
+  type ContentsType,
+  type LabelFieldErrors,
+  type LabelSection,
+  type LabelValidationOptions,
+} from "../../../shared/labelSchema.js";
+import { COUNTRY_OPTIONS } from "../../constants/countries";
+import {
+  useCart,
+  type CartAddress,
+  type CartLabelItem,
+} from "../../context/CartContext";
+
+type LabelDraft = {
+  carrier: string;
+  service: string;
+  from: CartAddress;
+  to: CartAddress;
+  // Weights and dimensions in `units` (kg/cm or lbs/in), as typed.
+  units: UnitSystem;
+  pieces: PieceDraft[];
+  contentsType: ContentsType;
+  customsLines: CustomsLineDraft[];
+  // Set when this is a return label: the id of the label sent back.
+  returnOfLabelId: string | null;
 };
 
-type AdminLabel = {
-  id: string;
-  userId: string;
-  username?: string;
-  status: "pending" | "done" | "cancelled";
-  declineReason?: string | null;
-  labelData: Record<string, unknown>;
-  files: { filename: string; originalName?: string }[];
-  createdAt: string;
-  updatedAt: string;
+// One package as typed, in the draft's `units`.
+type PieceDraft = {
+  weight: string;
+  length: string;
+  width: string;
+  height: string;
 };
 
-type AccountProduct = {
-  id: string;
-  service: string;
-  informations: string;
-  country: string;
-  priceUsd: number;
-  createdAt: string;
-  updatedAt: string;
+// One customs line as typed; weight is in the draft's `units`.
+type CustomsLineDraft = {
+  description: string;
+  quantity: string;
+  unitValue: string;
+  weight: string;
+  hsCode: string;
+  originCountry: string;
 };
 
-const getToken = () => localStorage.getItem("auth.token") || "";
+type DraftErrors = Record<string, string>;
 
-const getUser = () => {
-  try {
-    const raw = localStorage.getItem("auth.user");
-    return raw ? (JSON.parse(raw) as { isAdmin?: boolean }) : null;
-  } catch {
-    return null;
-  }
+const STEPS = [
+  { key: "service", title: "Carrier & service" },
+  { key: "addresses", title: "Addresses" },
+  { key: "package", title: "Package" },
+  { key: "customs", title: "Customs" },
+  { key: "review", title: "Review" },
+] as const;
+
+type StepKey = (typeof STEPS)[number]["key"];
+
+// Fallback limits for services that do not set their own.
+const MAX_WEIGHT_LBS = LABEL_LIMITS.maxWeightLbs;
+const MAX_DIMENSION_IN = LABEL_LIMITS.maxDimensionIn;
+
+const emptyAddress = (): CartAddress => ({
+  name: "",
+  company: "",
+  address1: "",
+  address2: "",
+  city: "",
+  state: "",
+  zip: "",
+  country: "US",
+  phone: "",
+  email: "",
+});
+
+const emptyPiece = (): PieceDraft => ({ weight: "", length: "", width: "", height: "" });
+
+const emptyCustomsLine = (originCountry: string): CustomsLineDraft => ({
+  description: "",
+  quantity: "1",
+  unitValue: "",
+  weight: "",
+  hsCode: "",
+  originCountry,
+});
+
+const emptyDraft = (units: UnitSystem = "imperial"): LabelDraft => ({
+  carrier: "",
+  service: "",
+  from: emptyAddress(),
+  to: emptyAddress(),
+  units,
+  pieces: [emptyPiece()],
+  contentsType: "merchandise",
+  customsLines: [emptyCustomsLine("US")],
+  returnOfLabelId: null,
+});
+
+// A draft of what saved label data describes, in the units its first
+// package was entered in.
+const draftFromLabel = (d: CartLabelFields, fallbackUnits: UnitSystem): LabelDraft => {
+  const pieces = d.pieces;
+  const units = pieces[0]?.entered?.units ?? fallbackUnits;
+  const str = (n: number | null | undefined) => (typeof n === "number" ? String(n) : "");
+  return {
+    ...emptyDraft(units),
+    carrier: d.carrier,
+    service: d.service,
+    from: { ...emptyAddress(), ...d.from },
+    to: { ...emptyAddress(), ...d.to },
+    pieces:
+      pieces.length > 0
+        ? pieces.map((p) => {
+            const dims = displayDimensions(p, units);
+            return {
+              weight: str(displayWeight(p, units)),
+              length: str(dims?.length),
+              width: str(dims?.width),
+              height: str(dims?.height),
+            };
+          })
+        : [emptyPiece()],
+    ...(d.customs
+      ? {
+          contentsType: d.customs.contentsType,
+          customsLines: d.customs.lines.map((line) => ({
+            description: line.description,
+            quantity: String(line.quantity),
+            unitValue: String(line.unitValueUsd),
+            weight: String(fromLbs(line.weightLbs, units)),
+            hsCode: line.hsCode,
+            originCountry: line.originCountry,
+          })),
+        }
+      : { customsLines: [emptyCustomsLine(d.from?.country ?? "US")] }),
+  };
 };
 
-export default function AdminDashboard() {
-  const token = useMemo(() => getToken(), []);
-  const user = useMemo(() => getUser(), []);
-  const isAuthed = Boolean(token);
-  const isAdmin = Boolean(user?.isAdmin);
-  const location = useLocation();
-
-  const [error, setError] = useState<string | null>(null);
-  const [info, setInfo] = useState<string | null>(null);
-  const [posts, setPosts] = useState<BlogPost[]>([]);
-  const [labels, setLabels] = useState<AdminLabel[]>([]);
-  const [accountProducts, setAccountProducts] = useState<AccountProduct[]>([]);
-
-  const [title, setTitle] = useState("");
-  const [content, setContent] = useState("");
-  const [editingId, setEditingId] = useState<string | null>(null);
-
-  const [productService, setProductService] = useState("");
-  const [productInformations, setProductInformations] = useState("");
-  const [productCountry, setProductCountry] = useState("");
-  const [productPriceUsd, setProductPriceUsd] = useState("");
-
-  const [doneModal, setDoneModal] = useState<{ open: boolean; labelId: string | null }>({
-    open: false,
-    labelId: null,
-  });
-  const [declineModal, setDeclineModal] = useState<{
-    open: boolean;
-    labelId: string | null;
-    reason: string;
-  }>({ open: false, labelId: null, reason: "" });
-  const [uploading, setUploading] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement | null>(null);
-
-  const authedFetch = async (url: string, init?: RequestInit) => {
-    const r = await fetch(url, {
-      ...init,
-      headers: {
-        ...(init?.headers || {}),
-        Authorization: `Bearer ${token}`,
-      },
-    });
-    const raw = await r.text();
-    let data: unknown = null;
-    try {
-      data = raw ? JSON.parse(raw) : null;
-    } catch {
-      data = null;
-    }
-    if (!r.ok) {
-      const msg =
-        data && typeof data === "object" && "error" in data
-          ? String((data as { error?: unknown }).error)
-          : raw || `Request failed (HTTP ${r.status}).`;
-      throw new Error(msg);
-    }
-    return data;
+// The return of a label: the same packages and contents going back from the
+// recipient to the sender.
+const returnDraft = (
+  labelId: string,
+  d: CartLabelFields,
+  fallbackUnits: UnitSystem,
+): LabelDraft => {
+  const draft = draftFromLabel(d, fallbackUnits);
+  return {
+    ...draft,
+    from: draft.to,
+    to: draft.from,
+    contentsType: "returned_goods",
+    returnOfLabelId: labelId,
   };
+};
 
-  const refresh = async () => {
-    setError(null);
-    setInfo(null);
-    if (!isAuthed) return;
-    try {
-      const resp = (await authedFetch("/api/admin/blog")) as { posts?: BlogPost[] };
-      setPosts(Array.isArray(resp.posts) ? resp.posts : []);
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to load blog.");
-    }
+const isInternational = (d: LabelDraft) => d.from.country !== d.to.country;
+
+const countryLabel = (code: string) =>
+  COUNTRY_OPTIONS.find((c) => c.value === code)?.label ?? code;
+
+const trimAddress = (a: CartAddress): CartAddress => ({
+  name: a.name.trim(),
+  company: a.company.trim(),
+  address1: a.address1.trim(),
+  address2: a.address2.trim(),
+  city: a.city.trim(),
+  state: a.state.trim(),
+  zip: a.zip.trim(),
+  country: a.country,
+  phone: cleanPhone(a.phone),
+  email: a.email.trim(),
+});
+
+// The draft as label data (numbers parsed, canonical units), without the
+// cart-only fields.
+const labelFields = (
+  d: LabelDraft,
+): Omit<CartLabelItem, "id" | "createdAt" | "kind" | "priceUsd"> => {
+  const international = isInternational(d);
+  return {
+    schemaVersion: LABEL_SCHEMA_VERSION,
+    carrier: d.carrier,
+    service: d.service,
+    customs: international
+      ? {
+          contentsType: d.contentsType,
+          lines: d.customsLines.map((line) => ({
+            description: line.description.trim(),
+            quantity: Number(line.quantity),
+            unitValueUsd: Number(Number(line.unitValue).toFixed(2)),
+            weightLbs: toLbs(Number(line.weight), d.units),
+            hsCode: line.hsCode.replace(/[.\s]/g, ""),
+            originCountry: line.originCountry,
+          })),
+        }
+      : null,
+    pieces: d.pieces.map((p) => ({
+      weightLbs: toLbs(Number(p.weight), d.units),
+      dimensionsIn: {
+        length: toIn(Number(p.length), d.units),
+        width: toIn(Number(p.width), d.units),
+        height: toIn(Number(p.height), d.units),
+      },
+      entered: {
+        units: d.units,
+        weight: Number(p.weight),
+        dimensions: {
+          length: Number(p.length),
+          width: Number(p.width),
+          height: Number(p.height),
+        },
+      },
+    })),
+    from: trimAddress(d.from),
+    to: trimAddress(d.to),
+    ...(d.returnOfLabelId ? { returnOfLabelId: d.returnOfLabelId } : {}),
   };
+};
 
-  const refreshLabels = useCallback(async () => {
-    if (!isAuthed || !token) return;
-    try {
-      const r = await fetch("/api/admin/labels", {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      const raw = await r.text();
-      let data: unknown = null;
-      try {
-        data = raw ? JSON.parse(raw) : null;
-      } catch {
-        data = null;
-      }
-      if (!r.ok) {
-        const msg =
-          data && typeof data === "object" && "error" in data
-            ? String((data as { error?: unknown }).error)
-            : `Request failed (HTTP ${r.status}).`;
-        throw new Error(msg);
-      }
-      const resp = data as { labels?: AdminLabel[] };
-      setLabels(Array.isArray(resp.labels) ? resp.labels : []);
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to load labels.");
+const buildItem = (d: LabelDraft, priceUsd: number | null): CartLabelItem => ({
+  id: newCartItemId(),
+  createdAt: new Date().toISOString(),
+  kind: "label",
+  ...labelFields(d),
+  ...(priceUsd !== null ? { priceUsd } : {}),
+});
+
+const QuoteLine: React.FC<{
+  loading: boolean;
+  quote: ShipmentQuote | null;
+  problem: string | null;
+  units: UnitSystem;
+}> = ({ loading, quote, problem, units }) => {
+  if (problem) {
+    return (
+      <div className="mt-4 rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
+        {problem}
+      </div>
+    );
+  }
+  if (loading) {
+    return (
+      <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">Getting a quote…</p>
+    );
+  }
+  if (!quote) return null;
+  return (
+    <div className="mt-4 text-sm text-gray-700 dark:text-gray-300">
+      <span className="font-medium">Quote: ${quote.priceUsd.toFixed(2)}</span>
+      <span className="text-gray-500 dark:text-gray-400">
+        {" "}
+        • {describeShipmentQuote(quote, units)}
+      </span>
+    </div>
+  );
+};
+
+// Each wizard step checks one section of the shared label schema, the same
+// rules POST /api/labels and checkout apply.
+const STEP_SECTIONS: Partial<Record<StepKey, LabelSection>> = {
+  service: "service",
+  addresses: "addresses",
+  package: "parcel",
+  customs: "customs",
+};
+
+// Schema field paths that map to a differently named draft input.
+const DRAFT_FIELDS: Record<string, string> = {
+  "customs.contentsType": "contentsType",
+  "customs.lines": "customsLines",
+};
+
+const PIECE_FIELDS: Record<string, keyof PieceDraft> = {
+  weightLbs: "weight",
+  "entered.units": "weight",
+  "dimensionsIn.length": "length",
+  "dimensionsIn.width": "width",
+  "dimensionsIn.height": "height",
+};
+
+const CUSTOMS_LINE_FIELDS: Record<string, keyof CustomsLineDraft> = {
+  unitValueUsd: "unitValue",
+  weightLbs: "weight",
+};
+
+// "customs.lines.2.weightLbs" -> "customsLines.2.weight",
+// "pieces.1.dimensionsIn.width" -> "pieces.1.width"
+const draftField = (key: string) => {
+  const piece = /^pieces\.(\d+)\.(.+)$/.exec(key);
+  if (piece) return `pieces.${piece[1]}.${PIECE_FIELDS[piece[2]] ?? piece[2]}`;
+  const line = /^customs\.lines\.(\d+)\.(\w+)$/.exec(key);
+  if (line) return `customsLines.${line[1]}.${CUSTOMS_LINE_FIELDS[line[2]] ?? line[2]}`;
+  return DRAFT_FIELDS[key] ?? key;
+};
+
+const toDraftErrors = (errors: LabelFieldErrors): DraftErrors =>
+  Object.fromEntries(Object.entries(errors).map(([k, v]) => [draftField(k), v]));
+
+const validateStep = (
+  step: StepKey,
+  d: LabelDraft,
+  options: LabelValidationOptions,
+): DraftErrors => {
+  const section = STEP_SECTIONS[step];
+  return section
+    ? toDraftErrors(validateLabelSection(section, labelFields(d), options))
+    : {};
+};
+
+const validateAll = (d: LabelDraft, options: LabelValidationOptions): DraftErrors =>
+  STEPS.reduce<DraftErrors>(
+    (acc, s) => ({ ...acc, ...validateStep(s.key, d, options) }),
+    {},
+  );
+
+const addressErrors = (errors: DraftErrors, prefix: "from" | "to") => {
+  const out: Partial<Record<keyof CartAddress, string>> = {};
+  for (const [k, v] of Object.entries(errors)) {
+    if (k.startsWith(`${prefix}.`)) {
+      out[k.slice(prefix.length + 1) as keyof CartAddress] = v;
     }
-  }, [isAuthed, token]);
+  }
+  return out;
+};
+
+export default function CreateLabel() {
+  const { addItem, items } = useCart();
+  const { preferences, setPreference } = usePreferences();
+  const [draft, setDraft] = useState<LabelDraft>(() => emptyDraft(preferences.units));
+  const [stepIndex, setStepIndex] = useState(0);
+  const [errors, setErrors] = useState<DraftErrors>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [catalog, setCatalog] = useState<Carrier[]>([]);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+  const addressBook = useAddressBook();
+  const defaultSender = addressBook.addresses.find((a) => a.isDefaultSender);
+  const { presets } = usePackagePresets();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const returnOf = searchParams.get("returnOf");
+  const copyOf = searchParams.get("copyOf");
+  const copyItem = searchParams.get("copyItem");
+  // The label or cart item the draft was filled in from.
+  const [source, setSource] = useState<{
+    kind: "return" | "copy";
+    labelId: string | null;
+    summary: string;
+  } | null>(null);
+  const [sourceError, setSourceError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (isAuthed && isAdmin) void refresh();
-  }, [isAuthed, isAdmin]);
+    fetchCarrierCatalog()
+      .then(setCatalog)
+      .catch((e) =>
+        setCatalogError(e instanceof Error ? e.message : "Failed to load carriers."),
+      );
+  }, []);
+
+  const fillFrom = (next: LabelDraft, from: NonNullable<typeof source>) => {
+    setDraft(next);
+    setSource(from);
+    setStepIndex(0);
+    setErrors({});
+  };
 
+  // "Create return label" links here with ?returnOf=<label id>, "Ship again"
+  // with ?copyOf=<label id>.
+  const sourceLabelId = returnOf ?? copyOf;
   useEffect(() => {
-    if (isAuthed && isAdmin) void refreshLabels();
-  }, [isAuthed, isAdmin, refreshLabels]);
+    if (!sourceLabelId) return;
+    let cancelled = false;
+    setSourceError(null);
+    fetchLabel(sourceLabelId)
+      .then((label) => {
+        if (cancelled) return;
+        if (!label) {
+          setSourceError("Label not found.");
+          return;
+        }
+        if (returnOf && label.status !== "done") {
+          setSourceError("Only completed labels can be returned.");
+          return;
+        }
+        const fields = labelFieldsOf(label.labelData);
+        fillFrom(
+          returnOf
+            ? returnDraft(label.id, fields, preferences.units)
+            : draftFromLabel(fields, preferences.units),
+          { kind: returnOf ? "return" : "copy", labelId: label.id, summary: labelSummary(label) },
+        );
+      })
+      .catch((e) => {
+        if (!cancelled) {
+          setSourceError(e instanceof Error ? e.message : "Failed to load the label.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Only when the link changes; the preference is just a fallback.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sourceLabelId]);
 
+  // "Duplicate" in the cart links here with ?copyItem=<cart item id>.
   useEffect(() => {
-    if (location.hash === "#account-products") {
-      const el = document.getElementById("account-products");
-      el?.scrollIntoView({ behavior: "smooth" });
-    }
-  }, [location.hash]);
-
-  const refreshAccountProducts = useCallback(async () => {
-    if (!isAuthed || !token) return;
-    try {
-      const r = await fetch("/api/account-products");
-      const raw = await r.text();
-      let data: unknown = null;
-      try {
-        data = raw ? JSON.parse(raw) : null;
-      } catch {
-        data = null;
-      }
-      if (!r.ok) {
-        const msg =
-          data && typeof data === "object" && "error" in data
-            ? String((data as { error?: unknown }).error)
-            : `Request failed (HTTP ${r.status}).`;
-        throw new Error(msg);
-      }
-      const resp = data as { products?: AccountProduct[] };
-      setAccountProducts(Array.isArray(resp.products) ? resp.products : []);
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to load account products.");
+    if (!copyItem) return;
+    const item = items.find((it) => it.id === copyItem);
+    if (!item || item.kind !== "label") {
+      setSourceError("That label is no longer in your cart.");
+      return;
     }
-  }, [isAuthed, token]);
+    setSourceError(null);
+    fillFrom(draftFromLabel(labelFieldsOf(item), preferences.units), {
+      kind: "copy",
+      labelId: null,
+      summary: labelSummary({ labelData: item }),
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [copyItem]);
 
+  // Start from the default sender once the address book has loaded, unless
+  // a sender has been typed already.
   useEffect(() => {
-    if (isAuthed && isAdmin) void refreshAccountProducts();
-  }, [isAuthed, isAdmin, refreshAccountProducts]);
-
-  const resetProductForm = () => {
-    setProductService("");
-    setProductInformations("");
-    setProductCountry("");
-    setProductPriceUsd("");
+    if (!defaultSender) return;
+    setDraft((prev) =>
+      prev.from.name.trim() || prev.from.address1.trim()
+        ? prev
+        : { ...prev, from: toCartAddress(defaultSender) },
+    );
+  }, [defaultSender]);
+
+  const step = STEPS[stepIndex].key;
+  // Codes are looked up as they are typed; one that is known not to exist
+  // fails validation, one not looked up yet is left to the server.
+  const hsLookups = useHsCodeLookups(draft.customsLines.map((l) => l.hsCode));
+  const validation: LabelValidationOptions = {
+    catalog,
+    hsCodeExists: (code) => hsLookups[normalizeHsCode(code)] !== null,
   };
+  const international = isInternational(draft);
+  const carrier = useMemo(
+    () => catalog.find((c) => c.id === draft.carrier) ?? null,
+    [catalog, draft.carrier],
+  );
+  const service = findService(catalog, draft.carrier, draft.service);
+  const fields = labelFields(draft);
+  // Live quote once the service and package are filled in. Only a quote; the
+  // server re-prices the cart at checkout.
+  const packageReady =
+    Boolean(service) &&
+    Object.keys(validateStep("package", draft, validation)).length === 0;
+  const rate = useRateQuote(
+    packageReady
+      ? {
+          carrier: draft.carrier,
+          service: draft.service,
+          pieces: fields.pieces.map((p) => ({
+            weightLbs: p.weightLbs,
+            dimensionsIn: p.dimensionsIn,
+          })),
+          from: { zip: draft.from.zip.trim(), country: draft.from.country },
+          to: { zip: draft.to.zip.trim(), country: draft.to.country },
+        }
+      : null,
+  );
+  const quote = rate.quote && rate.quote.priceUsd !== undefined ? rate.quote : null;
+  const quoteProblem =
+    rate.quote && rate.quote.priceUsd === undefined
+      ? rate.quote.detail || "This service cannot ship this shipment."
+      : rate.error;
+  const priceUsd = quote ? quote.priceUsd : null;
+  const customs = fields.customs ?? null;
+  const customsSummary = customs ? customsTotals(customs) : null;
+  const customsForm = customs ? customsFormType(fields) : null;
 
-  const handleCreateProduct = async () => {
-    setError(null);
-    setInfo(null);
-    const service = productService.trim();
-    const country = productCountry.trim();
-    const priceUsd = Number(productPriceUsd);
+  const update = <K extends keyof LabelDraft>(field: K, v: LabelDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [field]: v }));
+    setMessage(null);
+  };
 
-    if (!service) {
-      setError("Service is required.");
-      return;
-    }
-    if (!country) {
-      setError("Country is required.");
-      return;
-    }
-    if (!Number.isFinite(priceUsd) || priceUsd <= 0) {
-      setError("Valid price is required.");
-      return;
+  const goTo = (index: number) => {
+    // Only allow jumping forward once every step before the target is valid.
+    for (let i = 0; i < index; i++) {
+      const errs = validateStep(STEPS[i].key, draft, validation);
+      if (Object.keys(errs).length > 0) {
+        setErrors(errs);
+        setStepIndex(i);
+        return;
+      }
     }
+    setErrors({});
+    setStepIndex(index);
+  };
 
-    try {
-      await authedFetch("/api/admin/account-products", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          service,
-          informations: productInformations.trim(),
-          country,
-          priceUsd,
-        }),
-      });
-      setInfo("Account product created.");
-      resetProductForm();
-      await refreshAccountProducts();
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to create product.");
-    }
+  const updateCustomsLine = (
+    index: number,
+    field: keyof CustomsLineDraft,
+    v: string,
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      customsLines: prev.customsLines.map((line, i) =>
+        i === index ? { ...line, [field]: v } : line,
+      ),
+    }));
+    setMessage(null);
   };
 
-  const handleDeleteProduct = async (id: string) => {
-    setError(null);
-    setInfo(null);
-    try {
-      await authedFetch(`/api/admin/account-products/${encodeURIComponent(id)}`, {
-        method: "DELETE",
-      });
-      setInfo("Product deleted.");
-      await refreshAccountProducts();
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to delete product.");
-    }
+  const addCustomsLine = () =>
+    setDraft((prev) => ({
+      ...prev,
+      customsLines: [...prev.customsLines, emptyCustomsLine(prev.from.country)],
+    }));
+
+  const removeCustomsLine = (index: number) => {
+    setDraft((prev) => ({
+      ...prev,
+      customsLines: prev.customsLines.filter((_, i) => i !== index),
+    }));
+    setErrors({});
   };
 
-  const resetForm = () => {
-    setTitle("");
-    setContent("");
-    setEditingId(null);
+  // Switch the package inputs to another unit system, converting whatever has
+  // been typed so far, and remember the choice.
+  const changeUnits = (units: UnitSystem) => {
+    if (units === draft.units) return;
+    const convert = (raw: string, toCanonical: typeof toLbs, fromCanonical: typeof fromLbs) => {
+      const n = Number(raw);
+      return raw.trim() && Number.isFinite(n)
+        ? String(fromCanonical(toCanonical(n, draft.units), units))
+        : raw;
+    };
+    setDraft((prev) => ({
+      ...prev,
+      units,
+      pieces: prev.pieces.map((p) => ({
+        weight: convert(p.weight, toLbs, fromLbs),
+        length: convert(p.length, toIn, fromIn),
+        width: convert(p.width, toIn, fromIn),
+        height: convert(p.height, toIn, fromIn),
+      })),
+      customsLines: prev.customsLines.map((line) => ({
+        ...line,
+        weight: convert(line.weight, toLbs, fromLbs),
+      })),
+    }));
+    setPreference("units", units);
+    setErrors({});
   };
 
-  const handleCreate = async () => {
-    setError(null);
-    setInfo(null);
-    const t = title.trim();
-    if (!t) {
-      setError("Title is required.");
-      return;
-    }
-    try {
-      await authedFetch("/api/admin/blog", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title: t, content: content.trim() }),
-      });
-      setInfo("Post created.");
-      resetForm();
-      await refresh();
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to create post.");
-    }
+  const updatePiece = (index: number, field: keyof PieceDraft, v: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      pieces: prev.pieces.map((p, i) => (i === index ? { ...p, [field]: v } : p)),
+    }));
+    setMessage(null);
   };
 
-  const handleEdit = (post: BlogPost) => {
-    setTitle(post.title);
-    setContent(post.content);
-    setEditingId(post.id);
-    setError(null);
-    setInfo(null);
+  // A new package starts as a copy of the last one; most multi-piece
+  // shipments are several of the same box.
+  const addPiece = () =>
+    setDraft((prev) => ({
+      ...prev,
+      pieces: [...prev.pieces, { ...(prev.pieces[prev.pieces.length - 1] ?? emptyPiece()) }],
+    }));
+
+  const removePiece = (index: number) => {
+    setDraft((prev) => ({
+      ...prev,
+      pieces: prev.pieces.filter((_, i) => i !== index),
+    }));
+    setErrors({});
   };
 
-  const handleUpdate = async () => {
-    setError(null);
-    setInfo(null);
-    if (!editingId) return;
-    const t = title.trim();
-    if (!t) {
-      setError("Title is required.");
-      return;
-    }
-    try {
-      await authedFetch(`/api/admin/blog/${encodeURIComponent(editingId)}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title: t, content: content.trim() }),
-      });
-      setInfo("Post updated.");
-      resetForm();
-      await refresh();
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to update post.");
-    }
+  // Fill one package from a preset, in the draft's units. The preset's
+  // contents description goes to the first customs line if it is empty.
+  const applyPreset = (index: number, preset: PackagePreset) => {
+    const size = presetInUnits(preset, draft.units);
+    setDraft((prev) => ({
+      ...prev,
+      pieces: prev.pieces.map((p, i) =>
+        i === index
+          ? {
+              length: size.length,
+              width: size.width,
+              height: size.height,
+              weight: size.weight || p.weight,
+            }
+          : p,
+      ),
+      customsLines:
+        preset.contentsDescription && !prev.customsLines[0]?.description.trim()
+          ? prev.customsLines.map((line, i) =>
+              i === 0 ? { ...line, description: preset.contentsDescription } : line,
+            )
+          : prev.customsLines,
+    }));
+    setErrors({});
+    setMessage(null);
   };
 
-  const handleDelete = async (id: string) => {
-    setError(null);
-    setInfo(null);
-    try {
-      await authedFetch(`/api/admin/blog/${encodeURIComponent(id)}`, {
-        method: "DELETE",
-      });
-      setInfo("Post deleted.");
-      if (editingId === id) resetForm();
-      await refresh();
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to delete post.");
+  const handleNext = () => {
+    const errs = validateStep(step, draft, validation);
+    if (step === "package" && rate.quote && rate.quote.priceUsd === undefined) {
+      errs.pieces = `${rate.quote.detail || "Cannot ship this shipment."} Pick another service or change the packages.`;
     }
+    setErrors(errs);
+    if (Object.keys(errs).length > 0) return;
+    setStepIndex((i) => Math.min(i + 1, STEPS.length - 1));
   };
 
-  const openDoneModal = (labelId: string) => {
-    setDoneModal({ open: true, labelId });
-    setError(null);
-    setInfo(null);
-    if (fileInputRef.current) fileInputRef.current.value = "";
-  };
-  const closeDoneModal = () => setDoneModal({ open: false, labelId: null });
-  const openDeclineModal = (labelId: string) => {
-    setDeclineModal({ open: true, labelId, reason: "" });
-    setError(null);
-    setInfo(null);
-  };
-  const closeDeclineModal = () =>
-    setDeclineModal({ open: false, labelId: null, reason: "" });
-
-  const handleDoneSubmit = async () => {
-    const labelId = doneModal.labelId;
-    if (!labelId || !token) return;
-    const files = fileInputRef.current?.files;
-    if (!files || files.length === 0) {
-      setError("Select at least one file to upload.");
-      return;
-    }
-    setError(null);
-    setInfo(null);
-    setUploading(true);
-    try {
-      const form = new FormData();
-      for (let i = 0; i < files.length; i++) {
-        form.append("files", files[i]);
-      }
-      const r = await fetch(`/api/admin/labels/${encodeURIComponent(labelId)}/done`, {
-        method: "POST",
-        headers: { Authorization: `Bearer ${token}` },
-        body: form,
-      });
-      const raw = await r.text();
-      let data: unknown = null;
-      try {
-        data = raw ? JSON.parse(raw) : null;
-      } catch {
-        data = null;
-      }
-      if (!r.ok) {
-        const msg =
-          data && typeof data === "object" && "error" in data
-            ? String((data as { error?: unknown }).error)
-            : `Upload failed (HTTP ${r.status}).`;
-        throw new Error(msg);
-      }
-      setInfo("Label marked as done. Files uploaded.");
-      closeDoneModal();
-      await refreshLabels();
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Upload failed.");
-    } finally {
-      setUploading(false);
-    }
+  const handleBack = () => {
+    setErrors({});
+    setStepIndex((i) => Math.max(i - 1, 0));
   };
 
-  const handleDeclineSubmit = async () => {
-    const labelId = declineModal.labelId;
-    const reason = declineModal.reason.trim();
-    if (!labelId || !token) return;
-    if (!reason) {
-      setError("Please enter a reason why the label cannot be done.");
+  const handleAddToCart = () => {
+    const errs = validateAll(draft, validation);
+    if (Object.keys(errs).length > 0) {
+      const first = STEPS.findIndex(
+        (s) => Object.keys(validateStep(s.key, draft, validation)).length > 0,
+      );
+      setErrors(errs);
+      setStepIndex(first < 0 ? 0 : first);
       return;
     }
-    setError(null);
-    setInfo(null);
-    try {
-      await authedFetch(`/api/admin/labels/${encodeURIComponent(labelId)}/decline`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ reason }),
-      });
-      setInfo("Label declined.");
-      closeDeclineModal();
-      await refreshLabels();
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Decline failed.");
-    }
-  };
-
-  const labelSummary = (l: AdminLabel) => {
-    const d = l.labelData as { carrier?: string; service?: string; from?: { name?: string } };
-    const carrier = d?.carrier ?? "—";
-    const service = d?.service ?? "—";
-    const from = d?.from?.name ?? "—";
-    return `${String(carrier).toUpperCase()} • ${service} • ${from}`;
+    addItem(buildItem(draft, priceUsd));
+    setDraft({
+      ...emptyDraft(draft.units),
+      ...(defaultSender ? { from: toCartAddress(defaultSender) } : {}),
+    });
+    setSource(null);
+    if (returnOf || copyOf || copyItem) setSearchParams({});
+    setErrors({});
+    setStepIndex(0);
+    setMessage("Label added to cart.");
   };
 
   return (
     <div>
-      <PageMeta title="Admin | Label Land" description="Bug fix blog admin" />
-      <PageBreadcrumb pageTitle="Admin" />
-
-      {!isAuthed ? (
-        <ComponentCard
-          title="Admin"
-          desc="You must be signed in as an administrator to view this page."
-        >
-          <div className="text-sm text-gray-600 dark:text-gray-400">
-            Please sign in. The first account is admin by default, or set
-            ADMIN_EMAILS on the server to grant admin by email.
+      <PageMeta
+        title="Create Label | Label Land"
+        description="Create a shipping label and add it to your cart."
+      />
+      <PageBreadcrumb pageTitle="Create Label" />
+
+      <div className="space-y-6">
+        {message ? (
+          <div className="rounded-lg border border-success-500/30 bg-success-500/10 px-4 py-3 text-sm text-success-700 dark:text-success-400">
+            {message}{" "}
+            <Link
+              to="/cart"
+              className="font-medium text-brand-500 hover:text-brand-600 dark:text-brand-400"
+            >
+              Go to cart
+            </Link>
           </div>
-        </ComponentCard>
-      ) : !isAdmin ? (
-        <ComponentCard
-          title="Admin"
-          desc="Access restricted to administrators."
-        >
-          <div className="text-sm text-gray-600 dark:text-gray-400">
-            You must be an administrator to manage blog posts, labels, and
-            account market items. Contact an admin or set ADMIN_EMAILS on the
-            server to grant access.
+        ) : null}
+
+        {catalogError ? (
+          <div className="rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
+            {catalogError}
           </div>
-        </ComponentCard>
-      ) : (
-        <div className="space-y-6">
-          {error ? (
-            <div className="rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
-              {error}
-            </div>
-          ) : null}
-          {info ? (
-            <div className="rounded-lg border border-success-500/30 bg-success-500/10 px-4 py-3 text-sm text-success-700 dark:text-success-400">
-              {info}
-            </div>
-          ) : null}
+        ) : null}
 
+        {sourceError ? (
+          <div className="rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
+            {sourceError}
+          </div>
+        ) : null}
+
+        {source ? (
+          <div className="rounded-lg border border-brand-500/30 bg-brand-500/10 px-4 py-3 text-sm text-brand-700 dark:text-brand-400">
+            {source.kind === "return" ? "Return label for " : "Copy of "}
+            {source.labelId ? (
+              <Link
+                to={`/labels/${encodeURIComponent(source.labelId)}`}
+                className="font-medium text-brand-500 hover:text-brand-600"
+              >
+                {source.summary}
+              </Link>
+            ) : (
+              <span className="font-medium">{source.summary} (in your cart)</span>
+            )}
+            .{" "}
+            {source.kind === "return"
+              ? "The addresses are swapped and the packages are the same; check them before adding it to your cart."
+              : "Every field is filled in and can be changed before adding it to your cart."}
+          </div>
+        ) : null}
+
+        <ol className="flex flex-wrap gap-2">
+          {STEPS.map((s, i) => (
+            <li key={s.key}>
+              <button
+                type="button"
+                onClick={() => goTo(i)}
+                className={`rounded-full px-4 py-2 text-sm font-medium transition ${
+                  i === stepIndex
+                    ? "bg-brand-500 text-white"
+                    : i < stepIndex
+                    ? "bg-brand-50 text-brand-500 dark:bg-brand-500/15 dark:text-brand-400"
+                    : "bg-gray-100 text-gray-600 dark:bg-white/5 dark:text-gray-400"
+                }`}
+              >
+                {i + 1}. {s.title}
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        {step === "service" ? (
           <ComponentCard
-            title="Bug Fix Blog"
-            desc="Create, edit, and remove blog posts. Shown on the main page."
+            title="Carrier & service"
+            desc="Choose who ships the parcel and how fast."
           >
-            <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
               <div>
-                <Label htmlFor="blog-title">Title</Label>
-                <Input
-                  id="blog-title"
-                  placeholder="Bug fix: XYZ"
-                  value={title}
-                  onChange={(e) => setTitle(e.target.value)}
-                />
+                <Label htmlFor="label-carrier">Carrier *</Label>
+                <select
+                  id="label-carrier"
+                  value={draft.carrier}
+                  onChange={(e) => {
+                    update("carrier", e.target.value);
+                    update("service", "");
+                  }}
+                  className="h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 pr-11 text-sm shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800"
+                >
+                  <option value="">Select a carrier</option>
+                  {catalog.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </select>
+                {errors.carrier ? (
+                  <p className="mt-1.5 text-xs text-error-500">{errors.carrier}</p>
+                ) : null}
               </div>
               <div>
-                <Label htmlFor="blog-content">Content</Label>
-                <TextArea
-                  rows={6}
-                  placeholder="Describe the fix..."
-                  value={content}
-                  onChange={(v) => setContent(v)}
-                />
-              </div>
-              <div className="flex flex-wrap gap-2">
-                {editingId ? (
-                  <>
-                    <Button variant="primary" onClick={handleUpdate}>
-                      Save changes
-                    </Button>
-                    <Button variant="outline" onClick={resetForm}>
-                      Cancel
-                    </Button>
-                  </>
-                ) : (
-                  <Button variant="primary" onClick={handleCreate}>
-                    Add post
-                  </Button>
-                )}
-                <Button variant="outline" onClick={() => void refresh()}>
-                  Refresh
-                </Button>
+                <Label htmlFor="label-service">Service *</Label>
+                <select
+                  id="label-service"
+                  value={draft.service}
+                  onChange={(e) => update("service", e.target.value)}
+                  disabled={!carrier}
+                  className="h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 pr-11 text-sm shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 disabled:opacity-50 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800"
+                >
+                  <option value="">Select a service</option>
+                  {(carrier?.services ?? []).map((s) => {
+                    const from = startingPriceUsd(s);
+                    return (
+                      <option key={s.id} value={s.name}>
+                        {s.name}
+                        {!s.domestic ? " (international)" : ""}
+                        {from !== null ? ` — from $${from.toFixed(2)}` : ""}
+                      </option>
+                    );
+                  })}
+                </select>
+                {errors.service ? (
+                  <p className="mt-1.5 text-xs text-error-500">{errors.service}</p>
+                ) : service ? (
+                  <p className="mt-1.5 text-xs text-gray-500 dark:text-gray-400">
+                    {[
+                      service.domestic && service.international
+                        ? "Domestic & international"
+                        : service.international
+                        ? "International only"
+                        : "Domestic only",
+                      service.maxWeightLbs !== null
+                        ? `up to ${fromLbs(service.maxWeightLbs, preferences.units)} ${weightUnit(preferences.units)}`
+                        : null,
+                      service.maxLengthIn !== null
+                        ? `longest side ${fromIn(service.maxLengthIn, preferences.units)} ${lengthUnit(preferences.units)}`
+                        : null,
+                    ]
+                      .filter(Boolean)
+                      .join(" • ")}
+                  </p>
+                ) : null}
               </div>
             </div>
+          </ComponentCard>
+        ) : null}
 
-            <div className="mt-6 overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-white/[0.05] dark:bg-white/[0.03]">
-              <div className="max-w-full overflow-x-auto">
-                <Table>
-                  <TableHeader className="border-b border-gray-100 dark:border-white/[0.05]">
-                    <TableRow>
-                      <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
-                        Title
-                      </TableCell>
-                      <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
-                        Updated
-                      </TableCell>
-                      <TableCell isHeader className="px-5 py-3 text-end text-theme-xs font-medium text-gray-500 dark:text-gray-400">
-                        Actions
-                      </TableCell>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody className="divide-y divide-gray-100 dark:divide-white/[0.05]">
-                    {posts.length === 0 ? (
-                      <TableRow>
-                        <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
-                          No posts yet.
-                        </TableCell>
-                        <TableCell className="px-5 py-4">&nbsp;</TableCell>
-                        <TableCell className="px-5 py-4">&nbsp;</TableCell>
-                      </TableRow>
-                    ) : (
-                      posts.map((p) => (
-                        <TableRow key={p.id}>
-                          <TableCell className="px-5 py-4 text-sm text-gray-800 dark:text-white/90">
-                            {p.title}
-                          </TableCell>
-                          <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
-                            {new Date(p.updatedAt).toLocaleString()}
-                          </TableCell>
-                          <TableCell className="px-5 py-4 text-end">
-                            <div className="flex justify-end gap-2">
-                              <Button
-                                variant="outline"
-                                onClick={() => handleEdit(p)}
-                              >
-                                Edit
-                              </Button>
-                              <Button
-                                variant="outline"
-                                onClick={() => handleDelete(p.id)}
-                              >
-                                Delete
-                              </Button>
-                            </div>
-                          </TableCell>
-                        </TableRow>
-                      ))
-                    )}
-                  </TableBody>
-                </Table>
+        {step === "addresses" ? (
+          <div className="grid grid-cols-1 gap-6 xl:grid-cols-2">
+            <ComponentCard title="From" desc="Sender address.">
+              <AddressBookPicker
+                id="from-address-book"
+                addresses={addressBook.addresses}
+                onPick={(a) => update("from", a)}
+              />
+              <AddressFields
+                idPrefix="from"
+                value={draft.from}
+                onChange={(v) => update("from", v)}
+                errors={addressErrors(errors, "from")}
+              />
+            </ComponentCard>
+            <ComponentCard title="To" desc="Recipient address.">
+              <AddressBookPicker
+                id="to-address-book"
+                addresses={addressBook.addresses}
+                onPick={(a) => update("to", a)}
+              />
+              <AddressFields
+                idPrefix="to"
+                value={draft.to}
+                onChange={(v) => update("to", v)}
+                errors={addressErrors(errors, "to")}
+              />
+            </ComponentCard>
+          </div>
+        ) : null}
+
+        {step === "package" ? (
+          <ComponentCard
+            title="Package"
+            desc={
+              draft.units === "metric"
+                ? `Weight in kilograms (max ${fromLbs(MAX_WEIGHT_LBS, "metric")}) and dimensions in centimeters (max ${fromIn(MAX_DIMENSION_IN, "metric")} per side).`
+                : `Weight in pounds (max ${MAX_WEIGHT_LBS}) and dimensions in inches (max ${MAX_DIMENSION_IN} per side).`
+            }
+          >
+            <div className="mb-4 md:w-64">
+              <Label htmlFor="label-units">Units</Label>
+              <select
+                id="label-units"
+                value={draft.units}
+                onChange={(e) => changeUnits(e.target.value as UnitSystem)}
+                className="h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 pr-11 text-sm shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800"
+              >
+                {UNIT_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-4">
+              {draft.pieces.map((piece, i) => {
+                const pieceError = (field: keyof PieceDraft) => errors[`pieces.${i}.${field}`];
+                return (
+                  <div
+                    key={i}
+                    className="rounded-lg border border-gray-200 p-4 dark:border-gray-800"
+                  >
+                    <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                      <div className="text-sm font-medium text-gray-800 dark:text-white/90">
+                        Package {i + 1}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {presets.length > 0 ? (
+                          <select
+                            id={`label-${i}-preset`}
+                            aria-label={`Package ${i + 1} preset`}
+                            value=""
+                            onChange={(e) => {
+                              const preset = presets.find((p) => p.id === e.target.value);
+                              if (preset) applyPreset(i, preset);
+                            }}
+                            className="h-9 appearance-none rounded-lg border border-gray-300 bg-transparent px-3 py-1.5 pr-8 text-sm shadow-theme-xs focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:focus:border-brand-800"
+                          >
+                            <option value="">Fill in from a preset</option>
+                            {presets.map((p) => (
+                              <option key={p.id} value={p.id}>
+                                {p.name} ({describePreset(p)})
+                              </option>
+                            ))}
+                          </select>
+                        ) : null}
+                        {draft.pieces.length > 1 ? (
+                          <Button size="sm" variant="outline" onClick={() => removePiece(i)}>
+                            Remove
+                          </Button>
+                        ) : null}
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+                      <div>
+                        <Label htmlFor={`label-${i}-weight`}>
+                          Weight ({weightUnit(draft.units)}) *
+                        </Label>
+                        <Input
+                          id={`label-${i}-weight`}
+                          type="number"
+                          min="0"
+                          step={0.1}
+                          placeholder={draft.units === "metric" ? "0.7" : "1.5"}
+                          value={piece.weight}
+                          onChange={(e) => updatePiece(i, "weight", e.target.value)}
+                          error={Boolean(pieceError("weight"))}
+                          hint={pieceError("weight")}
+                        />
+                      </div>
+                      {(["length", "width", "height"] as const).map((dim) => (
+                        <div key={dim}>
+                          <Label htmlFor={`label-${i}-${dim}`}>
+                            {dim[0].toUpperCase() + dim.slice(1)} ({lengthUnit(draft.units)}) *
+                          </Label>
+                          <Input
+                            id={`label-${i}-${dim}`}
+                            type="number"
+                            min="0"
+                            step={0.1}
+                            placeholder={draft.units === "metric" ? "25" : "10"}
+                            value={piece[dim]}
+                            onChange={(e) => updatePiece(i, dim, e.target.value)}
+                            error={Boolean(pieceError(dim))}
+                            hint={pieceError(dim)}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+              {errors.pieces ? (
+                <p className="text-sm text-error-500">{errors.pieces}</p>
+              ) : null}
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={addPiece}
+                  disabled={draft.pieces.length >= LABEL_LIMITS.maxPieces}
+                >
+                  Add package
+                </Button>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {presets.length > 0 ? "Manage your " : "Save the box sizes you use often as "}
+                  <Link to="/package-presets" className="text-brand-500 hover:text-brand-600">
+                    package presets
+                  </Link>
+                  .
+                </p>
               </div>
             </div>
+            <QuoteLine
+              loading={rate.loading}
+              quote={quote}
+              problem={quoteProblem}
+              units={draft.units}
+            />
           </ComponentCard>
+        ) : null}
 
+        {step === "customs" ? (
           <ComponentCard
-            title="Labels"
-            desc="Label requests from users. Use Done to upload documents, or Decline with a reason."
+            title="Customs declaration"
+            desc={
+              international
+                ? `Required for shipments from ${countryLabel(draft.from.country)} to ${countryLabel(draft.to.country)}.`
+                : "Not required: sender and recipient are in the same country."
+            }
           >
-            <div className="mt-4 overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-white/[0.05] dark:bg-white/[0.03]">
-              <div className="max-w-full overflow-x-auto">
-                <Table>
-                  <TableHeader className="border-b border-gray-100 dark:border-white/[0.05]">
-                    <TableRow>
-                      <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
-                        User
-                      </TableCell>
-                      <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
-                        Summary
-                      </TableCell>
-                      <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
-                        Created
-                      </TableCell>
-                      <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
-                        Status
-                      </TableCell>
-                      <TableCell isHeader className="px-5 py-3 text-end text-theme-xs font-medium text-gray-500 dark:text-gray-400">
-                        Actions
-                      </TableCell>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody className="divide-y divide-gray-100 dark:divide-white/[0.05]">
-                    {labels.length === 0 ? (
-                      <TableRow>
-                        <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400" colSpan={5}>
-                          No label requests yet.
-                        </TableCell>
-                      </TableRow>
-                    ) : (
-                      labels.map((l) => (
-                        <TableRow key={l.id}>
-                          <TableCell className="px-5 py-4 text-sm text-gray-800 dark:text-white/90">
-                            {l.username ?? l.userId}
-                          </TableCell>
-                          <TableCell className="px-5 py-4 text-sm text-gray-700 dark:text-gray-300">
-                            {labelSummary(l)}
-                          </TableCell>
-                          <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
-                            {new Date(l.createdAt).toLocaleString()}
-                          </TableCell>
-                          <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
-                            {l.status}
-                          </TableCell>
-                          <TableCell className="px-5 py-4 text-end">
-                            {l.status === "pending" ? (
-                              <div className="flex justify-end gap-2">
-                                <Button
-                                  variant="primary"
-                                  size="sm"
-                                  onClick={() => openDoneModal(l.id)}
-                                >
-                                  Done
-                                </Button>
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={() => openDeclineModal(l.id)}
-                                >
-                                  Decline
-                                </Button>
-                              </div>
-                            ) : (
-                              <span className="text-gray-400">—</span>
-                            )}
-                          </TableCell>
-                        </TableRow>
-                      ))
-                    )}
-                  </TableBody>
-                </Table>
+            {international ? (
+              <div className="space-y-4">
+                <div className="md:w-64">
+                  <Label htmlFor="label-contents-type">Contents type *</Label>
+                  <select
+                    id="label-contents-type"
+                    value={draft.contentsType}
+                    onChange={(e) => update("contentsType", e.target.value as ContentsType)}
+                    className="h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 pr-11 text-sm shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800"
+                  >
+                    {CONTENTS_TYPES.map((t) => (
+                      <option key={t} value={t}>
+                        {CONTENTS_TYPE_LABELS[t]}
+                      </option>
+                    ))}
+                  </select>
+                  {errors.contentsType ? (
+                    <p className="mt-1.5 text-xs text-error-500">{errors.contentsType}</p>
+                  ) : null}
+                </div>
+
+                {draft.customsLines.map((line, i) => {
+                  const lineError = (field: keyof CustomsLineDraft) =>
+                    errors[`customsLines.${i}.${field}`];
+                  return (
+                    <div
+                      key={i}
+                      className="rounded-xl border border-gray-200 p-4 dark:border-gray-800"
+                    >
+                      <div className="mb-3 flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                          Line {i + 1}
+                        </span>
+                        {draft.customsLines.length > 1 ? (
+                          <button
+                            type="button"
+                            onClick={() => removeCustomsLine(i)}
+                            className="text-sm text-error-500 hover:text-error-600"
+                          >
+                            Remove
+                          </button>
+                        ) : null}
+                      </div>
+                      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                        <div className="md:col-span-3">
+                          <Label htmlFor={`customs-${i}-description`}>Description *</Label>
+                          <Input
+                            id={`customs-${i}-description`}
+                            placeholder="Cotton T-shirts"
+                            value={line.description}
+                            onChange={(e) => updateCustomsLine(i, "description", e.target.value)}
+                            error={Boolean(lineError("description"))}
+                            hint={lineError("description")}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`customs-${i}-quantity`}>Quantity *</Label>
+                          <Input
+                            id={`customs-${i}-quantity`}
+                            type="number"
+                            min="1"
+                            step={1}
+                            value={line.quantity}
+                            onChange={(e) => updateCustomsLine(i, "quantity", e.target.value)}
+                            error={Boolean(lineError("quantity"))}
+                            hint={lineError("quantity")}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`customs-${i}-value`}>Unit value (USD) *</Label>
+                          <Input
+                            id={`customs-${i}-value`}
+                            type="number"
+                            min="0"
+                            step={0.01}
+                            placeholder="12.00"
+                            value={line.unitValue}
+                            onChange={(e) => updateCustomsLine(i, "unitValue", e.target.value)}
+                            error={Boolean(lineError("unitValue"))}
+                            hint={lineError("unitValue")}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`customs-${i}-weight`}>
+                            Net weight ({weightUnit(draft.units)}) *
+                          </Label>
+                          <Input
+                            id={`customs-${i}-weight`}
+                            type="number"
+                            min="0"
+                            step={0.01}
+                            placeholder={draft.units === "metric" ? "0.4" : "0.8"}
+                            value={line.weight}
+                            onChange={(e) => updateCustomsLine(i, "weight", e.target.value)}
+                            error={Boolean(lineError("weight"))}
+                            hint={lineError("weight")}
+                          />
+                        </div>
+                        <div className="md:col-span-2">
+                          <Label htmlFor={`customs-${i}-hs`}>HS code</Label>
+                          <HsCodeInput
+                            id={`customs-${i}-hs`}
+                            value={line.hsCode}
+                            onChange={(v) => updateCustomsLine(i, "hsCode", v)}
+                            match={hsLookups[normalizeHsCode(line.hsCode)]}
+                            error={lineError("hsCode")}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`customs-${i}-origin`}>Country of origin *</Label>
+                          <select
+                            id={`customs-${i}-origin`}
+                            value={line.originCountry}
+                            onChange={(e) => updateCustomsLine(i, "originCountry", e.target.value)}
+                            className="h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 pr-11 text-sm shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800"
+                          >
+                            {COUNTRY_OPTIONS.map((c) => (
+                              <option key={c.value} value={c.value}>
+                                {c.label}
+                              </option>
+                            ))}
+                          </select>
+                          {lineError("originCountry") ? (
+                            <p className="mt-1.5 text-xs text-error-500">
+                              {lineError("originCountry")}
+                            </p>
+                          ) : null}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+
+                {errors.customsLines ? (
+                  <p className="text-xs text-error-500">{errors.customsLines}</p>
+                ) : null}
+
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={addCustomsLine}
+                    disabled={draft.customsLines.length >= LABEL_LIMITS.maxCustomsLines}
+                  >
+                    Add line
+                  </Button>
+                  {customs && customsSummary ? (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {customsSummary.quantity} item(s) • $
+                      {customsSummary.valueUsd.toFixed(2)} •{" "}
+                      {fromLbs(customsSummary.weightLbs, draft.units)} of{" "}
+                      {fromLbs(shipmentWeightLbs(fields), draft.units)} {weightUnit(draft.units)}{" "}
+                      {draft.pieces.length > 1 ? "shipment" : "parcel"} weight •{" "}
+                      {customsForm}
+                    </p>
+                  ) : null}
+                </div>
               </div>
-            </div>
+            ) : (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Continue to review your label.
+              </p>
+            )}
           </ComponentCard>
+        ) : null}
 
+        {step === "review" ? (
           <ComponentCard
-            id="account-products"
-            title="Account market"
-            desc="Add and manage items for the Account Store. These products appear on the Accounts for Sale page."
+            title="Review"
+            desc="Check the details below, then add the label to your cart."
           >
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="product-service">Service *</Label>
-                <Input
-                  id="product-service"
-                  placeholder="e.g. FedEx Account"
-                  value={productService}
-                  onChange={(e) => setProductService(e.target.value)}
-                />
-              </div>
+            <div className="grid grid-cols-1 gap-4 text-sm text-gray-700 dark:text-gray-300 md:grid-cols-2">
               <div>
-                <Label htmlFor="product-informations">Informations</Label>
-                <TextArea
-                  id="product-informations"
-                  rows={3}
-                  placeholder="Additional information about the account..."
-                  value={productInformations}
-                  onChange={(v) => setProductInformations(v)}
-                />
-              </div>
-              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-                <div>
-                  <Label htmlFor="product-country">Country *</Label>
-                  <Input
-                    id="product-country"
-                    placeholder="e.g. United States"
-                    value={productCountry}
-                    onChange={(e) => setProductCountry(e.target.value)}
-                  />
+                <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                  Service
                 </div>
                 <div>
-                  <Label htmlFor="product-price">Price (USD) *</Label>
-                  <Input
-                    id="product-price"
-                    type="number"
-                    min="0"
-                    step={0.01}
-                    placeholder="0.00"
-                    value={productPriceUsd}
-                    onChange={(e) => setProductPriceUsd(e.target.value)}
-                  />
+                  {(carrier?.name ?? draft.carrier).toUpperCase()} • {draft.service}
+                  {priceUsd !== null ? ` • $${priceUsd.toFixed(2)}` : ""}
                 </div>
               </div>
-              <div className="flex flex-wrap gap-2">
-                <Button variant="primary" onClick={handleCreateProduct}>
-                  Add product
-                </Button>
-                <Button variant="outline" onClick={resetProductForm}>
-                  Clear
-                </Button>
-                <Button variant="outline" onClick={() => void refreshAccountProducts()}>
-                  Refresh
-                </Button>
-              </div>
-            </div>
-
-            <div className="mt-6 overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-white/[0.05] dark:bg-white/[0.03]">
-              <div className="max-w-full overflow-x-auto">
-                <Table>
-                  <TableHeader className="border-b border-gray-100 dark:border-white/[0.05]">
-                    <TableRow>
-                      <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
-                        Service
-                      </TableCell>
-                      <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
-                        Informations
-                      </TableCell>
-                      <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
-                        Country
-                      </TableCell>
-                      <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
-                        Price
-                      </TableCell>
-                      <TableCell isHeader className="px-5 py-3 text-end text-theme-xs font-medium text-gray-500 dark:text-gray-400">
-                        Actions
-                      </TableCell>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody className="divide-y divide-gray-100 dark:divide-white/[0.05]">
-                    {accountProducts.length === 0 ? (
-                      <TableRow>
-                        <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400" colSpan={5}>
-                          No account products yet.
-                        </TableCell>
-                      </TableRow>
-                    ) : (
-                      accountProducts.map((p) => (
-                        <TableRow key={p.id}>
-                          <TableCell className="px-5 py-4 text-sm text-gray-800 dark:text-white/90">
-                            {p.service}
-                          </TableCell>
-                          <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
-                            {p.informations || "—"}
-                          </TableCell>
-                          <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
-                            {p.country}
-                          </TableCell>
-                          <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
-                            ${p.priceUsd.toFixed(2)}
-                          </TableCell>
-                          <TableCell className="px-5 py-4 text-end">
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => handleDeleteProduct(p.id)}
-                            >
-                              Delete
-                            </Button>
-                          </TableCell>
-                        </TableRow>
-                      ))
-                    )}
-                  </TableBody>
-                </Table>
+              <div>
+                <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                  {draft.pieces.length > 1 ? `Packages (${draft.pieces.length})` : "Package"}
+                </div>
+                {draft.pieces.map((p, i) => (
+                  <div key={i}>
+                    {draft.pieces.length > 1 ? `${i + 1}. ` : ""}
+                    {p.weight} {weightUnit(draft.units)} • {p.length}×{p.width}×{p.height}{" "}
+                    {lengthUnit(draft.units)}
+                  </div>
+                ))}
+                {quote ? (
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {describeShipmentQuote(quote, draft.units)}
+                  </div>
+                ) : null}
               </div>
+              {(["from", "to"] as const).map((side) => (
+                <div key={side}>
+                  <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                    {side === "from" ? "From" : "To"}
+                  </div>
+                  <div>{draft[side].name}</div>
+                  {draft[side].company.trim() ? <div>{draft[side].company}</div> : null}
+                  <div>{draft[side].address1}</div>
+                  {draft[side].address2.trim() ? <div>{draft[side].address2}</div> : null}
+                  <div>
+                    {draft[side].city}, {draft[side].state} {draft[side].zip}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {countryLabel(draft[side].country)}
+                  </div>
+                  {contactLine(trimAddress(draft[side])) ? (
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {contactLine(trimAddress(draft[side]))}
+                    </div>
+                  ) : null}
+                </div>
+              ))}
+              {international ? (
+                <div className="md:col-span-2">
+                  <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                    Customs
+                  </div>
+                  {customs && customsSummary ? (
+                    <>
+                      <div>
+                        {customsForm} •{" "}
+                        {CONTENTS_TYPE_LABELS[customs.contentsType]} • $
+                        {customsSummary.valueUsd.toFixed(2)} •{" "}
+                        {fromLbs(customsSummary.weightLbs, draft.units)}{" "}
+                        {weightUnit(draft.units)}
+                      </div>
+                      {customs.lines.map((line, i) => (
+                        <div key={i} className="text-xs text-gray-500 dark:text-gray-400">
+                          {describeCustomsLine(line)}
+                        </div>
+                      ))}
+                    </>
+                  ) : null}
+                </div>
+              ) : null}
             </div>
+            <QuoteLine
+              loading={rate.loading}
+              quote={null}
+              problem={quoteProblem}
+              units={draft.units}
+            />
           </ComponentCard>
-        </div>
-      )}
-
-      <Modal
-        isOpen={doneModal.open}
-        onClose={closeDoneModal}
-        className="max-w-[500px] m-4 p-6"
-      >
-        <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90">
-          Upload documents (Done)
-        </h3>
-        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
-          Upload all files the user will download for this label.
-        </p>
-        <div className="mt-4">
-          <Label>Files</Label>
-          <input
-            ref={fileInputRef}
-            type="file"
-            multiple
-            className="mt-2 block w-full text-sm text-gray-600 dark:text-gray-400 file:mr-4 file:rounded-lg file:border-0 file:bg-brand-500 file:px-4 file:py-2 file:text-sm file:font-medium file:text-white file:hover:bg-brand-600"
-            accept="*/*"
-          />
-        </div>
-        <div className="mt-6 flex justify-end gap-2">
-          <Button variant="outline" onClick={closeDoneModal} disabled={uploading}>
-            Cancel
-          </Button>
-          <Button variant="primary" onClick={() => void handleDoneSubmit()} disabled={uploading}>
-            {uploading ? "Uploading…" : "Upload & mark done"}
-          </Button>
-        </div>
-      </Modal>
-
-      <Modal
-        isOpen={declineModal.open}
-        onClose={closeDeclineModal}
-        className="max-w-[500px] m-4 p-6"
-      >
-        <h3 className="text-lg font-semibold text-gray-800 dark:text-white/90">
-          Decline label
-        </h3>
-        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
-          Explain why this label cannot be done. The user will see this message.
-        </p>
-        <div className="mt-4">
-          <Label htmlFor="decline-reason">Reason</Label>
-          <TextArea
-            id="decline-reason"
-            rows={4}
-            placeholder="e.g. Invalid address, missing customs info…"
-            value={declineModal.reason}
-            onChange={(v) =>
-              setDeclineModal((prev) => ({ ...prev, reason: v }))
-            }
-          />
-        </div>
-        <div className="mt-6 flex justify-end gap-2">
-          <Button variant="outline" onClick={closeDeclineModal}>
-            Cancel
-          </Button>
-          <Button variant="primary" onClick={() => void handleDeclineSubmit()}>
-            Decline
+        ) : null}
+
+        <div className="flex flex-wrap justify-between gap-2">
+          <Button
+            variant="outline"
+            onClick={handleBack}
+            disabled={stepIndex === 0}
+          >
+            Back
           </Button>
+          {step === "review" ? (
+            <Button
+              variant="primary"
+              onClick={handleAddToCart}
+              disabled={rate.loading || Boolean(quoteProblem)}
+            >
+              Add to cart
+            </Button>
+          ) : (
+            <Button variant="primary" onClick={handleNext}>
+              Next
+            </Button>
+          )}
         </div>
-      </Modal>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,312 @@
+import { useCallback, useEffect, useState } from "react";
+import PageMeta from "../../components/common/PageMeta";
+import PageBreadcrumb from "../../components/common/PageBreadCrumb";
+import ComponentCard from "../../components/common/ComponentCard";
+import Label from "../../components/form/Label";
+import Input from "../../components/form/input/InputField";
+import Checkbox from "../../components/form/input/Checkbox";
+import Button from "../../components/ui/button/Button";
+import Badge from "../../components/ui/badge/Badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableRow,
+} from "../../components/ui/table";
+import AddressFields from "../../components/labels/AddressFields";
+import { cleanPhone } from "../../components/labels/contact";
+import {
+  deleteAddress,
+  fetchAddressBook,
+  fetchAddressSuggestions,
+  saveAddress,
+  toCartAddress,
+  type AddressBookInput,
+  type AddressSuggestion,
+  type SavedAddress,
+} from "../../components/labels/addressBook";
+import type { CartAddress } from "../../context/CartContext";
+import { validateAddress } from "../../../shared/labelSchema.js";
+
+const LABEL_MAX = 100;
+
+const emptyInput = (): AddressBookInput => ({
+  label: "",
+  name: "",
+  company: "",
+  address1: "",
+  address2: "",
+  city: "",
+  state: "",
+  zip: "",
+  country: "US",
+  phone: "",
+  email: "",
+  isDefaultSender: false,
+});
+
+const formatAddress = (a: CartAddress) =>
+  [
+    a.name,
+    a.company,
+    a.address1,
+    a.address2,
+    [a.city, a.state].filter(Boolean).join(", "),
+    a.zip,
+    a.country,
+    a.phone,
+    a.email,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+
+export default function AddressBook() {
+  const [addresses, setAddresses] = useState<SavedAddress[]>([]);
+  const [suggestions, setSuggestions] = useState<AddressSuggestion[]>([]);
+  const [query, setQuery] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<AddressBookInput>(emptyInput);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const refresh = useCallback(async (q: string, signal?: AbortSignal) => {
+    setError(null);
+    try {
+      // Suggestions do not depend on the search; keep the last ones.
+      const [list, suggested] = await Promise.all([
+        fetchAddressBook(q, signal),
+        q.trim() ? null : fetchAddressSuggestions(),
+      ]);
+      if (signal?.aborted) return;
+      setAddresses(list);
+      if (suggested) setSuggestions(suggested);
+    } catch (e) {
+      if (signal?.aborted) return;
+      setError(e instanceof Error ? e.message : "Failed to load the address book.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Search on the server as the query changes.
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => void refresh(query, controller.signal), 250);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, refresh]);
+
+  const resetForm = () => {
+    setForm(emptyInput());
+    setEditingId(null);
+    setFormErrors({});
+  };
+
+  const startEdit = (a: SavedAddress) => {
+    setForm({ ...toCartAddress(a), label: a.label, isDefaultSender: a.isDefaultSender });
+    setEditingId(a.id);
+    setFormErrors({});
+  };
+
+  const submit = async (input: AddressBookInput, id?: string) => {
+    setError(null);
+    setSaving(true);
+    try {
+      await saveAddress(input, id);
+      await refresh(query);
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save the address.");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const input = { ...form, phone: cleanPhone(form.phone) };
+    const errs: Record<string, string> = validateAddress(input);
+    if (input.label.trim().length > LABEL_MAX) {
+      errs.label = `Must be at most ${LABEL_MAX} characters.`;
+    }
+    setFormErrors(errs);
+    if (Object.keys(errs).length > 0) return;
+    if (await submit(input, editingId ?? undefined)) resetForm();
+  };
+
+  const handleDelete = async (a: SavedAddress) => {
+    if (!confirm(`Delete "${a.label}" from your address book?`)) return;
+    setError(null);
+    try {
+      await deleteAddress(a.id);
+      if (editingId === a.id) resetForm();
+      await refresh(query);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to delete the address.");
+    }
+  };
+
+  const saveSuggestion = (s: AddressSuggestion) =>
+    void submit({ ...toCartAddress(s), label: s.name, isDefaultSender: false });
+
+  return (
+    <div>
+      <PageMeta title="Address Book | Label Land" description="Your saved addresses." />
+      <PageBreadcrumb pageTitle="Address Book" />
+
+      <div className="space-y-6">
+        {error ? (
+          <div className="rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
+            {error}
+          </div>
+        ) : null}
+
+        <ComponentCard
+          title={editingId ? "Edit address" : "New address"}
+          desc="Saved addresses can be picked as the sender or recipient when creating a label."
+        >
+          <div>
+            <Label htmlFor="book-label">Label</Label>
+            <Input
+              id="book-label"
+              placeholder="Warehouse, Mom, …"
+              value={form.label}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+              error={Boolean(formErrors.label)}
+              hint={formErrors.label ?? "Defaults to the name."}
+            />
+          </div>
+          <AddressFields
+            idPrefix="book"
+            value={toCartAddress(form)}
+            onChange={(next) => setForm({ ...form, ...next })}
+            errors={formErrors}
+          />
+          <Checkbox
+            id="book-default-sender"
+            label="Default sender (fills in the From address of new labels)"
+            checked={form.isDefaultSender}
+            onChange={(checked) => setForm({ ...form, isDefaultSender: checked })}
+          />
+          <div className="flex flex-wrap justify-end gap-2">
+            {editingId ? (
+              <Button variant="outline" onClick={resetForm} disabled={saving}>
+                Cancel
+              </Button>
+            ) : null}
+            <Button variant="primary" onClick={() => void handleSave()} disabled={saving}>
+              {saving ? "Saving…" : editingId ? "Save changes" : "Add address"}
+            </Button>
+          </div>
+        </ComponentCard>
+
+        <ComponentCard title="Saved addresses">
+          <Input
+            id="book-search"
+            placeholder="Search by label, name, company, street, city or postal code"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <div className="overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-white/[0.05] dark:bg-white/[0.03]">
+            <div className="max-w-full overflow-x-auto">
+              <Table>
+                <TableHeader className="border-b border-gray-100 dark:border-white/[0.05]">
+                  <TableRow>
+                    <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
+                      Label
+                    </TableCell>
+                    <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
+                      Address
+                    </TableCell>
+                    <TableCell isHeader className="px-5 py-3 text-end text-theme-xs font-medium text-gray-500 dark:text-gray-400">
+                      Actions
+                    </TableCell>
+                  </TableRow>
+                </TableHeader>
+                <TableBody className="divide-y divide-gray-100 dark:divide-white/[0.05]">
+                  {loading ? (
+                    <TableRow>
+                      <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400" colSpan={3}>
+                        Loading…
+                      </TableCell>
+                    </TableRow>
+                  ) : addresses.length === 0 ? (
+                    <TableRow>
+                      <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400" colSpan={3}>
+                        {query.trim() ? "No saved address matches." : "No saved addresses yet."}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    addresses.map((a) => (
+                      <TableRow key={a.id}>
+                        <TableCell className="px-5 py-4 text-sm text-gray-800 dark:text-white/90">
+                          {a.label}
+                          {a.isDefaultSender ? (
+                            <div className="mt-1">
+                              <Badge size="sm" color="success">
+                                default sender
+                              </Badge>
+                            </div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
+                          {formatAddress(a)}
+                        </TableCell>
+                        <TableCell className="px-5 py-4 text-end">
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => startEdit(a)}>
+                              Edit
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => void handleDelete(a)}>
+                              Delete
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </ComponentCard>
+
+        {suggestions.length > 0 ? (
+          <ComponentCard
+            title="From your labels"
+            desc="Addresses you have shipped from or to that are not saved yet."
+          >
+            <ul className="divide-y divide-gray-100 text-sm dark:divide-white/[0.05]">
+              {suggestions.map((s) => (
+                <li
+                  key={`${s.labelId}-${s.role}`}
+                  className="flex flex-wrap items-center justify-between gap-2 py-3"
+                >
+                  <span className="text-gray-700 dark:text-gray-300">
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {s.role === "from" ? "Sender" : "Recipient"}:
+                    </span>{" "}
+                    {formatAddress(s)}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => saveSuggestion(s)}
+                    disabled={saving}
+                  >
+                    Save
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </ComponentCard>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,425 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router";
+import { useDropzone, type FileRejection } from "react-dropzone";
+import PageMeta from "../../components/common/PageMeta";
+import PageBreadcrumb from "../../components/common/PageBreadCrumb";
+import ComponentCard from "../../components/common/ComponentCard";
+import Label from "../../components/form/Label";
+import Input from "../../components/form/input/InputField";
+import TextArea from "../../components/form/input/TextArea";
+import Button from "../../components/ui/button/Button";
+import Badge from "../../components/ui/badge/Badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableRow,
+} from "../../components/ui/table";
+import { fetchCarrierCatalog, type Carrier } from "../../components/labels/catalog";
+import { formatPieces } from "../../components/labels/units";
+import {
+  CSV_COLUMNS,
+  buildImport,
+  csvTemplate,
+  readSheet,
+  type ImportSheet,
+  type ImportedLabel,
+} from "../../components/labels/csvImport";
+import { usePackagePresets } from "../../components/labels/packagePresets";
+import { priceNewLabels } from "../../components/cart/pricing";
+import { newCartItemId } from "../../components/cart/items";
+import { useCart, type CartLabelItem } from "../../context/CartContext";
+import { usePreferences } from "../../hooks/usePreferences";
+
+const downloadTemplate = () => {
+  const url = URL.createObjectURL(new Blob([csvTemplate()], { type: "text/csv" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = "label-import-template.csv";
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const headerCell = "px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400";
+
+export default function ImportLabels() {
+  const { addItems } = useCart();
+  const { preferences } = usePreferences();
+  const { presets } = usePackagePresets();
+  const [catalog, setCatalog] = useState<Carrier[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [pasted, setPasted] = useState("");
+  const [source, setSource] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  // Cells the user has corrected, kept editable after their error clears.
+  const [edited, setEdited] = useState<Set<string>>(new Set());
+  // Errors the server reported when pricing, by parcel key.
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    fetchCarrierCatalog()
+      .then(setCatalog)
+      .catch((e) => setError(e instanceof Error ? e.message : "Failed to load carriers."));
+  }, []);
+
+  const labels = useMemo(
+    () =>
+      sheet ? buildImport(sheet, { catalog, defaultUnits: preferences.units, presets }) : [],
+    [sheet, catalog, preferences.units, presets],
+  );
+  const isValid = (l: ImportedLabel) => l.errors.length === 0 && !serverErrors[l.key];
+  const valid = labels.filter(isValid);
+
+  const load = (text: string, name: string) => {
+    const next = readSheet(text);
+    setMessage(null);
+    setServerErrors({});
+    setEdited(new Set());
+    if (next.rows.length === 0) {
+      setSheet(null);
+      setError("No rows found. The first line must be the column headers.");
+      return;
+    }
+    setError(null);
+    setSource(name);
+    setSheet(next);
+  };
+
+  // Excel files are not offered by the picker, but can still be dropped.
+  const onDrop = (accepted: File[], rejected: FileRejection[]) => {
+    const [file] = accepted;
+    if (!file) {
+      const [refused] = rejected;
+      if (!refused) return;
+      setError(
+        refused.errors.some((e) => e.code === "too-many-files")
+          ? "Import one file at a time."
+          : /\.xlsx?$/i.test(refused.file.name)
+            ? "Excel files cannot be read directly. Save the sheet as CSV and import that."
+            : `${refused.file.name} is not a CSV, TSV or text file.`,
+      );
+      return;
+    }
+    file
+      .text()
+      .then((text) => load(text, file.name))
+      .catch(() => setError(`Could not read ${file.name}.`));
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    multiple: false,
+    accept: {
+      "text/csv": [".csv"],
+      "text/tab-separated-values": [".tsv"],
+      "text/plain": [".txt"],
+    },
+  });
+
+  const setCell = (row: number, column: string, value: string) => {
+    if (!sheet) return;
+    setEdited((prev) => new Set(prev).add(`${row}:${column}`));
+    setServerErrors({});
+    setSheet({
+      ...sheet,
+      rows: sheet.rows.map((r, i) =>
+        i === row ? { ...r, cells: { ...r.cells, [column]: value } } : r,
+      ),
+    });
+  };
+
+  const removeRows = (rows: number[]) => {
+    if (!sheet) return;
+    const drop = new Set(rows);
+    const kept = sheet.rows.filter((_, i) => !drop.has(i));
+    setEdited(new Set());
+    setSheet(kept.length > 0 ? { ...sheet, rows: kept } : null);
+  };
+
+  const handleAdd = async () => {
+    setError(null);
+    setMessage(null);
+    setAdding(true);
+    try {
+      const items: CartLabelItem[] = valid.map((l) => ({
+        id: newCartItemId(),
+        createdAt: new Date().toISOString(),
+        kind: "label",
+        ...l.fields,
+      }));
+      // Price every parcel on the server; parcels it refuses stay in the
+      // preview with the reason.
+      const { accepted, refused: refusedById } = await priceNewLabels(items);
+      const refused: Record<string, string> = {};
+      const added: number[] = [];
+      items.forEach((item, i) => {
+        if (refusedById[item.id]) refused[valid[i].key] = refusedById[item.id];
+        else added.push(...valid[i].rows);
+      });
+      if (accepted.length > 0) addItems(accepted);
+      removeRows(added);
+      setServerErrors(refused);
+      setMessage(
+        accepted.length > 0
+          ? `${accepted.length} label${accepted.length === 1 ? "" : "s"} added to cart.`
+          : null,
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to add the labels.");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const rowLabel = (l: ImportedLabel) => {
+    const lines = l.rows.map((r) => sheet?.rows[r]?.line ?? 0);
+    return lines.length > 1 ? `${lines[0]}–${lines[lines.length - 1]}` : String(lines[0]);
+  };
+
+  const editableCells = (l: ImportedLabel) => {
+    const cells = new Map<string, { row: number; column: string; message?: string }>();
+    for (const e of l.errors) {
+      if (e.column) cells.set(`${e.row}:${e.column}`, { ...e, column: e.column });
+    }
+    for (const key of edited) {
+      const [row, column] = key.split(":");
+      if (l.rows.includes(Number(row)) && !cells.has(key)) {
+        cells.set(key, { row: Number(row), column });
+      }
+    }
+    return [...cells.entries()];
+  };
+
+  return (
+    <div>
+      <PageMeta
+        title="Import Labels | Label Land"
+        description="Create labels in bulk from a CSV file."
+      />
+      <PageBreadcrumb pageTitle="Import Labels" />
+
+      <div className="space-y-6">
+        {message ? (
+          <div className="rounded-lg border border-success-500/30 bg-success-500/10 px-4 py-3 text-sm text-success-700 dark:text-success-400">
+            {message}{" "}
+            <Link
+              to="/cart"
+              className="font-medium text-brand-500 hover:text-brand-600 dark:text-brand-400"
+            >
+              Go to cart
+            </Link>
+          </div>
+        ) : null}
+
+        {error ? (
+          <div className="rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
+            {error}
+          </div>
+        ) : null}
+
+        <ComponentCard
+          title="Upload"
+          desc="One row per parcel. Start from the template; Excel sheets must be saved as CSV first."
+        >
+          <div>
+            <Button variant="outline" size="sm" onClick={downloadTemplate}>
+              Download template
+            </Button>
+          </div>
+
+          <div className="transition border border-gray-300 border-dashed cursor-pointer dark:hover:border-brand-500 dark:border-gray-700 rounded-xl hover:border-brand-500">
+            <div
+              {...getRootProps()}
+              className={`rounded-xl p-7 lg:p-10 ${
+                isDragActive
+                  ? "bg-gray-100 dark:bg-gray-800"
+                  : "bg-gray-50 dark:bg-gray-900"
+              }`}
+            >
+              <input {...getInputProps()} />
+              <div className="flex flex-col items-center">
+                <h4 className="mb-3 font-semibold text-gray-800 text-theme-xl dark:text-white/90">
+                  {isDragActive ? "Drop the file here" : "Drag & drop a CSV file here"}
+                </h4>
+                <span className="mb-5 block w-full max-w-[290px] text-center text-sm text-gray-700 dark:text-gray-400">
+                  Comma, semicolon or tab separated, with the column headers on the first line
+                </span>
+                <span className="font-medium underline text-theme-sm text-brand-500">
+                  Browse file
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="import-paste">Or paste rows from a spreadsheet</Label>
+            <TextArea
+              id="import-paste"
+              rows={5}
+              placeholder="Copy the header row and the rows below it"
+              value={pasted}
+              onChange={setPasted}
+            />
+            <div className="mt-2 flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => load(pasted, "pasted rows")}
+                disabled={!pasted.trim()}
+              >
+                Preview
+              </Button>
+            </div>
+          </div>
+
+          <details className="text-sm text-gray-700 dark:text-gray-300">
+            <summary className="cursor-pointer font-medium">Columns</summary>
+            <ul className="mt-2 space-y-1">
+              {CSV_COLUMNS.map((c) => (
+                <li key={c.key}>
+                  <code className="text-xs">{c.key}</code>
+                  {c.required ? " (required)" : ""} —{" "}
+                  <span className="text-gray-500 dark:text-gray-400">{c.help}</span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        </ComponentCard>
+
+        {sheet ? (
+          <ComponentCard
+            title={`Preview: ${source}`}
+            desc={`${labels.length} parcel${labels.length === 1 ? "" : "s"}, ${valid.length} ready. Fix or remove the others.`}
+          >
+            {sheet.missingColumns.length > 0 ? (
+              <p className="text-sm text-error-500">
+                Missing columns: {sheet.missingColumns.join(", ")}.
+              </p>
+            ) : null}
+            {sheet.unknownColumns.length > 0 ? (
+              <p className="text-sm text-warning-600 dark:text-warning-400">
+                Ignored columns: {sheet.unknownColumns.join(", ")}.
+              </p>
+            ) : null}
+
+            <div className="overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-white/[0.05] dark:bg-white/[0.03]">
+              <div className="max-w-full overflow-x-auto">
+                <Table>
+                  <TableHeader className="border-b border-gray-100 dark:border-white/[0.05]">
+                    <TableRow>
+                      <TableCell isHeader className={headerCell}>
+                        Row
+                      </TableCell>
+                      <TableCell isHeader className={headerCell}>
+                        To
+                      </TableCell>
+                      <TableCell isHeader className={headerCell}>
+                        Parcel
+                      </TableCell>
+                      <TableCell isHeader className={headerCell}>
+                        Status
+                      </TableCell>
+                      <TableCell isHeader className={`${headerCell} text-end`}>
+                        Actions
+                      </TableCell>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody className="divide-y divide-gray-100 dark:divide-white/[0.05]">
+                    {labels.map((l) => (
+                      <TableRow key={l.key}>
+                        <TableCell className="px-5 py-4 align-top text-sm text-gray-600 dark:text-gray-400">
+                          {rowLabel(l)}
+                        </TableCell>
+                        <TableCell className="px-5 py-4 align-top text-sm text-gray-800 dark:text-white/90">
+                          {l.fields.to.name || "—"}
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {[l.fields.to.city, l.fields.to.state, l.fields.to.country]
+                              .filter(Boolean)
+                              .join(", ")}
+                          </div>
+                        </TableCell>
+                        <TableCell className="px-5 py-4 align-top text-sm text-gray-600 dark:text-gray-400">
+                          {l.fields.carrier.toUpperCase()} {l.fields.service}
+                          <div className="text-xs">
+                            {formatPieces(
+                              l.fields.pieces,
+                              l.fields.pieces[0]?.entered?.units ?? preferences.units,
+                            )}
+                            {l.fields.customs
+                              ? ` • ${l.fields.customs.lines.length} customs line${l.fields.customs.lines.length === 1 ? "" : "s"}`
+                              : ""}
+                          </div>
+                        </TableCell>
+                        <TableCell className="px-5 py-4 align-top text-sm">
+                          <Badge size="sm" color={isValid(l) ? "success" : "error"}>
+                            {isValid(l) ? "ready" : "needs fixing"}
+                          </Badge>
+                          {serverErrors[l.key] ? (
+                            <p className="mt-2 text-xs text-error-500">{serverErrors[l.key]}</p>
+                          ) : null}
+                          {l.errors
+                            .filter((e) => !e.column)
+                            .map((e, i) => (
+                              <p key={i} className="mt-2 text-xs text-error-500">
+                                {e.message}
+                              </p>
+                            ))}
+                          {editableCells(l).map(([key, c]) => (
+                            <div key={key} className="mt-2 min-w-[220px]">
+                              <Label htmlFor={`import-${l.key}-${key}`} className="mb-1 text-xs">
+                                {c.column} (row {sheet.rows[c.row]?.line})
+                              </Label>
+                              <Input
+                                id={`import-${l.key}-${key}`}
+                                value={sheet.rows[c.row]?.cells[c.column] ?? ""}
+                                onChange={(e) => setCell(c.row, c.column, e.target.value)}
+                                error={Boolean(c.message)}
+                                hint={c.message}
+                              />
+                            </div>
+                          ))}
+                          {l.fixes.length > 0 ? (
+                            <ul className="mt-2 space-y-0.5 text-xs text-gray-500 dark:text-gray-400">
+                              {l.fixes.map((f, i) => (
+                                <li key={i}>
+                                  {f.column}: “{f.from}” → “{f.to}”
+                                </li>
+                              ))}
+                            </ul>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="px-5 py-4 align-top text-end">
+                          <Button variant="outline" size="sm" onClick={() => removeRows(l.rows)}>
+                            Remove
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button variant="outline" onClick={() => removeRows(sheet.rows.map((_, i) => i))}>
+                Clear
+              </Button>
+              <Button
+                variant="primary"
+                onClick={() => void handleAdd()}
+                disabled={adding || valid.length === 0}
+              >
+                {adding
+                  ? "Adding…"
+                  : `Add ${valid.length} label${valid.length === 1 ? "" : "s"} to cart`}
+              </Button>
+            </div>
+          </ComponentCard>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router";
+import PageMeta from "../../components/common/PageMeta";
+import PageBreadcrumb from "../../components/common/PageBreadCrumb";
+import ComponentCard from "../../components/common/ComponentCard";
+import Button from "../../components/ui/button/Button";
+import Badge from "../../components/ui/badge/Badge";
+import LabelDataView from "../../components/labels/LabelDataView";
+import LabelFormatSelect from "../../components/labels/LabelFormatSelect";
+import SaveLabelAddresses from "../../components/labels/SaveLabelAddresses";
+import {
+  downloadLabelDetails,
+  downloadLabelDocuments,
+  downloadFileCount,
+  fetchLabel,
+  hasPaperwork,
+  returnOfLabelId,
+  statusColor,
+  type UserLabel,
+} from "../../components/labels/api";
+import { usePreferences } from "../../hooks/usePreferences";
+
+export default function LabelDetail() {
+  const { id = "" } = useParams();
+  const [label, setLabel] = useState<UserLabel | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const { units, labelFormat, labelLayout } = usePreferences().preferences;
+  const returnOf = label ? returnOfLabelId(label) : null;
+  const returnIds = label?.returnIds ?? [];
+  const paperwork = label ? hasPaperwork(label) : false;
+  const documentCount = label ? downloadFileCount(label, labelFormat, labelLayout) : 0;
+
+  const refresh = useCallback(async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      setLabel(await fetchLabel(id));
+    } catch (e) {
+      setLabel(null);
+      setError(e instanceof Error ? e.message : "Failed to load label.");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleDownload = async () => {
+    if (!label) return;
+    setError(null);
+    setDownloading(true);
+    try {
+      await downloadLabelDocuments(label.id, labelFormat, labelLayout);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Download failed.");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleDownloadDetails = async () => {
+    if (!label) return;
+    setError(null);
+    try {
+      await downloadLabelDetails(label.id, units);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Download failed.");
+    }
+  };
+
+  return (
+    <div>
+      <PageMeta title="Label | Label Land" description="Label request details." />
+      <PageBreadcrumb pageTitle="Label details" />
+
+      <div className="space-y-6">
+        <Link
+          to="/labels"
+          className="text-sm text-brand-500 hover:text-brand-600 dark:text-brand-400"
+        >
+          ← Back to My Labels
+        </Link>
+
+        {error ? (
+          <div className="rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
+            {error}
+          </div>
+        ) : null}
+
+        {loading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading…</p>
+        ) : label ? (
+          <ComponentCard
+            title={`Label ${label.id.slice(0, 8)}`}
+            desc={`${label.orderId ? `From order ${label.orderId} • ` : ""}Created ${new Date(label.createdAt).toLocaleString()} • Updated ${new Date(label.updatedAt).toLocaleString()}`}
+          >
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <Badge color={statusColor(label.status)}>{label.status}</Badge>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void handleDownloadDetails()}
+                >
+                  Download details
+                </Button>
+                <Link
+                  to={`/create-label?copyOf=${encodeURIComponent(label.id)}`}
+                  className="inline-flex items-center justify-center rounded-lg bg-white px-4 py-3 text-sm text-gray-700 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.03] dark:hover:text-gray-300"
+                >
+                  Ship again
+                </Link>
+                {label.status === "done" ? (
+                  <Link
+                    to={`/create-label?returnOf=${encodeURIComponent(label.id)}`}
+                    className="inline-flex items-center justify-center rounded-lg bg-white px-4 py-3 text-sm text-gray-700 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.03] dark:hover:text-gray-300"
+                  >
+                    Create return label
+                  </Link>
+                ) : null}
+                {label.status === "done" ? <LabelFormatSelect /> : null}
+                {label.status === "done" ? (
+                  <Button
+                    variant="primary"
+                    size="sm"
+                    onClick={() => void handleDownload()}
+                    disabled={downloading}
+                  >
+                    {downloading
+                      ? "Downloading…"
+                      : documentCount > 1
+                      ? `Download ${documentCount} files (ZIP)`
+                      : "Download"}
+                  </Button>
+                ) : null}
+              </div>
+            </div>
+
+            {label.status === "cancelled" ? (
+              <div className="rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
+                <div className="font-medium">Declined</div>
+                <div>{label.declineReason || "No reason was given."}</div>
+              </div>
+            ) : null}
+
+            {returnOf || returnIds.length > 0 ? (
+              <div className="text-sm text-gray-700 dark:text-gray-300">
+                {returnOf ? (
+                  <div>
+                    Return of label{" "}
+                    <Link
+                      to={`/labels/${encodeURIComponent(returnOf)}`}
+                      className="text-brand-500 hover:text-brand-600"
+                    >
+                      {returnOf.slice(0, 8)}
+                    </Link>
+                  </div>
+                ) : null}
+                {returnIds.length > 0 ? (
+                  <div>
+                    Return labels:{" "}
+                    {returnIds.map((r, i) => (
+                      <span key={r}>
+                        {i > 0 ? ", " : ""}
+                        <Link
+                          to={`/labels/${encodeURIComponent(r)}`}
+                          className="text-brand-500 hover:text-brand-600"
+                        >
+                          {r.slice(0, 8)}
+                        </Link>
+                      </span>
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
+
+            <LabelDataView labelData={label.labelData} />
+
+            <SaveLabelAddresses labelData={label.labelData} />
+
+            {label.status === "done" && label.files.length > 0 ? (
+              <div className="text-sm text-gray-700 dark:text-gray-300">
+                <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                  Documents
+                </div>
+                <ul className="mt-1 list-disc pl-5">
+                  {label.files.map((f) => (
+                    <li key={f.filename}>
+                      {f.piece ? `Package ${f.piece}: ` : ""}
+                      {f.originalName || f.filename}
+                    </li>
+                  ))}
+                  {paperwork ? <li>Commercial invoice</li> : null}
+                  {paperwork ? <li>Packing slip</li> : null}
+                </ul>
+              </div>
+            ) : null}
+          </ComponentCard>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,473 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router";
+import PageMeta from "../../components/common/PageMeta";
+import PageBreadcrumb from "../../components/common/PageBreadCrumb";
+import ComponentCard from "../../components/common/ComponentCard";
+import Checkbox from "../../components/form/input/Checkbox";
+import Button from "../../components/ui/button/Button";
+import Badge from "../../components/ui/badge/Badge";
+import LabelFormatSelect from "../../components/labels/LabelFormatSelect";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableRow,
+} from "../../components/ui/table";
+import {
+  authedFetch,
+  downloadLabelBatch,
+  downloadLabelDocuments,
+  LABEL_LAYOUT_OPTIONS,
+  labelSummary,
+  returnLabelIds,
+  returnOfLabelId,
+  statusColor,
+  type LabelLayout,
+  type LabelStatus,
+  type UserLabel,
+} from "../../components/labels/api";
+import { copyLabelItem } from "../../components/cart/items";
+import { priceNewLabels } from "../../components/cart/pricing";
+import { useCart } from "../../context/CartContext";
+import { usePreferences } from "../../hooks/usePreferences";
+
+type StatusFilter = "all" | LabelStatus;
+
+const linkClass = "text-brand-500 hover:text-brand-600";
+
+const buttonLinkClass =
+  "inline-flex items-center justify-center rounded-lg bg-white px-4 py-3 text-sm text-gray-700 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-gray-400 dark:ring-gray-700 dark:hover:bg-white/[0.03] dark:hover:text-gray-300";
+
+// "Return of label …" and "Return labels: …" lines for a row.
+const LabelLinks: React.FC<{ label: UserLabel; labels: UserLabel[] }> = ({
+  label,
+  labels,
+}) => {
+  const returnOf = returnOfLabelId(label);
+  const returns = returnLabelIds(labels, label.id);
+  return (
+    <>
+      {returnOf ? (
+        <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Return of label{" "}
+          <Link to={`/labels/${encodeURIComponent(returnOf)}`} className={linkClass}>
+            {returnOf.slice(0, 8)}
+          </Link>
+        </div>
+      ) : null}
+      {returns.length > 0 ? (
+        <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Return labels:{" "}
+          {returns.map((r, i) => (
+            <span key={r}>
+              {i > 0 ? ", " : ""}
+              <Link to={`/labels/${encodeURIComponent(r)}`} className={linkClass}>
+                {r.slice(0, 8)}
+              </Link>
+            </span>
+          ))}
+        </div>
+      ) : null}
+    </>
+  );
+};
+
+const FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "pending", label: "Pending" },
+  { value: "done", label: "Done" },
+  { value: "cancelled", label: "Cancelled" },
+];
+
+export default function MyLabels() {
+  const [labels, setLabels] = useState<UserLabel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<StatusFilter>("all");
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const { addItems } = useCart();
+  const { preferences, setPreference } = usePreferences();
+  const { labelFormat, labelLayout } = preferences;
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [shipping, setShipping] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // Labels the server would not price again, with the reason.
+  const [refused, setRefused] = useState<{ id: string; reason: string }[]>([]);
+  const [batchDownloading, setBatchDownloading] = useState<"pdf" | "zip" | null>(null);
+
+  const refresh = useCallback(async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const resp = (await authedFetch("/api/labels")) as { labels?: UserLabel[] };
+      setLabels(Array.isArray(resp?.labels) ? resp.labels : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load labels.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const counts = useMemo(() => {
+    const c: Record<StatusFilter, number> = {
+      all: labels.length,
+      pending: 0,
+      done: 0,
+      cancelled: 0,
+    };
+    for (const l of labels) c[l.status] += 1;
+    return c;
+  }, [labels]);
+
+  const visible = useMemo(
+    () => (filter === "all" ? labels : labels.filter((l) => l.status === filter)),
+    [labels, filter],
+  );
+
+  // Selected labels that can be downloaded, in the order they were selected
+  // (and then rearranged): the order of the batch download.
+  const batch = useMemo(
+    () =>
+      [...selected].flatMap((id) => {
+        const l = labels.find((x) => x.id === id);
+        return l && l.status === "done" ? [l] : [];
+      }),
+    [selected, labels],
+  );
+
+  const moveInBatch = (id: string, delta: -1 | 1) =>
+    setSelected((prev) => {
+      const order = [...prev];
+      const ids = batch.map((l) => l.id);
+      const i = ids.indexOf(id);
+      const j = i + delta;
+      if (i < 0 || j < 0 || j >= ids.length) return prev;
+      const a = order.indexOf(ids[i]);
+      const b = order.indexOf(ids[j]);
+      [order[a], order[b]] = [order[b], order[a]];
+      return new Set(order);
+    });
+
+  const handleBatchDownload = async (as: "pdf" | "zip") => {
+    if (batch.length === 0) return;
+    setError(null);
+    setBatchDownloading(as);
+    try {
+      await downloadLabelBatch(batch.map((l) => l.id), as, labelLayout);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Download failed.");
+    } finally {
+      setBatchDownloading(null);
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  // Copy the selected labels into the cart as they are, priced by the
+  // server. Labels it refuses (a retired service, say) stay selected.
+  const handleShipAgain = async () => {
+    const chosen = labels.filter((l) => selected.has(l.id));
+    if (chosen.length === 0) return;
+    setError(null);
+    setMessage(null);
+    setShipping(true);
+    try {
+      const items = chosen.map((l) => copyLabelItem(l.labelData));
+      const { accepted, refused: refusedById } = await priceNewLabels(items);
+      if (accepted.length > 0) addItems(accepted);
+      setRefused(
+        chosen.flatMap((l, i) =>
+          refusedById[items[i].id] ? [{ id: l.id, reason: refusedById[items[i].id] }] : [],
+        ),
+      );
+      setSelected(new Set(chosen.filter((_, i) => refusedById[items[i].id]).map((l) => l.id)));
+      setMessage(
+        accepted.length > 0
+          ? `${accepted.length} label${accepted.length === 1 ? "" : "s"} added to cart.`
+          : null,
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to add the labels.");
+    } finally {
+      setShipping(false);
+    }
+  };
+
+  const handleDownload = async (id: string) => {
+    setError(null);
+    setDownloadingId(id);
+    try {
+      await downloadLabelDocuments(id, labelFormat, labelLayout);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Download failed.");
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <PageMeta title="My Labels | Label Land" description="Your label requests." />
+      <PageBreadcrumb pageTitle="My Labels" />
+
+      <ComponentCard
+        title="My Labels"
+        desc="Label requests you have submitted. Download documents once a label is done, or select labels to download them together or ship them again."
+      >
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex flex-wrap items-center gap-0.5 rounded-lg bg-gray-100 p-0.5 dark:bg-gray-900">
+            {FILTERS.map((f) => (
+              <button
+                key={f.value}
+                type="button"
+                onClick={() => setFilter(f.value)}
+                className={`rounded-md px-3 py-2 text-theme-sm font-medium hover:text-gray-900 dark:hover:text-white ${
+                  filter === f.value
+                    ? "bg-white text-gray-900 shadow-theme-xs dark:bg-gray-800 dark:text-white"
+                    : "text-gray-500 dark:text-gray-400"
+                }`}
+              >
+                {f.label} ({counts[f.value]})
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <LabelFormatSelect />
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => void handleShipAgain()}
+              disabled={shipping || selected.size === 0}
+            >
+              {shipping ? "Adding…" : `Ship again${selected.size > 0 ? ` (${selected.size})` : ""}`}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => void refresh()}>
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {message ? (
+          <div className="rounded-lg border border-success-500/30 bg-success-500/10 px-4 py-3 text-sm text-success-700 dark:text-success-400">
+            {message}{" "}
+            <Link
+              to="/cart"
+              className="font-medium text-brand-500 hover:text-brand-600 dark:text-brand-400"
+            >
+              Go to cart
+            </Link>
+          </div>
+        ) : null}
+
+        {refused.length > 0 ? (
+          <div className="rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
+            <div className="font-medium">These labels cannot be shipped again as they are:</div>
+            <ul className="mt-1 list-disc pl-5">
+              {refused.map((r) => {
+                const l = labels.find((x) => x.id === r.id);
+                return (
+                  <li key={r.id}>
+                    <Link to={`/create-label?copyOf=${encodeURIComponent(r.id)}`} className="underline">
+                      {l ? labelSummary(l) : r.id.slice(0, 8)}
+                    </Link>
+                    : {r.reason}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ) : null}
+
+        {error ? (
+          <div className="rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
+            {error}
+          </div>
+        ) : null}
+
+        {batch.length > 0 ? (
+          <div className="rounded-lg border border-gray-200 px-4 py-3 dark:border-gray-800">
+            <div className="text-sm font-medium text-gray-800 dark:text-white/90">
+              Download {batch.length} selected label{batch.length === 1 ? "" : "s"} together
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              In this order. The PDF has every label first, then the paperwork of international
+              labels; the ZIP has a folder per label.
+            </p>
+            <ol className="mt-2 space-y-1 text-sm text-gray-700 dark:text-gray-300">
+              {batch.map((l, i) => (
+                <li key={l.id} className="flex items-center gap-2">
+                  <span className="w-6 text-end text-gray-500 dark:text-gray-400">{i + 1}.</span>
+                  <span className="flex-1 truncate">{labelSummary(l)}</span>
+                  <button
+                    type="button"
+                    onClick={() => moveInBatch(l.id, -1)}
+                    disabled={i === 0}
+                    aria-label="Move up"
+                    className="rounded px-2 text-gray-500 hover:text-gray-800 disabled:opacity-30 dark:text-gray-400 dark:hover:text-white"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveInBatch(l.id, 1)}
+                    disabled={i === batch.length - 1}
+                    aria-label="Move down"
+                    className="rounded px-2 text-gray-500 hover:text-gray-800 disabled:opacity-30 dark:text-gray-400 dark:hover:text-white"
+                  >
+                    ↓
+                  </button>
+                </li>
+              ))}
+            </ol>
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <select
+                aria-label="Paper"
+                value={labelLayout}
+                onChange={(e) => setPreference("labelLayout", e.target.value as LabelLayout)}
+                className="h-11 appearance-none rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 pr-11 text-sm shadow-theme-xs focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:focus:border-brand-800"
+              >
+                {LABEL_LAYOUT_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={() => void handleBatchDownload("pdf")}
+                disabled={batchDownloading !== null}
+              >
+                {batchDownloading === "pdf" ? "Merging…" : "Download merged PDF"}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => void handleBatchDownload("zip")}
+                disabled={batchDownloading !== null}
+              >
+                {batchDownloading === "zip" ? "Downloading…" : "Download ZIP"}
+              </Button>
+            </div>
+          </div>
+        ) : null}
+
+        <div className="overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-white/[0.05] dark:bg-white/[0.03]">
+          <div className="max-w-full overflow-x-auto">
+            <Table>
+              <TableHeader className="border-b border-gray-100 dark:border-white/[0.05]">
+                <TableRow>
+                  <TableCell isHeader className="w-10 px-5 py-3">
+                    <span className="sr-only">Select</span>
+                  </TableCell>
+                  <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
+                    Summary
+                  </TableCell>
+                  <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
+                    Created
+                  </TableCell>
+                  <TableCell isHeader className="px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400">
+                    Status
+                  </TableCell>
+                  <TableCell isHeader className="px-5 py-3 text-end text-theme-xs font-medium text-gray-500 dark:text-gray-400">
+                    Actions
+                  </TableCell>
+                </TableRow>
+              </TableHeader>
+              <TableBody className="divide-y divide-gray-100 dark:divide-white/[0.05]">
+                {loading ? (
+                  <TableRow>
+                    <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400" colSpan={5}>
+                      Loading…
+                    </TableCell>
+                  </TableRow>
+                ) : visible.length === 0 ? (
+                  <TableRow>
+                    <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400" colSpan={5}>
+                      {filter === "all"
+                        ? "No labels yet."
+                        : `No ${filter} labels.`}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visible.map((l) => (
+                    <TableRow key={l.id}>
+                      <TableCell className="px-5 py-4">
+                        <Checkbox
+                          id={`select-label-${l.id}`}
+                          checked={selected.has(l.id)}
+                          onChange={(checked) => toggleSelected(l.id, checked)}
+                        />
+                      </TableCell>
+                      <TableCell className="px-5 py-4 text-sm text-gray-800 dark:text-white/90">
+                        <Link
+                          to={`/labels/${encodeURIComponent(l.id)}`}
+                          className="hover:text-brand-500"
+                        >
+                          {labelSummary(l)}
+                        </Link>
+                        {l.orderId ? (
+                          <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            Order {l.orderId.slice(0, 8)}
+                          </div>
+                        ) : null}
+                        <LabelLinks label={l} labels={labels} />
+                        {l.status === "cancelled" && l.declineReason ? (
+                          <div className="mt-1 text-xs text-error-600 dark:text-error-400">
+                            Declined: {l.declineReason}
+                          </div>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
+                        {new Date(l.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="px-5 py-4 text-sm">
+                        <Badge size="sm" color={statusColor(l.status)}>
+                          {l.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="px-5 py-4 text-end">
+                        <div className="flex justify-end gap-2">
+                          <Link to={`/labels/${encodeURIComponent(l.id)}`} className={buttonLinkClass}>
+                            View
+                          </Link>
+                          <Link
+                            to={`/create-label?copyOf=${encodeURIComponent(l.id)}`}
+                            className={buttonLinkClass}
+                          >
+                            Ship again
+                          </Link>
+                          {l.status === "done" ? (
+                            <Button
+                              variant="primary"
+                              size="sm"
+                              onClick={() => void handleDownload(l.id)}
+                              disabled={downloadingId === l.id}
+                            >
+                              {downloadingId === l.id ? "Downloading…" : "Download"}
+                            </Button>
+                          ) : null}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </ComponentCard>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useState } from "react";
+import PageMeta from "../../components/common/PageMeta";
+import PageBreadcrumb from "../../components/common/PageBreadCrumb";
+import ComponentCard from "../../components/common/ComponentCard";
+import Label from "../../components/form/Label";
+import Input from "../../components/form/input/InputField";
+import Button from "../../components/ui/button/Button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableRow,
+} from "../../components/ui/table";
+import {
+  deletePackagePreset,
+  describePreset,
+  findPreset,
+  savePackagePreset,
+  usePackagePresets,
+  type PackagePreset,
+  type PackagePresetInput,
+} from "../../components/labels/packagePresets";
+import {
+  UNIT_OPTIONS,
+  lengthUnit,
+  weightUnit,
+  type UnitSystem,
+} from "../../components/labels/units";
+import { usePreferences } from "../../hooks/usePreferences";
+import { validatePackagePreset } from "../../../shared/labelSchema.js";
+
+// The form keeps numbers as typed.
+type PresetForm = {
+  name: string;
+  units: UnitSystem;
+  length: string;
+  width: string;
+  height: string;
+  weight: string;
+  contentsDescription: string;
+};
+
+const emptyForm = (units: UnitSystem): PresetForm => ({
+  name: "",
+  units,
+  length: "",
+  width: "",
+  height: "",
+  weight: "",
+  contentsDescription: "",
+});
+
+const toInput = (f: PresetForm): PackagePresetInput => ({
+  name: f.name.trim(),
+  units: f.units,
+  length: Number(f.length),
+  width: Number(f.width),
+  height: Number(f.height),
+  weight: f.weight.trim() ? Number(f.weight) : null,
+  contentsDescription: f.contentsDescription.trim(),
+});
+
+const headerCell = "px-5 py-3 text-start text-theme-xs font-medium text-gray-500 dark:text-gray-400";
+
+export default function PackagePresets() {
+  const { preferences } = usePreferences();
+  const { presets, loading, error: loadError, reload } = usePackagePresets();
+  const [form, setForm] = useState<PresetForm>(() => emptyForm(preferences.units));
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const update = <K extends keyof PresetForm>(field: K, v: PresetForm[K]) =>
+    setForm((prev) => ({ ...prev, [field]: v }));
+
+  const resetForm = () => {
+    setForm(emptyForm(preferences.units));
+    setEditingId(null);
+    setFormErrors({});
+  };
+
+  const startEdit = (p: PackagePreset) => {
+    setForm({
+      name: p.name,
+      units: p.units,
+      length: String(p.length),
+      width: String(p.width),
+      height: String(p.height),
+      weight: p.weight === null ? "" : String(p.weight),
+      contentsDescription: p.contentsDescription,
+    });
+    setEditingId(p.id);
+    setFormErrors({});
+  };
+
+  const handleSave = async () => {
+    const input = toInput(form);
+    const errs = validatePackagePreset(input);
+    const sameName = findPreset(presets, input.name);
+    if (!errs.name && sameName && sameName.id !== editingId) {
+      errs.name = "You already have a preset with this name.";
+    }
+    setFormErrors(errs);
+    if (Object.keys(errs).length > 0) return;
+    setError(null);
+    setSaving(true);
+    try {
+      await savePackagePreset(input, editingId ?? undefined);
+      await reload();
+      resetForm();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save the preset.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (p: PackagePreset) => {
+    if (!confirm(`Delete the "${p.name}" preset?`)) return;
+    setError(null);
+    try {
+      await deletePackagePreset(p.id);
+      if (editingId === p.id) resetForm();
+      await reload();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to delete the preset.");
+    }
+  };
+
+  const shownError = error ?? loadError;
+
+  return (
+    <div>
+      <PageMeta title="Package Presets | Label Land" description="Your saved box sizes." />
+      <PageBreadcrumb pageTitle="Package Presets" />
+
+      <div className="space-y-6">
+        {shownError ? (
+          <div className="rounded-lg border border-error-500/30 bg-error-500/10 px-4 py-3 text-sm text-error-700 dark:text-error-400">
+            {shownError}
+          </div>
+        ) : null}
+
+        <ComponentCard
+          title={editingId ? "Edit preset" : "New preset"}
+          desc="Presets fill in the package step of Create Label, and the CSV import can refer to them by name."
+        >
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor="preset-name">Name *</Label>
+              <Input
+                id="preset-name"
+                placeholder="Small box"
+                value={form.name}
+                onChange={(e) => update("name", e.target.value)}
+                error={Boolean(formErrors.name)}
+                hint={formErrors.name}
+              />
+            </div>
+            <div>
+              <Label htmlFor="preset-units">Units</Label>
+              <select
+                id="preset-units"
+                value={form.units}
+                onChange={(e) => update("units", e.target.value as UnitSystem)}
+                className="h-11 w-full appearance-none rounded-lg border border-gray-300 bg-transparent px-4 py-2.5 pr-11 text-sm shadow-theme-xs placeholder:text-gray-400 focus:border-brand-300 focus:outline-hidden focus:ring-3 focus:ring-brand-500/10 dark:border-gray-700 dark:bg-gray-900 dark:text-white/90 dark:placeholder:text-white/30 dark:focus:border-brand-800"
+              >
+                {UNIT_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+            {(["length", "width", "height"] as const).map((dim) => (
+              <div key={dim}>
+                <Label htmlFor={`preset-${dim}`}>
+                  {dim[0].toUpperCase() + dim.slice(1)} ({lengthUnit(form.units)}) *
+                </Label>
+                <Input
+                  id={`preset-${dim}`}
+                  type="number"
+                  min="0"
+                  step={0.1}
+                  value={form[dim]}
+                  onChange={(e) => update(dim, e.target.value)}
+                  error={Boolean(formErrors[dim])}
+                  hint={formErrors[dim]}
+                />
+              </div>
+            ))}
+            <div>
+              <Label htmlFor="preset-weight">Default weight ({weightUnit(form.units)})</Label>
+              <Input
+                id="preset-weight"
+                type="number"
+                min="0"
+                step={0.1}
+                value={form.weight}
+                onChange={(e) => update("weight", e.target.value)}
+                error={Boolean(formErrors.weight)}
+                hint={formErrors.weight ?? "Optional"}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="preset-contents">Contents description</Label>
+            <Input
+              id="preset-contents"
+              placeholder="Cotton T-shirts"
+              value={form.contentsDescription}
+              onChange={(e) => update("contentsDescription", e.target.value)}
+              error={Boolean(formErrors.contentsDescription)}
+              hint={formErrors.contentsDescription ?? "Optional; fills in the first customs line."}
+            />
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            {editingId ? (
+              <Button variant="outline" onClick={resetForm} disabled={saving}>
+                Cancel
+              </Button>
+            ) : null}
+            <Button variant="primary" onClick={() => void handleSave()} disabled={saving}>
+              {saving ? "Saving…" : editingId ? "Save changes" : "Add preset"}
+            </Button>
+          </div>
+        </ComponentCard>
+
+        <ComponentCard title="Saved presets">
+          <div className="overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-white/[0.05] dark:bg-white/[0.03]">
+            <div className="max-w-full overflow-x-auto">
+              <Table>
+                <TableHeader className="border-b border-gray-100 dark:border-white/[0.05]">
+                  <TableRow>
+                    <TableCell isHeader className={headerCell}>
+                      Name
+                    </TableCell>
+                    <TableCell isHeader className={headerCell}>
+                      Package
+                    </TableCell>
+                    <TableCell isHeader className={headerCell}>
+                      Contents
+                    </TableCell>
+                    <TableCell isHeader className={`${headerCell} text-end`}>
+                      Actions
+                    </TableCell>
+                  </TableRow>
+                </TableHeader>
+                <TableBody className="divide-y divide-gray-100 dark:divide-white/[0.05]">
+                  {loading ? (
+                    <TableRow>
+                      <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400" colSpan={4}>
+                        Loading…
+                      </TableCell>
+                    </TableRow>
+                  ) : presets.length === 0 ? (
+                    <TableRow>
+                      <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400" colSpan={4}>
+                        No presets yet.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    presets.map((p) => (
+                      <TableRow key={p.id}>
+                        <TableCell className="px-5 py-4 text-sm text-gray-800 dark:text-white/90">
+                          {p.name}
+                        </TableCell>
+                        <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
+                          {describePreset(p)}
+                        </TableCell>
+                        <TableCell className="px-5 py-4 text-sm text-gray-600 dark:text-gray-400">
+                          {p.contentsDescription || "—"}
+                        </TableCell>
+                        <TableCell className="px-5 py-4 text-end">
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => startEdit(p)}>
+                              Edit
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => void handleDelete(p)}>
+                              Delete
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </ComponentCard>
+      </div>
+    </div>
+  );
+}
@@ -131,6 +131,7 @@ export default function AccountsStore() {
       id,
       createdAt: new Date().toISOString(),
       kind: "account",
+      productId: p.id,
       productName: p.service,
       priceUsd: p.priceUsd,
       country: p.country,
@@ -169,7 +170,9 @@ export default function AccountsStore() {
         body: JSON.stringify({
           items: [
             {
+              id: paymentModal.product.id,
               kind: "account",
+              productId: paymentModal.product.id,
               productName: paymentModal.product.service,
               priceUsd: paymentModal.product.priceUsd,
               country: paymentModal.product.country,